@@ -38,6 +38,16 @@ module.exports = {
     "react/display-name": "off",
   },
   overrides: [
+    {
+      files: ["**/__tests__/**", "test/**"],
+      env: {
+        jest: true,
+      },
+      rules: {
+        // jest.mock factories are hoisted above imports and must require
+        "@typescript-eslint/no-require-imports": "off",
+      },
+    },
     {
       files: ["metro.config.js"],
       rules: {
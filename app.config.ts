@@ -15,6 +15,8 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     bundleIdentifier: "com.ubuntu.patrickagency",
     infoPlist: {
       ITSAppUsesNonExemptEncryption: false,
+      // Lets the background notification task run for silent pushes
+      UIBackgroundModes: ["remote-notification"],
     },
   },
   android: {
@@ -44,6 +46,14 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     "expo-router",
     "expo-asset",
     "expo-web-browser",
+    [
+      // Face ID guards the document vault key when biometric unlock is on
+      "expo-secure-store",
+      {
+        faceIDPermission:
+          "Allow $(PRODUCT_NAME) to use Face ID to unlock your documents.",
+      },
+    ],
     [
       "expo-notifications",
       {
@@ -21,6 +21,7 @@ import {
 import { IconSymbol } from "@/components/IconSymbol";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useFocusEffect } from "@react-navigation/native";
+import { hashKey } from "@tanstack/react-query";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useAuthStore } from "@/stores/auth/authStore";
 import { useCasesStore } from "@/stores/cases/casesStore";
@@ -28,35 +29,19 @@ import { useNotificationsStore } from "@/stores/notifications/notificationsStore
 import { useMessagesStore } from "@/stores/messages/messagesStore";
 import { useDocumentsStore } from "@/stores/documents/documentsStore";
 import { useSubscriptionStore } from "@/stores/subscription/subscriptionStore";
+import { useAppointmentsStore } from "@/stores/appointments/appointmentsStore";
 import { useTranslation } from "@/lib/hooks/useTranslation";
 import { useScrollContext } from "@/contexts/ScrollContext";
 import { dashboardService } from "@/lib/services/dashboardService";
 import { appointmentsService } from "@/lib/services/appointmentsService";
 import { logger } from "@/lib/utils/logger";
-import { secureStorage } from "@/lib/storage/secureStorage";
+import { fetchCachedQuery, queryClient } from "@/lib/query/queryClient";
+import { queryKeys, STALE_TIMES } from "@/lib/query/queryKeys";
 import type { DashboardStats, Case, Appointment } from "@/lib/types";
 import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
 import { useAppTheme, useThemeColors } from "@/lib/hooks/useAppTheme";
 import { withOpacity } from "@/styles/theme";
 
-const DASHBOARD_STATS_CACHE_KEY_PREFIX = "dashboard_stats_cache_"; // Will be suffixed with user ID
-const DASHBOARD_STATS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-const APPOINTMENT_CACHE_KEY_PREFIX = "appointment_cache_"; // Will be suffixed with user ID
-const APPOINTMENT_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
-
-// Helper to get user-specific cache keys
-const getDashboardStatsCacheKey = (
-  userId: string | null | undefined,
-): string => {
-  if (!userId) return "dashboard_stats_cache_no_user";
-  return `${DASHBOARD_STATS_CACHE_KEY_PREFIX}${userId}`;
-};
-
-const getAppointmentCacheKey = (userId: string | null | undefined): string => {
-  if (!userId) return "appointment_cache_no_user";
-  return `${APPOINTMENT_CACHE_KEY_PREFIX}${userId}`;
-};
-
 const appLogo = require("@/assets/app_logo.png");
 
 const normalizeStatus = (status?: string | null) =>
@@ -114,10 +99,6 @@ export default function HomeScreen() {
   const [upcomingAppointment, setUpcomingAppointment] =
     useState<Appointment | null>(null);
   const [isAppointmentLoading, setIsAppointmentLoading] = useState(false);
-  const statsCacheRef = useRef<{
-    data: DashboardStats | null;
-    fetchedAt: number;
-  }>({ data: null, fetchedAt: 0 });
   const statsUpdateRef = useRef(false);
   // Use stable selectors to prevent unnecessary re-renders
   const user = useAuthStore((state) => state.user);
@@ -224,91 +205,25 @@ export default function HomeScreen() {
         return;
       }
 
-      const cacheKey = getDashboardStatsCacheKey(user.uid);
-      const now = Date.now();
-
-      // Check in-memory cache first
-      if (
-        !force &&
-        statsCacheRef.current.data &&
-        now - statsCacheRef.current.fetchedAt < DASHBOARD_STATS_CACHE_TTL
-      ) {
-        setStats(statsCacheRef.current.data);
-        return;
-      }
-
-      // Check persistent cache (user-specific)
-      if (!force) {
-        try {
-          const cached = await secureStorage.get<{
-            data: DashboardStats;
-            fetchedAt: number;
-            userId?: string;
-          }>(cacheKey);
-          // Verify cache is for current user
-          if (
-            cached &&
-            cached.userId === user.uid &&
-            now - cached.fetchedAt < DASHBOARD_STATS_CACHE_TTL
-          ) {
-            logger.debug("Dashboard stats cache hit (persistent)", {
-              userId: user.uid,
-            });
-            statsCacheRef.current = {
-              data: cached.data,
-              fetchedAt: cached.fetchedAt,
-            };
-            setStats(cached.data);
-            return;
-          }
-        } catch (error) {
-          logger.debug("Failed to read dashboard stats cache", error);
-        }
-      }
-
-      // Fetch from API
+      let hasCachedData = false;
       try {
-        const data = await dashboardService.getStats();
-        statsCacheRef.current = { data, fetchedAt: now };
+        const data = await fetchCachedQuery({
+          queryKey: queryKeys.dashboardStats(user.uid),
+          queryFn: () => dashboardService.getStats(),
+          staleTime: STALE_TIMES.dashboardStats,
+          force,
+          onCached: (cachedStats) => {
+            hasCachedData = true;
+            setStats(cachedStats);
+          },
+        });
         setStats(data);
-
-        // Update persistent cache with user ID
-        try {
-          await secureStorage.set(cacheKey, {
-            data,
-            fetchedAt: now,
-            userId: user.uid, // Store user ID for verification
-          });
-        } catch (error) {
-          logger.debug("Failed to save dashboard stats cache", error);
-        }
       } catch (error) {
         logger.error("Failed to fetch dashboard stats", error);
-
-        // Try to use cached data on error (only if same user)
-        try {
-          const cached = await secureStorage.get<{
-            data: DashboardStats;
-            fetchedAt: number;
-            userId?: string;
-          }>(cacheKey);
-          // Verify cache is for current user
-          if (cached && cached.userId === user.uid && cached.data) {
-            logger.info("Using cached dashboard stats due to fetch error", {
-              userId: user.uid,
-            });
-            statsCacheRef.current = {
-              data: cached.data,
-              fetchedAt: cached.fetchedAt,
-            };
-            setStats(cached.data);
-            return;
-          }
-        } catch (cacheError) {
-          logger.debug(
-            "Failed to read dashboard stats cache on error",
-            cacheError,
-          );
+        if (hasCachedData) {
+          logger.info("Using cached dashboard stats due to fetch error", {
+            userId: user.uid,
+          });
         }
       }
     },
@@ -326,71 +241,36 @@ export default function HomeScreen() {
         return;
       }
 
-      const cacheKey = getAppointmentCacheKey(user.uid);
-      const now = Date.now();
-
-      // Check persistent cache first (only if same user)
-      if (!force) {
-        try {
-          const cached = await secureStorage.get<{
-            appointment: Appointment | null;
-            fetchedAt: number;
-            userId?: string;
-          }>(cacheKey);
-          // Verify cache is for current user (extra safety check)
-          if (
-            cached &&
-            cached.userId === user.uid &&
-            now - cached.fetchedAt < APPOINTMENT_CACHE_TTL
-          ) {
-            logger.debug("Appointment cache hit", { userId: user.uid });
-            setUpcomingAppointment(cached.appointment);
-            setIsAppointmentLoading(false);
-            return;
-          }
-        } catch (error) {
-          logger.debug("Failed to read appointment cache", error);
-        }
-      }
-
       if (!silent) {
         setIsAppointmentLoading(true);
       }
 
+      let hasCachedData = false;
       try {
-        const appointment = await appointmentsService.getUpcoming();
+        const appointment = await fetchCachedQuery({
+          queryKey: queryKeys.nextAppointment(user.uid),
+          queryFn: () => appointmentsService.getUpcoming(),
+          staleTime: STALE_TIMES.nextAppointment,
+          force,
+          onCached: (cachedAppointment) => {
+            hasCachedData = true;
+            setUpcomingAppointment(cachedAppointment);
+            setIsAppointmentLoading(false);
+          },
+        });
         setUpcomingAppointment(appointment);
-
-        // Update persistent cache with user ID for verification
-        try {
-          await secureStorage.set(cacheKey, {
-            appointment,
-            fetchedAt: now,
-            userId: user.uid, // Store user ID in cache for verification
-          });
-        } catch (error) {
-          logger.debug("Failed to save appointment cache", error);
+        if (appointment) {
+          // The home screen is often the only place appointments load
+          void useAppointmentsStore.getState().scheduleReminders([appointment]);
         }
       } catch (error) {
         logger.error("Failed to load upcoming appointment", error);
 
-        // Try to use cached data on error (only if same user)
-        try {
-          const cached = await secureStorage.get<{
-            appointment: Appointment | null;
-            fetchedAt: number;
-            userId?: string;
-          }>(cacheKey);
-          // Verify cache is for current user
-          if (cached && cached.userId === user.uid) {
-            logger.info("Using cached appointment due to fetch error", {
-              userId: user.uid,
-            });
-            setUpcomingAppointment(cached.appointment);
-            return;
-          }
-        } catch (cacheError) {
-          logger.debug("Failed to read appointment cache on error", cacheError);
+        if (hasCachedData) {
+          logger.info("Using cached appointment due to fetch error", {
+            userId: user.uid,
+          });
+          return;
         }
 
         setUpcomingAppointment(null);
@@ -437,6 +317,26 @@ export default function HomeScreen() {
     }, []), // Empty deps - use ref instead
   );
 
+  // Refetch the dashboard cards when a push notification invalidates them
+  useEffect(() => {
+    if (!user?.uid) {
+      return;
+    }
+    const statsHash = hashKey(queryKeys.dashboardStats(user.uid));
+    const appointmentHash = hashKey(queryKeys.nextAppointment(user.uid));
+
+    return queryClient.getQueryCache().subscribe((event) => {
+      if (event.type !== "updated" || event.action.type !== "invalidate") {
+        return;
+      }
+      if (event.query.queryHash === statsHash) {
+        refreshStatsRef.current();
+      } else if (event.query.queryHash === appointmentHash) {
+        fetchUpcomingAppointmentRef.current({ silent: true });
+      }
+    });
+  }, [user?.uid]);
+
   // Handle Make Payment button click - check payment status and show tier selection if needed
   const handleMakePayment = useCallback(async () => {
     if (!isAuthenticated) {
@@ -582,48 +482,8 @@ export default function HomeScreen() {
         return;
       }
 
-      // Load cached data first for instant display
-      try {
-        // Load cached stats (only if user ID matches)
-        if (userId) {
-          const cacheKey = getDashboardStatsCacheKey(userId);
-          const cachedStats = await secureStorage.get<{
-            data: DashboardStats;
-            fetchedAt: number;
-            userId?: string;
-          }>(cacheKey);
-          // Verify cache is for current user
-          if (
-            cachedStats &&
-            cachedStats.userId === userId &&
-            cachedStats.data
-          ) {
-            statsCacheRef.current = {
-              data: cachedStats.data,
-              fetchedAt: cachedStats.fetchedAt,
-            };
-            setStats(cachedStats.data);
-          }
-        }
-
-        // Load cached appointment (only if user ID matches)
-        if (userId) {
-          const cacheKey = getAppointmentCacheKey(userId);
-          const cachedAppointment = await secureStorage.get<{
-            appointment: Appointment | null;
-            fetchedAt: number;
-            userId?: string;
-          }>(cacheKey);
-          // Verify cache is for current user
-          if (cachedAppointment && cachedAppointment.userId === userId) {
-            setUpcomingAppointment(cachedAppointment.appointment);
-          }
-        }
-      } catch (error) {
-        logger.debug("Failed to load cached data on bootstrap", error);
-      }
-
-      // Then fetch fresh data in background (non-blocking)
+      // Cached data is shown as soon as each fetch finds it; stale entries
+      // then refresh in the background (non-blocking)
       const tasks: Array<Promise<unknown>> = [
         fetchCasesRef.current(),
         fetchUnreadCountRef.current(),
@@ -673,22 +533,12 @@ export default function HomeScreen() {
         newUserId: user.uid,
       });
       // Clear previous user's caches
-      const previousAppointmentKey = getAppointmentCacheKey(
-        bootstrapUserRef.current,
-      );
-      const previousStatsKey = getDashboardStatsCacheKey(
-        bootstrapUserRef.current,
-      );
-      Promise.all([
-        secureStorage.delete(previousAppointmentKey),
-        secureStorage.delete(previousStatsKey),
-      ]).catch((error) => {
-        logger.debug("Failed to clear previous user caches", error);
+      queryClient.removeQueries({
+        queryKey: queryKeys.dashboard(bootstrapUserRef.current),
       });
       // Clear current state
       setUpcomingAppointment(null);
       setStats(null);
-      statsCacheRef.current = { data: null, fetchedAt: 0 };
     }
 
     if (bootstrapUserRef.current === user.uid) {
@@ -1194,7 +1044,10 @@ export default function HomeScreen() {
             />
 
             {/* Next Appointment */}
-            <View style={styles.statusRow}>
+            <Pressable
+              style={styles.statusRow}
+              onPress={() => router.push("/appointments")}
+            >
               <View style={[styles.iconCircle, { backgroundColor: iconTint }]}>
                 <IconSymbol name="calendar" size={24} color={colors.primary} />
               </View>
@@ -1245,7 +1098,7 @@ export default function HomeScreen() {
                   </>
                 )}
               </View>
-            </View>
+            </Pressable>
           </View>
 
           {/* Stats Cards Row */}
@@ -32,6 +32,10 @@ import { useShallow } from "zustand/react/shallow";
 import { useScrollContext } from "@/contexts/ScrollContext";
 import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
 import { useToast } from "@/components/Toast";
+import type {
+  CaseOutboxEntry,
+  CaseOutboxStatus,
+} from "@/lib/services/caseOutbox";
 
 type CaseFilter = "all" | "active" | "action-required" | "complete";
 
@@ -55,6 +59,32 @@ const formatDateLabel = (date?: string) => {
 const normalizeStatus = (status?: string | null) =>
   (status ?? "").toLowerCase();
 
+const SYNC_STATUS_PRIORITY: Record<CaseOutboxStatus, number> = {
+  pending: 0,
+  syncing: 1,
+  failed: 2,
+};
+
+type CaseSyncState = {
+  status: CaseOutboxStatus;
+  entry: CaseOutboxEntry;
+};
+
+// Collapse queued mutations to the most relevant state per case
+const buildSyncStateByCaseId = (outbox: CaseOutboxEntry[]) => {
+  const result: Record<string, CaseSyncState> = {};
+  outbox.forEach((entry) => {
+    const current = result[entry.caseId];
+    if (
+      !current ||
+      SYNC_STATUS_PRIORITY[entry.status] > SYNC_STATUS_PRIORITY[current.status]
+    ) {
+      result[entry.caseId] = { status: entry.status, entry };
+    }
+  });
+  return result;
+};
+
 export default function CasesScreen() {
   const insets = useSafeAreaInsets();
   const theme = useAppTheme();
@@ -63,15 +93,33 @@ export default function CasesScreen() {
   const { t } = useTranslation();
   const [selectedFilter, setSelectedFilter] = useState<CaseFilter>("all");
   const [searchQuery, setSearchQuery] = useState("");
-  const { cases, isLoading, error, fetchCases, clearError } = useCasesStore(
+  const {
+    cases,
+    isLoading,
+    error,
+    fetchCases,
+    clearError,
+    outbox,
+    syncOutbox,
+    retryOutboxEntry,
+    discardOutboxEntry,
+  } = useCasesStore(
     useShallow((state) => ({
       cases: state.cases,
       isLoading: state.isLoading,
       error: state.error,
       fetchCases: state.fetchCases,
       clearError: state.clearError,
+      outbox: state.outbox,
+      syncOutbox: state.syncOutbox,
+      retryOutboxEntry: state.retryOutboxEntry,
+      discardOutboxEntry: state.discardOutboxEntry,
     })),
   );
+  const syncStateByCaseId = useMemo(
+    () => buildSyncStateByCaseId(outbox),
+    [outbox],
+  );
   const { showAlert } = useBottomSheetAlert();
   const { showToast } = useToast();
   const uploadableCases = useMemo(
@@ -197,9 +245,65 @@ export default function CasesScreen() {
     [t],
   );
 
-  const handleRefresh = useCallback(() => {
+  const handleRefresh = useCallback(async () => {
+    await syncOutbox();
     return fetchCases(buildFilters());
-  }, [fetchCases, buildFilters]);
+  }, [fetchCases, buildFilters, syncOutbox]);
+
+  const getSyncLabel = useCallback(
+    (status: CaseOutboxStatus) => {
+      switch (status) {
+        case "syncing":
+          return t("cases.syncInProgress", { defaultValue: "Syncing…" });
+        case "failed":
+          return t("cases.syncFailed", {
+            defaultValue: "Sync failed · Tap to review",
+          });
+        default:
+          return t("cases.syncPending", {
+            defaultValue: "Waiting for connection to sync",
+          });
+      }
+    },
+    [t],
+  );
+
+  const handleSyncStatePress = useCallback(
+    (syncState: CaseSyncState) => {
+      if (syncState.status !== "failed") {
+        return;
+      }
+      showAlert({
+        title: t("cases.syncFailedTitle", {
+          defaultValue: "Change not synced",
+        }),
+        message:
+          syncState.entry.lastError ||
+          t("cases.syncFailedMessage", {
+            defaultValue:
+              "This change could not be sent to the server. Retry now or discard it.",
+          }),
+        type: "warning",
+        actions: [
+          {
+            text: t("cases.syncDiscard", { defaultValue: "Discard change" }),
+            variant: "destructive",
+            onPress: () => {
+              discardOutboxEntry(syncState.entry.id);
+            },
+          },
+          {
+            text: t("common.retry"),
+            variant: "primary",
+            onPress: () => {
+              retryOutboxEntry(syncState.entry.id);
+            },
+          },
+        ],
+      });
+    },
+    [showAlert, t, discardOutboxEntry, retryOutboxEntry],
+  );
 
   const handleUploadNavigation = useCallback(() => {
     if (uploadableCases.length === 0) {
@@ -500,10 +604,14 @@ export default function CasesScreen() {
   const renderCaseItem = useCallback(
     ({ item }: { item: any }) => {
       const statusColor = getStatusColor(item.status);
-      const progressValue = Math.min(
-        Math.max(Number(item.progress) || 0, 0),
-        100,
-      );
+      // An unknown status has no place on the progress scale
+      const progressValue =
+        item.progress == null
+          ? null
+          : Math.min(Math.max(Number(item.progress) || 0, 0), 100);
+      const syncState = syncStateByCaseId[item.id];
+      const syncColor =
+        syncState?.status === "failed" ? colors.danger : colors.warning;
       return (
         <Pressable
           style={[
@@ -527,7 +635,10 @@ export default function CasesScreen() {
                   t("cases.title")}
               </Text>
               <Text style={[styles.caseNumber, { color: colors.muted }]}>
-                {item.referenceNumber}
+                {item.referenceNumber ||
+                  t("cases.referencePending", {
+                    defaultValue: "Reference pending",
+                  })}
               </Text>
             </View>
             <View
@@ -551,43 +662,93 @@ export default function CasesScreen() {
           </View>
 
           <View style={styles.progressContainer}>
-            <View style={styles.progressHeader}>
-              <Text style={[styles.progressLabel, { color: colors.muted }]}>
-                {t("cases.progress")}
-              </Text>
-              <Text style={[styles.progressPercentage, { color: colors.text }]}>
-                {progressValue}%
-              </Text>
-            </View>
-            <View
+            {progressValue !== null ? (
+              <>
+                <View style={styles.progressHeader}>
+                  <Text style={[styles.progressLabel, { color: colors.muted }]}>
+                    {t("cases.progress")}
+                  </Text>
+                  <Text
+                    style={[styles.progressPercentage, { color: colors.text }]}
+                  >
+                    {progressValue}%
+                  </Text>
+                </View>
+                <View
+                  style={[
+                    styles.progressBar,
+                    {
+                      backgroundColor: withOpacity(
+                        colors.muted,
+                        theme.dark ? 0.3 : 0.15,
+                      ),
+                    },
+                  ]}
+                >
+                  <View
+                    style={[
+                      styles.progressFill,
+                      {
+                        width: `${progressValue}%`,
+                        backgroundColor: statusColor,
+                      },
+                    ]}
+                  />
+                </View>
+              </>
+            ) : null}
+            <Text style={[styles.lastUpdated, { color: colors.muted }]}>
+              {t("cases.lastUpdated")}: {formatDateLabel(item.lastUpdated)}
+            </Text>
+          </View>
+
+          {syncState ? (
+            <Pressable
+              accessibilityRole="button"
+              disabled={syncState.status !== "failed"}
+              onPress={() => handleSyncStatePress(syncState)}
               style={[
-                styles.progressBar,
+                styles.syncBadge,
                 {
                   backgroundColor: withOpacity(
-                    colors.muted,
-                    theme.dark ? 0.3 : 0.15,
+                    syncColor,
+                    theme.dark ? 0.25 : 0.12,
                   ),
                 },
               ]}
             >
-              <View
-                style={[
-                  styles.progressFill,
-                  {
-                    width: `${progressValue}%`,
-                    backgroundColor: statusColor,
-                  },
-                ]}
-              />
-            </View>
-            <Text style={[styles.lastUpdated, { color: colors.muted }]}>
-              {t("cases.lastUpdated")}: {formatDateLabel(item.lastUpdated)}
-            </Text>
-          </View>
+              {syncState.status === "syncing" ? (
+                <ActivityIndicator size="small" color={syncColor} />
+              ) : (
+                <IconSymbol
+                  name={
+                    syncState.status === "failed"
+                      ? "exclamationmark.triangle.fill"
+                      : "clock.fill"
+                  }
+                  size={14}
+                  color={syncColor}
+                />
+              )}
+              <Text style={[styles.syncBadgeText, { color: syncColor }]}>
+                {getSyncLabel(syncState.status)}
+              </Text>
+            </Pressable>
+          ) : null}
         </Pressable>
       );
     },
-    [colors, theme.dark, getStatusColor, getStatusLabel, handleCasePress, t],
+    [
+      colors,
+      theme.dark,
+      getStatusColor,
+      getStatusLabel,
+      handleCasePress,
+      t,
+      syncStateByCaseId,
+      getSyncLabel,
+      handleSyncStatePress,
+    ],
   );
 
   const listFooterComponent = useMemo(() => <View style={{ height: 8 }} />, []);
@@ -876,6 +1037,20 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 8,
   },
+  syncBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+    marginTop: 12,
+  },
+  syncBadgeText: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
   fab: {
     position: "absolute",
     right: 20,
@@ -44,6 +44,7 @@ import {
   downloadHistoryService,
   DownloadHistoryRecord,
 } from "@/lib/services/downloadHistoryService";
+import { documentVault } from "@/lib/services/documentVault";
 import { BackButton } from "@/components/BackButton";
 import { useAppTheme, useThemeColors } from "@/lib/hooks/useAppTheme";
 import { withOpacity } from "@/styles/theme";
@@ -52,6 +53,8 @@ import SearchField from "@/components/SearchField";
 import { palette } from "@/styles/colors";
 import { useTemplatesStore } from "@/stores/templates/templatesStore";
 import { useToast } from "@/components/Toast";
+import { DocumentVersionHistorySheet } from "@/components/DocumentVersionHistorySheet";
+import type { Document } from "@/lib/types";
 
 type DocumentFilter = "all" | "pdf" | "doc" | "image";
 type DocumentStatus = "all" | "pending" | "approved" | "rejected";
@@ -248,6 +251,7 @@ export default function DocumentsScreen() {
   const [deletingDocumentId, setDeletingDocumentId] = useState<string | null>(
     null,
   );
+  const [historyDocument, setHistoryDocument] = useState<Document | null>(null);
 
   const [downloads, setDownloads] = useState<DownloadRecord[]>([]);
   const [downloadsLoading, setDownloadsLoading] = useState(false);
@@ -542,27 +546,42 @@ export default function DocumentsScreen() {
     [sanitizeDownloadName, showAlert, showToast, t, triggerWebDownload],
   );
 
+  // Vault files are sealed; other apps get a short-lived decrypted copy
+  const resolveLocalFile = useCallback(
+    async (item: DownloadRecord) => {
+      if (!item.localUri || !documentVault.isVaultUri(item.localUri)) {
+        return item.localUri;
+      }
+      const extension = item.mimeType?.split("/").pop();
+      const fileName =
+        item.name.includes(".") || !extension
+          ? item.name
+          : sanitizeDownloadName(item.name, extension);
+      return documentVault.openFile(item.localUri, fileName, user?.uid);
+    },
+    [sanitizeDownloadName, user?.uid],
+  );
+
   const handleDownloadOpen = useCallback(
     async (item: DownloadRecord) => {
       try {
         const candidateUris: string[] = [];
+        const localUri = await resolveLocalFile(item);
 
-        if (item.localUri) {
+        if (localUri) {
           if (Platform.OS === "android") {
             try {
-              const contentUri = await FileSystem.getContentUriAsync(
-                item.localUri,
-              );
+              const contentUri = await FileSystem.getContentUriAsync(localUri);
               candidateUris.push(contentUri);
             } catch (uriError) {
               logger.warn("Failed to resolve content URI for download", {
                 downloadId: item.id,
                 error: uriError,
               });
-              candidateUris.push(item.localUri);
+              candidateUris.push(localUri);
             }
           } else {
-            candidateUris.push(item.localUri);
+            candidateUris.push(localUri);
           }
         }
 
@@ -602,13 +621,14 @@ export default function DocumentsScreen() {
         });
       }
     },
-    [showAlert, t],
+    [resolveLocalFile, showAlert, t],
   );
 
   const handleDownloadShare = useCallback(
     async (item: DownloadRecord) => {
       try {
-        if (!item.localUri) {
+        const localUri = await resolveLocalFile(item);
+        if (!localUri) {
           showAlert({
             title: t("documents.shareUnavailableTitle", {
               defaultValue: "Share unavailable",
@@ -636,7 +656,7 @@ export default function DocumentsScreen() {
           return;
         }
 
-        await Sharing.shareAsync(item.localUri, {
+        await Sharing.shareAsync(localUri, {
           mimeType: item.mimeType,
           dialogTitle: item.name,
         });
@@ -655,7 +675,7 @@ export default function DocumentsScreen() {
         });
       }
     },
-    [showAlert, t],
+    [resolveLocalFile, showAlert, t],
   );
 
   const filteredTemplates = useMemo(() => {
@@ -765,6 +785,22 @@ export default function DocumentsScreen() {
     router.push("/documents/upload");
   }, [cases, router, showAlert, t]);
 
+  const handleReplaceDocument = useCallback(
+    (document: Document) => {
+      setHistoryDocument(null);
+      router.push({
+        pathname: "/documents/upload",
+        params: {
+          caseId: document.caseId,
+          documentType: document.documentType,
+          replaceDocumentId: document.id,
+          replaceDocumentName: document.originalName,
+        },
+      });
+    },
+    [router],
+  );
+
   const handleTemplateNavigation = useCallback(() => {
     setActiveTab("templates");
   }, []);
@@ -1371,9 +1407,56 @@ export default function DocumentsScreen() {
                           {document.case.referenceNumber}
                         </Text>
                       ) : null}
+                      {document.status === "REJECTED" ? (
+                        <Text
+                          style={[
+                            styles.documentRejection,
+                            { color: colors.danger },
+                          ]}
+                          numberOfLines={2}
+                        >
+                          {document.rejectionReason
+                            ? t("documents.rejectedWithReason", {
+                                reason: document.rejectionReason,
+                                defaultValue: "Rejected: {{reason}}",
+                              })
+                            : t("documents.status.rejected", {
+                                defaultValue: "Rejected",
+                              })}
+                        </Text>
+                      ) : null}
                     </View>
 
                     <View style={styles.documentActions}>
+                      <Pressable
+                        style={styles.downloadActionButton}
+                        disabled={isDeleting}
+                        accessibilityRole="button"
+                        accessibilityLabel={t("documentVersions.title", {
+                          defaultValue: "Version history",
+                        })}
+                        onPress={() => setHistoryDocument(document)}
+                      >
+                        <MaterialCommunityIcons
+                          name="history"
+                          size={20}
+                          color={
+                            document.status === "REJECTED"
+                              ? colors.danger
+                              : colors.primary
+                          }
+                        />
+                        {(document.version ?? 1) > 1 ? (
+                          <Text
+                            style={[
+                              styles.versionBadge,
+                              { color: colors.muted },
+                            ]}
+                          >
+                            v{document.version}
+                          </Text>
+                        ) : null}
+                      </Pressable>
                       <Pressable
                         style={styles.downloadActionButton}
                         disabled={isDeleting}
@@ -1949,6 +2032,11 @@ export default function DocumentsScreen() {
           )}
         </ScrollView>
       </SafeAreaView>
+      <DocumentVersionHistorySheet
+        document={historyDocument}
+        onClose={() => setHistoryDocument(null)}
+        onReplace={handleReplaceDocument}
+      />
     </>
   );
 }
@@ -2157,6 +2245,16 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  documentRejection: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  versionBadge: {
+    fontSize: 10,
+    fontWeight: "600",
+    textAlign: "center",
+  },
   moreButton: {
     padding: 8,
   },
@@ -33,12 +33,23 @@ import { withOpacity } from "@/styles/theme";
 import { useShallow } from "zustand/react/shallow";
 import type { ListRenderItem, ListRenderItemInfo } from "react-native";
 import type { Conversation } from "@/lib/services/chat";
+import type { EmailDraft } from "@/lib/services/emailDrafts";
+import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
 import { useScrollContext } from "@/contexts/ScrollContext";
 import SearchField from "@/components/SearchField";
+import { PresenceLabel } from "@/components/PresenceLabel";
+import { SearchResultsList } from "@/components/SearchResultsList";
+import { useLocalSearch } from "@/lib/hooks/useLocalSearch";
+import { EmailThread, groupEmailsIntoThreads } from "@/lib/utils/emailThreads";
+import {
+  MIN_SEARCH_QUERY_LENGTH,
+  normalizeSearchText,
+  SearchResult,
+} from "@/lib/utils/search";
 import { logger } from "@/lib/utils/logger";
 
 type SegmentKey = "chat" | "email";
-type EmailFolderKey = "inbox" | "sent";
+type EmailFolderKey = "inbox" | "sent" | "drafts";
 
 const formatRelativeTime = (
   timestamp?: number | null,
@@ -82,6 +93,7 @@ export default function MessagesScreen() {
       isAuthenticated: state.isAuthenticated,
     })),
   );
+  const { showAlert } = useBottomSheetAlert();
   const { setScrollDirection, setAtBottom } = useScrollContext();
   const lastScrollOffsetRef = useRef(0);
   const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -90,6 +102,7 @@ export default function MessagesScreen() {
     messages,
     emailInbox,
     emailSent,
+    emailDrafts,
     conversations,
     unreadChatTotal,
     unreadEmailTotal,
@@ -103,12 +116,14 @@ export default function MessagesScreen() {
     markAsRead,
     markAsUnread,
     refreshEmailSegments,
+    deleteEmailDraft,
     clearError,
   } = useMessagesStore(
     useShallow((state) => ({
       messages: state.messages,
       emailInbox: state.emailInbox,
       emailSent: state.emailSent,
+      emailDrafts: state.emailDrafts,
       conversations: state.conversations,
       unreadChatTotal: state.unreadChatTotal,
       unreadEmailTotal: state.unreadEmailTotal,
@@ -122,6 +137,7 @@ export default function MessagesScreen() {
       markAsRead: state.markAsRead,
       markAsUnread: state.markAsUnread,
       refreshEmailSegments: state.refreshEmailSegments,
+      deleteEmailDraft: state.deleteEmailDraft,
       clearError: state.clearError,
     })),
   );
@@ -201,12 +217,41 @@ export default function MessagesScreen() {
     });
   }, [conversations]);
 
-  const emailData = useMemo(
-    () => (activeEmailFolder === "inbox" ? emailInbox : emailSent),
-    [activeEmailFolder, emailInbox, emailSent],
+  const emailThreads = useMemo(
+    () => groupEmailsIntoThreads([...emailInbox, ...emailSent]),
+    [emailInbox, emailSent],
   );
 
-  const normalizedSearch = searchQuery.trim().toLowerCase();
+  const threadByEmailId = useMemo(() => {
+    const byId = new Map<string, EmailThread>();
+    emailThreads.forEach((thread) => {
+      thread.messages.forEach((email) => byId.set(email.id, thread));
+    });
+    return byId;
+  }, [emailThreads]);
+
+  // One row per thread, showing its latest email in the active folder
+  const emailData = useMemo(() => {
+    const direction = activeEmailFolder === "inbox" ? "incoming" : "outgoing";
+    return emailThreads
+      .map((thread) =>
+        [...thread.messages]
+          .reverse()
+          .find((email) =>
+            direction === "outgoing"
+              ? email.direction === "outgoing"
+              : email.direction !== "outgoing",
+          ),
+      )
+      .filter((email): email is Message => Boolean(email));
+  }, [activeEmailFolder, emailThreads]);
+
+  const normalizedSearch = normalizeSearchText(searchQuery.trim());
+  // Longer queries search the full local index instead of filtering the list
+  const isFullTextSearch = normalizedSearch.length >= MIN_SEARCH_QUERY_LENGTH;
+  const { groups: searchGroups } = useLocalSearch(
+    isFullTextSearch ? searchQuery : "",
+  );
 
   const filteredConversations = useMemo(() => {
     if (!normalizedSearch) {
@@ -220,7 +265,7 @@ export default function MessagesScreen() {
         conversation.lastMessage,
       ]
         .filter(Boolean)
-        .map((value) => String(value).toLowerCase());
+        .map((value) => normalizeSearchText(String(value)));
       return haystacks.some((value) => value.includes(normalizedSearch));
     });
   }, [normalizedSearch, sortedConversations]);
@@ -230,18 +275,34 @@ export default function MessagesScreen() {
       return emailData;
     }
     return emailData.filter((item) => {
-      const haystacks = [
-        item.subject,
-        item.preview,
-        item.message,
-        item.name,
-        item.caseReference,
-      ]
+      const thread = threadByEmailId.get(item.id);
+      const haystacks = (thread?.messages ?? [item])
+        .flatMap((email) => [
+          email.subject,
+          email.preview,
+          email.message,
+          email.name,
+          email.caseReference,
+        ])
         .filter(Boolean)
-        .map((value) => String(value).toLowerCase());
+        .map((value) => normalizeSearchText(String(value)));
       return haystacks.some((value) => value.includes(normalizedSearch));
     });
-  }, [normalizedSearch, emailData]);
+  }, [normalizedSearch, emailData, threadByEmailId]);
+
+  const filteredDrafts = useMemo(() => {
+    const sorted = [...emailDrafts].sort((a, b) => b.updatedAt - a.updatedAt);
+    if (!normalizedSearch) {
+      return sorted;
+    }
+    return sorted.filter((draft) =>
+      [draft.subject, draft.content, draft.recipientName, draft.caseReference]
+        .filter(Boolean)
+        .some((value) =>
+          normalizeSearchText(String(value)).includes(normalizedSearch),
+        ),
+    );
+  }, [normalizedSearch, emailDrafts]);
 
   const handleEmailPress = useCallback(
     (message: Message) => {
@@ -258,13 +319,50 @@ export default function MessagesScreen() {
 
   const handleToggleEmailReadStatus = useCallback(
     (message: Message) => {
-      if (message.unread) {
-        markAsRead(message.id).catch(() => {});
+      const unreadEmails = (
+        threadByEmailId.get(message.id)?.messages ?? [message]
+      ).filter((email) => email.direction !== "outgoing" && email.unread);
+      if (unreadEmails.length > 0) {
+        unreadEmails.forEach((email) => {
+          markAsRead(email.id).catch(() => {});
+        });
       } else {
         markAsUnread(message.id).catch(() => {});
       }
     },
-    [markAsRead, markAsUnread],
+    [markAsRead, markAsUnread, threadByEmailId],
+  );
+
+  const handleDraftPress = useCallback(
+    (draft: EmailDraft) => {
+      router.push({
+        pathname: "/messages/compose",
+        params: { draftId: draft.id },
+      });
+    },
+    [router],
+  );
+
+  const handleDiscardDraft = useCallback(
+    (draft: EmailDraft) => {
+      showAlert({
+        title: t("messages.drafts.discardTitle", {
+          defaultValue: "Discard this draft?",
+        }),
+        message: t("messages.drafts.discardMessage", {
+          defaultValue: "The email will be deleted and not sent.",
+        }),
+        actions: [
+          { text: t("common.cancel"), variant: "secondary" },
+          {
+            text: t("messages.drafts.discard", { defaultValue: "Discard" }),
+            variant: "destructive",
+            onPress: () => deleteEmailDraft(draft.id),
+          },
+        ],
+      });
+    },
+    [deleteEmailDraft, showAlert, t],
   );
 
   const handleConversationPress = useCallback(
@@ -284,6 +382,36 @@ export default function MessagesScreen() {
     [router],
   );
 
+  const handleSearchResultPress = useCallback(
+    ({ entry }: SearchResult) => {
+      if (entry.source === "chat") {
+        router.push({
+          pathname: "/chat",
+          params: {
+            id: entry.target.roomId || entry.caseId || undefined,
+            roomId: entry.target.roomId,
+            caseId: entry.caseId || undefined,
+            caseReference: entry.caseReference || undefined,
+            messageId: entry.target.id,
+          },
+        });
+      } else if (entry.source === "email") {
+        router.push({
+          pathname: "/email/[id]",
+          params: { id: entry.target.id },
+        });
+      } else if (entry.caseId) {
+        router.push({
+          pathname: "/case/[id]",
+          params: { id: entry.caseId },
+        });
+      } else {
+        router.push("/(tabs)/documents");
+      }
+    },
+    [router],
+  );
+
   const renderConversationItem: ListRenderItem<
     (typeof sortedConversations)[number]
   > = useCallback(
@@ -388,6 +516,7 @@ export default function MessagesScreen() {
             >
               {item.caseReference}
             </Text>
+            <PresenceLabel userId={item.participants?.agentId} />
             <Text
               numberOfLines={2}
               style={[
@@ -440,7 +569,9 @@ export default function MessagesScreen() {
   const renderEmailItem: ListRenderItem<(typeof emailData)[number]> =
     useCallback(
       ({ item }) => {
-        const isUnread = Boolean(item.unread);
+        const thread = threadByEmailId.get(item.id);
+        const isUnread = thread ? thread.unreadCount > 0 : Boolean(item.unread);
+        const threadSize = thread?.messages.length ?? 1;
         const baseAccent =
           item.role === "System" ? colors.accent : colors.primary;
         const neutralBorderColor = withOpacity(
@@ -529,8 +660,13 @@ export default function MessagesScreen() {
                   style={[styles.messageSubject, { color: colors.text }]}
                   numberOfLines={1}
                 >
-                  {item.subject ||
+                  {(threadSize > 1 ? thread?.subject : item.subject) ||
                     t("messages.noSubject", { defaultValue: "(No subject)" })}
+                  {threadSize > 1 ? (
+                    <Text style={[styles.threadCount, { color: colors.muted }]}>
+                      {`  ${threadSize}`}
+                    </Text>
+                  ) : null}
                 </Text>
                 <Text
                   style={[styles.messageTime, { color: colors.muted }]}
@@ -622,7 +758,7 @@ export default function MessagesScreen() {
                 }}
                 accessibilityRole="button"
                 accessibilityLabel={
-                  item.unread
+                  isUnread
                     ? t("messages.markAsRead", { defaultValue: "Mark as read" })
                     : t("messages.markAsUnread", {
                         defaultValue: "Mark as unread",
@@ -630,7 +766,7 @@ export default function MessagesScreen() {
                 }
               >
                 <IconSymbol
-                  name={item.unread ? "envelope.fill" : "checkmark.circle.fill"}
+                  name={isUnread ? "envelope.fill" : "checkmark.circle.fill"}
                   size={20}
                   color={isUnread ? colors.warning : colors.success}
                 />
@@ -639,9 +775,167 @@ export default function MessagesScreen() {
           </Pressable>
         );
       },
-      [colors, handleEmailPress, handleToggleEmailReadStatus, t, theme.dark],
+      [
+        colors,
+        handleEmailPress,
+        handleToggleEmailReadStatus,
+        t,
+        theme.dark,
+        threadByEmailId,
+      ],
     );
 
+  const renderDraftItem: ListRenderItem<EmailDraft> = useCallback(
+    ({ item }) => {
+      const statusColor =
+        item.status === "failed"
+          ? colors.danger
+          : item.status === "draft"
+            ? colors.muted
+            : colors.warning;
+      const statusLabel =
+        item.status === "failed"
+          ? t("messages.drafts.statusFailed", { defaultValue: "Not sent" })
+          : item.status === "queued"
+            ? t("messages.drafts.statusQueued", {
+                defaultValue: "Waiting for connection",
+              })
+            : item.status === "sending"
+              ? t("messages.drafts.statusSending", {
+                  defaultValue: "Sending…",
+                })
+              : t("messages.drafts.statusDraft", { defaultValue: "Draft" });
+      const neutralBorderColor = withOpacity(
+        colors.borderStrong,
+        theme.dark ? 0.55 : 0.24,
+      );
+
+      return (
+        <Pressable
+          style={[
+            styles.messageCard,
+            {
+              backgroundColor: theme.dark
+                ? withOpacity(colors.surfaceElevated, 0.9)
+                : withOpacity(colors.surfaceAlt, 0.92),
+              borderColor:
+                item.status === "failed"
+                  ? withOpacity(colors.danger, theme.dark ? 0.6 : 0.4)
+                  : neutralBorderColor,
+              shadowColor: withOpacity(colors.primary, theme.dark ? 0.45 : 0.2),
+            },
+          ]}
+          onPress={() => handleDraftPress(item)}
+          disabled={item.status === "sending"}
+        >
+          <View
+            style={[
+              styles.avatarContainer,
+              {
+                backgroundColor: withOpacity(
+                  statusColor,
+                  theme.dark ? 0.3 : 0.18,
+                ),
+                borderColor: neutralBorderColor,
+              },
+            ]}
+          >
+            <View
+              style={[
+                styles.avatar,
+                {
+                  backgroundColor: withOpacity(
+                    statusColor,
+                    theme.dark ? 0.26 : 0.16,
+                  ),
+                  borderColor: neutralBorderColor,
+                },
+              ]}
+            >
+              <IconSymbol name="pencil" size={20} color={statusColor} />
+            </View>
+          </View>
+          <View style={styles.messageContent}>
+            <View style={styles.messageHeader}>
+              <Text
+                style={[styles.messageSubject, { color: colors.text }]}
+                numberOfLines={1}
+              >
+                {item.subject.trim() ||
+                  t("messages.noSubject", { defaultValue: "(No subject)" })}
+              </Text>
+              <Text
+                style={[styles.messageTime, { color: colors.muted }]}
+                numberOfLines={1}
+              >
+                {formatRelativeTime(
+                  item.updatedAt,
+                  t("messages.justNow", { defaultValue: "Just now" }),
+                  t,
+                )}
+              </Text>
+            </View>
+            <Text
+              style={[
+                styles.messageMeta,
+                { color: withOpacity(colors.primary, theme.dark ? 0.85 : 0.6) },
+              ]}
+              numberOfLines={1}
+            >
+              {t("messages.toLabel", {
+                defaultValue: "To {{name}}",
+                name: item.recipientName,
+              })}
+              {item.caseReference
+                ? ` • ${t("messages.caseLabel", {
+                    defaultValue: "Case {{reference}}",
+                    reference: item.caseReference,
+                  })}`
+                : ""}
+            </Text>
+            <Text
+              style={[styles.messageText, { color: colors.muted }]}
+              numberOfLines={2}
+            >
+              {item.content.trim()}
+            </Text>
+            <Text
+              style={[styles.draftStatus, { color: statusColor }]}
+              numberOfLines={1}
+            >
+              {item.status === "failed" && item.lastError
+                ? `${statusLabel} · ${item.lastError}`
+                : statusLabel}
+            </Text>
+          </View>
+          <View style={styles.messageActions}>
+            <Pressable
+              style={[
+                styles.toggleButton,
+                {
+                  backgroundColor: withOpacity(colors.danger, 0.12),
+                  borderColor: withOpacity(colors.danger, 0.32),
+                },
+              ]}
+              onPress={(event: GestureResponderEvent) => {
+                event.stopPropagation?.();
+                handleDiscardDraft(item);
+              }}
+              disabled={item.status === "sending"}
+              accessibilityRole="button"
+              accessibilityLabel={t("messages.drafts.discard", {
+                defaultValue: "Discard",
+              })}
+            >
+              <IconSymbol name="trash.fill" size={20} color={colors.danger} />
+            </Pressable>
+          </View>
+        </Pressable>
+      );
+    },
+    [colors, handleDiscardDraft, handleDraftPress, t, theme.dark],
+  );
+
   const renderEmptyState = useCallback(
     (title: string) => (
       <View style={styles.emptyContainer}>
@@ -698,7 +992,9 @@ export default function MessagesScreen() {
     () =>
       activeEmailFolder === "inbox"
         ? t("messages.noInboxMessages", { defaultValue: "Inbox is empty" })
-        : t("messages.noSentMessages", { defaultValue: "No sent messages" }),
+        : activeEmailFolder === "drafts"
+          ? t("messages.drafts.empty", { defaultValue: "No drafts" })
+          : t("messages.noSentMessages", { defaultValue: "No sent messages" }),
     [activeEmailFolder, t],
   );
 
@@ -706,13 +1002,25 @@ export default function MessagesScreen() {
     activeSegment === "chat" &&
     chatRefreshing &&
     filteredConversations.length === 0;
+  const isDraftsFolder =
+    activeSegment === "email" && activeEmailFolder === "drafts";
   const showEmailLoadingOverlay =
     activeSegment === "email" &&
+    !isDraftsFolder &&
     emailRefreshing &&
     filteredEmailData.length === 0;
   const showLoadingOverlay = showChatLoadingOverlay || showEmailLoadingOverlay;
 
   const listEmptyComponent = useMemo(() => {
+    if (isFullTextSearch) {
+      return (
+        <SearchResultsList
+          groups={searchGroups}
+          query={searchQuery}
+          onSelect={handleSearchResultPress}
+        />
+      );
+    }
     if (activeSegment === "chat") {
       if (showChatLoadingOverlay) {
         return null;
@@ -728,37 +1036,59 @@ export default function MessagesScreen() {
     activeSegment,
     chatEmptyTitle,
     emailEmptyTitle,
+    handleSearchResultPress,
+    isFullTextSearch,
     renderEmptyState,
+    searchGroups,
+    searchQuery,
     showChatLoadingOverlay,
     showEmailLoadingOverlay,
   ]);
 
   const isChatSegment = activeSegment === "chat";
 
-  const listData = useMemo<Array<Conversation | Message>>(
-    () =>
-      (isChatSegment ? filteredConversations : filteredEmailData) as Array<
-        Conversation | Message
-      >,
-    [filteredConversations, filteredEmailData, isChatSegment],
-  );
+  const listData = useMemo<Array<Conversation | Message | EmailDraft>>(() => {
+    if (isFullTextSearch) {
+      return [];
+    }
+    if (isDraftsFolder) {
+      return filteredDrafts;
+    }
+    return (isChatSegment ? filteredConversations : filteredEmailData) as Array<
+      Conversation | Message
+    >;
+  }, [
+    filteredConversations,
+    filteredDrafts,
+    filteredEmailData,
+    isChatSegment,
+    isDraftsFolder,
+    isFullTextSearch,
+  ]);
 
   const keyExtractor = useCallback(
-    (item: Conversation | Message, _index: number) =>
-      isChatSegment ? (item as Conversation).id : (item as Message).id,
-    [isChatSegment],
+    (item: Conversation | Message | EmailDraft, _index: number) => item.id,
+    [],
   );
 
   const renderListItem = useCallback(
-    (info: ListRenderItemInfo<Conversation | Message>) =>
+    (info: ListRenderItemInfo<Conversation | Message | EmailDraft>) =>
       isChatSegment
         ? renderConversationItem(
             info as ListRenderItemInfo<(typeof filteredConversations)[number]>,
           )
-        : renderEmailItem(
-            info as ListRenderItemInfo<(typeof filteredEmailData)[number]>,
-          ),
-    [isChatSegment, renderConversationItem, renderEmailItem],
+        : isDraftsFolder
+          ? renderDraftItem(info as ListRenderItemInfo<EmailDraft>)
+          : renderEmailItem(
+              info as ListRenderItemInfo<(typeof filteredEmailData)[number]>,
+            ),
+    [
+      isChatSegment,
+      isDraftsFolder,
+      renderConversationItem,
+      renderDraftItem,
+      renderEmailItem,
+    ],
   );
 
   const refreshing = isChatSegment
@@ -986,43 +1316,51 @@ export default function MessagesScreen() {
 
         {activeSegment === "email" && (
           <View style={styles.folderToggle}>
-            {(["inbox", "sent"] as EmailFolderKey[]).map((folder, index) => {
-              const isActive = activeEmailFolder === folder;
-              return (
-                <Pressable
-                  key={folder}
-                  onPress={() => setActiveEmailFolder(folder)}
-                  style={[
-                    styles.folderButton,
-                    index === 0 && styles.folderButtonSpacing,
-                    {
-                      backgroundColor: isActive
-                        ? withOpacity(colors.primary, theme.dark ? 0.24 : 0.1)
-                        : theme.dark
-                          ? colors.surfaceElevated
-                          : colors.surfaceAlt,
-                      borderColor: isActive
-                        ? withOpacity(colors.primary, theme.dark ? 0.6 : 0.28)
-                        : withOpacity(
-                            colors.borderStrong,
-                            theme.dark ? 0.4 : 0.12,
-                          ),
-                    },
-                  ]}
-                >
-                  <Text
+            {(["inbox", "sent", "drafts"] as EmailFolderKey[]).map(
+              (folder, index, folders) => {
+                const isActive = activeEmailFolder === folder;
+                return (
+                  <Pressable
+                    key={folder}
+                    onPress={() => setActiveEmailFolder(folder)}
                     style={[
-                      styles.folderLabel,
-                      { color: isActive ? colors.primary : colors.muted },
+                      styles.folderButton,
+                      index < folders.length - 1 && styles.folderButtonSpacing,
+                      {
+                        backgroundColor: isActive
+                          ? withOpacity(colors.primary, theme.dark ? 0.24 : 0.1)
+                          : theme.dark
+                            ? colors.surfaceElevated
+                            : colors.surfaceAlt,
+                        borderColor: isActive
+                          ? withOpacity(colors.primary, theme.dark ? 0.6 : 0.28)
+                          : withOpacity(
+                              colors.borderStrong,
+                              theme.dark ? 0.4 : 0.12,
+                            ),
+                      },
                     ]}
                   >
-                    {folder === "inbox"
-                      ? t("messages.inbox", { defaultValue: "Inbox" })
-                      : t("messages.sent", { defaultValue: "Sent" })}
-                  </Text>
-                </Pressable>
-              );
-            })}
+                    <Text
+                      style={[
+                        styles.folderLabel,
+                        { color: isActive ? colors.primary : colors.muted },
+                      ]}
+                    >
+                      {folder === "inbox"
+                        ? t("messages.inbox", { defaultValue: "Inbox" })
+                        : folder === "drafts"
+                          ? emailDrafts.length > 0
+                            ? `${t("messages.drafts.title", { defaultValue: "Drafts" })} (${emailDrafts.length})`
+                            : t("messages.drafts.title", {
+                                defaultValue: "Drafts",
+                              })
+                          : t("messages.sent", { defaultValue: "Sent" })}
+                    </Text>
+                  </Pressable>
+                );
+              },
+            )}
           </View>
         )}
 
@@ -1030,13 +1368,9 @@ export default function MessagesScreen() {
           value={searchQuery}
           onChangeText={setSearchQuery}
           onClear={() => setSearchQuery("")}
-          placeholder={
-            activeSegment === "chat"
-              ? t("messages.searchConversations", {
-                  defaultValue: "Search conversations",
-                })
-              : t("messages.searchEmails", { defaultValue: "Search messages" })
-          }
+          placeholder={t("messages.searchEverything", {
+            defaultValue: "Search chats, emails and documents",
+          })}
           containerStyle={[
             styles.searchFieldContainer,
             {
@@ -1121,6 +1455,7 @@ export default function MessagesScreen() {
       colors.text,
       colors.warning,
       conversationsError,
+      emailDrafts.length,
       error,
       handleConversationsRetry,
       handleEmailsRetry,
@@ -1580,6 +1915,10 @@ const styles = StyleSheet.create({
     flexShrink: 1,
     marginRight: 12,
   },
+  threadCount: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
   messageMeta: {
     fontSize: 12,
     marginBottom: 4,
@@ -1608,4 +1947,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     borderWidth: StyleSheet.hairlineWidth,
   },
+  draftStatus: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
 });
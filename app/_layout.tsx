@@ -16,7 +16,7 @@ try {
 }
 import { ThemeProvider } from "@react-navigation/native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import "react-native-reanimated";
 import { WidgetProvider } from "@/contexts/WidgetContext";
 import { initializeAuthListener, useAuthStore } from "@/stores/auth/authStore";
@@ -24,8 +24,9 @@ import { logger } from "@/lib/utils/logger";
 import {
   setupNotificationListeners,
   getLastNotificationResponse,
-  handleNotificationNavigation,
+  handleNotificationResponse,
 } from "@/lib/services/pushNotifications";
+import { registerNotificationCategories } from "@/lib/services/notificationActions";
 import { BottomSheetAlertProvider } from "@/components/BottomSheetAlert";
 import { ToastProvider } from "@/components/Toast";
 import { BottomSheetModalProvider } from "@gorhom/bottom-sheet";
@@ -34,6 +35,21 @@ import { ScrollProvider } from "@/contexts/ScrollContext";
 import { palette, themes } from "@/styles/theme";
 import "@/lib/i18n";
 import { useSettingsStore } from "@/stores/settings/settingsStore";
+import { initializeCaseOutboxSync } from "@/stores/cases/casesStore";
+import { initializeUploadResume } from "@/stores/documents/documentsStore";
+import { initializeVaultAutoLock } from "@/lib/services/documentVault";
+import { initializeAppLock } from "@/stores/appLock/appLockStore";
+import {
+  initializeChatOutbox,
+  initializeEmailOutbox,
+} from "@/stores/messages/messagesStore";
+import { initializeConnectivityMonitor } from "@/stores/connectivity/connectivityStore";
+import {
+  initializeQueryPersistence,
+  queryClient,
+} from "@/lib/query/queryClient";
+import { AppLockOverlay } from "@/components/AppLockOverlay";
+import { OfflineBanner } from "@/components/OfflineBanner";
 import { presenceService } from "@/lib/services/presenceService";
 import i18n from "@/lib/i18n";
 import * as Linking from "expo-linking";
@@ -90,16 +106,6 @@ if (__DEV__) {
   console.log("[App] _layout.tsx loaded");
 }
 
-// Create React Query client
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      retry: 1,
-      staleTime: 5 * 60 * 1000, // 5 minutes
-    },
-  },
-});
-
 function AppContent() {
   if (__DEV__) {
     console.log("[App] AppContent rendering");
@@ -148,14 +154,21 @@ function AppContent() {
 
   useEffect(() => {
     // Initialize auth state listener on app start
+    initializeConnectivityMonitor();
+    initializeQueryPersistence();
     initializeAuthListener();
+    initializeCaseOutboxSync();
+    initializeUploadResume();
+    initializeVaultAutoLock();
+    initializeAppLock();
+    initializeChatOutbox();
+    initializeEmailOutbox();
     logger.info("App layout initialized");
 
-    // Temporarily disabled presence tracking to test app functionality
-    // const cleanupPresence = presenceService.initializePresenceTracking();
-    // return () => {
-    //     cleanupPresence?.();
-    // };
+    const cleanupPresence = presenceService.initializePresenceTracking();
+    return () => {
+      cleanupPresence();
+    };
   }, []);
 
   useEffect(() => {
@@ -169,9 +182,12 @@ function AppContent() {
     let cleanup: (() => void) | undefined;
 
     const setupNotifications = async () => {
+      // Action buttons only show once their categories are registered
+      void registerNotificationCategories();
+
       // Setup notification listeners
       cleanup = setupNotificationListeners({
-        onNotificationReceived: async ({ notification, data }) => {
+        onNotificationReceived: ({ notification, data }) => {
           const title =
             notification.request.content.title?.trim() ||
             i18n.t("notifications.newNotification");
@@ -188,37 +204,31 @@ function AppContent() {
             message,
             duration: 5000,
           });
-
-          // Refresh messages when NEW_EMAIL notification is received
-          if (data?.type === "NEW_EMAIL") {
-            try {
-              const { useMessagesStore } = await import(
-                "@/stores/messages/messagesStore"
-              );
-              useMessagesStore.getState().fetchMessages(true);
-              logger.info("Refreshed messages after NEW_EMAIL notification");
-            } catch (error) {
-              logger.warn(
-                "Failed to refresh messages after NEW_EMAIL notification",
-                error,
-              );
-            }
-          }
         },
       });
 
       // Check for cold start notification
-      const lastNotification = await getLastNotificationResponse();
-      if (lastNotification) {
-        logger.info("App opened from notification", lastNotification);
-        await handleNotificationNavigation(lastNotification);
+      const lastResponse = await getLastNotificationResponse();
+      if (lastResponse) {
+        logger.info("App opened from notification", {
+          actionIdentifier: lastResponse.actionIdentifier,
+          data: lastResponse.notification.request.content.data,
+        });
+        await handleNotificationResponse(lastResponse);
       }
     };
 
     setupNotifications();
 
+    // Button titles are localized when registered
+    const handleLanguageChanged = () => {
+      void registerNotificationCategories();
+    };
+    i18n.on("languageChanged", handleLanguageChanged);
+
     return () => {
       if (cleanup) cleanup();
+      i18n.off("languageChanged", handleLanguageChanged);
     };
   }, [showToast]);
 
@@ -303,6 +313,9 @@ function AppContent() {
         <Stack.Screen name="case/[id]" />
         <Stack.Screen name="cases/new" />
         <Stack.Screen name="documents/upload" />
+        <Stack.Screen name="documents/scan" />
+        <Stack.Screen name="appointments/index" />
+        <Stack.Screen name="appointments/[id]" />
         <Stack.Screen name="modal" options={{ presentation: "modal" }} />
         <Stack.Screen
           name="formsheet"
@@ -314,6 +327,8 @@ function AppContent() {
         />
       </Stack>
       <StatusBar style={isDarkTheme ? "light" : "dark"} />
+      <OfflineBanner />
+      <AppLockOverlay />
     </ThemeProvider>
   );
 }
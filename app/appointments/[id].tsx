@@ -0,0 +1,381 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Linking,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import {
+  SafeAreaView,
+  useSafeAreaInsets,
+} from "react-native-safe-area-context";
+import { BackButton } from "@/components/BackButton";
+import { IconSymbol, type IconSymbolName } from "@/components/IconSymbol";
+import {
+  formatAppointmentDate,
+  formatAppointmentTimeRange,
+  useAppointmentStatusColors,
+} from "@/components/AppointmentCard";
+import { useToast } from "@/components/Toast";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import { logger } from "@/lib/utils/logger";
+import { calendarExport } from "@/lib/services/calendarExport";
+import { getAppointmentTitle } from "@/lib/services/appointmentReminders";
+import { useAppointmentsStore } from "@/stores/appointments/appointmentsStore";
+
+export default function AppointmentDetailsScreen() {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const params = useLocalSearchParams<{ id: string }>();
+  const appointmentId = params.id;
+
+  const {
+    selectedAppointment,
+    isLoading,
+    error,
+    reminderOffsets,
+    fetchAppointmentById,
+  } = useAppointmentsStore();
+  const statusColors = useAppointmentStatusColors();
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (appointmentId) {
+      fetchAppointmentById(appointmentId);
+    }
+  }, [appointmentId, fetchAppointmentById]);
+
+  const appointment =
+    selectedAppointment?.id === appointmentId ? selectedAppointment : null;
+  const status = appointment?.status ?? "SCHEDULED";
+  const statusColor = statusColors[status];
+  const cardBackground = theme.dark ? "#111827" : "#FFFFFF";
+
+  const handleExport = async () => {
+    if (!appointment) return;
+    setExporting(true);
+    try {
+      await calendarExport.exportAppointment(appointment, reminderOffsets);
+    } catch (exportError: any) {
+      logger.error("Failed to export appointment", exportError);
+      showToast({
+        type: "error",
+        title: t("common.error"),
+        message:
+          exportError?.message ||
+          t("appointments.exportError", {
+            defaultValue: "Could not export this appointment.",
+          }),
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openUrl = async (url: string) => {
+    try {
+      await Linking.openURL(url);
+    } catch (linkError) {
+      logger.warn("Failed to open appointment link", { url, linkError });
+    }
+  };
+
+  const renderRow = (
+    icon: IconSymbolName,
+    label: string,
+    value: string,
+    onPress?: () => void,
+  ) => (
+    <Pressable style={styles.row} onPress={onPress} disabled={!onPress}>
+      <View
+        style={[
+          styles.rowIcon,
+          { backgroundColor: withOpacity(colors.primary, 0.12) },
+        ]}
+      >
+        <IconSymbol name={icon} size={18} color={colors.primary} />
+      </View>
+      <View style={styles.rowText}>
+        <Text style={[styles.rowLabel, { color: colors.muted }]}>{label}</Text>
+        <Text
+          style={[
+            styles.rowValue,
+            { color: onPress ? colors.primary : colors.text },
+          ]}
+        >
+          {value}
+        </Text>
+      </View>
+    </Pressable>
+  );
+
+  const agent = appointment?.assignedAgent;
+  const agentName = agent
+    ? `${agent.firstName} ${agent.lastName}`.trim() || agent.email
+    : "";
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+      <SafeAreaView
+        style={[
+          styles.container,
+          { backgroundColor: theme.dark ? "#1f2937" : colors.background },
+        ]}
+        edges={["top"]}
+      >
+        <View
+          style={[
+            styles.header,
+            { borderBottomColor: theme.dark ? "#1F2937" : "#E0E0E0" },
+          ]}
+        >
+          <BackButton onPress={() => router.back()} iconSize={24} />
+          <Text style={[styles.headerTitle, { color: colors.text }]}>
+            {t("appointments.detailsTitle", {
+              defaultValue: "Appointment",
+            })}
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {isLoading && !appointment ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : !appointment ? (
+          <View style={styles.centered}>
+            <Text style={[styles.emptyText, { color: colors.muted }]}>
+              {error ||
+                t("appointments.notFound", {
+                  defaultValue: "This appointment could not be found.",
+                })}
+            </Text>
+          </View>
+        ) : (
+          <ScrollView
+            contentContainerStyle={[
+              styles.content,
+              { paddingBottom: insets.bottom + 24 },
+            ]}
+          >
+            <View style={[styles.card, { backgroundColor: cardBackground }]}>
+              <View
+                style={[
+                  styles.badge,
+                  { backgroundColor: withOpacity(statusColor, 0.16) },
+                ]}
+              >
+                <Text style={[styles.badgeText, { color: statusColor }]}>
+                  {t(`appointments.status.${status.toLowerCase()}`, {
+                    defaultValue: status,
+                  })}
+                </Text>
+              </View>
+              <Text style={[styles.title, { color: colors.text }]}>
+                {getAppointmentTitle(appointment)}
+              </Text>
+              {renderRow(
+                "calendar",
+                t("appointments.date", { defaultValue: "Date" }),
+                formatAppointmentDate(appointment),
+              )}
+              {renderRow(
+                "clock.fill",
+                t("appointments.time", { defaultValue: "Time" }),
+                formatAppointmentTimeRange(appointment),
+              )}
+              {appointment.location
+                ? renderRow(
+                    "location.fill",
+                    t("appointments.location", { defaultValue: "Location" }),
+                    appointment.location,
+                    () =>
+                      openUrl(
+                        `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
+                          appointment.location ?? "",
+                        )}`,
+                      ),
+                  )
+                : null}
+              {agent
+                ? renderRow(
+                    "person.fill",
+                    t("appointments.advisor", { defaultValue: "Advisor" }),
+                    agentName,
+                    agent.email
+                      ? () => openUrl(`mailto:${agent.email}`)
+                      : undefined,
+                  )
+                : null}
+              {appointment.case?.id
+                ? renderRow(
+                    "doc.text.fill",
+                    t("appointments.case", { defaultValue: "Case" }),
+                    appointment.case.referenceNumber || appointment.case.id,
+                    () =>
+                      router.push({
+                        pathname: "/case/[id]",
+                        params: { id: appointment.case.id },
+                      }),
+                  )
+                : null}
+            </View>
+
+            {appointment.notes ? (
+              <View style={[styles.card, { backgroundColor: cardBackground }]}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                  {t("appointments.notes", { defaultValue: "Notes" })}
+                </Text>
+                <Text style={[styles.notes, { color: colors.text }]}>
+                  {appointment.notes}
+                </Text>
+              </View>
+            ) : null}
+
+            {status === "SCHEDULED" ? (
+              <>
+                {appointment.actionUrl ? (
+                  <Pressable
+                    style={[styles.button, { backgroundColor: colors.primary }]}
+                    onPress={() => openUrl(appointment.actionUrl ?? "")}
+                  >
+                    <IconSymbol
+                      name="arrow.right"
+                      size={18}
+                      color={colors.onPrimary}
+                    />
+                    <Text
+                      style={[styles.buttonText, { color: colors.onPrimary }]}
+                    >
+                      {t("appointments.join", {
+                        defaultValue: "Open meeting link",
+                      })}
+                    </Text>
+                  </Pressable>
+                ) : null}
+                <Pressable
+                  style={[
+                    styles.button,
+                    {
+                      backgroundColor: withOpacity(colors.primary, 0.12),
+                      opacity: exporting ? 0.6 : 1,
+                    },
+                  ]}
+                  onPress={handleExport}
+                  disabled={exporting}
+                >
+                  {exporting ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <IconSymbol
+                      name="calendar"
+                      size={18}
+                      color={colors.primary}
+                    />
+                  )}
+                  <Text style={[styles.buttonText, { color: colors.primary }]}>
+                    {t("appointments.addToCalendar", {
+                      defaultValue: "Add to calendar",
+                    })}
+                  </Text>
+                </Pressable>
+                <Text style={[styles.hint, { color: colors.muted }]}>
+                  {reminderOffsets.length > 0
+                    ? t("appointments.remindersOn", {
+                        defaultValue:
+                          "You will get a reminder on this device before the appointment. Change this in Preferences.",
+                      })
+                    : t("appointments.remindersOff", {
+                        defaultValue:
+                          "Appointment reminders are turned off. Turn them on in Preferences.",
+                      })}
+                </Text>
+              </>
+            ) : null}
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerSpacer: { width: 40, height: 40 },
+  headerTitle: { fontSize: 18, fontWeight: "700" },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  emptyText: { fontSize: 14, textAlign: "center" },
+  content: { paddingHorizontal: 16, paddingTop: 12 },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 3,
+  },
+  badge: {
+    alignSelf: "flex-start",
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    marginBottom: 8,
+  },
+  badgeText: { fontSize: 12, fontWeight: "600" },
+  title: { fontSize: 20, fontWeight: "700", marginBottom: 12 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  rowIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  rowText: { flex: 1 },
+  rowLabel: { fontSize: 12 },
+  rowValue: { fontSize: 15, fontWeight: "600", marginTop: 2 },
+  sectionTitle: { fontSize: 16, fontWeight: "700", marginBottom: 8 },
+  notes: { fontSize: 14, lineHeight: 20 },
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginBottom: 12,
+  },
+  buttonText: { fontSize: 15, fontWeight: "600" },
+  hint: { fontSize: 13, lineHeight: 18, textAlign: "center" },
+});
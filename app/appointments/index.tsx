@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { Stack, useRouter } from "expo-router";
+import {
+  SafeAreaView,
+  useSafeAreaInsets,
+} from "react-native-safe-area-context";
+import { BackButton } from "@/components/BackButton";
+import { IconSymbol } from "@/components/IconSymbol";
+import { AppointmentCalendar } from "@/components/AppointmentCalendar";
+import { AppointmentCard } from "@/components/AppointmentCard";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import { useAppointmentsStore } from "@/stores/appointments/appointmentsStore";
+import {
+  groupAppointmentsByDay,
+  toDateKey,
+  toMonthKey,
+} from "@/lib/utils/calendar";
+import type { Appointment } from "@/lib/types";
+
+type AppointmentsView = "calendar" | "upcoming" | "past";
+
+const VIEWS: AppointmentsView[] = ["calendar", "upcoming", "past"];
+
+export default function AppointmentsScreen() {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+
+  const {
+    lists,
+    monthAppointments,
+    isLoading,
+    isLoadingMore,
+    isMonthLoading,
+    error,
+    fetchAppointments,
+    loadMore,
+    fetchMonth,
+    loadReminderOffsets,
+  } = useAppointmentsStore();
+
+  const [view, setView] = useState<AppointmentsView>("calendar");
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [selectedDate, setSelectedDate] = useState(() => toDateKey(new Date()));
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadReminderOffsets();
+  }, [loadReminderOffsets]);
+
+  useEffect(() => {
+    fetchMonth(month);
+  }, [fetchMonth, month]);
+
+  useEffect(() => {
+    if (view !== "calendar" && lists[view].page === 0) {
+      fetchAppointments(view);
+    }
+  }, [fetchAppointments, lists, view]);
+
+  const appointmentsByDay = useMemo(
+    () => groupAppointmentsByDay(monthAppointments[toMonthKey(month)] ?? []),
+    [month, monthAppointments],
+  );
+  const selectedDayAppointments = appointmentsByDay[selectedDate] ?? [];
+
+  const selectedDateLabel = useMemo(() => {
+    const [year, monthIndex, day] = selectedDate.split("-").map(Number);
+    return new Date(year, monthIndex - 1, day).toLocaleDateString(undefined, {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+    });
+  }, [selectedDate]);
+
+  const handleChangeMonth = useCallback((offset: number) => {
+    setMonth(
+      (current) =>
+        new Date(current.getFullYear(), current.getMonth() + offset, 1),
+    );
+  }, []);
+
+  const handleOpenAppointment = useCallback(
+    (appointment: Appointment) => {
+      router.push({
+        pathname: "/appointments/[id]",
+        params: { id: appointment.id },
+      });
+    },
+    [router],
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      if (view === "calendar") {
+        await fetchMonth(month);
+      } else {
+        await fetchAppointments(view);
+      }
+    } finally {
+      setRefreshing(false);
+    }
+  }, [fetchAppointments, fetchMonth, month, view]);
+
+  const viewLabels: Record<AppointmentsView, string> = {
+    calendar: t("appointments.tabs.calendar", { defaultValue: "Calendar" }),
+    upcoming: t("appointments.tabs.upcoming", { defaultValue: "Upcoming" }),
+    past: t("appointments.tabs.past", { defaultValue: "History" }),
+  };
+
+  const renderEmpty = (message: string) => (
+    <View style={styles.emptyState}>
+      <IconSymbol name="calendar" size={40} color={colors.muted} />
+      <Text style={[styles.emptyText, { color: colors.muted }]}>{message}</Text>
+    </View>
+  );
+
+  const renderCalendar = () => (
+    <ScrollView
+      contentContainerStyle={[
+        styles.content,
+        { paddingBottom: insets.bottom + 24 },
+      ]}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+      }
+    >
+      <AppointmentCalendar
+        month={month}
+        selectedDate={selectedDate}
+        appointmentsByDay={appointmentsByDay}
+        onChangeMonth={handleChangeMonth}
+        onSelectDate={setSelectedDate}
+      />
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>
+        {selectedDateLabel}
+      </Text>
+      {isMonthLoading && !refreshing ? (
+        <ActivityIndicator style={styles.loader} color={colors.primary} />
+      ) : selectedDayAppointments.length > 0 ? (
+        selectedDayAppointments.map((appointment) => (
+          <AppointmentCard
+            key={appointment.id}
+            appointment={appointment}
+            onPress={handleOpenAppointment}
+            showDate={false}
+          />
+        ))
+      ) : (
+        renderEmpty(
+          t("appointments.emptyDay", {
+            defaultValue: "No appointments on this day.",
+          }),
+        )
+      )}
+    </ScrollView>
+  );
+
+  const renderList = (scope: "upcoming" | "past") => {
+    const list = lists[scope];
+    return (
+      <FlatList
+        data={list.items}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <AppointmentCard appointment={item} onPress={handleOpenAppointment} />
+        )}
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + 24 },
+        ]}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+        onEndReached={() => loadMore(scope)}
+        onEndReachedThreshold={0.4}
+        ListEmptyComponent={
+          isLoading
+            ? () => (
+                <ActivityIndicator
+                  style={styles.loader}
+                  color={colors.primary}
+                />
+              )
+            : renderEmpty(
+                scope === "upcoming"
+                  ? t("appointments.emptyUpcoming", {
+                      defaultValue: "You have no upcoming appointments.",
+                    })
+                  : t("appointments.emptyPast", {
+                      defaultValue: "No past appointments yet.",
+                    }),
+              )
+        }
+        ListFooterComponent={
+          isLoadingMore ? (
+            <ActivityIndicator style={styles.loader} color={colors.primary} />
+          ) : null
+        }
+      />
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+      <SafeAreaView
+        style={[
+          styles.container,
+          { backgroundColor: theme.dark ? "#1f2937" : colors.background },
+        ]}
+        edges={["top"]}
+      >
+        <View
+          style={[
+            styles.header,
+            { borderBottomColor: theme.dark ? "#1F2937" : "#E0E0E0" },
+          ]}
+        >
+          <BackButton onPress={() => router.back()} iconSize={24} />
+          <Text style={[styles.headerTitle, { color: colors.text }]}>
+            {t("appointments.title", { defaultValue: "Appointments" })}
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View
+          style={[
+            styles.tabBar,
+            { backgroundColor: theme.dark ? "#111827" : "#FFFFFF" },
+          ]}
+        >
+          {VIEWS.map((item) => (
+            <Pressable
+              key={item}
+              style={[
+                styles.tabButton,
+                view === item
+                  ? { backgroundColor: colors.primary }
+                  : {
+                      backgroundColor: withOpacity(
+                        colors.text,
+                        theme.dark ? 0.12 : 0.05,
+                      ),
+                    },
+              ]}
+              onPress={() => setView(item)}
+            >
+              <Text
+                style={[
+                  styles.tabButtonText,
+                  { color: view === item ? colors.onPrimary : colors.muted },
+                ]}
+              >
+                {viewLabels[item]}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {error ? (
+          <Text style={[styles.errorText, { color: colors.danger }]}>
+            {error}
+          </Text>
+        ) : null}
+
+        {view === "calendar" ? renderCalendar() : renderList(view)}
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerSpacer: { width: 40, height: 40 },
+  headerTitle: { fontSize: 18, fontWeight: "700" },
+  tabBar: {
+    flexDirection: "row",
+    gap: 6,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 12,
+    padding: 4,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  tabButtonText: { fontSize: 14, fontWeight: "600" },
+  errorText: { fontSize: 13, marginHorizontal: 16, marginTop: 8 },
+  content: { paddingHorizontal: 16, paddingTop: 12 },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    marginBottom: 12,
+    textTransform: "capitalize",
+  },
+  loader: { marginVertical: 24 },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 32,
+    gap: 8,
+  },
+  emptyText: { fontSize: 14, textAlign: "center" },
+});
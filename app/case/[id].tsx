@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   View,
   Text,
@@ -15,8 +15,25 @@ import { IconSymbol } from "@/components/IconSymbol";
 import { BackButton } from "@/components/BackButton";
 import { useCasesStore } from "@/stores/cases/casesStore";
 import { useDocumentsStore } from "@/stores/documents/documentsStore";
+import { useDestinationsStore } from "@/stores/destinations/destinationsStore";
+import { useMessagesStore } from "@/stores/messages/messagesStore";
+import { useNotificationsStore } from "@/stores/notifications/notificationsStore";
+import { useAuthStore } from "@/stores/auth/authStore";
 import { useTranslation } from "@/lib/hooks/useTranslation";
 import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
+import { CaseStatusTimeline } from "@/components/CaseStatusTimeline";
+import { DocumentChecklist } from "@/components/DocumentChecklist";
+import { CaseActivityFeed } from "@/components/CaseActivityFeed";
+import { useCaseActivity } from "@/lib/hooks/useCaseActivity";
+import type { CaseActivityItem } from "@/lib/utils/caseActivity";
+import {
+  buildTimelineStages,
+  deriveCaseHistory,
+} from "@/lib/utils/caseHistory";
+import {
+  buildDocumentChecklist,
+  getDocumentRequirements,
+} from "@/lib/utils/documentChecklist";
 import type { Case } from "@/lib/types";
 
 const formatServiceTypeLabel = (serviceType?: string) =>
@@ -48,15 +65,7 @@ const formatDocumentSize = (size?: number) => {
 const normalizeStatus = (status?: string | null) =>
   (status ?? "").toLowerCase();
 
-const STATUS_TIMELINE_ORDER = [
-  "submitted",
-  "under_review",
-  "documents_required",
-  "processing",
-  "approved",
-  "rejected",
-  "closed",
-];
+type CaseDetailsTab = "overview" | "activity";
 
 export default function CaseDetailsScreen() {
   const theme = useTheme();
@@ -65,11 +74,32 @@ export default function CaseDetailsScreen() {
   const params = useLocalSearchParams();
   const caseId = (params.id || params.caseId) as string;
 
-  const { selectedCase, isLoading, fetchCaseById } = useCasesStore();
+  const {
+    selectedCase,
+    isLoading,
+    fetchCaseById,
+    caseHistory,
+    isHistoryLoading,
+    fetchCaseHistory,
+  } = useCasesStore();
   const { documents, fetchDocuments } = useDocumentsStore();
+  const { getDestinationById, fetchDestinations } = useDestinationsStore();
+  const fetchMessages = useMessagesStore((state) => state.fetchMessages);
+  const prefetchCaseChat = useMessagesStore((state) => state.prefetchCaseChat);
+  const userId = useAuthStore((state) => state.user?.uid);
+  const fetchNotifications = useNotificationsStore(
+    (state) => state.fetchNotifications,
+  );
   const { showAlert } = useBottomSheetAlert();
+  const [activeTab, setActiveTab] = useState<CaseDetailsTab>("overview");
 
   const caseData = selectedCase as Case | null;
+  // The route may carry the reference number; related records use the id
+  const caseUuid =
+    caseData && (caseData.id === caseId || caseData.referenceNumber === caseId)
+      ? caseData.id
+      : undefined;
+  const activityItems = useCaseActivity(caseUuid);
 
   const getStatusLabel = React.useCallback(
     (status?: string | null) => {
@@ -99,19 +129,70 @@ export default function CaseDetailsScreen() {
   useEffect(() => {
     if (caseId) {
       fetchCaseById(caseId);
-      fetchDocuments({ caseId });
+      fetchCaseHistory(caseId);
+      fetchDestinations();
     }
   }, [caseId]);
 
-  const statusTimeline = useMemo(() => {
-    const status =
-      normalizeStatus((selectedCase as any)?.status) || "submitted";
-    const currentIdx = STATUS_TIMELINE_ORDER.indexOf(status);
-    return STATUS_TIMELINE_ORDER.map((key, idx) => ({
-      key,
-      completed: currentIdx >= 0 ? idx <= currentIdx : false,
-    }));
-  }, [selectedCase]);
+  useEffect(() => {
+    if (caseUuid) {
+      // The checklist needs every upload for the case, not just the first page
+      fetchDocuments({ caseId: caseUuid, limit: 100 });
+    }
+  }, [caseUuid, fetchDocuments]);
+
+  // Emails and notifications are shared with other tabs; refresh them
+  // only when the feed is opened
+  useEffect(() => {
+    if (activeTab === "activity") {
+      void fetchMessages();
+      void fetchNotifications();
+    }
+  }, [activeTab, fetchMessages, fetchNotifications]);
+
+  useEffect(() => {
+    if (activeTab === "activity" && caseUuid && userId) {
+      void prefetchCaseChat(caseUuid, userId);
+    }
+  }, [activeTab, caseUuid, prefetchCaseChat, userId]);
+
+  const historyEvents = caseId ? caseHistory[caseId] : undefined;
+
+  const timelineStages = useMemo(() => {
+    if (historyEvents && historyEvents.length > 0) {
+      return buildTimelineStages(historyEvents);
+    }
+    return caseData ? buildTimelineStages(deriveCaseHistory(caseData)) : [];
+  }, [historyEvents, caseData]);
+
+  const caseDocuments = useMemo(
+    () =>
+      caseUuid
+        ? documents.filter((doc) => !doc.caseId || doc.caseId === caseUuid)
+        : [],
+    [documents, caseUuid],
+  );
+
+  const destinationCode = caseData?.destinationId
+    ? getDestinationById(caseData.destinationId)?.code
+    : undefined;
+
+  const checklistItems = useMemo(
+    () =>
+      buildDocumentChecklist(
+        getDocumentRequirements(caseData?.serviceType, destinationCode),
+        caseDocuments,
+      ),
+    [caseData?.serviceType, destinationCode, caseDocuments],
+  );
+
+  const handleChecklistUpload = (documentType: string) => {
+    if (!caseUuid) return;
+    router.push({
+      pathname: "/documents/upload",
+      params: { caseId: caseUuid, documentType },
+    });
+  };
 
   const handleMessageAdvisor = () => {
     if (!caseId) return;
@@ -147,6 +228,46 @@ export default function CaseDetailsScreen() {
     router.push({ pathname: "/chat", params: { id: caseId, caseId } });
   };
 
+  const handleActivityPress = (item: CaseActivityItem) => {
+    switch (item.kind) {
+      case "chat":
+        router.push({
+          pathname: "/chat",
+          params: {
+            id: item.target.roomId || caseId,
+            roomId: item.target.roomId,
+            caseId,
+            messageId: item.target.id,
+          },
+        });
+        break;
+      case "email":
+        router.push({
+          pathname: "/email/[id]",
+          params: { id: item.target.id },
+        });
+        break;
+      case "document":
+        router.push("/(tabs)/documents");
+        break;
+      default:
+        if (item.unread) {
+          void useNotificationsStore.getState().markAsRead(item.target.id);
+        }
+    }
+  };
+
+  const tabs: { key: CaseDetailsTab; label: string }[] = [
+    {
+      key: "overview",
+      label: t("caseDetails.tabs.overview", { defaultValue: "Overview" }),
+    },
+    {
+      key: "activity",
+      label: t("caseDetails.tabs.activity", { defaultValue: "Activity" }),
+    },
+  ];
+
   return (
     <>
       <Stack.Screen options={{ headerShown: false }} />
@@ -171,13 +292,66 @@ export default function CaseDetailsScreen() {
           <View style={styles.headerSpacer} />
         </View>
 
+        <View style={styles.tabs}>
+          {tabs.map((tab) => {
+            const isActive = tab.key === activeTab;
+            return (
+              <Pressable
+                key={tab.key}
+                style={[
+                  styles.tab,
+                  {
+                    backgroundColor: isActive
+                      ? "#2196F3"
+                      : theme.dark
+                        ? "#1C1C1E"
+                        : "#F5F5F5",
+                  },
+                ]}
+                onPress={() => setActiveTab(tab.key)}
+              >
+                <Text
+                  style={[
+                    styles.tabText,
+                    { color: isActive ? "#fff" : theme.colors.text },
+                  ]}
+                >
+                  {tab.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
         {isLoading && (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#2196F3" />
           </View>
         )}
 
-        {!isLoading && (
+        {!isLoading && activeTab === "activity" && (
+          <ScrollView
+            style={styles.scroll}
+            contentContainerStyle={[
+              styles.content,
+              Platform.OS !== "ios" && styles.contentWithTabBar,
+            ]}
+          >
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: theme.dark ? "#111827" : "#fff" },
+              ]}
+            >
+              <CaseActivityFeed
+                items={activityItems}
+                onSelect={handleActivityPress}
+              />
+            </View>
+          </ScrollView>
+        )}
+
+        {!isLoading && activeTab === "overview" && (
           <ScrollView
             style={styles.scroll}
             contentContainerStyle={[
@@ -226,14 +400,16 @@ export default function CaseDetailsScreen() {
                   {t("caseDetails.status")}: {getStatusLabel(caseData?.status)}
                 </Text>
               </View>
-              <View style={styles.progressBarBg}>
-                <View
-                  style={[
-                    styles.progressBarFill,
-                    { width: `${caseData?.progress ?? 0}%` },
-                  ]}
-                />
-              </View>
+              {caseData?.progress != null ? (
+                <View style={styles.progressBarBg}>
+                  <View
+                    style={[
+                      styles.progressBarFill,
+                      { width: `${caseData.progress}%` },
+                    ]}
+                  />
+                </View>
+              ) : null}
             </View>
 
             {/* Agent Info */}
@@ -300,31 +476,35 @@ export default function CaseDetailsScreen() {
               <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
                 {t("caseDetails.timeline")}
               </Text>
-              <View style={styles.timelineRow}>
-                {statusTimeline.map((step) => (
-                  <View key={step.key} style={styles.timelineStep}>
-                    <View
-                      style={[
-                        styles.timelineDot,
-                        step.completed
-                          ? styles.timelineDotDone
-                          : styles.timelineDotPending,
-                      ]}
-                    />
-                    <Text
-                      style={[
-                        styles.timelineLabel,
-                        { color: theme.dark ? "#98989D" : "#666" },
-                      ]}
-                    >
-                      {getStatusLabel(step.key)}
-                    </Text>
-                  </View>
-                ))}
-              </View>
+              {isHistoryLoading && !historyEvents ? (
+                <ActivityIndicator size="small" color="#2196F3" />
+              ) : (
+                <CaseStatusTimeline
+                  stages={timelineStages}
+                  getStatusLabel={getStatusLabel}
+                />
+              )}
+            </View>
+
+            {/* Required documents checklist */}
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: theme.dark ? "#111827" : "#fff" },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                {t("documentChecklist.title", {
+                  defaultValue: "Required Documents",
+                })}
+              </Text>
+              <DocumentChecklist
+                items={checklistItems}
+                onUploadPress={handleChecklistUpload}
+              />
             </View>
 
-            {/* Required Documents (basic) */}
+            {/* Uploaded documents */}
             <View
               style={[
                 styles.card,
@@ -334,7 +514,7 @@ export default function CaseDetailsScreen() {
               <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
                 {t("caseDetails.documents")}
               </Text>
-              {documents.length === 0 ? (
+              {caseDocuments.length === 0 ? (
                 <View style={styles.emptyBox}>
                   <Text
                     style={[
@@ -346,7 +526,7 @@ export default function CaseDetailsScreen() {
                   </Text>
                 </View>
               ) : (
-                documents.map((doc) => (
+                caseDocuments.map((doc) => (
                   <View key={doc.id} style={styles.docRow}>
                     <View style={styles.docIcon}>
                       <IconSymbol name="doc.fill" size={18} color="#2196F3" />
@@ -391,6 +571,19 @@ const styles = StyleSheet.create({
   },
   headerSpacer: { width: 40, height: 40 },
   headerTitle: { fontSize: 18, fontWeight: "700" },
+  tabs: {
+    flexDirection: "row",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  tab: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  tabText: { fontSize: 14, fontWeight: "600" },
   loadingContainer: {
     paddingVertical: 40,
     alignItems: "center",
@@ -451,16 +644,6 @@ const styles = StyleSheet.create({
     justifyContent: "center",
   },
   emptyText: { fontSize: 14 },
-  timelineRow: { flexDirection: "row", flexWrap: "wrap", gap: 12 },
-  timelineStep: { alignItems: "center", width: "30%" },
-  timelineDot: { width: 12, height: 12, borderRadius: 6, marginBottom: 6 },
-  timelineDotDone: { backgroundColor: "#4CAF50" },
-  timelineDotPending: { backgroundColor: "#BDBDBD" },
-  timelineLabel: {
-    fontSize: 12,
-    textTransform: "capitalize",
-    textAlign: "center",
-  },
   docRow: {
     flexDirection: "row",
     alignItems: "center",
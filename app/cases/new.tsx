@@ -24,6 +24,7 @@ import { useAuthStore } from "@/stores/auth/authStore";
 import { useToast } from "@/components/Toast";
 import { BackButton } from "@/components/BackButton";
 import { logger } from "@/lib/utils/logger";
+import { isLocalCaseId } from "@/lib/services/caseOutbox";
 
 const PRIORITY_ACCENTS: Record<"LOW" | "NORMAL" | "HIGH" | "URGENT", string> = {
   LOW: "#38bdf8",
@@ -286,7 +287,19 @@ export default function NewCaseScreen() {
         caseId: newCase?.id,
       });
 
-      if (newCase) {
+      if (newCase && isLocalCaseId(newCase.id)) {
+        showToast({
+          title: t("newCase.caseQueuedTitle", {
+            defaultValue: "Saved offline",
+          }),
+          message: t("newCase.caseQueuedMessage", {
+            defaultValue:
+              "Your case will be submitted automatically once you are back online.",
+          }),
+          type: "info",
+        });
+        router.back();
+      } else if (newCase) {
         showToast({
           title: t("common.success"),
           message: t("newCase.caseCreated"),
@@ -15,6 +15,9 @@ import {
   KeyboardAvoidingView,
   ActivityIndicator,
   FlatList,
+  Linking,
+  ScrollView,
+  AppState,
 } from "react-native";
 import { IconSymbol } from "@/components/IconSymbol";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
@@ -28,16 +31,40 @@ import { auth } from "@/lib/firebase/config";
 import { casesService } from "@/lib/services/casesService";
 import { logger } from "@/lib/utils/logger";
 import { useTranslation } from "@/lib/hooks/useTranslation";
-import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
 import {
+  useBottomSheetAlert,
+  type BottomSheetAlertAction,
+} from "@/components/BottomSheetAlert";
+import {
+  canDeleteMessage,
+  canEditMessage,
+  getDeliveredAt,
+  getDeliveryState,
+  getMessageRevision,
+  getReadAt,
+  isMessageDeleted,
   mergeMessageIntoList,
   mergeMessagesBatch,
   sortMessagesAsc,
+  toReplyReference,
 } from "@/lib/utils/chatMessages";
 import SearchField from "@/components/SearchField";
 import { useAppTheme, useThemeColors } from "@/lib/hooks/useAppTheme";
 import { withOpacity } from "@/styles/theme";
 import { useRealtimeChatParticipant } from "@/lib/hooks/useRealtimeChat";
+import { formatLastSeen } from "@/lib/utils/presence";
+import { useToast } from "@/components/Toast";
+import { ChatMessageAttachments } from "@/components/ChatMessageAttachments";
+import { ChatReplyQuote } from "@/components/ChatReplyQuote";
+import { HighlightedText } from "@/components/HighlightedText";
+import { matchesSearchQuery } from "@/lib/utils/search";
+import {
+  chatAttachments,
+  MAX_CHAT_ATTACHMENTS,
+  type ChatAttachment,
+  type PendingChatAttachment,
+} from "@/lib/services/chatAttachments";
+import { useDocumentsStore } from "@/stores/documents/documentsStore";
 
 const formatServiceTypeLabel = (serviceType?: string) =>
   serviceType
@@ -50,6 +77,9 @@ const formatServiceTypeLabel = (serviceType?: string) =>
 const normalizeStatus = (status?: string | null) =>
   (status ?? "").toLowerCase();
 
+// Body sent with attachment-only messages, so conversation previews stay readable
+const ATTACHMENT_PLACEHOLDER = "📎 Attachment";
+
 const CASE_UUID_REGEX =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -118,6 +148,7 @@ export default function ChatScreen() {
   const router = useRouter();
   const { t } = useTranslation();
   const { showAlert } = useBottomSheetAlert();
+  const { showToast } = useToast();
   const params = useLocalSearchParams();
 
   const paramId = useMemo(
@@ -132,6 +163,11 @@ export default function ChatScreen() {
     () => normalizeParamValue(params.roomId).trim(),
     [params.roomId],
   );
+  // Set when opened from a search result, to scroll to that message
+  const messageIdParam = useMemo(
+    () => normalizeParamValue(params.messageId).trim(),
+    [params.messageId],
+  );
 
   const initialCaseId = useMemo(() => {
     if (caseIdParam) {
@@ -155,9 +191,18 @@ export default function ChatScreen() {
 
   const [message, setMessage] = useState("");
   const [selectedAttachments, setSelectedAttachments] = useState<
-    ChatMessage["attachments"]
+    PendingChatAttachment[]
   >([]);
+  const [promotingUrl, setPromotingUrl] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(
+    null,
+  );
   const flatListRef = useRef<FlatList>(null);
+  const pendingJumpRef = useRef<string | null>(messageIdParam || null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(false);
   const [resolvedCaseId, setResolvedCaseId] = useState<string | null>(
@@ -185,7 +230,11 @@ export default function ChatScreen() {
     isLoading,
     error: chatError,
     clearError: clearChatError,
-    sendChatMessage,
+    enqueueChatMessage,
+    retryChatMessage,
+    discardChatMessage,
+    editChatMessage,
+    deleteChatMessage,
     loadChatMessages,
     loadOlderChatMessages,
     markChatAsRead,
@@ -249,6 +298,19 @@ export default function ChatScreen() {
     [user],
   );
 
+  // Messages that arrived while the app was in the background are read once
+  // the user is back on this screen
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      const roomId = activeRoomIdRef.current;
+      if (nextState !== "active" || !roomId || !userUid) return;
+      markChatAsReadRef.current(roomId, userUid).catch((error) => {
+        logger.warn("Failed to mark messages as read", error);
+      });
+    });
+    return () => subscription.remove();
+  }, [userUid]);
+
   const effectKey = useMemo(
     () =>
       [
@@ -264,13 +326,18 @@ export default function ChatScreen() {
   const roomIdForPresence =
     resolvedRoomId || activeRoomIdRef.current || initialRoomId || null;
 
-  const { isPeerOnline, isPeerTyping, announceTyping, forceResetTyping } =
-    useRealtimeChatParticipant({
-      roomId: roomIdForPresence,
-      peerId: agentInfo?.firebaseId,
-      currentUserId: userUid,
-      enabled: Boolean(roomIdForPresence),
-    });
+  const {
+    isPeerOnline,
+    peerLastSeen,
+    isPeerTyping,
+    announceTyping,
+    forceResetTyping,
+  } = useRealtimeChatParticipant({
+    roomId: roomIdForPresence,
+    peerId: agentInfo?.firebaseId,
+    currentUserId: userUid,
+    enabled: Boolean(roomIdForPresence),
+  });
 
   const presenceLabel = useMemo(() => {
     if (isPeerTyping) {
@@ -279,8 +346,8 @@ export default function ChatScreen() {
     if (isPeerOnline) {
       return t("chat.online");
     }
-    return t("chat.offline");
-  }, [isPeerOnline, isPeerTyping, t]);
+    return formatLastSeen(peerLastSeen, t);
+  }, [isPeerOnline, isPeerTyping, peerLastSeen, t]);
 
   const presenceColor = useMemo(() => {
     if (isPeerTyping) {
@@ -308,18 +375,38 @@ export default function ChatScreen() {
         return sortMessagesAsc(chatMessages);
       }
 
+      // Queued messages change in the store as the outbox delivers them, and
+      // sent ones when they are edited or deleted
+      const storeById = new Map(
+        chatMessages.map((message) => [message.id, message]),
+      );
+      let hasUpdates = false;
+      const updated = prev.map((message) => {
+        const next = storeById.get(message.id);
+        if (
+          next &&
+          next !== message &&
+          (message.tempId ||
+            getMessageRevision(next) !== getMessageRevision(message))
+        ) {
+          hasUpdates = true;
+          return next;
+        }
+        return message;
+      });
+
       const existingIds = new Set(
-        prev.map((message) => message.id || message.tempId || ""),
+        updated.map((message) => message.id || message.tempId || ""),
       );
       const unseen = chatMessages.filter(
         (message) => !existingIds.has(message.id || message.tempId || ""),
       );
 
       if (unseen.length === 0) {
-        return prev;
+        return hasUpdates ? updated : prev;
       }
 
-      return mergeMessagesBatch(prev, unseen);
+      return mergeMessagesBatch(updated, unseen);
     });
   }, [chatMessages]);
 
@@ -771,6 +858,28 @@ export default function ChatScreen() {
                 lastMessageTimestampRef.current = incomingMessage.timestamp;
               }
 
+              // Receipts for the advisor: read while on screen, otherwise
+              // only delivered until the chat is back in the foreground
+              if (
+                clientFirebaseId &&
+                activeRoomIdRef.current &&
+                incomingMessage.senderId !== clientFirebaseId &&
+                !incomingMessage.isRead
+              ) {
+                if (AppState.currentState === "active") {
+                  markChatAsRead(roomId, clientFirebaseId).catch((error) => {
+                    logger.warn("Failed to mark messages as read", error);
+                  });
+                } else if (!incomingMessage.deliveredTo?.[clientFirebaseId]) {
+                  chatService.markMessageReceipts(
+                    roomId,
+                    [incomingMessage.id],
+                    clientFirebaseId,
+                    "delivered",
+                  );
+                }
+              }
+
               if (!activeRoomIdRef.current) {
                 activeRoomIdRef.current = roomId;
                 ensureResolvedRoomState(roomId);
@@ -788,6 +897,12 @@ export default function ChatScreen() {
               }, 100);
             },
             lastMessageTimestampRef.current || undefined,
+            (changedMessage) => {
+              setDisplayMessages((prev) =>
+                mergeMessageIntoList(prev, changedMessage),
+              );
+              addChatMessageFn(changedMessage);
+            },
           );
         };
 
@@ -990,11 +1105,26 @@ export default function ChatScreen() {
     () => sortMessagesAsc(displayMessages),
     [displayMessages],
   );
+  // Reply quotes read the live parent so its edits and deletions show
+  const messagesById = useMemo(
+    () => new Map(displayMessages.map((msg) => [msg.id, msg])),
+    [displayMessages],
+  );
   const normalizedSearchQuery = useMemo(
-    () => searchQuery.trim().toLowerCase(),
+    () => searchQuery.trim(),
     [searchQuery],
   );
   const hasSearchQuery = normalizedSearchQuery.length > 0;
+  const messageMatchesSearch = useCallback(
+    (message: ChatMessage) =>
+      !isMessageDeleted(message) &&
+      [
+        message.message,
+        message.senderName,
+        ...(message.attachments ?? []).map((attachment) => attachment.name),
+      ].some((text) => matchesSearchQuery(text, normalizedSearchQuery)),
+    [normalizedSearchQuery],
+  );
   const filteredMessages = useMemo(() => {
     let base = sortedMessages;
 
@@ -1009,14 +1139,7 @@ export default function ChatScreen() {
     }
 
     if (hasSearchQuery) {
-      base = base.filter((message) => {
-        const content = (message.message ?? "").toLowerCase();
-        const senderName = (message.senderName ?? "").toLowerCase();
-        return (
-          content.includes(normalizedSearchQuery) ||
-          senderName.includes(normalizedSearchQuery)
-        );
-      });
+      base = base.filter(messageMatchesSearch);
     }
 
     return base;
@@ -1024,17 +1147,111 @@ export default function ChatScreen() {
     sortedMessages,
     activeFilter,
     hasSearchQuery,
-    normalizedSearchQuery,
+    messageMatchesSearch,
     userUid,
   ]);
   const isFiltered = activeFilter !== "all" || hasSearchQuery;
 
+  useEffect(() => {
+    pendingJumpRef.current = messageIdParam || null;
+  }, [messageIdParam]);
+
+  // Scroll to the message opened from search, paging back through history
+  // until it is loaded
+  useEffect(() => {
+    const targetId = pendingJumpRef.current;
+    if (!targetId || isLoadingMessages || filteredMessages.length === 0) {
+      return;
+    }
+
+    const index = filteredMessages.findIndex((msg) => msg.id === targetId);
+    if (index === -1) {
+      if (hasMore) {
+        handleLoadMore();
+        return;
+      }
+      pendingJumpRef.current = null;
+      showToast({
+        type: "info",
+        title: t("chat.search.notFoundTitle", {
+          defaultValue: "Message not found",
+        }),
+        message: t("chat.search.notFoundMessage", {
+          defaultValue: "It may have been removed from this conversation.",
+        }),
+      });
+      return;
+    }
+
+    pendingJumpRef.current = null;
+    setHighlightedMessageId(targetId);
+    // Runs after the initial scroll to the latest message
+    const timer = setTimeout(() => {
+      flatListRef.current?.scrollToIndex({
+        index,
+        animated: true,
+        viewPosition: 0.5,
+      });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [
+    filteredMessages,
+    handleLoadMore,
+    hasMore,
+    isLoadingMessages,
+    showToast,
+    t,
+  ]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   // Memoized toggle function for search toolbar
   const toggleSearchToolbar = useCallback(() => {
     setIsSearchToolbarVisible((prev) => !prev);
   }, []);
 
+  const handleSaveEdit = async (target: ChatMessage) => {
+    const text = message.trim();
+    setEditingMessage(null);
+    setMessage("");
+    forceResetTyping();
+    if (!text || text === target.message) return;
+
+    if (!canEditMessage(target, userUid)) {
+      showToast({
+        type: "info",
+        title: t("chat.edit.windowClosedTitle", {
+          defaultValue: "Can't edit anymore",
+        }),
+        message: t("chat.edit.windowClosedMessage", {
+          defaultValue: "Messages can only be edited for 15 minutes.",
+        }),
+      });
+      return;
+    }
+
+    const success = await editChatMessage(target.id, text);
+    if (!success) {
+      showToast({
+        type: "error",
+        title: t("common.error"),
+        message: t("chat.edit.failed", {
+          defaultValue: "Failed to edit message",
+        }),
+      });
+    }
+  };
+
   const handleSend = async () => {
+    if (editingMessage) {
+      handleSaveEdit(editingMessage);
+      return;
+    }
+
     if (
       (!message.trim() &&
         (!selectedAttachments || selectedAttachments.length === 0)) ||
@@ -1060,103 +1277,335 @@ export default function ChatScreen() {
     forceResetTyping();
 
     const messageText = message.trim();
-    const attachments = selectedAttachments || [];
-    const tempId = `temp-${Date.now()}-${Math.random()}`;
+    const clientFirebaseId = auth.currentUser?.uid || user.uid;
+
+    const pendingAttachments = selectedAttachments;
+    const replyTo = replyingTo ? toReplyReference(replyingTo) : undefined;
 
-    // OPTIMISTIC UPDATE: Create optimistic message
-    const optimisticMessage: ChatMessage = {
-      id: tempId,
-      tempId,
+    // Clear input immediately
+    setMessage("");
+    setSelectedAttachments([]);
+    setReplyingTo(null);
+
+    // The outbox shows the message right away and keeps it across restarts
+    // until Firebase has it, uploading any attachments first
+    const optimisticMessage = await enqueueChatMessage({
+      roomId: activeRoomId,
       caseId: resolvedCaseId,
-      senderId: auth.currentUser?.uid || user.uid || "",
+      senderId: clientFirebaseId || "",
       senderName: user.displayName || user.email || "User",
       senderRole: "CLIENT",
-      message: messageText || "📎 Attachment",
-      timestamp: Date.now(),
-      isRead: false,
-      attachments: attachments.length > 0 ? attachments : undefined,
-      status: "pending",
-    };
-
-    // Add message to UI immediately
+      message: messageText || ATTACHMENT_PLACEHOLDER,
+      pendingAttachments,
+      replyTo,
+      clientId: clientFirebaseId,
+      agentId: agentInfo?.firebaseId || undefined,
+    });
     setDisplayMessages((prev) => mergeMessageIntoList(prev, optimisticMessage));
-    addChatMessage(optimisticMessage);
+  };
 
-    // Clear input immediately
-    setMessage("");
-    setSelectedAttachments([]);
+  const confirmDeleteMessage = useCallback(
+    (target: ChatMessage) => {
+      showAlert({
+        title: t("chat.delete.title", { defaultValue: "Delete message?" }),
+        message: t("chat.delete.message", {
+          defaultValue:
+            'It will be replaced with "Message removed" for everyone in this chat.',
+        }),
+        actions: [
+          { text: t("common.cancel"), variant: "secondary" },
+          {
+            text: t("common.delete", { defaultValue: "Delete" }),
+            variant: "destructive",
+            onPress: async () => {
+              const success = await deleteChatMessage(target.id);
+              if (!success) {
+                showToast({
+                  type: "error",
+                  title: t("common.error"),
+                  message: t("chat.delete.failed", {
+                    defaultValue: "Failed to delete message",
+                  }),
+                });
+              }
+            },
+          },
+        ],
+      });
+    },
+    [deleteChatMessage, showAlert, showToast, t],
+  );
 
-    try {
-      // Send to Firebase
-      const clientFirebaseId = auth.currentUser?.uid || user.uid;
-      const agentFirebaseId = agentInfo?.firebaseId || undefined;
-
-      const success = await sendChatMessage(
-        resolvedCaseId,
-        clientFirebaseId || "",
-        user.displayName || user.email || "User",
-        "CLIENT",
-        messageText || "📎 Attachment",
-        attachments.length > 0 ? attachments : undefined,
-        clientFirebaseId,
-        agentFirebaseId,
-      );
+  // "Delivered …" / "Seen …" lines for the sender's own messages
+  const describeReceipts = useCallback(
+    (target: ChatMessage) => {
+      const formatReceiptTime = (time: number) =>
+        new Date(time).toLocaleString(undefined, {
+          month: "short",
+          day: "numeric",
+          hour: "numeric",
+          minute: "2-digit",
+        });
+      const deliveredAt = getDeliveredAt(target);
+      const readAt = getReadAt(target);
+      return [
+        deliveredAt
+          ? t("chat.receipts.delivered", {
+              time: formatReceiptTime(deliveredAt),
+              defaultValue: "Delivered {{time}}",
+            })
+          : t("chat.receipts.notDelivered", {
+              defaultValue: "Not delivered yet",
+            }),
+        readAt
+          ? t("chat.receipts.seen", {
+              time: formatReceiptTime(readAt),
+              defaultValue: "Seen {{time}}",
+            })
+          : target.isRead
+            ? t("chat.receipts.seenUnknown", { defaultValue: "Seen" })
+            : t("chat.receipts.notSeen", { defaultValue: "Not seen yet" }),
+      ].join("\n");
+    },
+    [t],
+  );
 
-      if (!success) {
-        // Mark optimistic message as failed
-        logger.error("[Chat UI] failed to send message");
-        setDisplayMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === tempId
-              ? { ...msg, status: "failed", error: "Failed to send" }
-              : msg,
-          ),
-        );
-        useMessagesStore.setState((state) => ({
-          chatMessages: state.chatMessages.map((msg) =>
-            msg.id === tempId
-              ? { ...msg, status: "failed", error: "Failed to send" }
-              : msg,
-          ),
-        }));
-      } else {
-        setDisplayMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === tempId ? { ...msg, status: "sent" } : msg,
-          ),
-        );
-        useMessagesStore.setState((state) => ({
-          chatMessages: state.chatMessages.map((msg) =>
-            msg.id === tempId ? { ...msg, status: "sent" } : msg,
-          ),
-        }));
+  const handleMessageLongPress = useCallback(
+    (target: ChatMessage) => {
+      if (isMessageDeleted(target) || target.status === "pending") return;
+
+      const actions: BottomSheetAlertAction[] = [];
+      if (target.status !== "failed") {
+        actions.push({
+          text: t("chat.reply.action", { defaultValue: "Reply" }),
+          variant: "primary",
+          onPress: () => {
+            setEditingMessage(null);
+            setReplyingTo(target);
+          },
+        });
       }
-    } catch (error: any) {
-      logger.error("[Chat UI] failed to send message", error);
-      setDisplayMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === tempId
-            ? {
-                ...msg,
-                status: "failed",
-                error: error?.message || "Failed to send",
-              }
-            : msg,
-        ),
-      );
-      useMessagesStore.setState((state) => ({
-        chatMessages: state.chatMessages.map((msg) =>
-          msg.id === tempId
-            ? {
-                ...msg,
-                status: "failed",
-                error: error?.message || "Failed to send",
-              }
-            : msg,
-        ),
-      }));
+      if (canEditMessage(target, userUid)) {
+        actions.push({
+          text: t("chat.edit.action", { defaultValue: "Edit" }),
+          variant: "secondary",
+          onPress: () => {
+            setReplyingTo(null);
+            setSelectedAttachments([]);
+            setEditingMessage(target);
+            setMessage(target.message);
+          },
+        });
+      }
+      if (canDeleteMessage(target, userUid)) {
+        actions.push({
+          text: t("common.delete", { defaultValue: "Delete" }),
+          variant: "destructive",
+          onPress: () => confirmDeleteMessage(target),
+        });
+      }
+      if (actions.length === 0) return;
+
+      showAlert({
+        title: t("chat.messageActions", { defaultValue: "Message" }),
+        message:
+          target.senderId === userUid && target.status !== "failed"
+            ? describeReceipts(target)
+            : undefined,
+        actions,
+      });
+    },
+    [confirmDeleteMessage, describeReceipts, showAlert, t, userUid],
+  );
+
+  const cancelComposerContext = useCallback(() => {
+    if (editingMessage) {
+      setMessage("");
     }
-  };
+    setEditingMessage(null);
+    setReplyingTo(null);
+  }, [editingMessage]);
+
+  const handleFailedMessagePress = useCallback(
+    (failedMessage: ChatMessage) => {
+      const tempId = failedMessage.tempId;
+      if (!tempId) return;
+      showAlert({
+        title: t("chat.outbox.failedTitle", {
+          defaultValue: "Message not sent",
+        }),
+        message:
+          failedMessage.error ||
+          t("chat.outbox.failedMessage", {
+            defaultValue:
+              "We couldn't deliver this message. Try again or discard it.",
+          }),
+        actions: [
+          {
+            text: t("chat.outbox.discard", { defaultValue: "Discard" }),
+            variant: "destructive",
+            onPress: () => {
+              discardChatMessage(tempId);
+              setDisplayMessages((prev) =>
+                prev.filter((msg) => msg.tempId !== tempId),
+              );
+            },
+          },
+          {
+            text: t("chat.outbox.retry", { defaultValue: "Retry" }),
+            variant: "primary",
+            onPress: () => retryChatMessage(tempId),
+          },
+        ],
+      });
+    },
+    [discardChatMessage, retryChatMessage, showAlert, t],
+  );
+
+  const addAttachments = useCallback(
+    async (source: "library" | "camera" | "document") => {
+      const remaining = MAX_CHAT_ATTACHMENTS - selectedAttachments.length;
+      if (remaining <= 0) {
+        showToast({
+          type: "info",
+          title: t("chat.attachments.limitTitle", {
+            defaultValue: "Attachment limit reached",
+          }),
+          message: t("chat.attachments.limitMessage", {
+            count: MAX_CHAT_ATTACHMENTS,
+            defaultValue: "You can attach up to {{count}} files per message.",
+          }),
+        });
+        return;
+      }
+
+      try {
+        const { accepted, rejected } =
+          source === "camera"
+            ? await chatAttachments.takePhoto()
+            : source === "library"
+              ? await chatAttachments.pickPhotos(remaining)
+              : await chatAttachments.pickDocuments(remaining);
+
+        if (accepted.length > 0) {
+          setSelectedAttachments((prev) =>
+            [...prev, ...accepted].slice(0, MAX_CHAT_ATTACHMENTS),
+          );
+        }
+        if (rejected.length > 0) {
+          showToast({
+            type: "error",
+            title: t("chat.attachments.tooLargeTitle", {
+              defaultValue: "File too large",
+            }),
+            message: t("chat.attachments.tooLargeMessage", {
+              names: rejected.map((item) => item.name).join(", "),
+              defaultValue: "{{names}} is larger than 25 MB.",
+            }),
+          });
+        }
+      } catch (error: any) {
+        logger.error("[Chat UI] failed to pick attachment", error);
+        showToast({
+          type: "error",
+          title: t("common.error"),
+          message:
+            error?.message ||
+            t("chat.attachments.pickFailed", {
+              defaultValue: "Unable to attach this file.",
+            }),
+        });
+      }
+    },
+    [selectedAttachments.length, showToast, t],
+  );
+
+  const handleAttachPress = useCallback(() => {
+    showAlert({
+      title: t("chat.attachments.title", { defaultValue: "Attach" }),
+      actions: [
+        {
+          text: t("chat.attachments.photoLibrary", {
+            defaultValue: "Photo library",
+          }),
+          variant: "primary",
+          onPress: () => addAttachments("library"),
+        },
+        {
+          text: t("chat.attachments.camera", { defaultValue: "Take photo" }),
+          variant: "primary",
+          onPress: () => addAttachments("camera"),
+        },
+        {
+          text: t("chat.attachments.document", { defaultValue: "Document" }),
+          variant: "primary",
+          onPress: () => addAttachments("document"),
+        },
+        { text: t("common.cancel"), variant: "secondary" },
+      ],
+    });
+  }, [addAttachments, showAlert, t]);
+
+  const removePendingAttachment = useCallback((attachmentId: string) => {
+    setSelectedAttachments((prev) =>
+      prev.filter((attachment) => attachment.id !== attachmentId),
+    );
+  }, []);
+
+  const handleOpenAttachment = useCallback(
+    async (attachment: ChatAttachment) => {
+      try {
+        await Linking.openURL(attachment.url);
+      } catch (error) {
+        logger.error("[Chat UI] failed to open attachment", error);
+      }
+    },
+    [],
+  );
+
+  const handlePromoteAttachment = useCallback(
+    async (attachment: ChatAttachment) => {
+      if (!resolvedCaseId || promotingUrl) return;
+      setPromotingUrl(attachment.url);
+      try {
+        const document = await useDocumentsStore
+          .getState()
+          .uploadDocument(
+            chatAttachments.toDocumentRequest(attachment, resolvedCaseId),
+          );
+        if (!document) {
+          throw new Error(
+            useDocumentsStore.getState().error ||
+              t("chat.attachments.saveFailed", {
+                defaultValue: "Could not save this file to your case.",
+              }),
+          );
+        }
+        showToast({
+          type: "success",
+          title: t("common.success"),
+          message: t("chat.attachments.saved", {
+            name: attachment.name,
+            defaultValue: "{{name}} was added to your case documents.",
+          }),
+        });
+      } catch (error: any) {
+        logger.error("[Chat UI] failed to promote attachment", error);
+        showToast({
+          type: "error",
+          title: t("common.error"),
+          message:
+            error?.message ||
+            t("chat.attachments.saveFailed", {
+              defaultValue: "Could not save this file to your case.",
+            }),
+        });
+      } finally {
+        setPromotingUrl(null);
+      }
+    },
+    [promotingUrl, resolvedCaseId, showToast, t],
+  );
 
   // Format message timestamp
   const formatMessageTime = useCallback((timestamp: number) => {
@@ -1522,6 +1971,20 @@ export default function ChatScreen() {
               ) : null
             }
             inverted={false}
+            onScrollToIndexFailed={({ index, averageItemLength }) => {
+              // Rows are not measured yet; jump close, then retry precisely
+              flatListRef.current?.scrollToOffset({
+                offset: index * averageItemLength,
+                animated: false,
+              });
+              setTimeout(() => {
+                flatListRef.current?.scrollToIndex({
+                  index,
+                  animated: true,
+                  viewPosition: 0.5,
+                });
+              }, 250);
+            }}
             ListEmptyComponent={
               isLoadingMessages ? (
                 <View style={styles.loadingContainer}>
@@ -1569,25 +2032,26 @@ export default function ChatScreen() {
                 : withOpacity(colors.surfaceAlt, 0.95);
               const incomingTextColor = theme.dark ? "#F7F7FA" : "#0F172A";
               const matchesSearch =
-                hasSearchQuery &&
-                ((msg.message ?? "")
-                  .toLowerCase()
-                  .includes(normalizedSearchQuery) ||
-                  (msg.senderName ?? "")
-                    .toLowerCase()
-                    .includes(normalizedSearchQuery));
+                (hasSearchQuery && messageMatchesSearch(msg)) ||
+                (Boolean(msg.id) && msg.id === highlightedMessageId);
+              const isDeleted = isMessageDeleted(msg);
+              const hasAttachments =
+                !isDeleted && (msg.attachments?.length ?? 0) > 0;
+              const deliveryState = getDeliveryState(msg);
               const statusIcon =
                 msg.status === "failed"
                   ? "alert-circle-outline"
                   : msg.status === "pending"
                     ? "clock-outline"
-                    : msg.status === "sent"
-                      ? "check-all"
-                      : "check";
+                    : deliveryState === "sent"
+                      ? "check"
+                      : "check-all";
               const statusColor =
                 msg.status === "failed"
                   ? colors.danger
-                  : withOpacity(colors.success, 0.85);
+                  : deliveryState === "read" && msg.status !== "pending"
+                    ? colors.success
+                    : withOpacity(colors.muted, 0.9);
 
               return (
                 <View
@@ -1630,7 +2094,11 @@ export default function ChatScreen() {
                       </Text>
                     )} */}
 
-                    <View style={styles.messageBubbleWrapper}>
+                    <Pressable
+                      style={styles.messageBubbleWrapper}
+                      onLongPress={() => handleMessageLongPress(msg)}
+                      delayLongPress={300}
+                    >
                       <View
                         style={[
                           styles.messageBubble,
@@ -1675,22 +2143,70 @@ export default function ChatScreen() {
                                 }),
                         ]}
                       >
-                        <Text
-                          style={[
-                            styles.messageText,
-                            isUser
-                              ? styles.messageTextUser
-                              : { color: incomingTextColor },
-                            matchesSearch && {
-                              color: isUser ? colors.onPrimary : colors.text,
-                              fontWeight: "600",
-                            },
-                          ]}
-                        >
-                          {msg.message}
-                        </Text>
+                        {msg.replyTo && !isDeleted ? (
+                          <ChatReplyQuote
+                            reply={msg.replyTo}
+                            parent={messagesById.get(msg.replyTo.messageId)}
+                            isUser={isUser}
+                          />
+                        ) : null}
+                        {hasAttachments ? (
+                          <ChatMessageAttachments
+                            attachments={msg.attachments ?? []}
+                            isUser={isUser}
+                            uploadProgress={msg.uploadProgress}
+                            onOpen={handleOpenAttachment}
+                            onPromote={
+                              msg.status === "pending" ||
+                              msg.status === "failed"
+                                ? undefined
+                                : handlePromoteAttachment
+                            }
+                            promotingUrl={promotingUrl}
+                          />
+                        ) : null}
+                        {isDeleted ? (
+                          <Text
+                            style={[
+                              styles.messageText,
+                              styles.messageRemovedText,
+                              {
+                                color: isUser
+                                  ? withOpacity("#fff", 0.8)
+                                  : colors.muted,
+                              },
+                            ]}
+                          >
+                            {t("chat.messageRemoved", {
+                              defaultValue: "Message removed",
+                            })}
+                          </Text>
+                        ) : hasAttachments &&
+                          msg.message === ATTACHMENT_PLACEHOLDER ? null : (
+                          <HighlightedText
+                            text={msg.message}
+                            query={normalizedSearchQuery}
+                            highlightStyle={{
+                              fontWeight: "700",
+                              backgroundColor: withOpacity(
+                                colors.warning,
+                                isUser ? 0.45 : 0.35,
+                              ),
+                            }}
+                            style={[
+                              styles.messageText,
+                              isUser
+                                ? styles.messageTextUser
+                                : { color: incomingTextColor },
+                              matchesSearch && {
+                                color: isUser ? colors.onPrimary : colors.text,
+                                fontWeight: "600",
+                              },
+                            ]}
+                          />
+                        )}
                       </View>
-                    </View>
+                    </Pressable>
 
                     <View
                       style={[
@@ -1706,7 +2222,39 @@ export default function ChatScreen() {
                       >
                         {formatMessageTime(msg.timestamp)}
                       </Text>
-                      {isUser && msg.status && (
+                      {msg.editedAt && !isDeleted ? (
+                        <Text
+                          style={[
+                            styles.messageTime,
+                            { color: theme.dark ? "#9A9AA0" : "#6C6C6F" },
+                          ]}
+                        >
+                          {t("chat.edited", { defaultValue: "Edited" })}
+                        </Text>
+                      ) : null}
+                      {isUser && msg.status === "failed" ? (
+                        <Pressable
+                          style={styles.messageStatus}
+                          onPress={() => handleFailedMessagePress(msg)}
+                          hitSlop={8}
+                        >
+                          <Text
+                            style={[
+                              styles.messageStatusText,
+                              { color: statusColor },
+                            ]}
+                          >
+                            {t("chat.outbox.tapToRetry", {
+                              defaultValue: "Not sent · Tap to retry",
+                            })}
+                          </Text>
+                          <MaterialCommunityIcons
+                            name={statusIcon}
+                            size={16}
+                            color={statusColor}
+                          />
+                        </Pressable>
+                      ) : isUser && !isDeleted ? (
                         <View style={styles.messageStatus}>
                           <MaterialCommunityIcons
                             name={statusIcon}
@@ -1714,7 +2262,7 @@ export default function ChatScreen() {
                             color={statusColor}
                           />
                         </View>
-                      )}
+                      ) : null}
                     </View>
                   </View>
                 </View>
@@ -1722,6 +2270,98 @@ export default function ChatScreen() {
             }}
           />
 
+          {selectedAttachments.length > 0 ? (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={[
+                styles.pendingAttachments,
+                {
+                  backgroundColor: theme.dark
+                    ? colors.surfaceElevated
+                    : withOpacity("#FFF9C4", 0.25),
+                },
+              ]}
+              contentContainerStyle={styles.pendingAttachmentsContent}
+            >
+              {selectedAttachments.map((attachment) => (
+                <View
+                  key={attachment.id}
+                  style={[
+                    styles.pendingAttachment,
+                    {
+                      backgroundColor: withOpacity(
+                        colors.primary,
+                        theme.dark ? 0.25 : 0.1,
+                      ),
+                    },
+                  ]}
+                >
+                  <MaterialCommunityIcons
+                    name={
+                      attachment.mimeType.startsWith("image/")
+                        ? "image-outline"
+                        : "file-document-outline"
+                    }
+                    size={16}
+                    color={colors.primary}
+                  />
+                  <Text
+                    style={[
+                      styles.pendingAttachmentName,
+                      { color: colors.text },
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {attachment.name}
+                  </Text>
+                  <Pressable
+                    onPress={() => removePendingAttachment(attachment.id)}
+                    hitSlop={8}
+                  >
+                    <MaterialCommunityIcons
+                      name="close-circle"
+                      size={16}
+                      color={colors.muted}
+                    />
+                  </Pressable>
+                </View>
+              ))}
+            </ScrollView>
+          ) : null}
+
+          {replyingTo || editingMessage ? (
+            <View
+              style={[
+                styles.composerContext,
+                {
+                  backgroundColor: theme.dark
+                    ? colors.surfaceElevated
+                    : withOpacity("#FFF9C4", 0.25),
+                },
+              ]}
+            >
+              {editingMessage ? (
+                <ChatReplyQuote
+                  reply={toReplyReference(editingMessage)}
+                  title={t("chat.edit.banner", {
+                    defaultValue: "Editing message",
+                  })}
+                  onClose={cancelComposerContext}
+                />
+              ) : replyingTo ? (
+                <ChatReplyQuote
+                  reply={toReplyReference(replyingTo)}
+                  title={t("chat.reply.banner", {
+                    name: replyingTo.senderName,
+                    defaultValue: "Replying to {{name}}",
+                  })}
+                  onClose={cancelComposerContext}
+                />
+              ) : null}
+            </View>
+          ) : null}
+
           {/* Input */}
           <View
             style={[
@@ -1741,15 +2381,12 @@ export default function ChatScreen() {
             ]}
           >
             <Pressable
-              style={styles.attachButton}
-              onPress={() => {
-                showAlert({
-                  title: "Attach File",
-                  message:
-                    "File attachment feature is coming soon. For now, please describe your document in the message and your agent will help you upload it.",
-                  actions: [{ text: t("common.close"), variant: "primary" }],
-                });
-              }}
+              style={[
+                styles.attachButton,
+                editingMessage && styles.attachButtonDisabled,
+              ]}
+              onPress={handleAttachPress}
+              disabled={Boolean(editingMessage)}
             >
               <MaterialCommunityIcons
                 name="paperclip"
@@ -1796,12 +2433,18 @@ export default function ChatScreen() {
                     0.45,
                   ),
                 },
-                !message.trim() && styles.sendButtonDisabled,
+                !message.trim() &&
+                  selectedAttachments.length === 0 &&
+                  styles.sendButtonDisabled,
               ]}
               onPress={handleSend}
-              disabled={!message.trim()}
+              disabled={!message.trim() && selectedAttachments.length === 0}
             >
-              <MaterialCommunityIcons name="send" size={22} color="#FFFFFF" />
+              <MaterialCommunityIcons
+                name={editingMessage ? "check" : "send"}
+                size={22}
+                color="#FFFFFF"
+              />
             </Pressable>
           </View>
         </KeyboardAvoidingView>
@@ -2000,6 +2643,9 @@ const styles = StyleSheet.create({
   messageTextUser: {
     color: "#fff",
   },
+  messageRemovedText: {
+    fontStyle: "italic",
+  },
   messageFooter: {
     flexDirection: "row",
     alignItems: "center",
@@ -2046,11 +2692,39 @@ const styles = StyleSheet.create({
     shadowRadius: 6,
     elevation: 8,
   },
+  pendingAttachments: {
+    flexGrow: 0,
+  },
+  composerContext: {
+    paddingHorizontal: 16,
+    paddingTop: 10,
+  },
+  pendingAttachmentsContent: {
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    gap: 8,
+  },
+  pendingAttachment: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    maxWidth: 200,
+  },
+  pendingAttachmentName: {
+    flexShrink: 1,
+    fontSize: 13,
+  },
   attachButton: {
     paddingHorizontal: 8,
     paddingVertical: 6,
     marginBottom: 4,
   },
+  attachButtonDisabled: {
+    opacity: 0.4,
+  },
   inputWrapper: {
     flex: 1,
     borderRadius: 24,
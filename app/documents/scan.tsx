@@ -0,0 +1,904 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Image,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { useTheme } from "@react-navigation/native";
+import {
+  SafeAreaView,
+  useSafeAreaInsets,
+} from "react-native-safe-area-context";
+import * as ImagePicker from "expo-image-picker";
+import { IconSymbol } from "@/components/IconSymbol";
+import { BackButton } from "@/components/BackButton";
+import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
+import { useToast } from "@/components/Toast";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { useThemeColors } from "@/lib/hooks/useAppTheme";
+import { withOpacity } from "@/styles/theme";
+import { DOCUMENT_TYPE_OPTIONS } from "@/lib/constants/documentRequirements";
+import {
+  documentScanner,
+  MAX_CROP_INSET,
+  PageCropInsets,
+  ScannedPage,
+} from "@/lib/services/documentScanner";
+import { useDocumentsStore } from "@/stores/documents/documentsStore";
+import { logger } from "@/lib/utils/logger";
+
+const CROP_STEP = 0.05;
+const EMPTY_INSETS: PageCropInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+const CROP_EDGES: (keyof PageCropInsets)[] = ["top", "bottom", "left", "right"];
+
+const buildPdfFileName = (documentType: string) =>
+  `${documentType.toLowerCase()}_${new Date().toISOString().slice(0, 10)}.pdf`;
+
+export default function ScanDocumentScreen() {
+  const theme = useTheme();
+  const router = useRouter();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const colors = useThemeColors();
+  const { showAlert } = useBottomSheetAlert();
+  const { showToast } = useToast();
+  const params = useLocalSearchParams<{
+    caseId?: string;
+    documentType?: string;
+    replaceDocumentId?: string;
+  }>();
+  const caseId = typeof params.caseId === "string" ? params.caseId : "";
+  const replacesDocumentId =
+    typeof params.replaceDocumentId === "string"
+      ? params.replaceDocumentId
+      : null;
+  const documentType =
+    typeof params.documentType === "string" ? params.documentType : "OTHER";
+
+  const uploadFile = useDocumentsStore((state) => state.uploadFile);
+  const discardUpload = useDocumentsStore((state) => state.discardUpload);
+
+  const [pages, setPages] = useState<ScannedPage[]>([]);
+  const [busyPageId, setBusyPageId] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [cropTarget, setCropTarget] = useState<ScannedPage | null>(null);
+  const [cropInsets, setCropInsets] = useState<PageCropInsets>(EMPTY_INSETS);
+
+  // Keep the latest pages for cleanup when the screen closes
+  const pagesRef = useRef<ScannedPage[]>([]);
+  useEffect(() => {
+    pagesRef.current = pages;
+  }, [pages]);
+  useEffect(
+    () => () => {
+      documentScanner.discardFiles(pagesRef.current.map((page) => page.uri));
+    },
+    [],
+  );
+
+  const documentTypeOption = DOCUMENT_TYPE_OPTIONS.find(
+    (option) => option.value === documentType,
+  );
+  const documentTypeLabel = documentTypeOption
+    ? t(documentTypeOption.labelKey)
+    : documentType.replace(/_/g, " ");
+
+  const isBusy = isCapturing || isSubmitting || busyPageId !== null;
+
+  const addPages = useCallback(
+    async (mode: "camera" | "library") => {
+      setIsCapturing(true);
+      try {
+        const permissionStatus =
+          mode === "camera"
+            ? await ImagePicker.requestCameraPermissionsAsync()
+            : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+        if (permissionStatus.status !== "granted") {
+          showToast({
+            title: t("scanDocument.permissionTitle", {
+              defaultValue: "Permission needed",
+            }),
+            message: t("scanDocument.permissionMessage", {
+              defaultValue:
+                "Allow camera and photo access in settings to scan documents.",
+            }),
+            type: "error",
+          });
+          return;
+        }
+
+        const pickerResult =
+          mode === "camera"
+            ? await ImagePicker.launchCameraAsync({
+                mediaTypes: ImagePicker.MediaTypeOptions.Images,
+                quality: 1,
+              })
+            : await ImagePicker.launchImageLibraryAsync({
+                mediaTypes: ImagePicker.MediaTypeOptions.Images,
+                allowsMultipleSelection: true,
+                orderedSelection: true,
+                quality: 1,
+              });
+
+        if (pickerResult.canceled || !pickerResult.assets?.length) {
+          return;
+        }
+
+        const captured: ScannedPage[] = [];
+        for (const asset of pickerResult.assets) {
+          captured.push(
+            await documentScanner.normalizePage(
+              asset.uri,
+              asset.width,
+              asset.height,
+            ),
+          );
+        }
+        setPages((current) => [...current, ...captured]);
+      } catch (error: any) {
+        logger.error("Document scan capture error", error);
+        showToast({
+          title: t("common.error"),
+          message: error?.message || t("errors.generic"),
+          type: "error",
+        });
+      } finally {
+        setIsCapturing(false);
+      }
+    },
+    [showToast, t],
+  );
+
+  const replacePage = useCallback(
+    async (page: ScannedPage, transform: () => Promise<ScannedPage>) => {
+      setBusyPageId(page.id);
+      try {
+        const updated = await transform();
+        setPages((current) =>
+          current.map((item) => (item.id === page.id ? updated : item)),
+        );
+        documentScanner.discardFiles([page.uri]);
+      } catch (error: any) {
+        logger.error("Document scan edit error", error);
+        showToast({
+          title: t("common.error"),
+          message: error?.message || t("errors.generic"),
+          type: "error",
+        });
+      } finally {
+        setBusyPageId(null);
+      }
+    },
+    [showToast, t],
+  );
+
+  const movePage = useCallback((index: number, offset: -1 | 1) => {
+    setPages((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) {
+        return current;
+      }
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const deletePage = useCallback((page: ScannedPage) => {
+    setPages((current) => current.filter((item) => item.id !== page.id));
+    documentScanner.discardFiles([page.uri]);
+  }, []);
+
+  const openCrop = useCallback((page: ScannedPage) => {
+    setCropInsets(EMPTY_INSETS);
+    setCropTarget(page);
+  }, []);
+
+  const adjustCrop = useCallback(
+    (edge: keyof PageCropInsets, delta: number) => {
+      setCropInsets((current) => ({
+        ...current,
+        [edge]: Math.min(
+          MAX_CROP_INSET,
+          Math.max(0, Math.round((current[edge] + delta) * 100) / 100),
+        ),
+      }));
+    },
+    [],
+  );
+
+  const applyCrop = useCallback(() => {
+    const page = cropTarget;
+    const appliedInsets = cropInsets;
+    setCropTarget(null);
+    if (!page) {
+      return;
+    }
+    replacePage(page, () => documentScanner.cropPage(page, appliedInsets));
+  }, [cropInsets, cropTarget, replacePage]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!caseId || pages.length === 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    let pdfUri: string | null = null;
+    try {
+      const pdf = await documentScanner.buildPdf(pages);
+      pdfUri = pdf.uri;
+      const fileName = buildPdfFileName(documentType);
+      setUploadProgress(0);
+
+      const { session, document } = await uploadFile(
+        {
+          fileUri: pdf.uri,
+          fileName,
+          mimeType: "application/pdf",
+          fileSize: pdf.size,
+          caseId,
+          documentType,
+          replacesDocumentId,
+        },
+        { onProgress: (progress) => setUploadProgress(progress) },
+      );
+
+      if (!document && session?.status === "failed") {
+        await discardUpload(session.id);
+        throw new Error(session.lastError || t("errors.generic"));
+      }
+
+      if (!document && !session) {
+        throw new Error(t("errors.generic"));
+      }
+
+      showToast(
+        document
+          ? {
+              title: t("uploadDocument.uploadSuccessTitle", {
+                defaultValue: "Document uploaded",
+              }),
+              message: t("scanDocument.uploadSuccessMessage", {
+                count: pages.length,
+                defaultValue:
+                  "Your {{count}}-page document has been uploaded as one PDF.",
+              }),
+              type: "success",
+              duration: 3000,
+            }
+          : {
+              title: t("uploadDocument.uploadPausedTitle", {
+                defaultValue: "Upload paused",
+              }),
+              message: t("uploadDocument.uploadPausedMessage", {
+                defaultValue:
+                  "We'll finish uploading \"{{file}}\" automatically once you're back online.",
+                file: fileName,
+              }),
+              type: "info",
+              duration: 4000,
+            },
+      );
+      router.back();
+    } catch (error: any) {
+      logger.error("Scanned document upload failed", error);
+      showAlert({
+        title: t("common.error"),
+        message: error?.message || t("errors.generic"),
+      });
+    } finally {
+      if (pdfUri) {
+        // Chunked uploads keep their own copy of the file
+        documentScanner.discardFiles([pdfUri]);
+      }
+      setUploadProgress(null);
+      setIsSubmitting(false);
+    }
+  }, [
+    caseId,
+    discardUpload,
+    documentType,
+    pages,
+    replacesDocumentId,
+    router,
+    showAlert,
+    showToast,
+    t,
+    uploadFile,
+  ]);
+
+  const handleBack = useCallback(() => {
+    if (pages.length === 0 || isSubmitting) {
+      router.back();
+      return;
+    }
+    showAlert({
+      title: t("scanDocument.discardTitle", {
+        defaultValue: "Discard scanned pages?",
+      }),
+      message: t("scanDocument.discardMessage", {
+        defaultValue: "The pages you scanned have not been uploaded yet.",
+      }),
+      type: "warning",
+      actions: [
+        { text: t("common.cancel"), variant: "secondary" },
+        {
+          text: t("scanDocument.discard", { defaultValue: "Discard" }),
+          variant: "destructive",
+          onPress: () => router.back(),
+        },
+      ],
+    });
+  }, [isSubmitting, pages.length, router, showAlert, t]);
+
+  const cardBackground = theme.dark ? "#111827" : "#fff";
+  const cardBorder = theme.dark ? "#1F2937" : "#E0E0E0";
+  const mutedText = theme.dark ? "#98989D" : "#666";
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+      <SafeAreaView
+        style={[
+          styles.container,
+          {
+            backgroundColor: theme.dark ? "#1f2937" : theme.colors.background,
+            paddingBottom: insets.bottom ?? 0,
+          },
+        ]}
+        edges={["top"]}
+      >
+        <View style={[styles.header, { borderBottomColor: cardBorder }]}>
+          <BackButton onPress={handleBack} iconSize={24} />
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+            {t("scanDocument.title", { defaultValue: "Scan document" })}
+          </Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={[styles.description, { color: mutedText }]}>
+            {t("scanDocument.description", {
+              type: documentTypeLabel,
+              defaultValue:
+                "Capture every page of your {{type}}. They will be merged into a single PDF.",
+            })}
+          </Text>
+
+          <View style={styles.captureRow}>
+            <Pressable
+              style={[
+                styles.captureButton,
+                { backgroundColor: colors.primary },
+                isBusy && styles.disabled,
+              ]}
+              onPress={() => addPages("camera")}
+              disabled={isBusy}
+            >
+              <IconSymbol name="camera.fill" size={20} color="#fff" />
+              <Text style={styles.captureButtonText}>
+                {t("scanDocument.takePhoto", { defaultValue: "Scan page" })}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={[
+                styles.captureButton,
+                styles.captureButtonOutline,
+                { borderColor: colors.primary },
+                isBusy && styles.disabled,
+              ]}
+              onPress={() => addPages("library")}
+              disabled={isBusy}
+            >
+              <IconSymbol name="photo.fill" size={20} color={colors.primary} />
+              <Text
+                style={[styles.captureButtonText, { color: colors.primary }]}
+              >
+                {t("scanDocument.fromLibrary", {
+                  defaultValue: "From photos",
+                })}
+              </Text>
+            </Pressable>
+          </View>
+
+          {isCapturing ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : null}
+
+          {pages.length === 0 ? (
+            <View style={[styles.emptyState, { borderColor: cardBorder }]}>
+              <IconSymbol
+                name="doc.viewfinder"
+                size={32}
+                color={colors.primary}
+              />
+              <Text style={[styles.emptyText, { color: mutedText }]}>
+                {t("scanDocument.empty", {
+                  defaultValue: "No pages yet. Scan or pick the first page.",
+                })}
+              </Text>
+            </View>
+          ) : (
+            pages.map((page, index) => (
+              <View
+                key={page.id}
+                style={[
+                  styles.pageCard,
+                  { backgroundColor: cardBackground, borderColor: cardBorder },
+                ]}
+              >
+                <Image
+                  source={{ uri: page.uri }}
+                  style={styles.thumbnail}
+                  resizeMode="cover"
+                />
+                <View style={styles.pageBody}>
+                  <Text
+                    style={[styles.pageTitle, { color: theme.colors.text }]}
+                  >
+                    {t("scanDocument.pageLabel", {
+                      number: index + 1,
+                      defaultValue: "Page {{number}}",
+                    })}
+                  </Text>
+                  {busyPageId === page.id ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <View style={styles.pageActions}>
+                      <Pressable
+                        style={styles.pageAction}
+                        onPress={() => movePage(index, -1)}
+                        disabled={isBusy || index === 0}
+                        accessibilityLabel={t("scanDocument.moveUp", {
+                          defaultValue: "Move page up",
+                        })}
+                      >
+                        <IconSymbol
+                          name="chevron.up"
+                          size={20}
+                          color={index === 0 ? mutedText : theme.colors.text}
+                        />
+                      </Pressable>
+                      <Pressable
+                        style={styles.pageAction}
+                        onPress={() => movePage(index, 1)}
+                        disabled={isBusy || index === pages.length - 1}
+                        accessibilityLabel={t("scanDocument.moveDown", {
+                          defaultValue: "Move page down",
+                        })}
+                      >
+                        <IconSymbol
+                          name="chevron.down"
+                          size={20}
+                          color={
+                            index === pages.length - 1
+                              ? mutedText
+                              : theme.colors.text
+                          }
+                        />
+                      </Pressable>
+                      <Pressable
+                        style={styles.pageAction}
+                        onPress={() =>
+                          replacePage(page, () =>
+                            documentScanner.rotatePage(page),
+                          )
+                        }
+                        disabled={isBusy}
+                        accessibilityLabel={t("scanDocument.rotate", {
+                          defaultValue: "Rotate page",
+                        })}
+                      >
+                        <IconSymbol
+                          name="rotate.right"
+                          size={20}
+                          color={theme.colors.text}
+                        />
+                      </Pressable>
+                      <Pressable
+                        style={styles.pageAction}
+                        onPress={() => openCrop(page)}
+                        disabled={isBusy}
+                        accessibilityLabel={t("scanDocument.crop", {
+                          defaultValue: "Crop page",
+                        })}
+                      >
+                        <IconSymbol
+                          name="crop"
+                          size={20}
+                          color={theme.colors.text}
+                        />
+                      </Pressable>
+                      <Pressable
+                        style={styles.pageAction}
+                        onPress={() => deletePage(page)}
+                        disabled={isBusy}
+                        accessibilityLabel={t("scanDocument.deletePage", {
+                          defaultValue: "Delete page",
+                        })}
+                      >
+                        <IconSymbol
+                          name="trash.fill"
+                          size={20}
+                          color={colors.danger}
+                        />
+                      </Pressable>
+                    </View>
+                  )}
+                </View>
+              </View>
+            ))
+          )}
+
+          {uploadProgress !== null ? (
+            <View style={styles.progressRow}>
+              <ActivityIndicator size="small" color={colors.primary} />
+              <Text style={[styles.progressText, { color: theme.colors.text }]}>
+                {t("uploadDocument.uploadingLabel", {
+                  defaultValue: "Uploading...",
+                })}{" "}
+                {uploadProgress}%
+              </Text>
+            </View>
+          ) : null}
+
+          <Pressable
+            style={[
+              styles.primaryButton,
+              { backgroundColor: colors.primary },
+              (pages.length === 0 || isBusy || !caseId) && styles.disabled,
+            ]}
+            onPress={handleSubmit}
+            disabled={pages.length === 0 || isBusy || !caseId}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <IconSymbol name="arrow.up.doc.fill" size={20} color="#fff" />
+                <Text style={styles.primaryButtonText}>
+                  {t("scanDocument.submit", {
+                    count: pages.length,
+                    defaultValue: "Create PDF and upload ({{count}})",
+                  })}
+                </Text>
+              </>
+            )}
+          </Pressable>
+        </ScrollView>
+      </SafeAreaView>
+
+      <Modal
+        visible={cropTarget !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setCropTarget(null)}
+      >
+        <View
+          style={[
+            styles.modalBackdrop,
+            { backgroundColor: withOpacity("#000000", 0.6) },
+          ]}
+        >
+          <View style={[styles.modalCard, { backgroundColor: cardBackground }]}>
+            <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+              {t("scanDocument.cropTitle", { defaultValue: "Crop page" })}
+            </Text>
+            {cropTarget ? (
+              <View
+                style={[
+                  styles.cropPreview,
+                  {
+                    aspectRatio:
+                      cropTarget.width > 0 && cropTarget.height > 0
+                        ? cropTarget.width / cropTarget.height
+                        : 0.7,
+                  },
+                ]}
+              >
+                <Image
+                  source={{ uri: cropTarget.uri }}
+                  style={StyleSheet.absoluteFill}
+                  resizeMode="stretch"
+                />
+                {/* Shade the parts that will be trimmed */}
+                <View
+                  style={[
+                    styles.cropShade,
+                    {
+                      top: 0,
+                      left: 0,
+                      right: 0,
+                      height: `${cropInsets.top * 100}%`,
+                    },
+                  ]}
+                />
+                <View
+                  style={[
+                    styles.cropShade,
+                    {
+                      bottom: 0,
+                      left: 0,
+                      right: 0,
+                      height: `${cropInsets.bottom * 100}%`,
+                    },
+                  ]}
+                />
+                <View
+                  style={[
+                    styles.cropShade,
+                    {
+                      top: `${cropInsets.top * 100}%`,
+                      bottom: `${cropInsets.bottom * 100}%`,
+                      left: 0,
+                      width: `${cropInsets.left * 100}%`,
+                    },
+                  ]}
+                />
+                <View
+                  style={[
+                    styles.cropShade,
+                    {
+                      top: `${cropInsets.top * 100}%`,
+                      bottom: `${cropInsets.bottom * 100}%`,
+                      right: 0,
+                      width: `${cropInsets.right * 100}%`,
+                    },
+                  ]}
+                />
+              </View>
+            ) : null}
+
+            {CROP_EDGES.map((edge) => (
+              <View key={edge} style={styles.cropControlRow}>
+                <Text
+                  style={[
+                    styles.cropControlLabel,
+                    { color: theme.colors.text },
+                  ]}
+                >
+                  {t(`scanDocument.cropEdges.${edge}`)}
+                </Text>
+                <Pressable
+                  style={styles.pageAction}
+                  onPress={() => adjustCrop(edge, -CROP_STEP)}
+                >
+                  <IconSymbol
+                    name="minus"
+                    size={20}
+                    color={theme.colors.text}
+                  />
+                </Pressable>
+                <Text style={[styles.cropControlValue, { color: mutedText }]}>
+                  {Math.round(cropInsets[edge] * 100)}%
+                </Text>
+                <Pressable
+                  style={styles.pageAction}
+                  onPress={() => adjustCrop(edge, CROP_STEP)}
+                >
+                  <IconSymbol name="plus" size={20} color={theme.colors.text} />
+                </Pressable>
+              </View>
+            ))}
+
+            <View style={styles.modalActions}>
+              <Pressable
+                style={[styles.modalButton, { borderColor: cardBorder }]}
+                onPress={() => setCropTarget(null)}
+              >
+                <Text
+                  style={[styles.modalButtonText, { color: theme.colors.text }]}
+                >
+                  {t("common.cancel")}
+                </Text>
+              </Pressable>
+              <Pressable
+                style={[
+                  styles.modalButton,
+                  {
+                    backgroundColor: colors.primary,
+                    borderColor: colors.primary,
+                  },
+                ]}
+                onPress={applyCrop}
+              >
+                <Text style={[styles.modalButtonText, { color: "#fff" }]}>
+                  {t("scanDocument.applyCrop", { defaultValue: "Apply" })}
+                </Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  placeholder: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 24,
+    gap: 16,
+  },
+  description: {
+    fontSize: 15,
+    textAlign: "center",
+  },
+  captureRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  captureButton: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 8,
+    borderRadius: 14,
+    paddingVertical: 14,
+  },
+  captureButtonOutline: {
+    backgroundColor: "transparent",
+    borderWidth: 1,
+  },
+  captureButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  emptyState: {
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderRadius: 16,
+    padding: 24,
+    alignItems: "center",
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+  pageCard: {
+    flexDirection: "row",
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 12,
+  },
+  thumbnail: {
+    width: 64,
+    height: 88,
+    borderRadius: 8,
+    backgroundColor: "#E0E0E0",
+  },
+  pageBody: {
+    flex: 1,
+    justifyContent: "space-between",
+  },
+  pageTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  pageActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 4,
+  },
+  pageAction: {
+    padding: 6,
+    borderRadius: 999,
+  },
+  progressRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  progressText: {
+    fontSize: 14,
+  },
+  primaryButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 10,
+    borderRadius: 14,
+    paddingVertical: 16,
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: "center",
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  cropPreview: {
+    alignSelf: "center",
+    width: "70%",
+    overflow: "hidden",
+    borderRadius: 8,
+  },
+  cropShade: {
+    position: "absolute",
+    backgroundColor: "rgba(0, 0, 0, 0.55)",
+  },
+  cropControlRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  cropControlLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  cropControlValue: {
+    width: 44,
+    textAlign: "center",
+    fontSize: 14,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  modalButton: {
+    flex: 1,
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  modalButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+});
@@ -21,44 +21,21 @@ import {
   SafeAreaView,
   useSafeAreaInsets,
 } from "react-native-safe-area-context";
-import { Stack, useRouter } from "expo-router";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import { useTranslation } from "@/lib/hooks/useTranslation";
 import * as DocumentPicker from "expo-document-picker";
 import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
 import { useToast } from "@/components/Toast";
 import { useCasesStore } from "@/stores/cases/casesStore";
 import { useDocumentsStore } from "@/stores/documents/documentsStore";
-import { uploadFileToAPI } from "@/lib/services/fileUpload";
 import type { Case } from "@/lib/types";
 import { useThemeColors } from "@/lib/hooks/useAppTheme";
 import { withOpacity } from "@/styles/theme";
+import { DOCUMENT_TYPE_OPTIONS } from "@/lib/constants/documentRequirements";
+import { documentValidationService } from "@/lib/services/documentValidation";
+import { getFileSize } from "@/lib/utils/fileInfo";
 
-const DOCUMENT_TYPE_OPTIONS: Array<{
-  value: string;
-  icon: string;
-  labelKey: string;
-}> = [
-  { value: "PASSPORT", icon: "globe", labelKey: "documents.types.passport" },
-  {
-    value: "ID_CARD",
-    icon: "person.crop.rectangle",
-    labelKey: "documents.types.id_card",
-  },
-  {
-    value: "DIPLOMA",
-    icon: "graduationcap.fill",
-    labelKey: "documents.types.diploma",
-  },
-  {
-    value: "BANK_STATEMENT",
-    icon: "banknote.fill",
-    labelKey: "documents.types.bank_statement",
-  },
-  { value: "PHOTO", icon: "photo.fill", labelKey: "documents.types.photo" },
-  { value: "OTHER", icon: "doc.text.fill", labelKey: "documents.types.other" },
-];
-
-const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
+const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024; // 50MB
 
 const formatServiceType = (serviceType?: string) => {
   if (!serviceType) return "";
@@ -71,6 +48,12 @@ const formatServiceType = (serviceType?: string) => {
 export default function UploadDocumentScreen() {
   const theme = useTheme();
   const router = useRouter();
+  const params = useLocalSearchParams<{
+    caseId?: string;
+    documentType?: string;
+    replaceDocumentId?: string;
+    replaceDocumentName?: string;
+  }>();
   const { t } = useTranslation();
   const { showAlert } = useBottomSheetAlert();
   const insets = useSafeAreaInsets();
@@ -79,12 +62,23 @@ export default function UploadDocumentScreen() {
   const cases = useCasesStore((state) => state.cases);
   const casesLoading = useCasesStore((state) => state.isLoading);
   const fetchCases = useCasesStore((state) => state.fetchCases);
-  const uploadDocument = useDocumentsStore((state) => state.uploadDocument);
   const uploading = useDocumentsStore((state) => state.uploading);
+  const uploadFile = useDocumentsStore((state) => state.uploadFile);
+  const discardUpload = useDocumentsStore((state) => state.discardUpload);
 
-  const [selectedCaseId, setSelectedCaseId] = useState<string>("");
-  const [documentType, setDocumentType] = useState<string>(
-    DOCUMENT_TYPE_OPTIONS[0].value,
+  // Replacing a rejected document keeps its case and type
+  const replacesDocumentId =
+    typeof params.replaceDocumentId === "string"
+      ? params.replaceDocumentId
+      : null;
+  // Checklist deep links preselect the case and the missing document type
+  const [selectedCaseId, setSelectedCaseId] = useState<string>(
+    typeof params.caseId === "string" ? params.caseId : "",
+  );
+  const [documentType, setDocumentType] = useState<string>(() =>
+    DOCUMENT_TYPE_OPTIONS.some((option) => option.value === params.documentType)
+      ? (params.documentType as string)
+      : DOCUMENT_TYPE_OPTIONS[0].value,
   );
   const [selectedFileName, setSelectedFileName] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState<number | null>(null);
@@ -127,17 +121,21 @@ export default function UploadDocumentScreen() {
   );
 
   useEffect(() => {
+    if (replacesDocumentId) {
+      return;
+    }
     if (selectedCaseId) {
       const exists = activeCases.some(
         (caseItem) => caseItem.id === selectedCaseId,
       );
-      if (!exists) {
+      // Keep a deep-linked case until the case list has loaded
+      if (!exists && !casesLoading && activeCases.length > 0) {
         setSelectedCaseId(activeCases[0]?.id ?? "");
       }
     } else if (activeCases.length > 0) {
       setSelectedCaseId(activeCases[0].id);
     }
-  }, [activeCases, selectedCaseId]);
+  }, [activeCases, casesLoading, replacesDocumentId, selectedCaseId]);
 
   const selectedCase = useMemo(
     () =>
@@ -168,12 +166,166 @@ export default function UploadDocumentScreen() {
     router.push("/cases/new");
   }, [router]);
 
+  const handleScanNavigation = useCallback(() => {
+    if (!selectedCaseId) return;
+    router.push({
+      pathname: "/documents/scan",
+      params: {
+        caseId: selectedCaseId,
+        documentType,
+        ...(replacesDocumentId
+          ? { replaceDocumentId: replacesDocumentId }
+          : {}),
+      },
+    });
+  }, [documentType, replacesDocumentId, router, selectedCaseId]);
+
   const handleRetry = useCallback(() => {
     fetchCases().catch((error) => {
       console.warn("Failed to refetch cases", error);
     });
   }, [fetchCases]);
 
+  const handleUploadError = useCallback(
+    (error: any) => {
+      console.warn("Upload failed", error);
+      dismissActiveUploadToast();
+      showAlert({
+        title: t("common.error"),
+        message: error?.message || t("errors.generic"),
+      });
+      showToast({
+        title: t("common.error"),
+        message: error?.message || t("errors.generic"),
+        type: "error",
+        duration: 4000,
+      });
+      handleClearSelectedFile();
+    },
+    [
+      dismissActiveUploadToast,
+      handleClearSelectedFile,
+      showAlert,
+      showToast,
+      t,
+    ],
+  );
+
+  const performUpload = useCallback(
+    async (asset: DocumentPicker.DocumentPickerAsset & { size: number }) => {
+      setIsPicking(true);
+      try {
+        setSelectedFileName(
+          asset.name ||
+            t("uploadDocument.unknownFile", { defaultValue: "document" }),
+        );
+        setUploadProgress(0);
+
+        uploadToastDismissRef.current = showToast({
+          title: t("uploadDocument.uploadStartingTitle", {
+            defaultValue: "Uploading document",
+          }),
+          message: asset.name
+            ? t("uploadDocument.uploadStartingMessage", {
+                defaultValue: 'We\'re uploading "{{file}}".',
+                file: asset.name,
+              })
+            : t("uploadDocument.uploadStartingGeneric", {
+                defaultValue: "We're uploading your document.",
+              }),
+          type: "info",
+          duration: 3000,
+        });
+
+        const fileName = asset.name || "document";
+        const { session, document } = await uploadFile(
+          {
+            fileUri: asset.uri,
+            fileName,
+            mimeType: asset.mimeType || "application/octet-stream",
+            fileSize: asset.size,
+            caseId: selectedCaseId,
+            documentType,
+            replacesDocumentId,
+          },
+          { onProgress: (progress) => setUploadProgress(progress) },
+        );
+
+        if (!document && session) {
+          if (session.status === "failed") {
+            await discardUpload(session.id);
+            throw new Error(session.lastError || t("errors.generic"));
+          }
+          // Chunked uploads resume on their own once connectivity returns
+          dismissActiveUploadToast();
+          showToast({
+            title: t("uploadDocument.uploadPausedTitle", {
+              defaultValue: "Upload paused",
+            }),
+            message: t("uploadDocument.uploadPausedMessage", {
+              defaultValue:
+                "We'll finish uploading \"{{file}}\" automatically once you're back online.",
+              file: fileName,
+            }),
+            type: "info",
+            duration: 4000,
+          });
+          handleClearSelectedFile();
+          return;
+        }
+
+        dismissActiveUploadToast();
+
+        if (document && replacesDocumentId) {
+          showToast({
+            title: t("uploadDocument.replaceSuccessTitle", {
+              defaultValue: "New version uploaded",
+            }),
+            message: t("uploadDocument.replaceSuccessMessage", {
+              defaultValue:
+                "Version {{version}} has been sent for review. The previous version stays in the history.",
+              version: document.version ?? 2,
+            }),
+            type: "success",
+            duration: 3000,
+          });
+          router.back();
+        } else if (document) {
+          // Show success toast with proper type
+          showToast({
+            title: t("uploadDocument.uploadSuccessTitle", {
+              defaultValue: "Document uploaded",
+            }),
+            message: t("uploadDocument.uploadSuccessMessage", {
+              defaultValue: "Your document has been uploaded successfully.",
+              file: asset.name || "document",
+            }),
+            type: "success",
+            duration: 3000,
+          });
+        }
+      } catch (error: any) {
+        handleUploadError(error);
+      } finally {
+        setUploadProgress(null);
+        setIsPicking(false);
+      }
+    },
+    [
+      documentType,
+      replacesDocumentId,
+      router,
+      selectedCaseId,
+      showToast,
+      t,
+      uploadFile,
+      discardUpload,
+      dismissActiveUploadToast,
+      handleClearSelectedFile,
+      handleUploadError,
+    ],
+  );
+
   const handleContinue = useCallback(async () => {
     if (!selectedCaseId) {
       showAlert({
@@ -187,6 +339,8 @@ export default function UploadDocumentScreen() {
 
     setIsPicking(true);
     dismissActiveUploadToast();
+    let asset:
+      (DocumentPicker.DocumentPickerAsset & { size: number }) | undefined;
     try {
       const result = await DocumentPicker.getDocumentAsync({
         type: [
@@ -203,22 +357,35 @@ export default function UploadDocumentScreen() {
         return;
       }
 
-      const asset = result.assets?.[0];
-      if (!asset) {
+      const picked = result.assets?.[0];
+      if (!picked) {
+        return;
+      }
+
+      // Some providers leave the size out; the limit and chunking need it
+      const size = picked.size ?? (await getFileSize(picked.uri));
+      if (size === null) {
+        showAlert({
+          title: t("common.error"),
+          message: t("uploadDocument.fileUnreadable", {
+            defaultValue: "We couldn't read this file. Choose another one.",
+          }),
+        });
         return;
       }
+      asset = { ...picked, size };
 
-      if (asset.size && asset.size > MAX_FILE_SIZE_BYTES) {
+      if (asset.size > MAX_FILE_SIZE_BYTES) {
         showAlert({
           title: t("common.error"),
           message: t("uploadDocument.fileTooLarge", {
-            defaultValue: "File exceeds the 10MB limit.",
+            defaultValue: "File exceeds the 50MB limit.",
           }),
         });
         showToast({
           title: t("common.error"),
           message: t("uploadDocument.fileTooLarge", {
-            defaultValue: "File exceeds the 10MB limit.",
+            defaultValue: "File exceeds the 50MB limit.",
           }),
           type: "error",
           duration: 4000,
@@ -226,95 +393,75 @@ export default function UploadDocumentScreen() {
         return;
       }
 
-      setSelectedFileName(
-        asset.name ||
-          t("uploadDocument.unknownFile", { defaultValue: "document" }),
-      );
-      setUploadProgress(0);
-
-      uploadToastDismissRef.current = showToast({
-        title: t("uploadDocument.uploadStartingTitle", {
-          defaultValue: "Uploading document",
-        }),
-        message: asset.name
-          ? t("uploadDocument.uploadStartingMessage", {
-              defaultValue: 'We\'re uploading "{{file}}".',
-              file: asset.name,
-            })
-          : t("uploadDocument.uploadStartingGeneric", {
-              defaultValue: "We're uploading your document.",
-            }),
-        type: "info",
-        duration: 3000,
-      });
-
-      const uploadResult = await uploadFileToAPI(
-        asset.uri,
-        asset.name || "document",
-        asset.mimeType || "application/octet-stream",
-        {
-          onProgress: (progress) => setUploadProgress(progress),
-        },
-      );
-
-      if (!uploadResult.success || !uploadResult.url) {
-        throw new Error(uploadResult.error || t("errors.generic"));
-      }
-
-      dismissActiveUploadToast();
-
-      const document = await uploadDocument({
-        caseId: selectedCaseId,
+      // Catch the usual rejection reasons before the advisor has to
+      const { issues } = await documentValidationService.validate({
+        uri: asset.uri,
+        mimeType: asset.mimeType,
+        fileName: asset.name,
         documentType,
-        fileName: asset.name || "document",
-        originalName: asset.name || undefined,
-        filePath: uploadResult.url,
-        fileSize: asset.size,
-        mimeType: asset.mimeType || "application/octet-stream",
       });
 
-      if (document) {
-        // Show success toast with proper type
-        showToast({
-          title: t("uploadDocument.uploadSuccessTitle", {
-            defaultValue: "Document uploaded",
-          }),
-          message: t("uploadDocument.uploadSuccessMessage", {
-            defaultValue: "Your document has been uploaded successfully.",
-            file: asset.name || "document",
+      if (issues.length > 0) {
+        const pickedAsset = asset;
+        const hasCritical = issues.some(
+          (issue) => issue.severity === "critical",
+        );
+        showAlert({
+          title: t("documentValidation.title", {
+            defaultValue: "Check your document",
           }),
-          type: "success",
-          duration: 3000,
+          message: [
+            t("documentValidation.intro", {
+              defaultValue:
+                "This file may be rejected during review for the following reasons:",
+            }),
+            ...issues.map(
+              (issue) =>
+                `• ${t(`documentValidation.issues.${issue.code}`, {
+                  ...issue.params,
+                })}`,
+            ),
+          ].join("\n"),
+          type: hasCritical ? "error" : "warning",
+          actions: [
+            {
+              text: t("documentValidation.chooseAnother", {
+                defaultValue: "Choose another file",
+              }),
+              variant: "primary",
+            },
+            {
+              text: t("documentValidation.uploadAnyway", {
+                defaultValue: "Upload anyway",
+              }),
+              variant: "secondary",
+              onPress: () => {
+                performUpload(pickedAsset);
+              },
+            },
+          ],
         });
+        return;
       }
     } catch (error: any) {
-      console.warn("Upload failed", error);
-      dismissActiveUploadToast();
-      showAlert({
-        title: t("common.error"),
-        message: error?.message || t("errors.generic"),
-      });
-      showToast({
-        title: t("common.error"),
-        message: error?.message || t("errors.generic"),
-        type: "error",
-        duration: 4000,
-      });
-      handleClearSelectedFile();
+      handleUploadError(error);
+      return;
     } finally {
-      setUploadProgress(null);
       setIsPicking(false);
     }
+
+    if (asset) {
+      await performUpload(asset);
+    }
   }, [
     documentType,
-    router,
     selectedCaseId,
     showAlert,
     showToast,
     t,
-    uploadDocument,
     dismissActiveUploadToast,
-    handleClearSelectedFile,
+    handleUploadError,
+    performUpload,
   ]);
 
   return (
@@ -342,7 +489,11 @@ export default function UploadDocumentScreen() {
         >
           <BackButton onPress={() => router.back()} iconSize={24} />
           <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
-            {t("uploadDocument.title")}
+            {replacesDocumentId
+              ? t("uploadDocument.replaceTitle", {
+                  defaultValue: "Replace document",
+                })
+              : t("uploadDocument.title")}
           </Text>
           <View style={styles.placeholder} />
         </View>
@@ -361,6 +512,39 @@ export default function UploadDocumentScreen() {
             {t("uploadDocument.chooseCaseDescription")}
           </Text>
 
+          {replacesDocumentId ? (
+            <View
+              style={[
+                styles.replaceNotice,
+                {
+                  backgroundColor: withOpacity(
+                    colors.warning,
+                    theme.dark ? 0.2 : 0.12,
+                  ),
+                  borderColor: withOpacity(
+                    colors.warning,
+                    theme.dark ? 0.5 : 0.35,
+                  ),
+                },
+              ]}
+            >
+              <IconSymbol
+                name="arrow.up.doc.fill"
+                size={20}
+                color={colors.warning}
+              />
+              <Text
+                style={[styles.replaceNoticeText, { color: theme.colors.text }]}
+              >
+                {t("uploadDocument.replaceNotice", {
+                  defaultValue:
+                    'The file you choose becomes a new version of "{{file}}". The rejected version and its review comments stay in the history.',
+                  file: params.replaceDocumentName || "document",
+                })}
+              </Text>
+            </View>
+          ) : null}
+
           {casesLoading && activeCases.length === 0 ? (
             <View style={styles.loadingBlock}>
               <ActivityIndicator size="large" color="#2196F3" />
@@ -477,6 +661,7 @@ export default function UploadDocumentScreen() {
                                   : "#E0E0E0",
                             },
                           ]}
+                          disabled={Boolean(replacesDocumentId)}
                           onPress={() => setSelectedCaseId(caseItem.id)}
                         >
                           <View>
@@ -546,6 +731,7 @@ export default function UploadDocumentScreen() {
                                     : "#E0E0E0",
                               },
                             ]}
+                            disabled={Boolean(replacesDocumentId)}
                             onPress={() => setDocumentType(option.value)}
                           >
                             <IconSymbol
@@ -703,6 +889,29 @@ export default function UploadDocumentScreen() {
                   )}
                 </Pressable>
 
+                <Pressable
+                  style={[
+                    styles.scanButton,
+                    { borderColor: colors.primary },
+                    !canContinue && styles.primaryButtonDisabled,
+                  ]}
+                  onPress={handleScanNavigation}
+                  disabled={!canContinue}
+                >
+                  <IconSymbol
+                    name="doc.viewfinder"
+                    size={20}
+                    color={colors.primary}
+                  />
+                  <Text
+                    style={[styles.scanButtonText, { color: colors.primary }]}
+                  >
+                    {t("uploadDocument.scanButton", {
+                      defaultValue: "Scan a multi-page document",
+                    })}
+                  </Text>
+                </Pressable>
+
                 <Text
                   style={[
                     styles.helperText,
@@ -773,6 +982,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: "center",
   },
+  replaceNotice: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+  },
+  replaceNoticeText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
   loadingBlock: {
     alignItems: "center",
     paddingVertical: 48,
@@ -926,6 +1148,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "700",
   },
+  scanButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingVertical: 14,
+  },
+  scanButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
   helperText: {
     fontSize: 13,
     textAlign: "center",
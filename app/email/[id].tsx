@@ -28,17 +28,25 @@ import {
 } from "react-native-safe-area-context";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import { IconSymbol } from "@/components/IconSymbol";
+import { AttachmentChips } from "@/components/AttachmentChips";
 import { BackButton } from "@/components/BackButton";
 import { useTranslation } from "@/lib/hooks/useTranslation";
 import { useAppTheme } from "@/lib/hooks/useAppTheme";
 import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
 import { useToast } from "@/components/Toast";
 import { messagesService } from "@/lib/services/messagesService";
+import { emailAttachments } from "@/lib/services/emailAttachments";
+import { useEmailAttachmentPicker } from "@/lib/hooks/useEmailAttachmentPicker";
 import { downloadAndTrackFile } from "@/lib/utils/fileDownload";
 import { useMessagesStore } from "@/stores/messages/messagesStore";
 import { useAuthStore } from "@/stores/auth/authStore";
 import type { EmailAttachment, Message } from "@/lib/types";
 import { logger } from "@/lib/utils/logger";
+import {
+  findEmailThread,
+  groupEmailsIntoThreads,
+  splitQuotedText,
+} from "@/lib/utils/emailThreads";
 import { COLORS, FONT_SIZES, SPACING } from "@/lib/constants";
 import { withOpacity } from "@/styles/theme";
 import { apiClient } from "@/lib/api/axios";
@@ -57,6 +65,18 @@ const formatFullDate = (value?: string | null) => {
   });
 };
 
+const toggleInSet =
+  (messageId: string) =>
+  (prev: Set<string>): Set<string> => {
+    const next = new Set(prev);
+    if (next.has(messageId)) {
+      next.delete(messageId);
+    } else {
+      next.add(messageId);
+    }
+    return next;
+  };
+
 const AttachmentRow = ({
   attachment,
   onDownload,
@@ -159,7 +179,8 @@ export default function EmailDetailScreen() {
   const { showAlert } = useBottomSheetAlert();
   const { showToast } = useToast();
   const { user } = useAuthStore();
-  const { markAsRead, markAsUnread } = useMessagesStore();
+  const { messages, fetchMessages, markAsRead, markAsUnread } =
+    useMessagesStore();
   const insets = useSafeAreaInsets();
   const [email, setEmail] = useState<Message | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -167,6 +188,17 @@ export default function EmailDetailScreen() {
   const [error, setError] = useState<string | null>(null);
   const [replyText, setReplyText] = useState("");
   const [isSendingReply, setIsSendingReply] = useState(false);
+  const {
+    pendingAttachments: replyAttachments,
+    setPendingAttachments: setReplyAttachments,
+    openAttachmentPicker,
+    removePendingAttachment,
+  } = useEmailAttachmentPicker();
+  // Messages whose expanded state differs from the default
+  const [toggledIds, setToggledIds] = useState<Set<string>>(new Set());
+  const [quotedVisibleIds, setQuotedVisibleIds] = useState<Set<string>>(
+    new Set(),
+  );
   const [downloadingId, setDownloadingId] = useState<string | null>(null);
   const [previewingId, setPreviewingId] = useState<string | null>(null);
   const replyBottomSheetRef = useRef<BottomSheetModal>(null);
@@ -224,6 +256,58 @@ export default function EmailDetailScreen() {
     void loadEmail();
   }, [loadEmail]);
 
+  // The loaded email is the freshest copy; the rest of its thread comes
+  // from the emails already fetched for the messages tab
+  const thread = useMemo(() => {
+    if (!email) return null;
+    const threads = groupEmailsIntoThreads([
+      ...messages.filter((message) => message.id !== email.id),
+      email,
+    ]);
+    return findEmailThread(threads, email.id) ?? null;
+  }, [email, messages]);
+
+  const threadMessages = useMemo(
+    () => thread?.messages ?? (email ? [email] : []),
+    [email, thread],
+  );
+  const latestMessageId = threadMessages[threadMessages.length - 1]?.id;
+  const replyThreadId = thread?.threadId ?? email?.threadId;
+
+  // Opening a thread reads every email in it
+  const markedReadIdsRef = useRef(new Set<string>());
+  useEffect(() => {
+    threadMessages
+      .filter(
+        (message) =>
+          message.id !== email?.id &&
+          message.direction !== "outgoing" &&
+          message.unread &&
+          !markedReadIdsRef.current.has(message.id),
+      )
+      .forEach((message) => {
+        markedReadIdsRef.current.add(message.id);
+        void markAsRead(message.id);
+      });
+  }, [email?.id, markAsRead, threadMessages]);
+
+  const isMessageExpanded = useCallback(
+    (messageId: string) => {
+      const expandedByDefault =
+        messageId === email?.id || messageId === latestMessageId;
+      return expandedByDefault !== toggledIds.has(messageId);
+    },
+    [email?.id, latestMessageId, toggledIds],
+  );
+
+  const handleToggleExpanded = useCallback((messageId: string) => {
+    setToggledIds(toggleInSet(messageId));
+  }, []);
+
+  const handleToggleQuoted = useCallback((messageId: string) => {
+    setQuotedVisibleIds(toggleInSet(messageId));
+  }, []);
+
   const handleToggleRead = useCallback(() => {
     if (!email) return;
     if (email.unread) {
@@ -241,8 +325,7 @@ export default function EmailDetailScreen() {
   }, [email, markAsRead, markAsUnread]);
 
   const handleDownloadAttachment = useCallback(
-    async (attachment: EmailAttachment) => {
-      if (!email) return;
+    async (attachment: EmailAttachment, emailId: string) => {
       setDownloadingId(attachment.url || attachment.name);
       try {
         const result = await downloadAndTrackFile({
@@ -250,7 +333,7 @@ export default function EmailDetailScreen() {
           filename: attachment.name,
           mimeType: attachment.type,
           source: "email",
-          sourceId: email.id,
+          sourceId: emailId,
         });
         if (!result.success) {
           throw new Error(result.error);
@@ -282,7 +365,7 @@ export default function EmailDetailScreen() {
         setDownloadingId(null);
       }
     },
-    [email, showAlert, t],
+    [showAlert, showToast, t],
   );
 
   const handlePreviewAttachment = useCallback(
@@ -329,7 +412,7 @@ export default function EmailDetailScreen() {
   );
 
   const handleOpenReply = useCallback(() => {
-    if (!email?.threadId || !user) {
+    if (!replyThreadId || !user) {
       showAlert({
         title: t("email.replyNotSupportedTitle", {
           defaultValue: "Unable to reply",
@@ -342,16 +425,17 @@ export default function EmailDetailScreen() {
       return;
     }
     replyBottomSheetRef.current?.present();
-  }, [email, user, showAlert, t]);
+  }, [replyThreadId, user, showAlert, t]);
 
   const handleCloseReply = useCallback(() => {
     replyBottomSheetRef.current?.dismiss();
     setReplyText("");
-  }, []);
+    setReplyAttachments([]);
+  }, [setReplyAttachments]);
 
   const handleReplySubmit = useCallback(async () => {
     if (!email || !replyText.trim() || !user) return;
-    if (!email.threadId) {
+    if (!replyThreadId) {
       showAlert({
         title: t("email.replyNotSupportedTitle", {
           defaultValue: "Unable to reply",
@@ -365,11 +449,16 @@ export default function EmailDetailScreen() {
     }
     setIsSendingReply(true);
     try {
+      const attachments =
+        replyAttachments.length > 0
+          ? await emailAttachments.upload(replyAttachments)
+          : undefined;
       await messagesService.replyToEmail({
-        threadId: email.threadId,
+        threadId: replyThreadId,
         senderId: user.uid,
         content: replyText.trim(),
-        subject: `Re: ${email.subject || t("messages.noSubject", { defaultValue: "(No subject)" })}`,
+        subject: `Re: ${thread?.subject || email.subject || t("messages.noSubject", { defaultValue: "(No subject)" })}`,
+        attachments,
       });
       showToast({
         type: "success",
@@ -380,6 +469,8 @@ export default function EmailDetailScreen() {
       });
       setReplyText("");
       handleCloseReply();
+      // Bring the reply into the thread
+      void fetchMessages(true);
     } catch (replyError: any) {
       logger.error("Failed to send reply", replyError);
       showAlert({
@@ -394,7 +485,19 @@ export default function EmailDetailScreen() {
     } finally {
       setIsSendingReply(false);
     }
-  }, [email, replyText, showAlert, showToast, t, user, handleCloseReply]);
+  }, [
+    email,
+    fetchMessages,
+    replyText,
+    replyAttachments,
+    replyThreadId,
+    showAlert,
+    showToast,
+    t,
+    thread?.subject,
+    user,
+    handleCloseReply,
+  ]);
 
   const handleViewCase = useCallback(() => {
     if (!email?.caseId) return;
@@ -404,18 +507,9 @@ export default function EmailDetailScreen() {
     });
   }, [email, router]);
 
-  const contentParagraphs = useMemo(() => {
-    if (!email?.content) return [];
-    return email.content
-      .split(/\n{2,}/)
-      .map((paragraph) => paragraph.trim())
-      .filter(Boolean);
-  }, [email]);
-
-  const canReply = !!email?.threadId && !!user;
-  const isInboxEmail = email?.direction !== "outgoing";
-  const directionIcon = isInboxEmail ? "envelope.fill" : "paperplane.fill";
-  const sentAtLabel = email?.sentAt ? formatFullDate(email.sentAt) : "";
+  const canReply = !!replyThreadId && !!user;
+  const threadSubject = thread?.subject || email?.subject;
+  const threadCaseReference = thread?.caseReference ?? email?.caseReference;
   const cardBackground = theme.dark
     ? theme.colors.surfaceElevated
     : COLORS.card;
@@ -462,7 +556,7 @@ export default function EmailDetailScreen() {
             >
               {t("email.detailTitle", { defaultValue: "Email" })}
             </Text>
-            {email?.subject ? (
+            {threadSubject ? (
               <Text
                 style={[
                   styles.headerSubtitle,
@@ -475,7 +569,7 @@ export default function EmailDetailScreen() {
                 ]}
                 numberOfLines={1}
               >
-                {email.subject}
+                {threadSubject}
               </Text>
             ) : null}
           </View>
@@ -570,137 +664,267 @@ export default function EmailDetailScreen() {
                   },
                 ]}
               >
-                {/* <View style={styles.subjectRow}>
-                      <IconSymbol name={directionIcon} size={18} color={theme.colors.primary} />
-                      <Text style={[styles.subjectText, { color: theme.colors.text }]} numberOfLines={2}>
-                        {email.subject || t("messages.noSubject", { defaultValue: "(No subject)" })}
-                      </Text>
-                    </View> */}
-                <View style={[styles.metaRow, { marginTop: 4 }]}>
-                  {sentAtLabel ? (
-                    <View style={styles.metaItem}>
-                      <IconSymbol
-                        name="clock.fill"
-                        size={14}
-                        color={mutedTextColor}
-                      />
+                <View style={styles.subjectRow}>
+                  <IconSymbol
+                    name="envelope.fill"
+                    size={18}
+                    color={theme.colors.primary}
+                  />
+                  <Text
+                    style={[styles.subjectText, { color: theme.colors.text }]}
+                    numberOfLines={2}
+                  >
+                    {threadSubject ||
+                      t("messages.noSubject", {
+                        defaultValue: "(No subject)",
+                      })}
+                  </Text>
+                </View>
+                <View style={styles.metaRow}>
+                  <Text style={[styles.metaText, { color: mutedTextColor }]}>
+                    {t("email.thread.messageCount", {
+                      count: threadMessages.length,
+                      defaultValue: "{{count}} messages",
+                    })}
+                  </Text>
+                  {threadCaseReference ? (
+                    <>
+                      <View style={styles.metaDivider} />
                       <Text
                         style={[styles.metaText, { color: mutedTextColor }]}
                       >
-                        {sentAtLabel}
+                        {t("messages.caseLabel", {
+                          defaultValue: "Case {{reference}}",
+                          reference: threadCaseReference,
+                        })}
                       </Text>
-                    </View>
+                    </>
                   ) : null}
-                  <View style={styles.metaDivider} />
+                </View>
+              </View>
+
+              {threadMessages.map((message) => {
+                const isIncoming = message.direction !== "outgoing";
+                const isExpanded = isMessageExpanded(message.id);
+                const { body, quoted } = splitQuotedText(
+                  message.content || message.preview,
+                );
+                const paragraphs = body
+                  .split(/\n{2,}/)
+                  .map((paragraph) => paragraph.trim())
+                  .filter(Boolean);
+                const isQuotedVisible = quotedVisibleIds.has(message.id);
+                const attachments = message.attachments ?? [];
+
+                return (
                   <View
+                    key={message.id}
                     style={[
-                      styles.directionPill,
+                      styles.bodyCard,
                       {
-                        backgroundColor: theme.dark
-                          ? withOpacity(theme.colors.primary, 0.25)
-                          : withOpacity(theme.colors.primary, 0.12),
+                        backgroundColor: surfaceBackground,
+                        borderColor: withOpacity(
+                          theme.colors.borderStrong,
+                          theme.dark ? 0.45 : 0.16,
+                        ),
                       },
                     ]}
                   >
-                    <Text
-                      style={[styles.pillText, { color: theme.colors.primary }]}
+                    <Pressable
+                      style={styles.threadMessageHeader}
+                      onPress={() => handleToggleExpanded(message.id)}
+                      accessibilityRole="button"
+                      accessibilityState={{ expanded: isExpanded }}
                     >
-                      {isInboxEmail
-                        ? t("messages.inbox", { defaultValue: "Inbox" })
-                        : t("messages.sent", { defaultValue: "Sent" })}
-                    </Text>
-                  </View>
-                </View>
-              </View>
+                      <View
+                        style={[
+                          styles.directionPill,
+                          {
+                            backgroundColor: theme.dark
+                              ? withOpacity(theme.colors.primary, 0.25)
+                              : withOpacity(theme.colors.primary, 0.12),
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.pillText,
+                            { color: theme.colors.primary },
+                          ]}
+                        >
+                          {isIncoming
+                            ? t("messages.inbox", { defaultValue: "Inbox" })
+                            : t("messages.sent", { defaultValue: "Sent" })}
+                        </Text>
+                      </View>
+                      <View style={styles.threadMessageMeta}>
+                        <Text
+                          style={[
+                            styles.threadMessageSender,
+                            { color: theme.colors.text },
+                          ]}
+                          numberOfLines={1}
+                        >
+                          {isIncoming
+                            ? t("messages.fromLabel", {
+                                defaultValue: "From {{name}}",
+                                name: message.name,
+                              })
+                            : t("messages.toLabel", {
+                                defaultValue: "To {{name}}",
+                                name: message.name,
+                              })}
+                        </Text>
+                        {message.sentAt ? (
+                          <Text
+                            style={[styles.metaText, { color: mutedTextColor }]}
+                          >
+                            {formatFullDate(message.sentAt)}
+                          </Text>
+                        ) : null}
+                      </View>
+                      {attachments.length > 0 ? (
+                        <IconSymbol
+                          name="paperclip"
+                          size={14}
+                          color={mutedTextColor}
+                        />
+                      ) : null}
+                      <IconSymbol
+                        name={isExpanded ? "chevron.up" : "chevron.down"}
+                        size={18}
+                        color={mutedTextColor}
+                      />
+                    </Pressable>
 
-              <View
-                style={[
-                  styles.bodyCard,
-                  {
-                    backgroundColor: surfaceBackground,
-                    borderColor: withOpacity(
-                      theme.colors.borderStrong,
-                      theme.dark ? 0.45 : 0.16,
-                    ),
-                  },
-                ]}
-              >
-                {contentParagraphs.length > 0 ? (
-                  contentParagraphs.map((paragraph, index) => (
-                    <Text
-                      key={index}
-                      style={[styles.bodyText, { color: theme.colors.text }]}
-                    >
-                      {paragraph}
-                    </Text>
-                  ))
-                ) : (
-                  <Text style={[styles.bodyText, { color: mutedTextColor }]}>
-                    {t("email.emptyBody", {
-                      defaultValue: "No message content.",
-                    })}
-                  </Text>
-                )}
-              </View>
+                    {!isExpanded ? (
+                      <Text
+                        style={[styles.previewText, { color: mutedTextColor }]}
+                        numberOfLines={1}
+                      >
+                        {body || message.preview}
+                      </Text>
+                    ) : (
+                      <>
+                        {paragraphs.length > 0 ? (
+                          paragraphs.map((paragraph, index) => (
+                            <Text
+                              key={index}
+                              style={[
+                                styles.bodyText,
+                                { color: theme.colors.text },
+                              ]}
+                            >
+                              {paragraph}
+                            </Text>
+                          ))
+                        ) : (
+                          <Text
+                            style={[styles.bodyText, { color: mutedTextColor }]}
+                          >
+                            {t("email.emptyBody", {
+                              defaultValue: "No message content.",
+                            })}
+                          </Text>
+                        )}
 
-              {email.attachments && email.attachments.length > 0 ? (
-                <View
-                  style={[
-                    styles.attachmentsCard,
-                    {
-                      backgroundColor: surfaceBackground,
-                      borderColor: withOpacity(
-                        theme.colors.borderStrong,
-                        theme.dark ? 0.45 : 0.16,
-                      ),
-                    },
-                  ]}
-                >
-                  <View style={styles.attachmentsHeader}>
-                    <IconSymbol
-                      name="paperclip"
-                      size={18}
-                      color={theme.colors.primary}
-                    />
-                    <Text
-                      style={[
-                        styles.sectionTitle,
-                        { color: theme.colors.text },
-                      ]}
-                    >
-                      {t("email.attachmentsTitle", {
-                        defaultValue: "Attachments",
-                      })}
-                    </Text>
-                    <View style={styles.metaDivider} />
-                    <Text
-                      style={[
-                        styles.attachmentsCount,
-                        { color: mutedTextColor },
-                      ]}
-                    >
-                      {email.attachments.length}
-                    </Text>
+                        {quoted ? (
+                          <>
+                            <Pressable
+                              style={styles.quotedToggle}
+                              onPress={() => handleToggleQuoted(message.id)}
+                              accessibilityRole="button"
+                            >
+                              <Text
+                                style={[
+                                  styles.quotedToggleText,
+                                  { color: theme.colors.primary },
+                                ]}
+                              >
+                                {isQuotedVisible
+                                  ? t("email.thread.hideQuoted", {
+                                      defaultValue: "Hide quoted text",
+                                    })
+                                  : t("email.thread.showQuoted", {
+                                      defaultValue: "Show quoted text",
+                                    })}
+                              </Text>
+                            </Pressable>
+                            {isQuotedVisible ? (
+                              <Text
+                                style={[
+                                  styles.quotedText,
+                                  {
+                                    color: mutedTextColor,
+                                    borderLeftColor: withOpacity(
+                                      theme.colors.borderStrong,
+                                      theme.dark ? 0.6 : 0.3,
+                                    ),
+                                  },
+                                ]}
+                              >
+                                {quoted}
+                              </Text>
+                            ) : null}
+                          </>
+                        ) : null}
+
+                        {attachments.length > 0 ? (
+                          <View style={styles.threadAttachments}>
+                            <View style={styles.attachmentsHeader}>
+                              <IconSymbol
+                                name="paperclip"
+                                size={18}
+                                color={theme.colors.primary}
+                              />
+                              <Text
+                                style={[
+                                  styles.sectionTitle,
+                                  { color: theme.colors.text },
+                                ]}
+                              >
+                                {t("email.attachmentsTitle", {
+                                  defaultValue: "Attachments",
+                                })}
+                              </Text>
+                              <View style={styles.metaDivider} />
+                              <Text
+                                style={[
+                                  styles.attachmentsCount,
+                                  { color: mutedTextColor },
+                                ]}
+                              >
+                                {attachments.length}
+                              </Text>
+                            </View>
+                            {attachments.map((attachment) => (
+                              <AttachmentRow
+                                key={attachment.url || attachment.name}
+                                attachment={attachment}
+                                onDownload={(item) =>
+                                  handleDownloadAttachment(item, message.id)
+                                }
+                                onPreview={handlePreviewAttachment}
+                                isLoading={
+                                  downloadingId ===
+                                  (attachment.url || attachment.name)
+                                }
+                                isPreviewing={
+                                  previewingId ===
+                                  (attachment.url || attachment.name)
+                                }
+                                accentColor={theme.colors.primary}
+                                isDark={theme.dark}
+                                mutedColor={mutedTextColor}
+                              />
+                            ))}
+                          </View>
+                        ) : null}
+                      </>
+                    )}
                   </View>
-                  {email.attachments.map((attachment) => (
-                    <AttachmentRow
-                      key={attachment.url || attachment.name}
-                      attachment={attachment}
-                      onDownload={handleDownloadAttachment}
-                      onPreview={handlePreviewAttachment}
-                      isLoading={
-                        downloadingId === (attachment.url || attachment.name)
-                      }
-                      isPreviewing={
-                        previewingId === (attachment.url || attachment.name)
-                      }
-                      accentColor={theme.colors.primary}
-                      isDark={theme.dark}
-                      mutedColor={mutedTextColor}
-                    />
-                  ))}
-                </View>
-              ) : null}
+                );
+              })}
             </ScrollView>
 
             <KeyboardAvoidingView
@@ -918,6 +1142,49 @@ export default function EmailDetailScreen() {
                   textAlignVertical="top"
                 />
 
+                <View style={styles.replyAttachments}>
+                  <Pressable
+                    onPress={openAttachmentPicker}
+                    disabled={isSendingReply}
+                    style={({ pressed }) => [
+                      styles.replyAttachButton,
+                      {
+                        backgroundColor: withOpacity(
+                          theme.colors.primary,
+                          0.12,
+                        ),
+                        opacity: pressed || isSendingReply ? 0.6 : 1,
+                      },
+                    ]}
+                  >
+                    <IconSymbol
+                      name="paperclip"
+                      size={16}
+                      color={theme.colors.primary}
+                    />
+                    <Text
+                      style={[
+                        styles.replyAttachButtonText,
+                        { color: theme.colors.primary },
+                      ]}
+                    >
+                      {t("email.attachments.add", {
+                        defaultValue: "Attach files",
+                      })}
+                    </Text>
+                  </Pressable>
+                  <AttachmentChips
+                    items={replyAttachments.map((attachment) => ({
+                      key: attachment.id,
+                      name: attachment.name,
+                      type: attachment.mimeType,
+                      size: attachment.size,
+                    }))}
+                    onRemove={removePendingAttachment}
+                    disabled={isSendingReply}
+                  />
+                </View>
+
                 <Pressable
                   style={[
                     styles.replySendButton,
@@ -1117,10 +1384,33 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.lg,
     lineHeight: 26,
   },
-  attachmentsCard: {
-    borderRadius: 16,
-    padding: SPACING.md,
-    borderWidth: 1,
+  threadMessageHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: SPACING.sm,
+  },
+  threadMessageMeta: {
+    flex: 1,
+    gap: 2,
+  },
+  threadMessageSender: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: "600",
+  },
+  quotedToggle: {
+    alignSelf: "flex-start",
+  },
+  quotedToggleText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: "600",
+  },
+  quotedText: {
+    fontSize: FONT_SIZES.md,
+    lineHeight: 22,
+    borderLeftWidth: 3,
+    paddingLeft: SPACING.md,
+  },
+  threadAttachments: {
     gap: SPACING.sm,
   },
   attachmentsHeader: {
@@ -1263,6 +1553,22 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.md,
     lineHeight: 24,
   },
+  replyAttachments: {
+    gap: SPACING.xs,
+  },
+  replyAttachButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  replyAttachButtonText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: "600",
+  },
   replySendButton: {
     flexDirection: "row",
     alignItems: "center",
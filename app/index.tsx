@@ -5,7 +5,6 @@ import { useAuthStore } from "../stores/auth/authStore";
 import { initializeAuthListener } from "../stores/auth/authStore";
 import { hasCompletedOnboarding } from "../lib/utils/onboarding";
 import { COLORS } from "../lib/constants";
-import { presenceService } from "@/lib/services/presenceService";
 import { useTranslation } from "@/lib/hooks/useTranslation";
 
 console.log("[App] index.tsx loaded");
@@ -20,12 +19,6 @@ export default function Index() {
   const refreshAuth = useAuthStore((state) => state.refreshAuth);
   const refreshAuthRef = useRef(refreshAuth);
 
-  // Temporarily disabled presence tracking to test app functionality
-  // useEffect(() => {
-  //   const cleanup = presenceService.initializePresenceTracking();
-  //   return () => cleanup();
-  // }, []);
-
   useEffect(() => {
     refreshAuthRef.current = refreshAuth;
   }, [refreshAuth]);
@@ -22,21 +22,28 @@ import {
   SafeAreaView,
   useSafeAreaInsets,
 } from "react-native-safe-area-context";
-import { Stack, useRouter } from "expo-router";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import { useTranslation } from "@/lib/hooks/useTranslation";
 import { BackButton } from "@/components/BackButton";
 import { IconSymbol } from "@/components/IconSymbol";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { AttachmentChips } from "@/components/AttachmentChips";
 import { useAppTheme, useThemeColors } from "@/lib/hooks/useAppTheme";
 import { withOpacity } from "@/styles/theme";
 import { useCasesStore } from "@/stores/cases/casesStore";
 import { useMessagesStore } from "@/stores/messages/messagesStore";
-import { messagesService } from "@/lib/services/messagesService";
+import { EmailDraftInput, isEmailDraftEmpty } from "@/lib/services/emailDrafts";
+import {
+  MAX_EMAIL_ATTACHMENT_BYTES,
+  MAX_EMAIL_ATTACHMENTS,
+} from "@/lib/services/emailAttachments";
+import { useEmailAttachmentPicker } from "@/lib/hooks/useEmailAttachmentPicker";
 import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
 import { useToast } from "@/components/Toast";
 import Button from "@/components/button";
 import FormInput from "@/components/FormInput";
 import { useShallow } from "zustand/react/shallow";
-import type { Case, CaseAssignedAgent } from "@/lib/types";
+import type { Case, CaseAssignedAgent, EmailAttachment } from "@/lib/types";
 
 const formatServiceTypeLabel = (serviceType?: string) =>
   serviceType
@@ -46,6 +53,8 @@ const formatServiceTypeLabel = (serviceType?: string) =>
         .replace(/(^|\s)\w/g, (char) => char.toUpperCase())
     : "";
 
+const DRAFT_AUTOSAVE_DELAY = 800;
+
 export default function ComposeEmailScreen() {
   const { t } = useTranslation();
   const router = useRouter();
@@ -67,7 +76,27 @@ export default function ComposeEmailScreen() {
     })),
   );
 
-  const fetchMessages = useMessagesStore((state) => state.fetchMessages);
+  const { saveEmailDraft, sendEmailDraft } = useMessagesStore(
+    useShallow((state) => ({
+      saveEmailDraft: state.saveEmailDraft,
+      sendEmailDraft: state.sendEmailDraft,
+    })),
+  );
+
+  // Opened from the Drafts folder: resume that draft
+  const { draftId: draftIdParam } = useLocalSearchParams<{
+    draftId?: string;
+  }>();
+  const resumedDraftRef = useRef(
+    draftIdParam
+      ? useMessagesStore
+          .getState()
+          .emailDrafts.find((draft) => draft.id === draftIdParam)
+      : undefined,
+  );
+  const resumedDraft = resumedDraftRef.current;
+  const draftIdRef = useRef<string | null>(resumedDraft?.id ?? null);
+  const isSentRef = useRef(false);
 
   type AgentOption = {
     agent: CaseAssignedAgent;
@@ -76,8 +105,23 @@ export default function ComposeEmailScreen() {
 
   const [selectedAgentId, setSelectedAgentId] = useState<string>("");
   const [selectedCaseId, setSelectedCaseId] = useState<string>("");
-  const [subject, setSubject] = useState("");
-  const [messageBody, setMessageBody] = useState("");
+  const [subject, setSubject] = useState(resumedDraft?.subject ?? "");
+  const [messageBody, setMessageBody] = useState(resumedDraft?.content ?? "");
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(
+    resumedDraft?.updatedAt ?? null,
+  );
+  const [uploadedAttachments, setUploadedAttachments] = useState<
+    EmailAttachment[]
+  >(resumedDraft?.attachments ?? []);
+  const {
+    pendingAttachments,
+    setPendingAttachments,
+    openAttachmentPicker,
+    removePendingAttachment,
+  } = useEmailAttachmentPicker(
+    resumedDraft?.pendingAttachments ?? [],
+    uploadedAttachments,
+  );
   const [isSending, setIsSending] = useState(false);
   const [hasFetchError, setHasFetchError] = useState(false);
   const [subjectTouched, setSubjectTouched] = useState(false);
@@ -135,7 +179,10 @@ export default function ComposeEmailScreen() {
       !selectedAgentId ||
       !agentOptions.some((option) => option.agent.id === selectedAgentId)
     ) {
-      setSelectedAgentId(agentOptions[0].agent.id);
+      const resumedAgent = agentOptions.find(
+        (option) => option.agent.id === resumedDraftRef.current?.recipientId,
+      );
+      setSelectedAgentId((resumedAgent ?? agentOptions[0]).agent.id);
     }
   }, [agentOptions, selectedAgentId]);
 
@@ -157,7 +204,10 @@ export default function ComposeEmailScreen() {
       !selectedCaseId ||
       !filteredCases.some((caseItem) => caseItem.id === selectedCaseId)
     ) {
-      setSelectedCaseId(filteredCases[0].id);
+      const resumedCase = filteredCases.find(
+        (caseItem) => caseItem.id === resumedDraftRef.current?.caseId,
+      );
+      setSelectedCaseId((resumedCase ?? filteredCases[0]).id);
     }
   }, [filteredCases, selectedCaseId]);
 
@@ -168,6 +218,102 @@ export default function ComposeEmailScreen() {
 
   const selectedAgent = selectedAgentGroup?.agent ?? null;
 
+  const draftInput = useMemo<EmailDraftInput | null>(() => {
+    if (!selectedCase || !selectedAgent) {
+      return null;
+    }
+    return {
+      caseId: selectedCase.id,
+      caseReference: selectedCase.referenceNumber,
+      recipientId: selectedAgent.id,
+      recipientName:
+        `${selectedAgent.firstName ?? ""} ${selectedAgent.lastName ?? ""}`.trim() ||
+        selectedAgent.email,
+      subject,
+      content: messageBody,
+      attachments: uploadedAttachments,
+      pendingAttachments,
+    };
+  }, [
+    messageBody,
+    pendingAttachments,
+    selectedAgent,
+    selectedCase,
+    subject,
+    uploadedAttachments,
+  ]);
+
+  const saveDraft = useCallback(
+    (input: EmailDraftInput) => {
+      const draft = saveEmailDraft(input, draftIdRef.current);
+      draftIdRef.current = draft?.id ?? null;
+      setDraftSavedAt(draft ? draft.updatedAt : null);
+      return draft;
+    },
+    [saveEmailDraft],
+  );
+
+  // Autosave once typing pauses, and when leaving the screen
+  const latestDraftInputRef = useRef(draftInput);
+  const hasUnsavedChangesRef = useRef(false);
+  useEffect(() => {
+    if (latestDraftInputRef.current === draftInput) {
+      return;
+    }
+    latestDraftInputRef.current = draftInput;
+    if (!draftInput || isSending) {
+      return;
+    }
+    // Nothing typed yet: picking an advisor alone does not make a draft
+    if (!draftIdRef.current && isEmailDraftEmpty(draftInput)) {
+      return;
+    }
+    hasUnsavedChangesRef.current = true;
+    const timer = setTimeout(() => {
+      hasUnsavedChangesRef.current = false;
+      saveDraft(draftInput);
+    }, DRAFT_AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [draftInput, isSending, saveDraft]);
+
+  useEffect(
+    () => () => {
+      const input = latestDraftInputRef.current;
+      if (input && hasUnsavedChangesRef.current && !isSentRef.current) {
+        saveEmailDraft(input, draftIdRef.current);
+      }
+    },
+    [saveEmailDraft],
+  );
+
+  const attachmentItems = useMemo(
+    () => [
+      ...uploadedAttachments.map((attachment) => ({
+        key: attachment.url,
+        name: attachment.name,
+        type: attachment.type,
+        size: attachment.size,
+      })),
+      ...pendingAttachments.map((attachment) => ({
+        key: attachment.id,
+        name: attachment.name,
+        type: attachment.mimeType,
+        size: attachment.size,
+      })),
+    ],
+    [pendingAttachments, uploadedAttachments],
+  );
+
+  const handleRemoveAttachment = useCallback(
+    (key: string) => {
+      setUploadedAttachments((prev) =>
+        prev.filter((attachment) => attachment.url !== key),
+      );
+      removePendingAttachment(key);
+    },
+    [removePendingAttachment],
+  );
+
   const canSend = useMemo(() => {
     return (
       Boolean(selectedCase) &&
@@ -231,27 +377,48 @@ export default function ComposeEmailScreen() {
 
     setIsSending(true);
     try {
-      await messagesService.sendEmail({
-        caseId: selectedCase.id,
-        subject: trimmedSubject,
-        content: trimmedBody,
-        recipientId: selectedAgent.id,
-      });
-
-      await fetchMessages(true);
+      const draft = draftInput ? saveDraft(draftInput) : null;
+      if (!draft) {
+        return;
+      }
+      hasUnsavedChangesRef.current = false;
+      const result = await sendEmailDraft(draft.id);
+      isSentRef.current = true;
 
-      showToast({
-        type: "success",
-        title: t("messages.composeSuccessTitle", {
-          defaultValue: "Email sent",
-        }),
-        message: t("messages.composeSuccessMessage", {
-          defaultValue: "Your advisor will receive your message shortly.",
-        }),
-      });
+      if (result === "queued") {
+        showToast({
+          type: "info",
+          title: t("messages.composeQueuedTitle", {
+            defaultValue: "Saved to outbox",
+          }),
+          message: t("messages.composeQueuedMessage", {
+            defaultValue:
+              "Your email will be sent as soon as you are back online.",
+          }),
+        });
+      } else {
+        showToast({
+          type: "success",
+          title: t("messages.composeSuccessTitle", {
+            defaultValue: "Email sent",
+          }),
+          message: t("messages.composeSuccessMessage", {
+            defaultValue: "Your advisor will receive your message shortly.",
+          }),
+        });
+      }
 
       router.replace("/(tabs)/messages");
     } catch (error: any) {
+      // Files uploaded before the failure stay on the draft; mirror that
+      // so a retry does not upload them twice
+      const storedDraft = useMessagesStore
+        .getState()
+        .emailDrafts.find((draft) => draft.id === draftIdRef.current);
+      if (storedDraft) {
+        setUploadedAttachments(storedDraft.attachments ?? []);
+        setPendingAttachments(storedDraft.pendingAttachments ?? []);
+      }
       const errorMessage =
         error?.response?.data?.error ||
         error?.message ||
@@ -267,11 +434,14 @@ export default function ComposeEmailScreen() {
       setIsSending(false);
     }
   }, [
-    fetchMessages,
+    draftInput,
     messageBody,
     router,
+    saveDraft,
     selectedAgent,
     selectedCase,
+    sendEmailDraft,
+    setPendingAttachments,
     showAlert,
     showToast,
     subject,
@@ -630,6 +800,11 @@ export default function ComposeEmailScreen() {
                 </Text>
               ) : (
                 <Text style={[styles.characterCount, { color: colors.muted }]}>
+                  {draftSavedAt
+                    ? `${t("messages.composeDraftSaved", {
+                        defaultValue: "Draft saved",
+                      })} · `
+                    : ""}
                   {t("messages.composeCharacterCount", {
                     defaultValue: "{{count}} / 4000",
                     count: messageBody.length,
@@ -637,6 +812,52 @@ export default function ComposeEmailScreen() {
                 </Text>
               )}
             </View>
+
+            <View style={styles.messageInputContainer}>
+              <View style={styles.messageLabelRow}>
+                <Text style={[styles.messageLabel, { color: colors.text }]}>
+                  {t("email.attachments.title", {
+                    defaultValue: "Attachments",
+                  })}
+                </Text>
+                <Pressable
+                  onPress={openAttachmentPicker}
+                  disabled={isSending}
+                  style={({ pressed }) => [
+                    styles.attachButton,
+                    {
+                      backgroundColor: withOpacity(colors.primary, 0.12),
+                      opacity: pressed || isSending ? 0.6 : 1,
+                    },
+                  ]}
+                >
+                  <MaterialCommunityIcons
+                    name="paperclip"
+                    size={16}
+                    color={colors.primary}
+                  />
+                  <Text
+                    style={[styles.attachButtonText, { color: colors.primary }]}
+                  >
+                    {t("email.attachments.add", {
+                      defaultValue: "Attach files",
+                    })}
+                  </Text>
+                </Pressable>
+              </View>
+              <AttachmentChips
+                items={attachmentItems}
+                onRemove={handleRemoveAttachment}
+                disabled={isSending}
+              />
+              <Text style={[styles.messageHelper, { color: colors.muted }]}>
+                {t("email.attachments.hint", {
+                  count: MAX_EMAIL_ATTACHMENTS,
+                  size: Math.round(MAX_EMAIL_ATTACHMENT_BYTES / (1024 * 1024)),
+                  defaultValue: "Up to {{count}} files, {{size}} MB each",
+                })}
+              </Text>
+            </View>
           </View>
         </View>
 
@@ -1022,6 +1243,18 @@ const styles = StyleSheet.create({
   messageHelper: {
     fontSize: 12,
   },
+  attachButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  attachButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
   messageInputWrapper: {
     borderRadius: 16,
     borderWidth: StyleSheet.hairlineWidth,
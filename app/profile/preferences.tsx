@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -24,10 +24,29 @@ import { useToast } from "@/components/Toast";
 import { useAuthStore } from "@/stores/auth/authStore";
 import { BackButton } from "@/components/BackButton";
 import { resetOnboarding, resetGetStarted } from "@/lib/utils/onboarding";
+import { documentVault, type VaultUsage } from "@/lib/services/documentVault";
+import { templateCache } from "@/lib/services/templateCache";
+import {
+  APP_LOCK_TIMEOUT_OPTIONS,
+  useAppLockStore,
+} from "@/stores/appLock/appLockStore";
+import { useAppointmentsStore } from "@/stores/appointments/appointmentsStore";
+import { REMINDER_OFFSET_OPTIONS } from "@/lib/services/appointmentReminders";
 
 type ThemePreference = "system" | "light" | "dark";
 type LanguagePreference = "en" | "fr";
 
+const formatVaultSize = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const kb = bytes / 1024;
+  if (kb < 1024) {
+    return `${kb.toFixed(1)} KB`;
+  }
+  return `${(kb / 1024).toFixed(1)} MB`;
+};
+
 export default function PreferencesScreen() {
   const { t, changeLanguage, currentLanguage } = useTranslation();
   const insets = useSafeAreaInsets();
@@ -38,7 +57,16 @@ export default function PreferencesScreen() {
 
   const { settings, fetchSettings, updateSettings, isUpdating, setSettings } =
     useSettingsStore();
-  const { registerPushToken, unregisterPushToken } = useAuthStore();
+  const { registerPushToken, unregisterPushToken, user } = useAuthStore();
+  const {
+    enabled: appLockEnabled,
+    timeoutMs: appLockTimeout,
+    isAuthenticating: appLockAuthenticating,
+    setEnabled: setAppLockEnabled,
+    setTimeoutMs: setAppLockTimeout,
+  } = useAppLockStore();
+  const { reminderOffsets, loadReminderOffsets, setReminderOffsets } =
+    useAppointmentsStore();
 
   const [themePreference, setThemePreference] =
     useState<ThemePreference>("system");
@@ -48,6 +76,20 @@ export default function PreferencesScreen() {
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [processingNotifications, setProcessingNotifications] = useState(false);
   const [resettingOnboarding, setResettingOnboarding] = useState(false);
+  const [vaultUsage, setVaultUsage] = useState<VaultUsage | null>(null);
+  const [clearingVault, setClearingVault] = useState(false);
+
+  const loadVaultUsage = useCallback(async () => {
+    setVaultUsage(await documentVault.getUsage(user?.uid));
+  }, [user?.uid]);
+
+  useEffect(() => {
+    loadVaultUsage();
+  }, [loadVaultUsage]);
+
+  useEffect(() => {
+    loadReminderOffsets();
+  }, [loadReminderOffsets]);
 
   useEffect(() => {
     const hydrate = async () => {
@@ -295,6 +337,122 @@ export default function PreferencesScreen() {
     }
   };
 
+  const handleAppLockToggle = async (value: boolean) => {
+    try {
+      const updated = await setAppLockEnabled(value);
+      if (!updated) {
+        showToast({
+          type: "error",
+          title: t("common.error"),
+          message: t("profile.appLockAuthFailed", {
+            defaultValue:
+              "Authentication failed. The app lock was not changed.",
+          }),
+        });
+      }
+    } catch (error: any) {
+      showToast({
+        type: "error",
+        title: t("common.error"),
+        message:
+          error?.message ||
+          t("profile.appLockToggleError", {
+            defaultValue: "We could not update the app lock right now.",
+          }),
+      });
+    }
+  };
+
+  const handleReminderOffsetToggle = async (offset: number) => {
+    const next = reminderOffsets.includes(offset)
+      ? reminderOffsets.filter((value) => value !== offset)
+      : [...reminderOffsets, offset];
+    try {
+      await setReminderOffsets(next);
+    } catch (error: any) {
+      showToast({
+        type: "error",
+        title: t("common.error"),
+        message:
+          error?.message ||
+          t("profile.appointmentRemindersError", {
+            defaultValue: "We could not update your reminders right now.",
+          }),
+      });
+    }
+  };
+
+  const formatReminderOffset = (minutes: number) =>
+    minutes >= 24 * 60
+      ? t("profile.reminderDaysBefore", {
+          count: minutes / (24 * 60),
+          defaultValue: "{{count}} day(s) before",
+        })
+      : minutes >= 60
+        ? t("profile.reminderHoursBefore", {
+            count: minutes / 60,
+            defaultValue: "{{count}} hour(s) before",
+          })
+        : t("profile.reminderMinutesBefore", {
+            count: minutes,
+            defaultValue: "{{count}} min before",
+          });
+
+  const formatLockTimeout = (timeoutMs: number) =>
+    timeoutMs === 0
+      ? t("profile.appLockImmediately", { defaultValue: "Immediately" })
+      : t("profile.appLockAfterMinutes", {
+          count: timeoutMs / 60_000,
+          defaultValue: "After {{count}} min in the background",
+        });
+
+  const handleClearVault = () => {
+    Alert.alert(
+      t("profile.vaultClearTitle", { defaultValue: "Clear offline files?" }),
+      t("profile.vaultClearMessage", {
+        defaultValue:
+          "Downloaded documents and templates will be deleted from this device. You can download them again at any time.",
+      }),
+      [
+        {
+          text: t("common.cancel", { defaultValue: "Cancel" }),
+          style: "cancel",
+        },
+        {
+          text: t("common.delete", { defaultValue: "Delete" }),
+          style: "destructive",
+          onPress: async () => {
+            setClearingVault(true);
+            try {
+              await documentVault.wipe(user?.uid);
+              await templateCache.clear();
+              await loadVaultUsage();
+              showToast({
+                type: "success",
+                title: t("common.success"),
+                message: t("profile.vaultCleared", {
+                  defaultValue: "Offline files deleted.",
+                }),
+              });
+            } catch (error: any) {
+              showToast({
+                type: "error",
+                title: t("common.error"),
+                message:
+                  error?.message ||
+                  t("profile.vaultClearError", {
+                    defaultValue: "Failed to delete offline files.",
+                  }),
+              });
+            } finally {
+              setClearingVault(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
   const handleResetOnboarding = () => {
     Alert.alert(
       t("profile.resetOnboardingTitle", { defaultValue: "Reset Onboarding" }),
@@ -401,6 +559,57 @@ export default function PreferencesScreen() {
       );
     });
 
+  const renderLockTimeoutOptions = () =>
+    APP_LOCK_TIMEOUT_OPTIONS.map((option) => {
+      const isActive = option === appLockTimeout;
+      return (
+        <Pressable
+          key={option}
+          style={[
+            styles.optionRow,
+            {
+              borderColor: isActive
+                ? colors.primary
+                : theme.dark
+                  ? "#1F2937"
+                  : "#E2E8F0",
+              backgroundColor: isActive
+                ? theme.dark
+                  ? "rgba(33, 150, 243, 0.12)"
+                  : "rgba(33, 150, 243, 0.08)"
+                : theme.dark
+                  ? "#111827"
+                  : "#F8FAFC",
+            },
+          ]}
+          onPress={() => setAppLockTimeout(option)}
+        >
+          <View style={styles.optionContent}>
+            <View
+              style={[
+                styles.optionIcon,
+                { backgroundColor: colors.primary + "15" },
+              ]}
+            >
+              <IconSymbol name="clock.fill" size={22} color={colors.primary} />
+            </View>
+            <View style={styles.optionTextContainer}>
+              <Text style={[styles.optionTitle, { color: colors.text }]}>
+                {formatLockTimeout(option)}
+              </Text>
+            </View>
+          </View>
+          {isActive && (
+            <IconSymbol
+              name="checkmark.circle.fill"
+              size={22}
+              color={colors.primary}
+            />
+          )}
+        </Pressable>
+      );
+    });
+
   const renderLanguageOptions = () =>
     languageOptions.map((option) => {
       const isActive = option.value === languagePreference;
@@ -585,6 +794,83 @@ export default function PreferencesScreen() {
                   disabled={processingNotifications || isUpdating}
                 />
               </View>
+              <View
+                style={[
+                  styles.reminderRow,
+                  {
+                    borderColor: theme.dark ? "#1F2937" : "#E2E8F0",
+                    backgroundColor: theme.dark ? "#111827" : "#F8FAFC",
+                  },
+                ]}
+              >
+                <View style={styles.toggleContent}>
+                  <View
+                    style={[
+                      styles.optionIcon,
+                      { backgroundColor: colors.primary + "15" },
+                    ]}
+                  >
+                    <IconSymbol
+                      name="calendar"
+                      size={22}
+                      color={colors.primary}
+                    />
+                  </View>
+                  <View style={styles.toggleTextContainer}>
+                    <Text style={[styles.optionTitle, { color: colors.text }]}>
+                      {t("profile.appointmentReminders", {
+                        defaultValue: "Appointment reminders",
+                      })}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.optionDescription,
+                        { color: colors.muted },
+                      ]}
+                    >
+                      {t("profile.appointmentRemindersDescription", {
+                        defaultValue:
+                          "Get a reminder on this device before each appointment.",
+                      })}
+                    </Text>
+                  </View>
+                </View>
+                <View style={styles.chipRow}>
+                  {REMINDER_OFFSET_OPTIONS.map((offset) => {
+                    const isActive = reminderOffsets.includes(offset);
+                    return (
+                      <Pressable
+                        key={offset}
+                        style={[
+                          styles.chip,
+                          {
+                            borderColor: isActive
+                              ? colors.primary
+                              : theme.dark
+                                ? "#374151"
+                                : "#E2E8F0",
+                            backgroundColor: isActive
+                              ? colors.primary
+                              : "transparent",
+                          },
+                        ]}
+                        onPress={() => handleReminderOffsetToggle(offset)}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            {
+                              color: isActive ? colors.onPrimary : colors.text,
+                            },
+                          ]}
+                        >
+                          {formatReminderOffset(offset)}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
             </View>
           </View>
 
@@ -618,6 +904,168 @@ export default function PreferencesScreen() {
             <View style={styles.cardBody}>{renderLanguageOptions()}</View>
           </View>
 
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: theme.dark ? "#111827" : "#FFFFFF" },
+            ]}
+          >
+            <View style={styles.cardHeader}>
+              <View style={styles.cardHeaderText}>
+                <Text style={[styles.cardTitle, { color: colors.text }]}>
+                  {t("profile.securitySectionTitle", {
+                    defaultValue: "Security",
+                  })}
+                </Text>
+                <Text style={[styles.cardSubtitle, { color: colors.muted }]}>
+                  {t("profile.securitySectionSubtitle", {
+                    defaultValue:
+                      "Require Face ID, fingerprint or your device PIN to open the app.",
+                  })}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.cardBody}>
+              <View
+                style={[
+                  styles.toggleRow,
+                  {
+                    borderColor: theme.dark ? "#1F2937" : "#E2E8F0",
+                    backgroundColor: theme.dark ? "#111827" : "#F8FAFC",
+                  },
+                ]}
+              >
+                <View style={styles.toggleContent}>
+                  <View
+                    style={[
+                      styles.optionIcon,
+                      { backgroundColor: colors.primary + "15" },
+                    ]}
+                  >
+                    <IconSymbol
+                      name="lock.fill"
+                      size={22}
+                      color={colors.primary}
+                    />
+                  </View>
+                  <View style={styles.toggleTextContainer}>
+                    <Text style={[styles.optionTitle, { color: colors.text }]}>
+                      {t("profile.appLock", { defaultValue: "App lock" })}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.optionDescription,
+                        { color: colors.muted },
+                      ]}
+                    >
+                      {t("profile.appLockDescription", {
+                        defaultValue:
+                          "Lock the app on launch and after time in the background.",
+                      })}
+                    </Text>
+                  </View>
+                </View>
+                <Switch
+                  value={appLockEnabled}
+                  onValueChange={handleAppLockToggle}
+                  trackColor={{ false: "#767577", true: colors.primary }}
+                  thumbColor={
+                    Platform.OS === "android"
+                      ? appLockEnabled
+                        ? colors.primary
+                        : "#f4f3f4"
+                      : undefined
+                  }
+                  disabled={appLockAuthenticating}
+                />
+              </View>
+              {appLockEnabled ? renderLockTimeoutOptions() : null}
+            </View>
+          </View>
+
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: theme.dark ? "#111827" : "#FFFFFF" },
+            ]}
+          >
+            <View style={styles.cardHeader}>
+              <View style={styles.cardHeaderText}>
+                <Text style={[styles.cardTitle, { color: colors.text }]}>
+                  {t("profile.vaultSectionTitle", {
+                    defaultValue: "Offline files",
+                  })}
+                </Text>
+                <Text style={[styles.cardSubtitle, { color: colors.muted }]}>
+                  {t("profile.vaultSectionSubtitle", {
+                    defaultValue:
+                      "Downloads are encrypted on this device and deleted when you sign out.",
+                  })}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.cardBody}>
+              <Pressable
+                style={[
+                  styles.optionRow,
+                  {
+                    borderColor: theme.dark ? "#1F2937" : "#E2E8F0",
+                    backgroundColor: theme.dark ? "#111827" : "#F8FAFC",
+                    opacity: clearingVault ? 0.6 : 1,
+                  },
+                ]}
+                onPress={handleClearVault}
+                disabled={clearingVault || !vaultUsage?.totalBytes}
+              >
+                <View style={styles.optionContent}>
+                  <View
+                    style={[
+                      styles.optionIcon,
+                      { backgroundColor: colors.primary + "15" },
+                    ]}
+                  >
+                    <IconSymbol
+                      name="lock.fill"
+                      size={22}
+                      color={colors.primary}
+                    />
+                  </View>
+                  <View style={styles.optionTextContainer}>
+                    <Text style={[styles.optionTitle, { color: colors.text }]}>
+                      {vaultUsage
+                        ? t("profile.vaultUsage", {
+                            count: vaultUsage.fileCount,
+                            size: formatVaultSize(vaultUsage.totalBytes),
+                            defaultValue: "{{count}} files · {{size}}",
+                          })
+                        : t("common.loading", { defaultValue: "Loading..." })}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.optionDescription,
+                        { color: colors.muted },
+                      ]}
+                    >
+                      {t("profile.vaultClearDescription", {
+                        defaultValue:
+                          "Delete all downloaded documents and templates from this device.",
+                      })}
+                    </Text>
+                  </View>
+                </View>
+                {clearingVault ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <IconSymbol
+                    name="trash.fill"
+                    size={18}
+                    color={vaultUsage?.totalBytes ? "#EF4444" : colors.muted}
+                  />
+                )}
+              </Pressable>
+            </View>
+          </View>
+
           {/* Developer/Test Options */}
           <View
             style={[
@@ -821,6 +1269,28 @@ const styles = StyleSheet.create({
     flex: 1,
     gap: 4,
   },
+  reminderRow: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
   updatingIndicator: {
     flexDirection: "row",
     alignItems: "center",
@@ -42,5 +42,12 @@ module.exports = function (api) {
       "@babel/plugin-proposal-export-namespace-from",
       "react-native-worklets/plugin", // react-native-worklets/plugin must be listed last!
     ],
+    env: {
+      // Jest runs CommonJS, where the stores' lazy `await import` needs
+      // rewriting to require
+      test: {
+        plugins: ["@babel/plugin-transform-dynamic-import"],
+      },
+    },
   };
 };
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  AppState,
+  AppStateStatus,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { BlurView } from "expo-blur";
+import { IconSymbol } from "./IconSymbol";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import { useAppLockStore } from "@/stores/appLock/appLockStore";
+import { useAuthStore } from "@/stores/auth/authStore";
+
+/**
+ * Covers the app while it is locked, and blurs it whenever it leaves the
+ * foreground so the app switcher snapshot never shows case data.
+ */
+export function AppLockOverlay() {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const { t } = useTranslation();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const hydrated = useAppLockStore((state) => state.hydrated);
+  const isLocked = useAppLockStore((state) => state.isLocked);
+  const isAuthenticating = useAppLockStore((state) => state.isAuthenticating);
+  const unlock = useAppLockStore((state) => state.unlock);
+  const [appState, setAppState] = useState<AppStateStatus>(
+    AppState.currentState,
+  );
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", setAppState);
+    return () => subscription.remove();
+  }, []);
+
+  // Until settings load the lock state is unknown, so stay covered
+  const showLockScreen = isAuthenticated && (!hydrated || isLocked);
+  const isForeground = appState === "active";
+  const autoPromptedRef = useRef(false);
+
+  // Prompt once per lock instead of waiting for a tap. A cancelled prompt
+  // is not repeated: on iOS it toggles the app state and would loop.
+  useEffect(() => {
+    if (!showLockScreen) {
+      autoPromptedRef.current = false;
+      return;
+    }
+    if (hydrated && isForeground && !autoPromptedRef.current) {
+      autoPromptedRef.current = true;
+      unlock();
+    }
+  }, [hydrated, isForeground, showLockScreen, unlock]);
+
+  if (Platform.OS === "web") {
+    return null;
+  }
+
+  if (showLockScreen) {
+    return (
+      <View
+        style={[
+          StyleSheet.absoluteFill,
+          styles.lockScreen,
+          { backgroundColor: theme.dark ? "#1f2937" : colors.background },
+        ]}
+      >
+        {hydrated ? (
+          <>
+            <View
+              style={[
+                styles.iconCircle,
+                { backgroundColor: withOpacity(colors.primary, 0.14) },
+              ]}
+            >
+              <IconSymbol name="lock.fill" size={40} color={colors.primary} />
+            </View>
+            <Text style={[styles.title, { color: colors.text }]}>
+              {t("appLock.title", { defaultValue: "App locked" })}
+            </Text>
+            <Text style={[styles.message, { color: colors.muted }]}>
+              {t("appLock.message", {
+                defaultValue:
+                  "Use Face ID, your fingerprint or your device PIN to continue.",
+              })}
+            </Text>
+            <Pressable
+              style={[styles.button, { backgroundColor: colors.primary }]}
+              onPress={() => unlock()}
+              disabled={isAuthenticating}
+            >
+              {isAuthenticating ? (
+                <ActivityIndicator size="small" color={colors.onPrimary} />
+              ) : (
+                <Text style={[styles.buttonText, { color: colors.onPrimary }]}>
+                  {t("appLock.unlock", { defaultValue: "Unlock" })}
+                </Text>
+              )}
+            </Pressable>
+          </>
+        ) : null}
+      </View>
+    );
+  }
+
+  if (isAuthenticated && !isForeground) {
+    return (
+      <BlurView
+        intensity={100}
+        tint={theme.dark ? "dark" : "light"}
+        style={StyleSheet.absoluteFill}
+      />
+    );
+  }
+
+  return null;
+}
+
+const styles = StyleSheet.create({
+  lockScreen: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 32,
+    zIndex: 1000,
+  },
+  iconCircle: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "700",
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: "center",
+    marginBottom: 32,
+  },
+  button: {
+    minWidth: 180,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    alignItems: "center",
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
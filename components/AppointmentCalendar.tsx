@@ -0,0 +1,186 @@
+import React, { useMemo } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { IconSymbol } from "./IconSymbol";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { withOpacity } from "@/styles/theme";
+import { buildMonthGrid, toDateKey } from "@/lib/utils/calendar";
+import type { Appointment } from "@/lib/types";
+
+interface AppointmentCalendarProps {
+  month: Date;
+  /** Selected day as "YYYY-MM-DD" */
+  selectedDate: string;
+  appointmentsByDay: Record<string, Appointment[]>;
+  onChangeMonth: (offset: number) => void;
+  onSelectDate: (dateKey: string) => void;
+}
+
+// 2024-01-01 was a Monday
+const WEEKDAY_REFERENCE = new Date(2024, 0, 1);
+
+export function AppointmentCalendar({
+  month,
+  selectedDate,
+  appointmentsByDay,
+  onChangeMonth,
+  onSelectDate,
+}: AppointmentCalendarProps) {
+  const theme = useAppTheme();
+  const { colors } = theme;
+
+  const days = useMemo(() => buildMonthGrid(month), [month]);
+  const weekdays = useMemo(
+    () =>
+      Array.from({ length: 7 }, (_, index) =>
+        new Date(
+          WEEKDAY_REFERENCE.getFullYear(),
+          WEEKDAY_REFERENCE.getMonth(),
+          WEEKDAY_REFERENCE.getDate() + index,
+        ).toLocaleDateString(undefined, { weekday: "narrow" }),
+      ),
+    [],
+  );
+  const monthLabel = month.toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+  });
+  const todayKey = toDateKey(new Date());
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: theme.dark ? "#111827" : "#FFFFFF" },
+      ]}
+    >
+      <View style={styles.header}>
+        <Pressable
+          style={styles.navButton}
+          onPress={() => onChangeMonth(-1)}
+          hitSlop={8}
+        >
+          <IconSymbol name="chevron.left" size={22} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.monthLabel, { color: colors.text }]}>
+          {monthLabel}
+        </Text>
+        <Pressable
+          style={styles.navButton}
+          onPress={() => onChangeMonth(1)}
+          hitSlop={8}
+        >
+          <IconSymbol name="chevron.right" size={22} color={colors.text} />
+        </Pressable>
+      </View>
+
+      <View style={styles.row}>
+        {weekdays.map((label, index) => (
+          <Text
+            key={`${label}-${index}`}
+            style={[styles.weekday, { color: colors.muted }]}
+          >
+            {label}
+          </Text>
+        ))}
+      </View>
+
+      <View style={styles.grid}>
+        {days.map((day) => {
+          const key = toDateKey(day);
+          const inMonth = day.getMonth() === month.getMonth();
+          const isSelected = key === selectedDate;
+          const isToday = key === todayKey;
+          const count = appointmentsByDay[key]?.length ?? 0;
+
+          return (
+            <Pressable
+              key={key}
+              style={styles.cell}
+              onPress={() => onSelectDate(key)}
+            >
+              <View
+                style={[
+                  styles.day,
+                  isSelected && { backgroundColor: colors.primary },
+                  !isSelected &&
+                    isToday && {
+                      borderWidth: 1,
+                      borderColor: colors.primary,
+                    },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.dayText,
+                    {
+                      color: isSelected
+                        ? colors.onPrimary
+                        : inMonth
+                          ? colors.text
+                          : withOpacity(colors.muted, 0.5),
+                    },
+                  ]}
+                >
+                  {day.getDate()}
+                </Text>
+              </View>
+              <View style={styles.dots}>
+                {Array.from({ length: Math.min(count, 3) }, (_, index) => (
+                  <View
+                    key={index}
+                    style={[styles.dot, { backgroundColor: colors.primary }]}
+                  />
+                ))}
+              </View>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  navButton: { padding: 6 },
+  monthLabel: { fontSize: 16, fontWeight: "700", textTransform: "capitalize" },
+  row: { flexDirection: "row" },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: "center",
+    fontSize: 12,
+    fontWeight: "600",
+    paddingVertical: 6,
+  },
+  grid: { flexDirection: "row", flexWrap: "wrap" },
+  cell: {
+    width: `${100 / 7}%`,
+    alignItems: "center",
+    paddingVertical: 4,
+  },
+  day: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dayText: { fontSize: 14, fontWeight: "500" },
+  dots: { flexDirection: "row", gap: 2, height: 6, marginTop: 2 },
+  dot: { width: 5, height: 5, borderRadius: 2.5 },
+});
@@ -0,0 +1,152 @@
+import React, { useMemo } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { IconSymbol } from "./IconSymbol";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import { getAppointmentEnd, getAppointmentStart } from "@/lib/utils/calendar";
+import type { Appointment, AppointmentStatus } from "@/lib/types";
+
+interface AppointmentCardProps {
+  appointment: Appointment;
+  onPress: (appointment: Appointment) => void;
+  /** Agenda rows already sit under a date heading */
+  showDate?: boolean;
+}
+
+export const formatAppointmentTimeRange = (appointment: Appointment) => {
+  const start = getAppointmentStart(appointment);
+  const end = getAppointmentEnd(appointment);
+  if (start === null || end === null) return "—";
+  const options: Intl.DateTimeFormatOptions = {
+    hour: "numeric",
+    minute: "2-digit",
+  };
+  return `${new Date(start).toLocaleTimeString(undefined, options)} – ${new Date(
+    end,
+  ).toLocaleTimeString(undefined, options)}`;
+};
+
+export const formatAppointmentDate = (appointment: Appointment) => {
+  const start = getAppointmentStart(appointment);
+  if (start === null) return "—";
+  return new Date(start).toLocaleDateString(undefined, {
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export function useAppointmentStatusColors() {
+  const { colors } = useAppTheme();
+  return useMemo<Record<AppointmentStatus, string>>(
+    () => ({
+      SCHEDULED: colors.primary,
+      COMPLETED: colors.success,
+      CANCELLED: colors.danger,
+      MISSED: colors.warning,
+    }),
+    [colors.danger, colors.primary, colors.success, colors.warning],
+  );
+}
+
+export function AppointmentCard({
+  appointment,
+  onPress,
+  showDate = true,
+}: AppointmentCardProps) {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const { t } = useTranslation();
+  const statusColors = useAppointmentStatusColors();
+  const status = appointment.status ?? "SCHEDULED";
+  const statusColor = statusColors[status];
+
+  return (
+    <Pressable
+      style={[
+        styles.card,
+        {
+          backgroundColor: theme.dark ? "#111827" : "#FFFFFF",
+          borderLeftColor: statusColor,
+        },
+      ]}
+      onPress={() => onPress(appointment)}
+    >
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+          {appointment.title ||
+            t("appointments.defaultTitle", {
+              reference: appointment.case?.referenceNumber,
+              defaultValue: "Appointment · {{reference}}",
+            })}
+        </Text>
+        {status !== "SCHEDULED" ? (
+          <View
+            style={[
+              styles.badge,
+              { backgroundColor: withOpacity(statusColor, 0.16) },
+            ]}
+          >
+            <Text style={[styles.badgeText, { color: statusColor }]}>
+              {t(`appointments.status.${status.toLowerCase()}`, {
+                defaultValue: status,
+              })}
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      <View style={styles.metaRow}>
+        <IconSymbol name="clock.fill" size={14} color={colors.muted} />
+        <Text style={[styles.meta, { color: colors.muted }]}>
+          {showDate
+            ? `${formatAppointmentDate(appointment)} · ${formatAppointmentTimeRange(appointment)}`
+            : formatAppointmentTimeRange(appointment)}
+        </Text>
+      </View>
+      {appointment.location ? (
+        <View style={styles.metaRow}>
+          <IconSymbol name="location.fill" size={14} color={colors.muted} />
+          <Text
+            style={[styles.meta, { color: colors.muted }]}
+            numberOfLines={1}
+          >
+            {appointment.location}
+          </Text>
+        </View>
+      ) : null}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    padding: 14,
+    marginBottom: 10,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  title: { flex: 1, fontSize: 15, fontWeight: "600" },
+  badge: { borderRadius: 999, paddingHorizontal: 8, paddingVertical: 2 },
+  badgeText: { fontSize: 11, fontWeight: "600" },
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 2,
+  },
+  meta: { flex: 1, fontSize: 13 },
+});
@@ -0,0 +1,119 @@
+import React from "react";
+import { Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+
+export interface AttachmentChipItem {
+  key: string;
+  name: string;
+  type?: string;
+  size?: number;
+}
+
+interface AttachmentChipsProps {
+  items: AttachmentChipItem[];
+  onRemove?: (key: string) => void;
+  disabled?: boolean;
+}
+
+const formatChipSize = (size?: number) => {
+  if (!size || size <= 0) return "";
+  if (size < 1024 * 1024) return `${Math.max(Math.round(size / 1024), 1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function AttachmentChips({
+  items,
+  onRemove,
+  disabled = false,
+}: AttachmentChipsProps) {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const { t } = useTranslation();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+      contentContainerStyle={styles.content}
+    >
+      {items.map((item) => (
+        <View
+          key={item.key}
+          style={[
+            styles.chip,
+            {
+              backgroundColor: withOpacity(
+                colors.primary,
+                theme.dark ? 0.25 : 0.1,
+              ),
+            },
+          ]}
+        >
+          <MaterialCommunityIcons
+            name={
+              (item.type ?? "").startsWith("image/")
+                ? "image-outline"
+                : "file-document-outline"
+            }
+            size={16}
+            color={colors.primary}
+          />
+          <View style={styles.text}>
+            <Text
+              style={[styles.name, { color: colors.text }]}
+              numberOfLines={1}
+            >
+              {item.name}
+            </Text>
+            {item.size ? (
+              <Text style={[styles.size, { color: colors.muted }]}>
+                {formatChipSize(item.size)}
+              </Text>
+            ) : null}
+          </View>
+          {onRemove ? (
+            <Pressable
+              onPress={() => onRemove(item.key)}
+              disabled={disabled}
+              hitSlop={8}
+              accessibilityLabel={t("email.attachments.remove", {
+                name: item.name,
+                defaultValue: "Remove {{name}}",
+              })}
+            >
+              <MaterialCommunityIcons
+                name="close-circle"
+                size={16}
+                color={colors.muted}
+              />
+            </Pressable>
+          ) : null}
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: { gap: 8, paddingVertical: 4 },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    maxWidth: 220,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  text: { flexShrink: 1 },
+  name: { fontSize: 13, fontWeight: "500" },
+  size: { fontSize: 11 },
+});
@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from "react";
+import { Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { IconSymbol } from "./IconSymbol";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import {
+  CASE_ACTIVITY_FILTERS,
+  CaseActivityEvent,
+  CaseActivityFilter,
+  CaseActivityItem,
+  filterCaseActivity,
+} from "@/lib/utils/caseActivity";
+
+interface CaseActivityFeedProps {
+  items: CaseActivityItem[];
+  onSelect: (item: CaseActivityItem) => void;
+}
+
+const EVENT_ICONS: Record<CaseActivityEvent, string> = {
+  chatMessage: "message.fill",
+  emailReceived: "envelope.fill",
+  emailSent: "paperplane.fill",
+  documentUploaded: "arrow.up.doc.fill",
+  documentApproved: "checkmark.circle.fill",
+  documentRejected: "exclamationmark.triangle.fill",
+  notification: "bell.fill",
+};
+
+const formatDay = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toDateString() : "";
+
+export function CaseActivityFeed({ items, onSelect }: CaseActivityFeedProps) {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const { t } = useTranslation();
+  const [filter, setFilter] = useState<CaseActivityFilter>("all");
+
+  const filteredItems = useMemo(
+    () => filterCaseActivity(items, filter),
+    [items, filter],
+  );
+
+  const getEventColor = (event: CaseActivityEvent) => {
+    switch (event) {
+      case "documentApproved":
+        return colors.success;
+      case "documentRejected":
+        return colors.danger;
+      case "notification":
+        return colors.warning;
+      case "emailReceived":
+      case "emailSent":
+        return colors.accent;
+      default:
+        return colors.primary;
+    }
+  };
+
+  const getEventLabel = (event: CaseActivityEvent) => {
+    switch (event) {
+      case "chatMessage":
+        return t("caseActivity.events.chatMessage", {
+          defaultValue: "Chat message",
+        });
+      case "emailReceived":
+        return t("caseActivity.events.emailReceived", {
+          defaultValue: "Email received",
+        });
+      case "emailSent":
+        return t("caseActivity.events.emailSent", {
+          defaultValue: "Email sent",
+        });
+      case "documentUploaded":
+        return t("caseActivity.events.documentUploaded", {
+          defaultValue: "Document uploaded",
+        });
+      case "documentApproved":
+        return t("caseActivity.events.documentApproved", {
+          defaultValue: "Document approved",
+        });
+      case "documentRejected":
+        return t("caseActivity.events.documentRejected", {
+          defaultValue: "Document rejected",
+        });
+      default:
+        return t("caseActivity.events.notification", {
+          defaultValue: "Notification",
+        });
+    }
+  };
+
+  const getTimeLabel = (item: CaseActivityItem) =>
+    item.timestamp
+      ? new Date(item.timestamp).toLocaleTimeString(undefined, {
+          hour: "2-digit",
+          minute: "2-digit",
+        })
+      : (item.timeLabel ?? "");
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.filters}
+      >
+        {CASE_ACTIVITY_FILTERS.map((option) => {
+          const isActive = option === filter;
+          return (
+            <Pressable
+              key={option}
+              onPress={() => setFilter(option)}
+              style={[
+                styles.filterChip,
+                {
+                  backgroundColor: isActive
+                    ? colors.primary
+                    : withOpacity(colors.primary, theme.dark ? 0.18 : 0.08),
+                },
+              ]}
+            >
+              <Text
+                style={[
+                  styles.filterText,
+                  { color: isActive ? colors.onPrimary : colors.primary },
+                ]}
+              >
+                {t(`caseActivity.filters.${option}`)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+
+      {filteredItems.length === 0 ? (
+        <View style={styles.empty}>
+          <IconSymbol name="clock.fill" size={28} color={colors.muted} />
+          <Text style={[styles.emptyText, { color: colors.muted }]}>
+            {t("caseActivity.empty", {
+              defaultValue: "No activity on this case yet.",
+            })}
+          </Text>
+        </View>
+      ) : (
+        filteredItems.map((item, index) => {
+          const day = formatDay(item.timestamp);
+          const showDay =
+            index === 0 ||
+            formatDay(filteredItems[index - 1].timestamp) !== day;
+          const eventColor = getEventColor(item.event);
+
+          return (
+            <View key={item.key}>
+              {showDay ? (
+                <Text style={[styles.dayLabel, { color: colors.muted }]}>
+                  {item.timestamp
+                    ? new Date(item.timestamp).toLocaleDateString(undefined, {
+                        weekday: "short",
+                        month: "short",
+                        day: "numeric",
+                      })
+                    : t("caseActivity.undated", { defaultValue: "Earlier" })}
+                </Text>
+              ) : null}
+              <Pressable
+                onPress={() => onSelect(item)}
+                style={({ pressed }) => [
+                  styles.row,
+                  { opacity: pressed ? 0.7 : 1 },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.icon,
+                    { backgroundColor: withOpacity(eventColor, 0.14) },
+                  ]}
+                >
+                  <IconSymbol
+                    name={EVENT_ICONS[item.event]}
+                    size={16}
+                    color={eventColor}
+                  />
+                </View>
+                <View style={styles.text}>
+                  <View style={styles.header}>
+                    <Text
+                      style={[styles.eventLabel, { color: eventColor }]}
+                      numberOfLines={1}
+                    >
+                      {getEventLabel(item.event)}
+                    </Text>
+                    <Text style={[styles.time, { color: colors.muted }]}>
+                      {getTimeLabel(item)}
+                    </Text>
+                  </View>
+                  <Text
+                    style={[
+                      styles.title,
+                      { color: colors.text },
+                      item.unread && styles.titleUnread,
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {item.title}
+                  </Text>
+                  {item.body ? (
+                    <Text
+                      style={[styles.body, { color: colors.muted }]}
+                      numberOfLines={2}
+                    >
+                      {item.body}
+                    </Text>
+                  ) : null}
+                </View>
+              </Pressable>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { gap: 8 },
+  filters: { gap: 8, paddingBottom: 4 },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  filterText: { fontSize: 13, fontWeight: "600" },
+  dayLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 0.6,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  icon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  text: { flex: 1 },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  eventLabel: { flex: 1, fontSize: 12, fontWeight: "600" },
+  time: { fontSize: 12 },
+  title: { fontSize: 15, fontWeight: "500", marginTop: 2 },
+  titleUnread: { fontWeight: "700" },
+  body: { fontSize: 13, marginTop: 2 },
+  empty: { alignItems: "center", gap: 8, paddingVertical: 32 },
+  emptyText: { fontSize: 14, textAlign: "center" },
+});
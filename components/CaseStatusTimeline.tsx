@@ -0,0 +1,227 @@
+import React, { useCallback } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { IconSymbol } from "./IconSymbol";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import { CaseTimelineStage, splitDuration } from "@/lib/utils/caseHistory";
+
+interface CaseStatusTimelineProps {
+  stages: CaseTimelineStage[];
+  getStatusLabel: (status?: string | null) => string;
+}
+
+const formatEventDate = (timestamp: string) => {
+  const parsed = new Date(timestamp);
+  if (Number.isNaN(parsed.getTime())) {
+    return "—";
+  }
+  return `${parsed.toLocaleDateString()} · ${parsed.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`;
+};
+
+export function CaseStatusTimeline({
+  stages,
+  getStatusLabel,
+}: CaseStatusTimelineProps) {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const { t } = useTranslation();
+
+  const formatDuration = useCallback(
+    (durationMs: number) => {
+      const { days, hours, minutes } = splitDuration(durationMs);
+      if (days > 0) {
+        return hours > 0
+          ? t("caseDetails.durationDaysHours", {
+              days,
+              hours,
+              defaultValue: "{{days}}d {{hours}}h",
+            })
+          : t("caseDetails.durationDays", {
+              days,
+              defaultValue: "{{days}}d",
+            });
+      }
+      if (hours > 0) {
+        return t("caseDetails.durationHours", {
+          hours,
+          minutes,
+          defaultValue: "{{hours}}h {{minutes}}m",
+        });
+      }
+      return t("caseDetails.durationMinutes", {
+        minutes: Math.max(1, minutes),
+        defaultValue: "{{minutes}}m",
+      });
+    },
+    [t],
+  );
+
+  // Newest first so the current status is always visible at the top
+  const orderedStages = [...stages].reverse();
+
+  return (
+    <View>
+      {orderedStages.map((stage, index) => {
+        const { event, isCurrent, isRegression } = stage;
+        const isLast = index === orderedStages.length - 1;
+        const accentColor = isRegression
+          ? colors.warning
+          : isCurrent
+            ? colors.primary
+            : colors.success;
+
+        return (
+          <View key={event.id} style={styles.row}>
+            <View style={styles.rail}>
+              <View
+                style={[
+                  styles.dot,
+                  {
+                    backgroundColor: accentColor,
+                    borderColor: withOpacity(accentColor, 0.3),
+                  },
+                ]}
+              >
+                {isRegression ? (
+                  <IconSymbol
+                    name="arrow.counterclockwise"
+                    size={10}
+                    color={colors.onPrimary}
+                  />
+                ) : null}
+              </View>
+              {!isLast ? (
+                <View
+                  style={[
+                    styles.line,
+                    {
+                      backgroundColor: withOpacity(
+                        colors.borderStrong,
+                        theme.dark ? 0.5 : 0.7,
+                      ),
+                    },
+                  ]}
+                />
+              ) : null}
+            </View>
+
+            <View style={[styles.body, !isLast && styles.bodySpacing]}>
+              <View style={styles.titleRow}>
+                <Text style={[styles.statusLabel, { color: colors.text }]}>
+                  {getStatusLabel(event.status)}
+                </Text>
+                {isRegression ? (
+                  <View
+                    style={[
+                      styles.badge,
+                      { backgroundColor: withOpacity(colors.warning, 0.16) },
+                    ]}
+                  >
+                    <Text style={[styles.badgeText, { color: colors.warning }]}>
+                      {t("caseDetails.timelineReturned", {
+                        defaultValue: "Sent back",
+                      })}
+                    </Text>
+                  </View>
+                ) : null}
+                {isCurrent ? (
+                  <View
+                    style={[
+                      styles.badge,
+                      { backgroundColor: withOpacity(colors.primary, 0.14) },
+                    ]}
+                  >
+                    <Text style={[styles.badgeText, { color: colors.primary }]}>
+                      {t("caseDetails.timelineCurrent", {
+                        defaultValue: "Current",
+                      })}
+                    </Text>
+                  </View>
+                ) : null}
+              </View>
+
+              <Text style={[styles.meta, { color: colors.muted }]}>
+                {formatEventDate(event.timestamp)}
+                {event.actor?.name
+                  ? ` · ${t("caseDetails.timelineBy", {
+                      name: event.actor.name,
+                      defaultValue: "by {{name}}",
+                    })}`
+                  : ""}
+              </Text>
+
+              <Text style={[styles.meta, { color: colors.muted }]}>
+                {isCurrent
+                  ? t("caseDetails.timelineInStageFor", {
+                      duration: formatDuration(stage.durationMs),
+                      defaultValue: "In this stage for {{duration}}",
+                    })
+                  : t("caseDetails.timelineStageDuration", {
+                      duration: formatDuration(stage.durationMs),
+                      defaultValue: "Lasted {{duration}}",
+                    })}
+              </Text>
+
+              {event.note ? (
+                <View
+                  style={[
+                    styles.note,
+                    {
+                      backgroundColor: theme.dark
+                        ? colors.surfaceElevated
+                        : colors.surfaceAlt,
+                      borderLeftColor: accentColor,
+                    },
+                  ]}
+                >
+                  <Text style={[styles.noteText, { color: colors.text }]}>
+                    {event.note}
+                  </Text>
+                </View>
+              ) : null}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: "row" },
+  rail: { width: 24, alignItems: "center" },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 3,
+    marginTop: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  line: { flex: 1, width: 2, marginVertical: 4 },
+  body: { flex: 1, marginLeft: 10 },
+  bodySpacing: { paddingBottom: 18 },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  statusLabel: { fontSize: 15, fontWeight: "700" },
+  badge: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  badgeText: { fontSize: 11, fontWeight: "700" },
+  meta: { fontSize: 12, marginTop: 4 },
+  note: {
+    marginTop: 8,
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  noteText: { fontSize: 13, lineHeight: 18 },
+});
@@ -0,0 +1,206 @@
+import React from "react";
+import {
+  ActivityIndicator,
+  Image,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import {
+  isImageAttachment,
+  type ChatAttachment,
+} from "@/lib/services/chatAttachments";
+
+interface ChatMessageAttachmentsProps {
+  attachments: ChatAttachment[];
+  isUser: boolean;
+  /** Set while the files of an optimistic message are uploading */
+  uploadProgress?: number;
+  onOpen: (attachment: ChatAttachment) => void;
+  /** Omitted when the attachments cannot be filed yet, e.g. while sending */
+  onPromote?: (attachment: ChatAttachment) => void;
+  /** URL of the attachment currently being filed as a case document */
+  promotingUrl?: string | null;
+}
+
+const formatAttachmentSize = (size?: number) => {
+  if (!size || size <= 0) return "";
+  if (size < 1024) return `${size} B`;
+  const kb = size / 1024;
+  if (kb < 1024) return `${kb.toFixed(1)} KB`;
+  return `${(kb / 1024).toFixed(1)} MB`;
+};
+
+const getFileIcon = (type?: string) => {
+  if (type === "application/pdf") return "file-pdf-box";
+  if (type?.includes("word")) return "file-word-box";
+  if (type?.includes("sheet") || type?.includes("excel")) {
+    return "file-excel-box";
+  }
+  return "file-document-outline";
+};
+
+export function ChatMessageAttachments({
+  attachments,
+  isUser,
+  uploadProgress,
+  onOpen,
+  onPromote,
+  promotingUrl,
+}: ChatMessageAttachmentsProps) {
+  const { colors } = useAppTheme();
+  const { t } = useTranslation();
+  const foreground = isUser ? "#fff" : colors.text;
+  const mutedForeground = isUser ? withOpacity("#fff", 0.75) : colors.muted;
+  const isUploading = uploadProgress !== undefined && uploadProgress < 100;
+
+  const renderPromote = (attachment: ChatAttachment) => {
+    if (!onPromote || isUploading) return null;
+    const isPromoting = promotingUrl === attachment.url;
+    return (
+      <Pressable
+        style={styles.promoteButton}
+        onPress={() => onPromote(attachment)}
+        disabled={Boolean(promotingUrl)}
+        hitSlop={6}
+        accessibilityLabel={t("chat.attachments.saveToCase", {
+          defaultValue: "Save to case documents",
+        })}
+      >
+        {isPromoting ? (
+          <ActivityIndicator size="small" color={foreground} />
+        ) : (
+          <MaterialCommunityIcons
+            name="folder-plus-outline"
+            size={20}
+            color={foreground}
+          />
+        )}
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {attachments.map((attachment, index) =>
+        isImageAttachment(attachment) ? (
+          <Pressable
+            key={`${attachment.url}-${index}`}
+            style={styles.imageWrapper}
+            onPress={() => onOpen(attachment)}
+            disabled={isUploading}
+          >
+            <Image
+              source={{ uri: attachment.url }}
+              style={styles.image}
+              resizeMode="cover"
+            />
+            <View style={styles.imageOverlay}>{renderPromote(attachment)}</View>
+          </Pressable>
+        ) : (
+          <Pressable
+            key={`${attachment.url}-${index}`}
+            style={[
+              styles.fileCard,
+              {
+                backgroundColor: isUser
+                  ? withOpacity("#fff", 0.16)
+                  : withOpacity(colors.primary, 0.08),
+              },
+            ]}
+            onPress={() => onOpen(attachment)}
+            disabled={isUploading}
+          >
+            <MaterialCommunityIcons
+              name={getFileIcon(attachment.type)}
+              size={28}
+              color={foreground}
+            />
+            <View style={styles.fileText}>
+              <Text
+                style={[styles.fileName, { color: foreground }]}
+                numberOfLines={1}
+              >
+                {attachment.name}
+              </Text>
+              {attachment.size ? (
+                <Text style={[styles.fileMeta, { color: mutedForeground }]}>
+                  {formatAttachmentSize(attachment.size)}
+                </Text>
+              ) : null}
+            </View>
+            {renderPromote(attachment)}
+          </Pressable>
+        ),
+      )}
+
+      {isUploading ? (
+        <View style={styles.progressRow}>
+          <View
+            style={[
+              styles.progressTrack,
+              { backgroundColor: withOpacity(foreground, 0.25) },
+            ]}
+          >
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${Math.max(uploadProgress ?? 0, 4)}%`,
+                  backgroundColor: foreground,
+                },
+              ]}
+            />
+          </View>
+          <Text style={[styles.progressText, { color: mutedForeground }]}>
+            {t("chat.attachments.uploading", {
+              progress: uploadProgress ?? 0,
+              defaultValue: "Uploading {{progress}}%",
+            })}
+          </Text>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { gap: 6, marginBottom: 6 },
+  imageWrapper: {
+    width: 220,
+    height: 160,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  image: { width: "100%", height: "100%" },
+  imageOverlay: { position: "absolute", top: 6, right: 6 },
+  fileCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    minWidth: 200,
+  },
+  fileText: { flex: 1 },
+  fileName: { fontSize: 14, fontWeight: "600" },
+  fileMeta: { fontSize: 12, marginTop: 2 },
+  promoteButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.25)",
+  },
+  progressRow: { gap: 4 },
+  progressTrack: { height: 4, borderRadius: 2, overflow: "hidden" },
+  progressFill: { height: "100%", borderRadius: 2 },
+  progressText: { fontSize: 12 },
+});
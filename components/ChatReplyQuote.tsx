@@ -0,0 +1,100 @@
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import type { ChatMessage, ChatReplyReference } from "@/lib/services/chat";
+
+interface ChatReplyQuoteProps {
+  reply: ChatReplyReference;
+  /** Live copy of the quoted message, when loaded, so edits and deletions show */
+  parent?: ChatMessage;
+  /** Quote sits inside an outgoing bubble */
+  isUser?: boolean;
+  /** Overrides the sender name, e.g. "Editing message" in the composer */
+  title?: string;
+  onClose?: () => void;
+}
+
+export function ChatReplyQuote({
+  reply,
+  parent,
+  isUser = false,
+  title,
+  onClose,
+}: ChatReplyQuoteProps) {
+  const { colors } = useAppTheme();
+  const { t } = useTranslation();
+  const accent = isUser ? "#fff" : colors.primary;
+  const foreground = isUser ? "#fff" : colors.text;
+  const muted = isUser ? withOpacity("#fff", 0.8) : colors.muted;
+
+  const isDeleted = Boolean(parent?.deletedAt);
+  const text = parent?.message ?? reply.message;
+  const hasAttachments =
+    (parent?.attachments?.length ?? 0) > 0 || reply.hasAttachments;
+  const body = isDeleted
+    ? t("chat.messageRemoved", { defaultValue: "Message removed" })
+    : text ||
+      (hasAttachments
+        ? t("chat.reply.attachment", { defaultValue: "Attachment" })
+        : "");
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          borderLeftColor: accent,
+          backgroundColor: withOpacity(accent, isUser ? 0.16 : 0.08),
+        },
+      ]}
+    >
+      <View style={styles.text}>
+        <Text
+          style={[styles.title, { color: isUser ? foreground : accent }]}
+          numberOfLines={1}
+        >
+          {title ?? (parent?.senderName || reply.senderName)}
+        </Text>
+        <Text
+          style={[styles.body, { color: muted }, isDeleted && styles.removed]}
+          numberOfLines={2}
+        >
+          {body}
+        </Text>
+      </View>
+      {onClose ? (
+        <Pressable
+          onPress={onClose}
+          hitSlop={8}
+          accessibilityLabel={t("common.cancel")}
+        >
+          <MaterialCommunityIcons
+            name="close-circle"
+            size={18}
+            color={colors.muted}
+          />
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginBottom: 6,
+  },
+  text: { flex: 1 },
+  title: { fontSize: 12, fontWeight: "700" },
+  body: { fontSize: 13, marginTop: 1 },
+  removed: { fontStyle: "italic" },
+});
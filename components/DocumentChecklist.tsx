@@ -0,0 +1,183 @@
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { IconSymbol } from "./IconSymbol";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import { DOCUMENT_TYPE_OPTIONS } from "@/lib/constants/documentRequirements";
+import {
+  ChecklistItemStatus,
+  DocumentChecklistItem,
+  summarizeChecklist,
+} from "@/lib/utils/documentChecklist";
+
+interface DocumentChecklistProps {
+  items: DocumentChecklistItem[];
+  onUploadPress: (documentType: string) => void;
+}
+
+const STATUS_ICONS: Record<ChecklistItemStatus, string> = {
+  missing: "plus.circle.fill",
+  pending: "clock.fill",
+  approved: "checkmark.circle.fill",
+  rejected: "exclamationmark.triangle.fill",
+};
+
+export function DocumentChecklist({
+  items,
+  onUploadPress,
+}: DocumentChecklistProps) {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const { t } = useTranslation();
+
+  const summary = summarizeChecklist(items);
+
+  const getStatusColor = (status: ChecklistItemStatus) => {
+    switch (status) {
+      case "approved":
+        return colors.success;
+      case "pending":
+        return colors.warning;
+      case "rejected":
+        return colors.danger;
+      default:
+        return colors.muted;
+    }
+  };
+
+  const getStatusLabel = (status: ChecklistItemStatus) => {
+    switch (status) {
+      case "approved":
+        return t("documentChecklist.status.approved", {
+          defaultValue: "Approved",
+        });
+      case "pending":
+        return t("documentChecklist.status.pending", {
+          defaultValue: "In review",
+        });
+      case "rejected":
+        return t("documentChecklist.status.rejected", {
+          defaultValue: "Rejected",
+        });
+      default:
+        return t("documentChecklist.status.missing", {
+          defaultValue: "Missing",
+        });
+    }
+  };
+
+  const getTypeLabel = (documentType: string) => {
+    const option = DOCUMENT_TYPE_OPTIONS.find(
+      (entry) => entry.value === documentType,
+    );
+    return option
+      ? t(option.labelKey)
+      : documentType.replace(/_/g, " ").toLowerCase();
+  };
+
+  if (items.length === 0) {
+    return (
+      <Text style={[styles.emptyText, { color: colors.muted }]}>
+        {t("documentChecklist.empty", {
+          defaultValue: "No checklist is available for this service yet.",
+        })}
+      </Text>
+    );
+  }
+
+  return (
+    <View>
+      <Text style={[styles.summary, { color: colors.muted }]}>
+        {t("documentChecklist.summary", {
+          approved: summary.approvedCount,
+          required: summary.requiredCount,
+          defaultValue:
+            "{{approved}} of {{required}} required documents approved",
+        })}
+      </Text>
+
+      {items.map((item) => {
+        const { requirement, status } = item;
+        const statusColor = getStatusColor(status);
+        const canUpload = status === "missing" || status === "rejected";
+
+        return (
+          <Pressable
+            key={requirement.documentType}
+            style={[
+              styles.row,
+              { borderBottomColor: withOpacity(colors.borderStrong, 0.4) },
+            ]}
+            onPress={
+              canUpload
+                ? () => onUploadPress(requirement.documentType)
+                : undefined
+            }
+            disabled={!canUpload}
+          >
+            <IconSymbol
+              name={STATUS_ICONS[status]}
+              size={20}
+              color={statusColor}
+            />
+            <View style={styles.body}>
+              <Text style={[styles.label, { color: colors.text }]}>
+                {getTypeLabel(requirement.documentType)}
+              </Text>
+              <Text style={[styles.meta, { color: colors.muted }]}>
+                {requirement.level === "required"
+                  ? t("documentChecklist.required", {
+                      defaultValue: "Required",
+                    })
+                  : requirement.level === "optional"
+                    ? t("documentChecklist.optional", {
+                        defaultValue: "Optional",
+                      })
+                    : requirement.conditionKey
+                      ? t(requirement.conditionKey)
+                      : t("documentChecklist.conditional", {
+                          defaultValue: "If applicable",
+                        })}
+              </Text>
+            </View>
+            <View
+              style={[
+                styles.badge,
+                { backgroundColor: withOpacity(statusColor, 0.14) },
+              ]}
+            >
+              <Text style={[styles.badgeText, { color: statusColor }]}>
+                {getStatusLabel(status)}
+              </Text>
+            </View>
+            {canUpload ? (
+              <IconSymbol
+                name="chevron.right"
+                size={14}
+                color={colors.mutedAlt}
+              />
+            ) : null}
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  summary: { fontSize: 13, marginBottom: 8 },
+  emptyText: { fontSize: 14, paddingVertical: 12, textAlign: "center" },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  body: { flex: 1 },
+  label: { fontSize: 15, fontWeight: "600" },
+  meta: { fontSize: 12, marginTop: 2 },
+  badge: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  badgeText: { fontSize: 11, fontWeight: "700" },
+});
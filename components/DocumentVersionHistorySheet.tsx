@@ -0,0 +1,356 @@
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  ActivityIndicator,
+  Linking,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import {
+  BottomSheetBackdrop,
+  BottomSheetModal,
+  BottomSheetScrollView,
+} from "@gorhom/bottom-sheet";
+import type { BottomSheetModal as BottomSheetModalType } from "@gorhom/bottom-sheet";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { IconSymbol } from "./IconSymbol";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { withOpacity } from "@/styles/theme";
+import { logger } from "@/lib/utils/logger";
+import { useDocumentsStore } from "@/stores/documents/documentsStore";
+import type { Document, DocumentVersion } from "@/lib/types";
+
+interface DocumentVersionHistorySheetProps {
+  /** Document whose history is shown; the sheet is open while set */
+  document: Document | null;
+  onClose: () => void;
+  onReplace: (document: Document) => void;
+}
+
+const formatVersionDate = (date?: string) => {
+  if (!date) return "—";
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) {
+    return "—";
+  }
+  return parsed.toLocaleDateString();
+};
+
+// Documents uploaded before versioning only describe their current file
+const currentVersionOf = (document: Document): DocumentVersion => ({
+  id: document.id,
+  version: document.version ?? 1,
+  originalName: document.originalName,
+  fileName: document.fileName,
+  status: document.status,
+  uploadDate: document.uploadDate,
+  filePath: document.filePath,
+  fileSize: document.fileSize,
+  mimeType: document.mimeType,
+  rejectionReason: document.rejectionReason,
+  reviewerComment: document.reviewerComment,
+});
+
+export function DocumentVersionHistorySheet({
+  document,
+  onClose,
+  onReplace,
+}: DocumentVersionHistorySheetProps) {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const sheetRef = useRef<BottomSheetModalType>(null);
+  const snapPoints = useMemo(() => ["60%", "90%"], []);
+  const bottomPadding = Math.max(insets.bottom, 20);
+
+  const documentId = document?.id ?? null;
+  const fetchedVersions = useDocumentsStore((state) =>
+    documentId ? state.documentVersions[documentId] : undefined,
+  );
+  const isLoading = useDocumentsStore(
+    (state) => documentId !== null && state.versionsLoadingId === documentId,
+  );
+  const fetchDocumentVersions = useDocumentsStore(
+    (state) => state.fetchDocumentVersions,
+  );
+
+  useEffect(() => {
+    if (!documentId) {
+      sheetRef.current?.dismiss();
+      return;
+    }
+    sheetRef.current?.present();
+    fetchDocumentVersions(documentId).catch((error) => {
+      logger.warn("Failed to load document versions", error);
+    });
+  }, [documentId, fetchDocumentVersions]);
+
+  const versions = useMemo(() => {
+    if (!document) return [];
+    if (fetchedVersions && fetchedVersions.length > 0) return fetchedVersions;
+    if (document.versions && document.versions.length > 0) {
+      return document.versions;
+    }
+    return [currentVersionOf(document)];
+  }, [document, fetchedVersions]);
+
+  const statusColors = useMemo(
+    () => ({
+      PENDING: colors.warning,
+      APPROVED: colors.success,
+      REJECTED: colors.danger,
+    }),
+    [colors.danger, colors.success, colors.warning],
+  );
+
+  const handleOpenVersion = useCallback(async (version: DocumentVersion) => {
+    if (!version.filePath) return;
+    try {
+      await Linking.openURL(version.filePath);
+    } catch (error) {
+      logger.error("Failed to open document version", error);
+    }
+  }, []);
+
+  const backdrop = useCallback(
+    (props: any) => (
+      <BottomSheetBackdrop
+        {...props}
+        appearsOnIndex={0}
+        disappearsOnIndex={-1}
+        opacity={0.5}
+      />
+    ),
+    [],
+  );
+
+  const canReplace = document?.status === "REJECTED";
+
+  return (
+    <BottomSheetModal
+      ref={sheetRef}
+      snapPoints={snapPoints}
+      enablePanDownToClose
+      enableDynamicSizing={false}
+      backdropComponent={backdrop}
+      handleIndicatorStyle={{
+        backgroundColor: theme.dark ? "#666" : "#999",
+      }}
+      backgroundStyle={{
+        backgroundColor: theme.dark ? "#1C1C1E" : "#FFFFFF",
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+      }}
+      onDismiss={onClose}
+    >
+      <BottomSheetScrollView
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: bottomPadding },
+        ]}
+      >
+        {document ? (
+          <>
+            <Text style={[styles.title, { color: colors.text }]}>
+              {t("documentVersions.title", {
+                defaultValue: "Version history",
+              })}
+            </Text>
+            <Text
+              style={[styles.subtitle, { color: colors.muted }]}
+              numberOfLines={1}
+            >
+              {document.originalName}
+            </Text>
+
+            {canReplace ? (
+              <Pressable
+                style={[
+                  styles.replaceButton,
+                  { backgroundColor: colors.primary },
+                ]}
+                onPress={() => onReplace(document)}
+              >
+                <IconSymbol
+                  name="arrow.up.doc.fill"
+                  size={18}
+                  color={colors.onPrimary}
+                />
+                <Text
+                  style={[
+                    styles.replaceButtonText,
+                    { color: colors.onPrimary },
+                  ]}
+                >
+                  {t("documentVersions.replace", {
+                    defaultValue: "Upload a new version",
+                  })}
+                </Text>
+              </Pressable>
+            ) : null}
+
+            {isLoading && !fetchedVersions ? (
+              <ActivityIndicator
+                style={styles.loader}
+                size="small"
+                color={colors.primary}
+              />
+            ) : null}
+
+            {versions.map((version, index) => {
+              const statusColor = statusColors[version.status] ?? colors.muted;
+              return (
+                <Pressable
+                  key={version.id}
+                  style={[
+                    styles.versionCard,
+                    {
+                      backgroundColor: theme.dark
+                        ? colors.surfaceElevated
+                        : colors.surfaceAlt,
+                      borderLeftColor: statusColor,
+                    },
+                  ]}
+                  disabled={!version.filePath}
+                  onPress={() => handleOpenVersion(version)}
+                >
+                  <View style={styles.versionHeader}>
+                    <Text style={[styles.versionLabel, { color: colors.text }]}>
+                      {t("documentVersions.versionLabel", {
+                        version: version.version,
+                        defaultValue: "Version {{version}}",
+                      })}
+                    </Text>
+                    {index === 0 ? (
+                      <View
+                        style={[
+                          styles.badge,
+                          {
+                            backgroundColor: withOpacity(colors.primary, 0.14),
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={[styles.badgeText, { color: colors.primary }]}
+                        >
+                          {t("documentVersions.current", {
+                            defaultValue: "Current",
+                          })}
+                        </Text>
+                      </View>
+                    ) : null}
+                    <View
+                      style={[
+                        styles.badge,
+                        { backgroundColor: withOpacity(statusColor, 0.16) },
+                      ]}
+                    >
+                      <Text style={[styles.badgeText, { color: statusColor }]}>
+                        {t(`documents.status.${version.status.toLowerCase()}`, {
+                          defaultValue: version.status,
+                        })}
+                      </Text>
+                    </View>
+                  </View>
+
+                  <Text
+                    style={[styles.meta, { color: colors.muted }]}
+                    numberOfLines={1}
+                  >
+                    {version.originalName || version.fileName}
+                  </Text>
+                  <Text style={[styles.meta, { color: colors.muted }]}>
+                    {t("documentVersions.uploadedOn", {
+                      date: formatVersionDate(version.uploadDate),
+                      defaultValue: "Uploaded {{date}}",
+                    })}
+                    {version.reviewedAt
+                      ? ` · ${t("documentVersions.reviewedOn", {
+                          date: formatVersionDate(version.reviewedAt),
+                          defaultValue: "reviewed {{date}}",
+                        })}`
+                      : ""}
+                    {version.reviewedBy
+                      ? ` ${t("documentVersions.reviewedBy", {
+                          name: version.reviewedBy,
+                          defaultValue: "by {{name}}",
+                        })}`
+                      : ""}
+                  </Text>
+
+                  {version.rejectionReason ? (
+                    <View style={styles.note}>
+                      <Text
+                        style={[styles.noteLabel, { color: colors.danger }]}
+                      >
+                        {t("documentVersions.rejectionReason", {
+                          defaultValue: "Reason for rejection",
+                        })}
+                      </Text>
+                      <Text style={[styles.noteText, { color: colors.text }]}>
+                        {version.rejectionReason}
+                      </Text>
+                    </View>
+                  ) : null}
+
+                  {version.reviewerComment ? (
+                    <View style={styles.note}>
+                      <Text style={[styles.noteLabel, { color: colors.muted }]}>
+                        {t("documentVersions.reviewerComment", {
+                          defaultValue: "Reviewer comment",
+                        })}
+                      </Text>
+                      <Text style={[styles.noteText, { color: colors.text }]}>
+                        {version.reviewerComment}
+                      </Text>
+                    </View>
+                  ) : null}
+                </Pressable>
+              );
+            })}
+          </>
+        ) : null}
+      </BottomSheetScrollView>
+    </BottomSheetModal>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: { paddingHorizontal: 20, paddingTop: 8 },
+  title: { fontSize: 20, fontWeight: "700" },
+  subtitle: { fontSize: 14, marginTop: 4, marginBottom: 16 },
+  replaceButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  replaceButtonText: { fontSize: 15, fontWeight: "600" },
+  loader: { marginVertical: 12 },
+  versionCard: {
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    padding: 14,
+    marginBottom: 12,
+  },
+  versionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 4,
+  },
+  versionLabel: { fontSize: 15, fontWeight: "600", marginRight: 2 },
+  badge: { borderRadius: 999, paddingHorizontal: 8, paddingVertical: 2 },
+  badgeText: { fontSize: 11, fontWeight: "600" },
+  meta: { fontSize: 13, marginTop: 2 },
+  note: { marginTop: 10 },
+  noteLabel: { fontSize: 12, fontWeight: "600", marginBottom: 2 },
+  noteText: { fontSize: 14, lineHeight: 20 },
+});
@@ -0,0 +1,36 @@
+import React, { useMemo } from "react";
+import { StyleProp, Text, TextProps, TextStyle } from "react-native";
+import { getHighlightSegments } from "@/lib/utils/search";
+
+interface HighlightedTextProps extends TextProps {
+  text: string;
+  /** Search query whose words are highlighted, ignoring case and accents */
+  query: string;
+  highlightStyle?: StyleProp<TextStyle>;
+}
+
+export function HighlightedText({
+  text,
+  query,
+  highlightStyle,
+  ...rest
+}: HighlightedTextProps) {
+  const segments = useMemo(
+    () => getHighlightSegments(text, query),
+    [text, query],
+  );
+
+  return (
+    <Text {...rest}>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <Text key={index} style={highlightStyle}>
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        ),
+      )}
+    </Text>
+  );
+}
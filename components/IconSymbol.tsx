@@ -69,6 +69,9 @@ const MAPPING = {
   folder: "folder-open",
   "doc.fill": "insert-drive-file",
   doc: "insert-drive-file",
+  crop: "crop",
+  "rotate.right": "rotate-right",
+  "doc.viewfinder": "document-scanner",
 
   // Media & Content
   "photo.fill": "image",
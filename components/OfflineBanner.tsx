@@ -0,0 +1,84 @@
+import React from "react";
+import { StyleSheet, Text } from "react-native";
+import Animated, { FadeInUp, FadeOutUp } from "react-native-reanimated";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { palette } from "@/styles/theme";
+import {
+  isOffline,
+  useConnectivityStore,
+} from "@/stores/connectivity/connectivityStore";
+import { useAuthStore } from "@/stores/auth/authStore";
+
+/**
+ * Tells the user when the device is offline or the backend cannot be
+ * reached, so failed loads and queued changes are not a surprise.
+ */
+export function OfflineBanner() {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const deviceOffline = useConnectivityStore(isOffline);
+  const isApiUnreachable = useConnectivityStore(
+    (state) => state.isApiUnreachable,
+  );
+
+  if (!isAuthenticated || (!deviceOffline && !isApiUnreachable)) {
+    return null;
+  }
+
+  return (
+    <Animated.View
+      entering={FadeInUp}
+      exiting={FadeOutUp}
+      pointerEvents="none"
+      style={[
+        styles.banner,
+        {
+          paddingTop: insets.top + 6,
+          backgroundColor: deviceOffline
+            ? palette.textSecondary
+            : palette.warning,
+        },
+      ]}
+    >
+      <MaterialCommunityIcons
+        name={deviceOffline ? "wifi-off" : "cloud-off-outline"}
+        size={16}
+        color="#FFFFFF"
+      />
+      <Text style={styles.text} numberOfLines={2}>
+        {deviceOffline
+          ? t("connectivity.offline", {
+              defaultValue:
+                "You are offline. Changes will sync when you reconnect.",
+            })
+          : t("connectivity.serverUnreachable", {
+              defaultValue: "We can't reach the server right now. Retrying…",
+            })}
+      </Text>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  text: {
+    flexShrink: 1,
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
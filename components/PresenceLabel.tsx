@@ -0,0 +1,44 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { usePeerPresence } from "@/lib/hooks/useRealtimeChat";
+import { formatLastSeen } from "@/lib/utils/presence";
+import { withOpacity } from "@/styles/theme";
+
+interface PresenceLabelProps {
+  /** Firebase uid of the user whose presence is shown */
+  userId?: string | null;
+}
+
+export function PresenceLabel({ userId }: PresenceLabelProps) {
+  const { colors } = useAppTheme();
+  const { t } = useTranslation();
+  const { isOnline, lastSeen } = usePeerPresence(userId);
+
+  if (!userId) {
+    return null;
+  }
+
+  const dotColor = isOnline ? colors.success : withOpacity(colors.muted, 0.6);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.dot, { backgroundColor: dotColor }]} />
+      <Text style={[styles.label, { color: colors.muted }]} numberOfLines={1}>
+        {isOnline ? t("chat.online") : formatLastSeen(lastSeen, t)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 4,
+  },
+  dot: { width: 7, height: 7, borderRadius: 4 },
+  label: { fontSize: 12, flexShrink: 1 },
+});
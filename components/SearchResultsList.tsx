@@ -0,0 +1,170 @@
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { HighlightedText } from "@/components/HighlightedText";
+import { useAppTheme } from "@/lib/hooks/useAppTheme";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import {
+  getSearchSnippet,
+  SearchResult,
+  SearchResultGroup,
+  SearchSource,
+} from "@/lib/utils/search";
+import { withOpacity } from "@/styles/theme";
+
+const SOURCE_ICONS: Record<
+  SearchSource,
+  React.ComponentProps<typeof MaterialCommunityIcons>["name"]
+> = {
+  chat: "chat-outline",
+  email: "email-outline",
+  document: "file-document-outline",
+};
+
+interface SearchResultsListProps {
+  groups: SearchResultGroup[];
+  query: string;
+  onSelect: (result: SearchResult) => void;
+}
+
+export function SearchResultsList({
+  groups,
+  query,
+  onSelect,
+}: SearchResultsListProps) {
+  const theme = useAppTheme();
+  const { colors } = theme;
+  const { t } = useTranslation();
+
+  if (groups.length === 0) {
+    return (
+      <View style={styles.empty}>
+        <MaterialCommunityIcons
+          name="text-search"
+          size={32}
+          color={colors.muted}
+        />
+        <Text style={[styles.emptyText, { color: colors.muted }]}>
+          {t("search.noResults", {
+            defaultValue: "No chats, emails or documents match your search.",
+          })}
+        </Text>
+      </View>
+    );
+  }
+
+  const highlightStyle = {
+    color: colors.text,
+    fontWeight: "700" as const,
+    backgroundColor: withOpacity(colors.warning, theme.dark ? 0.35 : 0.3),
+  };
+
+  return (
+    <View style={styles.container}>
+      {groups.map((group) => (
+        <View key={group.caseReference ?? "none"} style={styles.group}>
+          <Text style={[styles.groupTitle, { color: colors.muted }]}>
+            {group.caseReference ??
+              t("search.noCase", { defaultValue: "Not linked to a case" })}
+          </Text>
+          {group.results.map((result) => {
+            const { entry } = result;
+            return (
+              <Pressable
+                key={entry.key}
+                onPress={() => onSelect(result)}
+                style={({ pressed }) => [
+                  styles.row,
+                  {
+                    backgroundColor: theme.dark
+                      ? withOpacity(colors.surfaceElevated, 0.9)
+                      : withOpacity(colors.surfaceAlt, 0.92),
+                    borderColor: withOpacity(
+                      colors.borderStrong,
+                      theme.dark ? 0.55 : 0.24,
+                    ),
+                    opacity: pressed ? 0.8 : 1,
+                  },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.icon,
+                    { backgroundColor: withOpacity(colors.primary, 0.14) },
+                  ]}
+                >
+                  <MaterialCommunityIcons
+                    name={SOURCE_ICONS[entry.source]}
+                    size={18}
+                    color={colors.primary}
+                  />
+                </View>
+                <View style={styles.text}>
+                  <View style={styles.header}>
+                    <HighlightedText
+                      text={entry.title || t(`search.sources.${entry.source}`)}
+                      query={query}
+                      highlightStyle={highlightStyle}
+                      style={[styles.title, { color: colors.text }]}
+                      numberOfLines={1}
+                    />
+                    {entry.timestamp ? (
+                      <Text style={[styles.date, { color: colors.muted }]}>
+                        {new Date(entry.timestamp).toLocaleDateString()}
+                      </Text>
+                    ) : null}
+                  </View>
+                  <HighlightedText
+                    text={getSearchSnippet(entry.body, query)}
+                    query={query}
+                    highlightStyle={highlightStyle}
+                    style={[styles.snippet, { color: colors.muted }]}
+                    numberOfLines={2}
+                  />
+                </View>
+              </Pressable>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { gap: 16, paddingBottom: 24 },
+  group: { gap: 8 },
+  groupTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 0.6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+    padding: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  icon: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  text: { flex: 1 },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  title: { flex: 1, fontSize: 15, fontWeight: "600" },
+  date: { fontSize: 12 },
+  snippet: { fontSize: 13, marginTop: 2 },
+  empty: { alignItems: "center", gap: 8, paddingVertical: 32 },
+  emptyText: { fontSize: 14, textAlign: "center" },
+});
@@ -1,2 +1,5 @@
+// Background tasks must be defined before the router loads the app
+import "./lib/services/backgroundNotificationTask";
+
 // Entry point for Expo Router
 import "expo-router/entry";
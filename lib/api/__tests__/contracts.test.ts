@@ -0,0 +1,164 @@
+import { unwrapEnvelope } from "../client";
+import {
+  caseDetailContract,
+  caseListContract,
+  documentListContract,
+  emailListContract,
+  faqListContract,
+  legalContentContract,
+  notificationListContract,
+  paymentHistoryContract,
+  subscriptionStatusContract,
+} from "../contracts";
+import type { Schema } from "../schema";
+import casesList from "../../../test/fixtures/api/cases.list.json";
+import casesDetail from "../../../test/fixtures/api/cases.detail.json";
+import documentsList from "../../../test/fixtures/api/documents.list.json";
+import emailsList from "../../../test/fixtures/api/emails.list.json";
+import faqList from "../../../test/fixtures/api/faq.list.json";
+import legalPrivacy from "../../../test/fixtures/api/legal.privacy.json";
+import legalTerms from "../../../test/fixtures/api/legal.terms.json";
+import notificationsList from "../../../test/fixtures/api/notifications.list.json";
+import paymentsHistory from "../../../test/fixtures/api/payments.history.json";
+import paymentsStatus from "../../../test/fixtures/api/payments.status.json";
+
+jest.mock("../axios", () => ({ apiClient: {} }));
+
+/** The payload the services see for a recorded response body */
+const parse = <T>(schema: Schema<T>, body: unknown) =>
+  schema.parse(unwrapEnvelope(body, 200));
+
+/** A recorded body with its payload edited, leaving the fixture intact */
+const edit = <B extends { data: unknown }>(
+  body: B,
+  change: (data: any) => void,
+): B => {
+  const copy = structuredClone(body);
+  change(copy.data);
+  return copy;
+};
+
+describe("recorded responses", () => {
+  it.each([
+    ["GET /cases", caseListContract, casesList],
+    ["GET /cases/:id", caseDetailContract, casesDetail],
+    ["GET /documents", documentListContract, documentsList],
+    ["GET /emails", emailListContract, emailsList],
+    ["GET /notifications", notificationListContract, notificationsList],
+    ["GET /payments/status", subscriptionStatusContract, paymentsStatus],
+    ["GET /payments/history", paymentHistoryContract, paymentsHistory],
+    ["GET /faq", faqListContract, faqList],
+    ["GET /legal/terms", legalContentContract, legalTerms],
+    ["GET /legal/privacy", legalContentContract, legalPrivacy],
+  ] as const)("%s matches its contract", (_, contract, body) => {
+    expect(() => parse(contract as Schema<unknown>, body)).not.toThrow();
+  });
+
+  it("passes fields the contract does not list through to the mappers", () => {
+    const { cases } = parse(caseListContract, casesList);
+
+    expect(cases[0].destinationId).toBe("dest-canada");
+    expect(cases[1].approvedAt).toBe("2026-07-19T08:12:31.000Z");
+  });
+
+  it("wraps a case returned bare by older deployments", () => {
+    const body = { success: true, data: casesDetail.data.case };
+
+    const { case: detail } = parse(caseDetailContract, body);
+
+    expect(detail.referenceNumber).toBe("PT-2026-00412");
+  });
+
+  it("reads legacy document spellings under the canonical names", () => {
+    const body = edit(documentsList, (data) => {
+      const [document] = data.documents;
+      document.document_id = document.id;
+      document.file_name = document.fileName;
+      document.case_details = { id: "c-1", reference_number: "PT-1" };
+      document.versions[0].version_number = 3;
+      document.versions[0].reviewed_by = { firstName: "Claire" };
+      delete document.id;
+      delete document.fileName;
+      delete document.versions[0].version;
+    });
+
+    const [document] = parse(documentListContract, body).documents;
+
+    expect(document.id).toBe("doc-5521");
+    expect(document.fileName).toBe("passport-scan.pdf");
+    expect(document.case).toEqual({ id: "c-1", referenceNumber: "PT-1" });
+    expect(document.versions?.[0].version).toBe(3);
+    expect(document.versions?.[0].reviewedBy).toEqual({ firstName: "Claire" });
+    expect(document).not.toHaveProperty("file_name");
+  });
+});
+
+describe("malformed records", () => {
+  it("drops a case missing required fields and keeps the rest", () => {
+    const body = edit(casesList, (data) => {
+      delete data.cases[0].referenceNumber;
+    });
+
+    const { cases } = parse(caseListContract, body);
+
+    expect(cases.map((item) => item.referenceNumber)).toEqual([
+      "PT-2026-00377",
+    ]);
+  });
+
+  it("keeps a case status the app does not know yet", () => {
+    const body = edit(casesList, (data) => {
+      data.cases[0].status = "ON_HOLD";
+    });
+
+    const { cases } = parse(caseListContract, body);
+
+    expect(cases).toHaveLength(2);
+    expect(cases[0].status).toBe("ON_HOLD");
+  });
+
+  it("reads a mistyped document field as missing", () => {
+    const body = edit(documentsList, (data) => {
+      data.documents[0].fileSize = "482113";
+    });
+
+    const { documents } = parse(documentListContract, body);
+
+    expect(documents).toHaveLength(2);
+    expect(documents[0].fileSize).toBeUndefined();
+  });
+
+  it("reads an unknown subscription tier as no tier", () => {
+    const body = edit(paymentsStatus, (data) => {
+      data.subscriptionTier = "ENTERPRISE";
+    });
+
+    const status = parse(subscriptionStatusContract, body);
+
+    expect(status.hasPaid).toBe(true);
+    expect(status.subscriptionTier).toBeNull();
+  });
+
+  it("accepts notifications without description, time or read state", () => {
+    const body = edit(notificationsList, (data) => {
+      data.notifications[0].description = null;
+      delete data.notifications[0].time;
+      data.notifications[1].unread = null;
+    });
+
+    const { notifications } = parse(notificationListContract, body);
+
+    expect(notifications).toHaveLength(2);
+  });
+
+  it("drops a bad email attachment without dropping the email", () => {
+    const body = edit(emailsList, (data) => {
+      data.emails[0].attachments.push({ name: "no-url.pdf" });
+    });
+
+    const { emails } = parse(emailListContract, body);
+
+    expect(emails).toHaveLength(2);
+    expect(emails[0].attachments).toHaveLength(1);
+  });
+});
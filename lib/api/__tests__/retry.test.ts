@@ -0,0 +1,113 @@
+import type { AxiosError } from "axios";
+import {
+  getRetryDelay,
+  IDEMPOTENCY_KEY_HEADER,
+  MAX_REQUEST_RETRIES,
+  parseRetryAfter,
+  shouldRetryRequest,
+  type RetryableRequestConfig,
+} from "../retry";
+
+jest.mock("expo-crypto", () => ({ randomUUID: () => "uuid-1" }));
+
+const request = (
+  fields: Partial<RetryableRequestConfig> = {},
+): RetryableRequestConfig =>
+  ({ method: "get", headers: {}, ...fields }) as RetryableRequestConfig;
+
+const failure = (status?: number, code?: string) =>
+  ({
+    code,
+    response: status === undefined ? undefined : { status },
+  }) as AxiosError;
+
+describe("shouldRetryRequest", () => {
+  it("retries idempotent requests on network errors and server failures", () => {
+    expect(shouldRetryRequest(request(), failure())).toBe(true);
+    expect(shouldRetryRequest(request({ method: "put" }), failure(503))).toBe(
+      true,
+    );
+    expect(shouldRetryRequest(request(), failure(408))).toBe(true);
+  });
+
+  it("does not retry client errors", () => {
+    expect(shouldRetryRequest(request(), failure(400))).toBe(false);
+    expect(shouldRetryRequest(request(), failure(404))).toBe(false);
+  });
+
+  it("retries a POST only with an idempotency key", () => {
+    expect(shouldRetryRequest(request({ method: "post" }), failure(502))).toBe(
+      false,
+    );
+    expect(
+      shouldRetryRequest(
+        request({
+          method: "post",
+          headers: { [IDEMPOTENCY_KEY_HEADER]: "key-1" } as never,
+        }),
+        failure(502),
+      ),
+    ).toBe(true);
+  });
+
+  it("retries any request that was rate limited", () => {
+    expect(shouldRetryRequest(request({ method: "post" }), failure(429))).toBe(
+      true,
+    );
+  });
+
+  it("stops after the last attempt, on cancellation and when opted out", () => {
+    expect(
+      shouldRetryRequest(
+        request({ _retryAttempt: MAX_REQUEST_RETRIES }),
+        failure(),
+      ),
+    ).toBe(false);
+    expect(
+      shouldRetryRequest(request(), failure(undefined, "ERR_CANCELED")),
+    ).toBe(false);
+    expect(shouldRetryRequest(request({ retry: false }), failure(503))).toBe(
+      false,
+    );
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-10-18T12:00:00Z");
+
+  it("reads seconds", () => {
+    expect(parseRetryAfter("2", now)).toBe(2000);
+    expect(parseRetryAfter("0", now)).toBe(0);
+  });
+
+  it("reads an HTTP date, never below zero", () => {
+    expect(parseRetryAfter("Sun, 18 Oct 2026 12:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("Sun, 18 Oct 2026 11:59:00 GMT", now)).toBe(0);
+  });
+
+  it("ignores missing and unreadable values", () => {
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+    expect(parseRetryAfter("", now)).toBeNull();
+    expect(parseRetryAfter("soon", now)).toBeNull();
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("doubles the ceiling each attempt up to the cap", () => {
+    const highest = () => 1;
+
+    expect(getRetryDelay(0, null, highest)).toBe(500);
+    expect(getRetryDelay(1, null, highest)).toBe(1000);
+    expect(getRetryDelay(2, null, highest)).toBe(2000);
+    expect(getRetryDelay(10, null, highest)).toBe(8000);
+  });
+
+  it("jitters below the ceiling", () => {
+    expect(getRetryDelay(2, null, () => 0.25)).toBe(500);
+  });
+
+  it("waits as long as the server asks, within reason", () => {
+    expect(getRetryDelay(0, "3")).toBe(3000);
+    expect(getRetryDelay(0, "120")).toBeNull();
+  });
+});
@@ -2,6 +2,16 @@ import axios from "axios";
 import Constants from "expo-constants";
 import { auth } from "../firebase/config";
 import { logger } from "../utils/logger";
+import {
+  getRetryDelay,
+  RetryableRequestConfig,
+  shouldRetryRequest,
+} from "./retry";
+import {
+  isOffline,
+  setReachabilityProbe,
+  useConnectivityStore,
+} from "../../stores/connectivity/connectivityStore";
 
 // Lazy import to avoid circular dependency with authStore
 const getAuthStore = () => {
@@ -65,6 +75,19 @@ const API_BASE_URL =
 
 logger.info("API Client initialized", { baseURL: API_BASE_URL });
 
+// Bypasses apiClient so the probe carries no auth and its failures neither
+// retry nor reach the 401 handling; any response means the server is up
+const REACHABILITY_PROBE_TIMEOUT_MS = 10 * 1000;
+
+setReachabilityProbe(async () => {
+  try {
+    await axios.head(API_BASE_URL, { timeout: REACHABILITY_PROBE_TIMEOUT_MS });
+    return true;
+  } catch (error) {
+    return axios.isAxiosError(error) && Boolean(error.response);
+  }
+});
+
 export const apiClient = axios.create({
   baseURL: API_BASE_URL,
   timeout: 30000,
@@ -136,7 +159,10 @@ apiClient.interceptors.request.use(
 
 // Response interceptor - Handle errors and token expiration
 apiClient.interceptors.response.use(
-  (response) => response,
+  (response) => {
+    useConnectivityStore.getState().reportApiReachable(true);
+    return response;
+  },
   async (error) => {
     const originalRequest = error.config;
 
@@ -146,6 +172,11 @@ apiClient.interceptors.response.use(
       return Promise.reject(error);
     }
 
+    // Any response, even an error, proves the backend is reachable
+    if (error.code !== "ERR_CANCELED") {
+      useConnectivityStore.getState().reportApiReachable(!!error.response);
+    }
+
     // Handle 403 Forbidden - Account inactive or insufficient permissions
     if (error.response?.status === 403) {
       const errorMessage = error.response?.data?.error || "Access forbidden";
@@ -437,46 +468,27 @@ apiClient.interceptors.response.use(
       }
     }
 
-    // Handle 429 Too Many Requests - Rate limiting with exponential backoff
-    if (error.response?.status === 429) {
-      const retryAfter = error.response?.headers?.["retry-after"];
-      const retryCount = originalRequest._retryCount || 0;
-      const maxRetries = 3;
+    // Retry timeouts, dropped connections, rate limiting and 5xx with
+    // backoff. Offline requests fail fast so callers can queue them instead.
+    if (shouldRetryRequest(originalRequest as RetryableRequestConfig, error)) {
+      const retryAttempt = originalRequest._retryAttempt || 0;
+      const delay = getRetryDelay(
+        retryAttempt,
+        error.response?.headers?.["retry-after"],
+      );
 
-      // Don't retry more than maxRetries times
-      if (retryCount >= maxRetries) {
-        logger.warn("429 Rate limit exceeded - max retries reached", {
+      if (delay !== null && !isOffline(useConnectivityStore.getState())) {
+        originalRequest._retryAttempt = retryAttempt + 1;
+
+        logger.warn("Request failed - retrying with backoff", {
           url: originalRequest.url,
-          retryCount,
+          status: error.response?.status,
+          retryAttempt: originalRequest._retryAttempt,
+          delayMs: delay,
         });
-        return Promise.reject(error);
-      }
-
-      // Calculate delay: use retry-after header if available, otherwise exponential backoff
-      let delay: number;
-      if (retryAfter) {
-        delay = parseInt(retryAfter, 10) * 1000; // Convert seconds to milliseconds
-      } else {
-        // Exponential backoff: 1s, 2s, 4s
-        delay = Math.pow(2, retryCount) * 1000;
-      }
 
-      originalRequest._retryCount = retryCount + 1;
-
-      logger.warn("429 Rate limit exceeded - retrying with backoff", {
-        url: originalRequest.url,
-        retryCount: originalRequest._retryCount,
-        delayMs: delay,
-      });
-
-      // Wait before retrying
-      await new Promise((resolve) => setTimeout(resolve, delay));
-
-      // Retry the request
-      try {
-        return await apiClient(originalRequest);
-      } catch (retryError: any) {
-        return Promise.reject(retryError);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return apiClient(originalRequest);
       }
     }
 
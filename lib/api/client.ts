@@ -0,0 +1,177 @@
+import type { AxiosRequestConfig } from "axios";
+import { apiClient } from "./axios";
+import { Schema, SchemaError } from "./schema";
+import { logger } from "../utils/logger";
+
+/**
+ * Codes the client assigns itself. Server-sent codes (for example
+ * SUBSCRIPTION_REQUIRED) are passed through as-is.
+ */
+export type ApiErrorCode =
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "CANCELED"
+  | "HTTP_ERROR"
+  | "REQUEST_FAILED"
+  | "INVALID_RESPONSE"
+  | (string & Record<never, never>);
+
+interface ApiErrorOptions {
+  code: ApiErrorCode;
+  status?: number | null;
+  details?: unknown;
+  data?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  /** HTTP status, or null when the backend never answered */
+  readonly status: number | null;
+  readonly details?: unknown;
+  /** Same shape as an axios error's response so older handlers keep working */
+  readonly response?: { status: number; data: unknown };
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message);
+    this.name = "ApiError";
+    this.code = options.code;
+    this.status = options.status ?? null;
+    this.details = options.details;
+    if (this.status !== null) {
+      this.response = { status: this.status, data: options.data };
+    }
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const pickServerMessage = (body: unknown): string | undefined => {
+  if (!isPlainObject(body)) {
+    return undefined;
+  }
+  const message = body.error ?? body.message;
+  return typeof message === "string" && message.trim() ? message : undefined;
+};
+
+const pickServerCode = (body: unknown): string | undefined =>
+  isPlainObject(body) && typeof body.code === "string" ? body.code : undefined;
+
+/** Turn anything a request can throw into an ApiError */
+export const toApiError = (error: any): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  const response = error?.response;
+  if (response) {
+    return new ApiError(
+      pickServerMessage(response.data) ??
+        error.message ??
+        `Request failed with status ${response.status}`,
+      {
+        code: pickServerCode(response.data) ?? "HTTP_ERROR",
+        status: response.status,
+        data: response.data,
+      },
+    );
+  }
+
+  const code: ApiErrorCode =
+    error?.code === "ERR_CANCELED"
+      ? "CANCELED"
+      : error?.code === "ECONNABORTED" || error?.code === "ETIMEDOUT"
+        ? "TIMEOUT"
+        : "NETWORK_ERROR";
+  return new ApiError(error?.message || "Network Error", { code });
+};
+
+/**
+ * Most endpoints answer `{ success, data, error, code }`. A successful
+ * envelope yields its data, a failed one throws; bodies without an
+ * envelope are returned unchanged.
+ */
+export const unwrapEnvelope = (body: unknown, status: number): unknown => {
+  if (!isPlainObject(body) || typeof body.success !== "boolean") {
+    return body;
+  }
+  if (!body.success) {
+    throw new ApiError(pickServerMessage(body) ?? "Request failed", {
+      code: pickServerCode(body) ?? "REQUEST_FAILED",
+      status,
+      data: body,
+    });
+  }
+  return body.data;
+};
+
+const request = async <T>(
+  schema: Schema<T>,
+  config: AxiosRequestConfig & { url: string },
+): Promise<T> => {
+  let status: number;
+  let payload: unknown;
+  try {
+    const response = await apiClient.request(config);
+    status = response.status;
+    payload = unwrapEnvelope(response.data, status);
+  } catch (error) {
+    throw toApiError(error);
+  }
+
+  try {
+    return schema.parse(payload);
+  } catch (error) {
+    if (!(error instanceof SchemaError)) {
+      throw error;
+    }
+    logger.error("API response did not match its contract", {
+      method: config.method,
+      url: config.url,
+      path: error.path,
+      message: error.message,
+    });
+    throw new ApiError("Unexpected response from the server", {
+      code: "INVALID_RESPONSE",
+      status,
+      details: { path: error.path, message: error.message },
+      data: payload,
+    });
+  }
+};
+
+/**
+ * Typed access to the backend: every call unwraps the response envelope,
+ * validates the payload against its contract and fails with an ApiError.
+ */
+export const api = {
+  get: <T>(url: string, schema: Schema<T>, config?: AxiosRequestConfig) =>
+    request(schema, { ...config, method: "get", url }),
+
+  post: <T>(
+    url: string,
+    schema: Schema<T>,
+    data?: unknown,
+    config?: AxiosRequestConfig,
+  ) => request(schema, { ...config, method: "post", url, data }),
+
+  put: <T>(
+    url: string,
+    schema: Schema<T>,
+    data?: unknown,
+    config?: AxiosRequestConfig,
+  ) => request(schema, { ...config, method: "put", url, data }),
+
+  patch: <T>(
+    url: string,
+    schema: Schema<T>,
+    data?: unknown,
+    config?: AxiosRequestConfig,
+  ) => request(schema, { ...config, method: "patch", url, data }),
+
+  delete: <T>(url: string, schema: Schema<T>, config?: AxiosRequestConfig) =>
+    request(schema, { ...config, method: "delete", url }),
+};
@@ -0,0 +1,334 @@
+import { s } from "./schema";
+
+/**
+ * Response contracts, one per endpoint, describing the `data` of each
+ * envelope. They list what the services depend on; extra fields pass
+ * through for the mappers.
+ */
+
+const optionalString = () => s.string().nullable().optional();
+const optionalNumber = () => s.number().nullable().optional();
+const list = () => s.array(s.object({})).optional();
+// For fields older deployments filled loosely; a wrong type reads as missing
+const looseString = () => s.catch(s.string(), undefined);
+const looseNumber = () => s.catch(s.number(), undefined);
+
+// Cases
+
+const caseParticipant = s
+  .object({
+    id: s.id(),
+    email: optionalString(),
+    firstName: optionalString(),
+    lastName: optionalString(),
+  })
+  .nullable()
+  .optional();
+
+export const caseContract = s.object({
+  id: s.id(),
+  referenceNumber: s.string(),
+  serviceType: s.string(),
+  // Kept raw, so a status added on the backend shows as unknown
+  status: optionalString(),
+  priority: optionalString(),
+  submissionDate: optionalString(),
+  lastUpdated: optionalString(),
+  client: caseParticipant,
+  assignedAgent: caseParticipant,
+});
+
+export const caseListContract = s.object({
+  cases: s.list(caseContract),
+});
+
+/** Older deployments return the case bare; it is wrapped like newer ones */
+export const caseDetailContract = s.preprocess(
+  (value) =>
+    typeof value === "object" && value !== null && !("case" in value)
+      ? { case: value }
+      : value,
+  s.object({ case: caseContract }),
+);
+
+export const caseHistoryContract = s
+  .object({
+    history: list(),
+    events: list(),
+  })
+  .nullable();
+
+export const createCaseContract = s.object({ case: caseContract });
+
+// Documents
+
+const documentFileAliases = {
+  originalName: ["original_name"],
+  fileName: ["file_name"],
+  uploadDate: ["upload_date", "createdAt", "created_at"],
+  filePath: [
+    "file_path",
+    "fileUrl",
+    "file_url",
+    "downloadUrl",
+    "download_url",
+    "url",
+  ],
+  fileSize: ["file_size"],
+  mimeType: ["mime_type"],
+  rejectionReason: ["rejection_reason"],
+  reviewerComment: ["reviewer_comment", "comment"],
+} as const;
+
+const documentFileFields = {
+  originalName: looseString(),
+  fileName: looseString(),
+  uploadDate: looseString(),
+  filePath: looseString(),
+  fileSize: looseNumber(),
+  mimeType: looseString(),
+  rejectionReason: looseString(),
+  reviewerComment: looseString(),
+};
+
+const documentReviewer = s.catch(
+  s.union(
+    s.string(),
+    s.object({
+      firstName: looseString(),
+      lastName: looseString(),
+      name: looseString(),
+      email: looseString(),
+    }),
+  ),
+  undefined,
+);
+
+export const documentVersionContract = s.aliased(
+  {
+    ...documentFileAliases,
+    id: ["versionId", "version_id"],
+    version: ["versionNumber", "version_number"],
+    reviewedBy: ["reviewed_by"],
+    reviewedAt: ["reviewed_at"],
+  },
+  s.object({
+    ...documentFileFields,
+    id: s.catch(s.id(), undefined),
+    version: looseNumber(),
+    status: looseString(),
+    reviewedBy: documentReviewer,
+    reviewedAt: looseString(),
+  }),
+);
+
+const documentCaseContract = s.aliased(
+  {
+    referenceNumber: ["reference_number"],
+    serviceType: ["service_type"],
+  },
+  s.object({
+    id: s.id(),
+    referenceNumber: looseString(),
+    serviceType: looseString(),
+  }),
+);
+
+export const documentContract = s.aliased(
+  {
+    ...documentFileAliases,
+    id: ["documentId", "document_id"],
+    documentType: ["document_type", "type"],
+    status: ["documentStatus", "document_status"],
+    caseId: ["case_id"],
+    case: ["caseDetails", "case_details"],
+    uploadedById: ["uploaded_by_id"],
+    version: ["currentVersion", "current_version"],
+  },
+  s.object({
+    ...documentFileFields,
+    id: s.id(),
+    documentType: looseString(),
+    status: looseString(),
+    caseId: looseString(),
+    case: s.catch(documentCaseContract, undefined),
+    uploadedById: looseString(),
+    version: looseNumber(),
+    versions: s.catch(s.list(documentVersionContract), undefined),
+  }),
+);
+
+export const documentListContract = s.object({
+  documents: s.list(documentContract),
+});
+
+export const documentDetailContract = s.object({
+  document: documentContract,
+});
+
+export const documentVersionsContract = s.object({
+  versions: s.array(documentVersionContract),
+});
+
+// Emails
+
+const emailParticipant = s
+  .object({
+    id: optionalString(),
+    firstName: optionalString(),
+    lastName: optionalString(),
+    email: optionalString(),
+  })
+  .nullable()
+  .optional();
+
+const emailAttachmentContract = s.object({
+  id: s.string().optional(),
+  name: s.string(),
+  url: s.string(),
+  type: s.string().optional(),
+  size: s.number().optional(),
+});
+
+export const emailContract = s.object({
+  id: s.id(),
+  subject: optionalString(),
+  content: optionalString(),
+  isRead: s.boolean().optional(),
+  sentAt: optionalString(),
+  senderId: optionalString(),
+  recipientId: optionalString(),
+  sender: emailParticipant,
+  recipient: emailParticipant,
+  caseId: optionalString(),
+  case: s
+    .object({
+      id: optionalString(),
+      referenceNumber: optionalString(),
+      serviceType: optionalString(),
+    })
+    .nullable()
+    .optional(),
+  messageType: optionalString(),
+  emailThreadId: optionalString(),
+  threadId: optionalString(),
+  attachments: s.list(emailAttachmentContract).nullable().optional(),
+});
+
+export const emailListContract = s.object({
+  emails: s.list(emailContract),
+});
+
+export const emailDetailContract = s.object({ email: emailContract });
+
+// Notifications
+
+export const notificationContract = s.object({
+  id: s.id(),
+  type: s.string(),
+  title: s.string(),
+  description: optionalString(),
+  time: optionalString(),
+  unread: s.boolean().nullable().optional(),
+  relatedId: optionalString(),
+  createdAt: optionalString(),
+});
+
+export const notificationListContract = s.object({
+  notifications: s.list(notificationContract),
+  unreadCount: s.number().optional(),
+});
+
+// Payments
+
+export const paymentIntentContract = s.object({
+  id: s.id(),
+  status: s.string(),
+  amount: s.number(),
+  currency: s.string(),
+  description: s.string().optional(),
+  createdAt: s.string().optional(),
+  clientSecret: s.string().optional(),
+});
+
+export const paymentVerificationContract = s.object({
+  paymentStatus: s.string(),
+  stripeStatus: s.string(),
+  hasPaid: s.boolean(),
+  subscriptionTier: s.string().nullable(),
+  paymentDate: s.string().nullable(),
+  subscriptionExpiresAt: s.string().nullable(),
+});
+
+export const subscriptionStatusContract = s.object({
+  hasPaid: s.boolean(),
+  subscriptionTier: s.oneOfOr(["BASIC", "STANDARD", "PREMIUM"], null),
+  paymentDate: s.string().nullable(),
+  subscriptionExpiresAt: s.string().nullable(),
+  bypassed: s.boolean().optional(),
+  isActive: s.boolean().optional(),
+});
+
+export const paymentHistoryContract = s.list(
+  s.object({
+    id: s.id(),
+    amount: s.number(),
+    currency: s.string().optional(),
+    description: s.string(),
+    caseNumber: s.string().optional(),
+    date: s.string(),
+    status: s.string(),
+  }),
+);
+
+export const refundContract = s.object({
+  id: s.id(),
+  status: s.string(),
+  amount: s.number(),
+  currency: s.string().optional(),
+  paymentIntentId: s.string(),
+  createdAt: s.string().optional(),
+});
+
+// FAQ
+
+const faqItemContract = s.object({
+  id: s.id(),
+  question: s.string(),
+  answer: s.string(),
+  category: s.string(),
+  isActive: s.boolean().optional(),
+});
+
+export const faqListContract = s.union(
+  s.list(faqItemContract),
+  s.object({
+    faqs: s.list(faqItemContract).optional(),
+    categories: s.array(s.string()).optional(),
+  }),
+);
+
+// Legal
+
+const legalDocumentContract = s.object({
+  id: s.string().optional(),
+  title: s.string().optional(),
+  version: optionalString(),
+  content: optionalString(),
+  language: s.string().optional(),
+});
+
+/** Either the text itself, a document, or a wrapper around documents */
+export const legalContentContract = s
+  .union(
+    s.string(),
+    s.object({
+      document: legalDocumentContract.nullable().optional(),
+      documents: s.array(legalDocumentContract).optional(),
+      content: optionalString(),
+    }),
+  )
+  .nullable();
+
+/** For endpoints whose response body the app ignores */
+export const emptyContract = s.unknown();
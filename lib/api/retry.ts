@@ -0,0 +1,100 @@
+import * as Crypto from "expo-crypto";
+import type { AxiosError, InternalAxiosRequestConfig } from "axios";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+export const MAX_REQUEST_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+// Longer waits are better left to the user than to a spinner
+export const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /** Set to false to opt a request out of automatic retries */
+    retry?: boolean;
+  }
+}
+
+export interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retryAttempt?: number;
+}
+
+export const createIdempotencyKey = () => Crypto.randomUUID();
+
+/** Config for a POST the backend deduplicates, so it is safe to resend */
+export const withIdempotencyKey = (key: string = createIdempotencyKey()) => ({
+  headers: { [IDEMPOTENCY_KEY_HEADER]: key },
+});
+
+const isIdempotentRequest = (config: RetryableRequestConfig) =>
+  IDEMPOTENT_METHODS.includes((config.method ?? "get").toLowerCase()) ||
+  Boolean(config.headers?.[IDEMPOTENCY_KEY_HEADER]);
+
+/**
+ * Whether a failed request may be sent again. Rate limiting means the
+ * backend did nothing, so any request can retry a 429; other failures may
+ * have been applied and only retry when a repeat is harmless.
+ */
+export const shouldRetryRequest = (
+  config: RetryableRequestConfig,
+  error: AxiosError,
+) => {
+  if (config.retry === false) {
+    return false;
+  }
+  if ((config._retryAttempt ?? 0) >= MAX_REQUEST_RETRIES) {
+    return false;
+  }
+  if (error.code === "ERR_CANCELED") {
+    return false;
+  }
+  const status = error.response?.status;
+  if (status === 429) {
+    return true;
+  }
+  if (status !== undefined && !RETRYABLE_STATUSES.includes(status)) {
+    return false;
+  }
+  return isIdempotentRequest(config);
+};
+
+/** Retry-After is either a number of seconds or an HTTP date */
+export const parseRetryAfter = (
+  value?: string | null,
+  now = Date.now(),
+): number | null => {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - now, 0);
+};
+
+/**
+ * Exponential backoff with full jitter, so clients that failed together do
+ * not retry together. A server-sent Retry-After wins when present; null
+ * means the server asked for a longer wait than is worth holding on for.
+ */
+export const getRetryDelay = (
+  attempt: number,
+  retryAfter?: string | null,
+  random = Math.random,
+): number | null => {
+  const serverDelay = parseRetryAfter(retryAfter);
+  if (serverDelay !== null) {
+    return serverDelay <= MAX_RETRY_AFTER_MS ? serverDelay : null;
+  }
+  const ceiling = Math.min(
+    BASE_RETRY_DELAY_MS * Math.pow(2, attempt),
+    MAX_RETRY_DELAY_MS,
+  );
+  return Math.round(random() * ceiling);
+};
@@ -0,0 +1,254 @@
+/**
+ * Minimal runtime schemas for API responses. Each schema checks the shape
+ * the app relies on and passes everything else through untouched. Legacy
+ * field spellings are folded into the canonical names here, so the mappers
+ * only ever read what the contract lists.
+ */
+
+import { logger } from "../utils/logger";
+
+export class SchemaError extends Error {
+  readonly path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    const actual =
+      received === null
+        ? "null"
+        : Array.isArray(received)
+          ? "array"
+          : typeof received;
+    super(`Expected ${expected} at ${path || "<root>"}, received ${actual}`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+export interface Schema<T> {
+  readonly description: string;
+  parse: (value: unknown, path?: string) => T;
+  optional: () => Schema<T | undefined>;
+  nullable: () => Schema<T | null>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type InferShape<S extends Shape> = {
+  [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+};
+
+const joinPath = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const createSchema = <T>(
+  description: string,
+  parse: (value: unknown, path: string) => T,
+): Schema<T> => {
+  const schema: Schema<T> = {
+    description,
+    parse: (value, path = "") => parse(value, path),
+    optional: () =>
+      createSchema<T | undefined>(`${description} | undefined`, (value, p) =>
+        value === undefined ? undefined : parse(value, p),
+      ),
+    nullable: () =>
+      // Backends send null and omit fields interchangeably
+      createSchema<T | null>(`${description} | null`, (value, p) =>
+        value === null || value === undefined ? null : parse(value, p),
+      ),
+  };
+  return schema;
+};
+
+const primitive = <T>(name: string, check: (value: unknown) => boolean) =>
+  createSchema<T>(name, (value, path) => {
+    if (!check(value)) {
+      throw new SchemaError(path, name, value);
+    }
+    return value as T;
+  });
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isMissing = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && !value.trim());
+
+const preprocess = <T>(
+  transform: (value: unknown) => unknown,
+  schema: Schema<T>,
+) =>
+  createSchema<T>(schema.description, (value, path) =>
+    schema.parse(transform(value), path),
+  );
+
+export const s = {
+  string: () => primitive<string>("string", (v) => typeof v === "string"),
+  number: () =>
+    primitive<number>(
+      "number",
+      (v) => typeof v === "number" && Number.isFinite(v),
+    ),
+  boolean: () => primitive<boolean>("boolean", (v) => typeof v === "boolean"),
+  unknown: () => createSchema<unknown>("unknown", (value) => value),
+
+  /** A string or number identifier, normalized to a string */
+  id: () =>
+    createSchema<string>("id", (value, path) => {
+      if (typeof value === "string" && value.length > 0) {
+        return value;
+      }
+      if (typeof value === "number" && Number.isFinite(value)) {
+        return String(value);
+      }
+      throw new SchemaError(path, "id", value);
+    }),
+
+  oneOf: <const V extends readonly string[]>(values: V) =>
+    createSchema<V[number]>(values.join(" | "), (value, path) => {
+      if (typeof value !== "string" || !values.includes(value)) {
+        throw new SchemaError(path, values.join(" | "), value);
+      }
+      return value as V[number];
+    }),
+
+  /**
+   * Like oneOf, but any other value becomes `fallback`, for enums the
+   * backend may extend before the app knows the new members
+   */
+  oneOfOr: <const V extends readonly string[], const F>(
+    values: V,
+    fallback: F,
+  ) =>
+    createSchema<V[number] | F>(`${values.join(" | ")} | other`, (value) =>
+      typeof value === "string" && values.includes(value)
+        ? (value as V[number])
+        : fallback,
+    ),
+
+  /** Reads a value that does not match as `fallback` instead of failing */
+  catch: <T, const F>(schema: Schema<T>, fallback: F) =>
+    createSchema<T | F>(schema.description, (value, path) => {
+      try {
+        return schema.parse(value, path);
+      } catch (error) {
+        if (!(error instanceof SchemaError)) {
+          throw error;
+        }
+        return fallback;
+      }
+    }),
+
+  /** Rewrites the raw value before `schema` checks it */
+  preprocess,
+
+  /**
+   * An object whose legacy spellings are moved onto the canonical keys
+   * before `schema` checks it. The first alias with a value fills a key
+   * that is missing, null or blank; the aliases themselves are removed.
+   */
+  aliased: <T>(aliases: Record<string, readonly string[]>, schema: Schema<T>) =>
+    preprocess((value) => {
+      if (!isPlainObject(value)) {
+        return value;
+      }
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, legacyKeys] of Object.entries(aliases)) {
+        const source = legacyKeys.find((legacy) => !isMissing(value[legacy]));
+        if (isMissing(result[key]) && source) {
+          result[key] = value[source];
+        }
+        legacyKeys.forEach((legacy) => delete result[legacy]);
+      }
+      return result;
+    }, schema),
+
+  array: <T>(item: Schema<T>) =>
+    createSchema<T[]>(`${item.description}[]`, (value, path) => {
+      if (!Array.isArray(value)) {
+        throw new SchemaError(path, `${item.description}[]`, value);
+      }
+      return value.map((entry, index) =>
+        item.parse(entry, joinPath(path, index)),
+      );
+    }),
+
+  /**
+   * An array whose invalid items are dropped and logged, so one malformed
+   * record does not fail the whole collection
+   */
+  list: <T>(item: Schema<T>) =>
+    createSchema<T[]>(`${item.description}[]`, (value, path) => {
+      if (!Array.isArray(value)) {
+        throw new SchemaError(path, `${item.description}[]`, value);
+      }
+      const items: T[] = [];
+      value.forEach((entry, index) => {
+        try {
+          items.push(item.parse(entry, joinPath(path, index)));
+        } catch (error) {
+          if (!(error instanceof SchemaError)) {
+            throw error;
+          }
+          logger.warn("Dropped list item that did not match its contract", {
+            path: error.path,
+            message: error.message,
+          });
+        }
+      });
+      return items;
+    }),
+
+  object: <S extends Shape>(shape: S) =>
+    createSchema<InferShape<S> & Record<string, unknown>>(
+      "object",
+      (value, path) => {
+        if (!isPlainObject(value)) {
+          throw new SchemaError(path, "object", value);
+        }
+        const result: Record<string, unknown> = { ...value };
+        for (const key of Object.keys(shape)) {
+          const parsed = shape[key].parse(value[key], joinPath(path, key));
+          if (parsed === undefined) {
+            // A value the schema discarded must not pass through either
+            delete result[key];
+          } else {
+            result[key] = parsed;
+          }
+        }
+        return result as InferShape<S> & Record<string, unknown>;
+      },
+    ),
+
+  /**
+   * The first alternative that accepts the value wins. When none does, the
+   * failure that got furthest into the value is reported.
+   */
+  union: <T extends readonly Schema<unknown>[]>(...options: T) => {
+    const description = options.map((option) => option.description).join(" | ");
+    return createSchema<Infer<T[number]>>(description, (value, path) => {
+      let deepest: SchemaError | null = null;
+      for (const option of options) {
+        try {
+          return option.parse(value, path) as Infer<T[number]>;
+        } catch (error) {
+          if (!(error instanceof SchemaError)) {
+            throw error;
+          }
+          if (!deepest || error.path.length > deepest.path.length) {
+            deepest = error;
+          }
+        }
+      }
+      if (deepest && deepest.path.length > path.length) {
+        throw deepest;
+      }
+      throw new SchemaError(path, description, value);
+    });
+  },
+};
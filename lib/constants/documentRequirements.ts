@@ -0,0 +1,182 @@
+// Document types and the per-case requirement rules used by the checklist
+
+export interface DocumentTypeOption {
+  value: string;
+  icon: string;
+  labelKey: string;
+}
+
+export const DOCUMENT_TYPE_OPTIONS: DocumentTypeOption[] = [
+  { value: "PASSPORT", icon: "globe", labelKey: "documents.types.passport" },
+  {
+    value: "ID_CARD",
+    icon: "person.crop.rectangle",
+    labelKey: "documents.types.id_card",
+  },
+  {
+    value: "DIPLOMA",
+    icon: "graduationcap.fill",
+    labelKey: "documents.types.diploma",
+  },
+  {
+    value: "BANK_STATEMENT",
+    icon: "banknote.fill",
+    labelKey: "documents.types.bank_statement",
+  },
+  { value: "PHOTO", icon: "photo.fill", labelKey: "documents.types.photo" },
+  {
+    value: "BIRTH_CERTIFICATE",
+    icon: "doc.text.fill",
+    labelKey: "documents.types.birth_certificate",
+  },
+  {
+    value: "MARRIAGE_CERTIFICATE",
+    icon: "person.2.fill",
+    labelKey: "documents.types.marriage_certificate",
+  },
+  {
+    value: "ADMISSION_LETTER",
+    icon: "graduationcap.fill",
+    labelKey: "documents.types.admission_letter",
+  },
+  {
+    value: "EMPLOYMENT_CONTRACT",
+    icon: "briefcase.fill",
+    labelKey: "documents.types.employment_contract",
+  },
+  {
+    value: "INVITATION_LETTER",
+    icon: "envelope.fill",
+    labelKey: "documents.types.invitation_letter",
+  },
+  {
+    value: "PROOF_OF_ACCOMMODATION",
+    icon: "house.fill",
+    labelKey: "documents.types.proof_of_accommodation",
+  },
+  {
+    value: "TRAVEL_INSURANCE",
+    icon: "airplane.departure",
+    labelKey: "documents.types.travel_insurance",
+  },
+  {
+    value: "CRIMINAL_RECORD",
+    icon: "hand.raised.fill",
+    labelKey: "documents.types.criminal_record",
+  },
+  {
+    value: "BUSINESS_REGISTRATION",
+    icon: "chart.bar.fill",
+    labelKey: "documents.types.business_registration",
+  },
+  { value: "OTHER", icon: "doc.text.fill", labelKey: "documents.types.other" },
+];
+
+export type DocumentRequirementLevel = "required" | "optional" | "conditional";
+
+export interface DocumentRequirement {
+  documentType: string;
+  level: DocumentRequirementLevel;
+  /** Explains when a conditional item applies, e.g. "if travelling with a spouse" */
+  conditionKey?: string;
+}
+
+const required = (documentType: string): DocumentRequirement => ({
+  documentType,
+  level: "required",
+});
+
+const optional = (documentType: string): DocumentRequirement => ({
+  documentType,
+  level: "optional",
+});
+
+const conditional = (
+  documentType: string,
+  conditionKey: string,
+): DocumentRequirement => ({
+  documentType,
+  level: "conditional",
+  conditionKey,
+});
+
+const BASE_REQUIREMENTS: DocumentRequirement[] = [
+  required("PASSPORT"),
+  required("PHOTO"),
+];
+
+export const SERVICE_DOCUMENT_REQUIREMENTS: Record<
+  string,
+  DocumentRequirement[]
+> = {
+  STUDENT_VISA: [
+    ...BASE_REQUIREMENTS,
+    required("ADMISSION_LETTER"),
+    required("DIPLOMA"),
+    required("BANK_STATEMENT"),
+    conditional("BIRTH_CERTIFICATE", "documentChecklist.conditions.minor"),
+    optional("PROOF_OF_ACCOMMODATION"),
+  ],
+  WORK_PERMIT: [
+    ...BASE_REQUIREMENTS,
+    required("EMPLOYMENT_CONTRACT"),
+    required("DIPLOMA"),
+    required("CRIMINAL_RECORD"),
+    conditional(
+      "MARRIAGE_CERTIFICATE",
+      "documentChecklist.conditions.spouseIncluded",
+    ),
+  ],
+  FAMILY_REUNIFICATION: [
+    ...BASE_REQUIREMENTS,
+    required("BIRTH_CERTIFICATE"),
+    required("PROOF_OF_ACCOMMODATION"),
+    required("BANK_STATEMENT"),
+    conditional("MARRIAGE_CERTIFICATE", "documentChecklist.conditions.spouse"),
+  ],
+  TOURIST_VISA: [
+    ...BASE_REQUIREMENTS,
+    required("BANK_STATEMENT"),
+    conditional(
+      "INVITATION_LETTER",
+      "documentChecklist.conditions.stayingWithHost",
+    ),
+    optional("PROOF_OF_ACCOMMODATION"),
+    optional("TRAVEL_INSURANCE"),
+  ],
+  BUSINESS_VISA: [
+    ...BASE_REQUIREMENTS,
+    required("INVITATION_LETTER"),
+    required("BANK_STATEMENT"),
+    conditional(
+      "BUSINESS_REGISTRATION",
+      "documentChecklist.conditions.selfEmployed",
+    ),
+  ],
+  PERMANENT_RESIDENCY: [
+    ...BASE_REQUIREMENTS,
+    required("BIRTH_CERTIFICATE"),
+    required("CRIMINAL_RECORD"),
+    required("BANK_STATEMENT"),
+    optional("EMPLOYMENT_CONTRACT"),
+    conditional("MARRIAGE_CERTIFICATE", "documentChecklist.conditions.spouse"),
+  ],
+};
+
+/**
+ * Destination-specific adjustments keyed by destination code, then service
+ * type. Entries replace a base requirement of the same document type.
+ */
+export const DESTINATION_REQUIREMENT_OVERRIDES: Record<
+  string,
+  Record<string, DocumentRequirement[]>
+> = {
+  // Schengen states require medical travel insurance for short stays
+  FR: { TOURIST_VISA: [required("TRAVEL_INSURANCE")] },
+  DE: { TOURIST_VISA: [required("TRAVEL_INSURANCE")] },
+  BE: { TOURIST_VISA: [required("TRAVEL_INSURANCE")] },
+  CA: {
+    STUDENT_VISA: [required("PROOF_OF_ACCOMMODATION")],
+    PERMANENT_RESIDENCY: [required("EMPLOYMENT_CONTRACT")],
+  },
+};
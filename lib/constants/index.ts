@@ -55,3 +55,21 @@ export const STORAGE_KEYS = {
   LANGUAGE_PREFERENCE: "language_preference",
   THEME_PREFERENCE: "theme_preference",
 } as const;
+
+// Notification categories; the backend sends one as `categoryId` in the push
+// payload and local notifications set it as `categoryIdentifier`
+export const NOTIFICATION_CATEGORIES = {
+  MESSAGE: "message",
+  DOCUMENT_REJECTED: "document-rejected",
+  APPOINTMENT: "appointment",
+  GENERAL: "general",
+} as const;
+
+// Buttons offered by the categories above
+export const NOTIFICATION_ACTIONS = {
+  REPLY: "reply",
+  UPLOAD_NOW: "upload-now",
+  ADD_TO_CALENDAR: "add-to-calendar",
+  CONFIRM_APPOINTMENT: "confirm-appointment",
+  MARK_READ: "mark-read",
+} as const;
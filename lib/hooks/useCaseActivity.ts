@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { useShallow } from "zustand/react/shallow";
+
+import { useDocumentsStore } from "@/stores/documents/documentsStore";
+import { useMessagesStore } from "@/stores/messages/messagesStore";
+import { useNotificationsStore } from "@/stores/notifications/notificationsStore";
+import { buildCaseActivity } from "@/lib/utils/caseActivity";
+
+/**
+ * Chat messages, emails, documents and notifications of one case from
+ * what the stores have loaded, newest first.
+ */
+export const useCaseActivity = (caseId?: string | null) => {
+  const { chatMessagesCache, conversations, messages } = useMessagesStore(
+    useShallow((state) => ({
+      chatMessagesCache: state.chatMessagesCache,
+      conversations: state.conversations,
+      messages: state.messages,
+    })),
+  );
+  const documents = useDocumentsStore((state) => state.documents);
+  const notifications = useNotificationsStore((state) => state.notifications);
+
+  return useMemo(() => {
+    if (!caseId) {
+      return [];
+    }
+
+    const caseRoomIds = new Set(
+      conversations
+        .filter((conversation) => conversation.caseId === caseId)
+        .map((conversation) => conversation.id),
+    );
+    const chatRooms = Object.entries(chatMessagesCache)
+      .map(([roomId, cache]) => ({
+        roomId,
+        messages: caseRoomIds.has(roomId)
+          ? cache.messages
+          : cache.messages.filter((message) => message.caseId === caseId),
+      }))
+      .filter((room) => room.messages.length > 0);
+
+    const caseDocuments = documents.filter(
+      (document) => document.caseId === caseId,
+    );
+    // Document notifications point at the document rather than the case
+    const relatedIds = new Set([
+      caseId,
+      ...caseDocuments.map((document) => document.id),
+    ]);
+
+    return buildCaseActivity({
+      chatRooms,
+      emails: messages.filter((email) => email.caseId === caseId),
+      documents: caseDocuments,
+      notifications: notifications.filter(
+        (notification) =>
+          notification.relatedId && relatedIds.has(notification.relatedId),
+      ),
+    });
+  }, [
+    caseId,
+    chatMessagesCache,
+    conversations,
+    documents,
+    messages,
+    notifications,
+  ]);
+};
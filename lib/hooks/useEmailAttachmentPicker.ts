@@ -0,0 +1,142 @@
+import { useCallback, useState } from "react";
+
+import { useBottomSheetAlert } from "@/components/BottomSheetAlert";
+import { useToast } from "@/components/Toast";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import type { PendingChatAttachment } from "@/lib/services/chatAttachments";
+import {
+  emailAttachments,
+  EmailAttachmentSource,
+  MAX_EMAIL_ATTACHMENT_BYTES,
+  MAX_EMAIL_ATTACHMENTS,
+  MAX_EMAIL_TOTAL_BYTES,
+} from "@/lib/services/emailAttachments";
+import type { EmailAttachment } from "@/lib/types";
+import { logger } from "@/lib/utils/logger";
+
+const toMegabytes = (bytes: number) => Math.round(bytes / (1024 * 1024));
+
+/**
+ * Files picked for an email that are not uploaded yet, with the picker
+ * sheet and the toasts explaining skipped files.
+ */
+export const useEmailAttachmentPicker = (
+  initial: PendingChatAttachment[] = [],
+  /** Already uploaded attachments that count towards the limits */
+  uploaded: EmailAttachment[] = [],
+) => {
+  const { t } = useTranslation();
+  const { showAlert } = useBottomSheetAlert();
+  const { showToast } = useToast();
+  const [pendingAttachments, setPendingAttachments] =
+    useState<PendingChatAttachment[]>(initial);
+
+  const addAttachments = useCallback(
+    async (source: EmailAttachmentSource) => {
+      const current = [...uploaded, ...pendingAttachments];
+      if (current.length >= MAX_EMAIL_ATTACHMENTS) {
+        showToast({
+          type: "info",
+          title: t("email.attachments.limitTitle", {
+            defaultValue: "Attachment limit reached",
+          }),
+          message: t("email.attachments.limitMessage", {
+            count: MAX_EMAIL_ATTACHMENTS,
+            size: toMegabytes(MAX_EMAIL_TOTAL_BYTES),
+            defaultValue:
+              "An email can carry up to {{count}} files and {{size}} MB in total.",
+          }),
+        });
+        return;
+      }
+
+      try {
+        const { accepted, tooLarge, overLimit } = await emailAttachments.pick(
+          source,
+          current,
+        );
+        if (accepted.length > 0) {
+          setPendingAttachments((prev) => [...prev, ...accepted]);
+        }
+        if (tooLarge.length > 0) {
+          showToast({
+            type: "error",
+            title: t("email.attachments.tooLargeTitle", {
+              defaultValue: "File too large",
+            }),
+            message: t("email.attachments.tooLargeMessage", {
+              names: tooLarge.map((item) => item.name).join(", "),
+              size: toMegabytes(MAX_EMAIL_ATTACHMENT_BYTES),
+              defaultValue: "{{names}} is larger than {{size}} MB.",
+            }),
+          });
+        }
+        if (overLimit.length > 0) {
+          showToast({
+            type: "info",
+            title: t("email.attachments.limitTitle", {
+              defaultValue: "Attachment limit reached",
+            }),
+            message: t("email.attachments.limitMessage", {
+              count: MAX_EMAIL_ATTACHMENTS,
+              size: toMegabytes(MAX_EMAIL_TOTAL_BYTES),
+              defaultValue:
+                "An email can carry up to {{count}} files and {{size}} MB in total.",
+            }),
+          });
+        }
+      } catch (error: any) {
+        logger.error("Failed to pick email attachment", error);
+        showToast({
+          type: "error",
+          title: t("common.error"),
+          message:
+            error?.message ||
+            t("chat.attachments.pickFailed", {
+              defaultValue: "Unable to attach this file.",
+            }),
+        });
+      }
+    },
+    [pendingAttachments, showToast, t, uploaded],
+  );
+
+  const openAttachmentPicker = useCallback(() => {
+    showAlert({
+      title: t("chat.attachments.title", { defaultValue: "Attach" }),
+      actions: [
+        {
+          text: t("chat.attachments.photoLibrary", {
+            defaultValue: "Photo library",
+          }),
+          variant: "primary",
+          onPress: () => addAttachments("library"),
+        },
+        {
+          text: t("chat.attachments.camera", { defaultValue: "Take photo" }),
+          variant: "primary",
+          onPress: () => addAttachments("camera"),
+        },
+        {
+          text: t("chat.attachments.document", { defaultValue: "Document" }),
+          variant: "primary",
+          onPress: () => addAttachments("document"),
+        },
+        { text: t("common.cancel"), variant: "secondary" },
+      ],
+    });
+  }, [addAttachments, showAlert, t]);
+
+  const removePendingAttachment = useCallback((attachmentId: string) => {
+    setPendingAttachments((prev) =>
+      prev.filter((attachment) => attachment.id !== attachmentId),
+    );
+  }, []);
+
+  return {
+    pendingAttachments,
+    setPendingAttachments,
+    openAttachmentPicker,
+    removePendingAttachment,
+  };
+};
@@ -0,0 +1,97 @@
+import { useMemo } from "react";
+import { useShallow } from "zustand/react/shallow";
+
+import { useDocumentsStore } from "@/stores/documents/documentsStore";
+import { useMessagesStore } from "@/stores/messages/messagesStore";
+import {
+  buildSearchIndex,
+  groupResultsByCase,
+  SearchEntry,
+  searchIndex,
+  SearchResultGroup,
+} from "@/lib/utils/search";
+
+const toTime = (value?: string | null) => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+/**
+ * Search the chat history, emails and documents cached on this device.
+ * Only loaded content is indexed; nothing is fetched for a query.
+ */
+export const useLocalSearch = (query: string) => {
+  const { chatMessagesCache, conversations, emailInbox, emailSent } =
+    useMessagesStore(
+      useShallow((state) => ({
+        chatMessagesCache: state.chatMessagesCache,
+        conversations: state.conversations,
+        emailInbox: state.emailInbox,
+        emailSent: state.emailSent,
+      })),
+    );
+  const documents = useDocumentsStore((state) => state.documents);
+
+  const index = useMemo(() => {
+    const entries: SearchEntry[] = [];
+
+    const conversationsByRoom = new Map(
+      conversations.map((conversation) => [conversation.id, conversation]),
+    );
+    Object.entries(chatMessagesCache).forEach(([roomId, cache]) => {
+      const conversation = conversationsByRoom.get(roomId);
+      cache.messages.forEach((message) => {
+        if (message.deletedAt || !message.id) return;
+        const attachmentNames = (message.attachments ?? [])
+          .map((attachment) => attachment.name)
+          .join(" ");
+        entries.push({
+          key: `chat:${roomId}:${message.id}`,
+          source: "chat",
+          title: message.senderName,
+          body: [message.message, attachmentNames].filter(Boolean).join(" "),
+          caseId: conversation?.caseId ?? message.caseId,
+          caseReference: conversation?.caseReference,
+          timestamp: message.timestamp,
+          target: { id: message.id, roomId },
+        });
+      });
+    });
+
+    [...emailInbox, ...emailSent].forEach((email) => {
+      entries.push({
+        key: `email:${email.id}`,
+        source: "email",
+        title: email.subject || email.name,
+        body: [email.content || email.message || email.preview, email.name]
+          .filter(Boolean)
+          .join(" "),
+        caseId: email.caseId,
+        caseReference: email.caseReference,
+        timestamp: toTime(email.sentAt),
+        target: { id: email.id },
+      });
+    });
+
+    documents.forEach((document) => {
+      entries.push({
+        key: `document:${document.id}`,
+        source: "document",
+        title: document.originalName,
+        body: [document.documentType, document.fileName].join(" "),
+        caseId: document.caseId,
+        caseReference: document.case?.referenceNumber,
+        timestamp: toTime(document.uploadDate),
+        target: { id: document.id },
+      });
+    });
+
+    return buildSearchIndex(entries);
+  }, [chatMessagesCache, conversations, documents, emailInbox, emailSent]);
+
+  return useMemo(() => {
+    const results = searchIndex(index, query);
+    const groups: SearchResultGroup[] = groupResultsByCase(results);
+    return { groups, resultCount: results.length };
+  }, [index, query]);
+};
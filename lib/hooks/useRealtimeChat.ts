@@ -3,6 +3,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { auth } from "@/lib/firebase/config";
 import { presenceService } from "@/lib/services/presenceService";
 import { logger } from "@/lib/utils/logger";
+import { OFFLINE_PRESENCE, PeerPresence } from "@/lib/utils/presence";
 
 const DEFAULT_TYPING_IDLE_MS = 4500;
 
@@ -16,6 +17,7 @@ type ParticipantOptions = {
 
 type ParticipantPresence = {
   isPeerOnline: boolean;
+  peerLastSeen: number | null;
   isPeerTyping: boolean;
   typingUsers: string[];
   announceTyping: (isTyping: boolean) => void;
@@ -28,6 +30,26 @@ const normalizeId = (value?: string | null) => {
   return trimmed.length > 0 ? trimmed : null;
 };
 
+/** Live online state and last-seen time of another user */
+export const usePeerPresence = (
+  peerId: string | null | undefined,
+  enabled = true,
+): PeerPresence => {
+  const activePeerId = normalizeId(peerId);
+  const [presence, setPresence] = useState<PeerPresence>(OFFLINE_PRESENCE);
+
+  useEffect(() => {
+    if (!enabled || !activePeerId) {
+      setPresence(OFFLINE_PRESENCE);
+      return () => undefined;
+    }
+
+    return presenceService.subscribeToUserPresence(activePeerId, setPresence);
+  }, [activePeerId, enabled]);
+
+  return presence;
+};
+
 export const useRealtimeChatParticipant = ({
   roomId,
   peerId,
@@ -36,11 +58,10 @@ export const useRealtimeChatParticipant = ({
   typingIdleMs = DEFAULT_TYPING_IDLE_MS,
 }: ParticipantOptions): ParticipantPresence => {
   const activeRoomId = normalizeId(roomId);
-  const activePeerId = normalizeId(peerId);
   const selfId =
     normalizeId(currentUserId) ?? normalizeId(auth.currentUser?.uid) ?? null;
 
-  const [isPeerOnline, setIsPeerOnline] = useState(false);
+  const peerPresence = usePeerPresence(peerId, enabled);
   const [typingUsers, setTypingUsers] = useState<string[]>([]);
 
   const typingIdleRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -72,17 +93,6 @@ export const useRealtimeChatParticipant = ({
     latestRoomRef.current = activeRoomId;
   }, [activeRoomId, enabled]);
 
-  useEffect(() => {
-    if (!enabled || !activePeerId) {
-      setIsPeerOnline(false);
-      return () => undefined;
-    }
-
-    return presenceService.subscribeToUserPresence(activePeerId, (state) => {
-      setIsPeerOnline(state === "online");
-    });
-  }, [activePeerId, enabled]);
-
   useEffect(() => {
     if (!enabled || !activeRoomId) {
       setTypingUsers([]);
@@ -132,10 +142,9 @@ export const useRealtimeChatParticipant = ({
         clearTimeout(typingIdleRef.current);
       }
 
-      if (!isTypingRef.current) {
-        presenceService.setTyping(latestRoomRef.current, true);
-        isTypingRef.current = true;
-      }
+      // Every keystroke refreshes the heartbeat; the service throttles writes
+      presenceService.setTyping(latestRoomRef.current, true);
+      isTypingRef.current = true;
 
       typingIdleRef.current = setTimeout(() => {
         presenceService.setTyping(latestRoomRef.current!, false);
@@ -156,7 +165,8 @@ export const useRealtimeChatParticipant = ({
   }, [selfId, typingUsers]);
 
   return {
-    isPeerOnline,
+    isPeerOnline: peerPresence.isOnline,
+    peerLastSeen: peerPresence.lastSeen,
     isPeerTyping,
     typingUsers,
     announceTyping,
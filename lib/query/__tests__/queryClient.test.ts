@@ -0,0 +1,73 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  clearQueryCache,
+  persistQueryCache,
+  queryClient,
+  restoreQueryCache,
+} from "../queryClient";
+import { queryKeys } from "../queryKeys";
+
+const USER_ID = "user-1";
+const CACHE_KEY = `query_cache_${USER_ID}`;
+
+const persistedKey = (queryKey: readonly unknown[]) =>
+  `${CACHE_KEY}:${JSON.stringify(queryKey)}`;
+
+describe("query cache persistence", () => {
+  beforeEach(async () => {
+    await clearQueryCache(USER_ID);
+    await AsyncStorage.clear();
+  });
+
+  afterAll(() => {
+    // Drops the garbage collection timers of the cached queries
+    queryClient.clear();
+  });
+
+  it("stores each query in its own row and restores them", async () => {
+    queryClient.setQueryData(queryKeys.emails(USER_ID), [{ id: "e1" }]);
+    queryClient.setQueryData(queryKeys.chatMessages(USER_ID, "room-1"), {
+      messages: [],
+    });
+
+    await persistQueryCache(USER_ID);
+
+    expect(
+      JSON.parse((await AsyncStorage.getItem(CACHE_KEY)) ?? "null"),
+    ).toMatchObject({ version: 2 });
+    expect(
+      await AsyncStorage.getItem(persistedKey(queryKeys.emails(USER_ID))),
+    ).toContain('"e1"');
+
+    queryClient.clear();
+    await restoreQueryCache(USER_ID);
+
+    expect(queryClient.getQueryData(queryKeys.emails(USER_ID))).toEqual([
+      { id: "e1" },
+    ]);
+    expect(
+      queryClient.getQueryData(queryKeys.chatMessages(USER_ID, "room-1")),
+    ).toEqual({ messages: [] });
+  });
+
+  it("removes rows of queries that are no longer cached", async () => {
+    queryClient.setQueryData(queryKeys.emails(USER_ID), []);
+    await persistQueryCache(USER_ID);
+
+    queryClient.removeQueries({ queryKey: queryKeys.emails(USER_ID) });
+    await persistQueryCache(USER_ID);
+
+    expect(
+      await AsyncStorage.getItem(persistedKey(queryKeys.emails(USER_ID))),
+    ).toBeNull();
+  });
+
+  it("clears every row on logout", async () => {
+    queryClient.setQueryData(queryKeys.emails(USER_ID), []);
+    await persistQueryCache(USER_ID);
+
+    await clearQueryCache(USER_ID);
+
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  });
+});
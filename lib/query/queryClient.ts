@@ -0,0 +1,276 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  dehydrate,
+  DehydratedState,
+  hydrate,
+  QueryClient,
+  QueryKey,
+} from "@tanstack/react-query";
+import { secureStorage } from "../storage/secureStorage";
+import { logger } from "../utils/logger";
+
+const PERSISTED_CACHE_KEY_PREFIX = "query_cache_"; // Will be suffixed with user ID
+// Bump when a cached shape changes so old snapshots are discarded
+const PERSISTED_CACHE_VERSION = 2;
+const PERSISTED_CACHE_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+const PERSIST_DEBOUNCE_MS = 1000;
+
+// Per-domain caches these queries replaced; removed on first restore
+const LEGACY_CACHE_KEY_PREFIXES = [
+  "cases_cache_",
+  "notifications_cache_",
+  "unread_count_cache_",
+  "subscription_status_cache_",
+  "dashboard_stats_cache_",
+  "appointment_cache_",
+];
+
+/**
+ * Each query is stored under its own key, next to an index of them, so no
+ * single row grows past Android's ~2 MB AsyncStorage limit.
+ */
+interface PersistedQueryIndex {
+  version: number;
+  savedAt: number;
+  queryHashes: string[];
+}
+
+type PersistedQuery = DehydratedState["queries"][number];
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: 1,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      // Stores read through fetchQuery without observers; keep their data
+      // around as long as the disk copy is considered usable
+      gcTime: PERSISTED_CACHE_MAX_AGE,
+    },
+  },
+});
+
+const getPersistedCacheKey = (userId: string) =>
+  `${PERSISTED_CACHE_KEY_PREFIX}${userId}`;
+
+const getPersistedQueryKey = (userId: string, queryHash: string) =>
+  `${getPersistedCacheKey(userId)}:${queryHash}`;
+
+const getQueryUserId = (queryKey: QueryKey): string | null =>
+  queryKey[0] === "user" && typeof queryKey[1] === "string"
+    ? queryKey[1]
+    : null;
+
+const restoredUsers = new Map<string, Promise<void>>();
+const persistTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// Queries changed since the user's last write, by query hash
+const changedQueries = new Map<string, Set<string>>();
+
+/**
+ * Load a user's cached queries from disk into memory, once per session.
+ * Data already in memory is never replaced by an older snapshot.
+ */
+export const restoreQueryCache = (userId: string): Promise<void> => {
+  const pending = restoredUsers.get(userId);
+  if (pending) {
+    return pending;
+  }
+
+  const restore = (async () => {
+    try {
+      const index = await secureStorage.get<PersistedQueryIndex>(
+        getPersistedCacheKey(userId),
+      );
+      if (
+        index &&
+        index.version === PERSISTED_CACHE_VERSION &&
+        Date.now() - index.savedAt < PERSISTED_CACHE_MAX_AGE
+      ) {
+        const entries = await AsyncStorage.multiGet(
+          index.queryHashes.map((hash) => getPersistedQueryKey(userId, hash)),
+        );
+        const queries = entries.flatMap(([, value]) =>
+          value ? [JSON.parse(value) as PersistedQuery] : [],
+        );
+        hydrate(queryClient, { mutations: [], queries });
+        logger.debug("Query cache restored", {
+          userId,
+          queries: queries.length,
+        });
+      }
+      await Promise.all(
+        LEGACY_CACHE_KEY_PREFIXES.map((prefix) =>
+          secureStorage.delete(`${prefix}${userId}`),
+        ),
+      );
+    } catch (error) {
+      logger.debug("Failed to restore query cache", error);
+    }
+  })();
+
+  restoredUsers.set(userId, restore);
+  return restore;
+};
+
+/**
+ * Write a user's queries to disk: those in `queryHashes`, or all of them,
+ * then the index. Entries of queries no longer cached are removed.
+ */
+const writeQueries = async (userId: string, queryHashes?: Set<string>) => {
+  const { queries } = dehydrate(queryClient, {
+    shouldDehydrateQuery: (query) =>
+      query.state.status === "success" &&
+      getQueryUserId(query.queryKey) === userId,
+  });
+  const indexKey = getPersistedCacheKey(userId);
+  try {
+    const previous = await secureStorage.get<PersistedQueryIndex>(indexKey);
+    const cachedHashes = new Set(queries.map((query) => query.queryHash));
+    const droppedHashes =
+      previous?.version === PERSISTED_CACHE_VERSION
+        ? previous.queryHashes.filter((hash) => !cachedHashes.has(hash))
+        : [];
+
+    await AsyncStorage.multiSet(
+      queries
+        .filter((query) => !queryHashes || queryHashes.has(query.queryHash))
+        .map((query) => [
+          getPersistedQueryKey(userId, query.queryHash),
+          JSON.stringify(query),
+        ]),
+    );
+    await AsyncStorage.multiRemove(
+      droppedHashes.map((hash) => getPersistedQueryKey(userId, hash)),
+    );
+    await secureStorage.set(indexKey, {
+      version: PERSISTED_CACHE_VERSION,
+      savedAt: Date.now(),
+      queryHashes: [...cachedHashes],
+    } satisfies PersistedQueryIndex);
+  } catch (error) {
+    logger.debug("Failed to persist query cache", error);
+  }
+};
+
+/**
+ * Write all of a user's queries to disk now. The background notification
+ * task runs without the persistence subscription, so it saves explicitly.
+ */
+export const persistQueryCache = (userId: string): Promise<void> =>
+  writeQueries(userId);
+
+const schedulePersist = (userId: string, queryHash: string) => {
+  const changed = changedQueries.get(userId) ?? new Set<string>();
+  changed.add(queryHash);
+  changedQueries.set(userId, changed);
+
+  const existing = persistTimers.get(userId);
+  if (existing) {
+    clearTimeout(existing);
+  }
+  persistTimers.set(
+    userId,
+    setTimeout(() => {
+      persistTimers.delete(userId);
+      changedQueries.delete(userId);
+      void writeQueries(userId, changed);
+    }, PERSIST_DEBOUNCE_MS),
+  );
+};
+
+/** Drop a user's cached queries from memory and disk, e.g. on logout */
+export const clearQueryCache = async (userId: string): Promise<void> => {
+  const timer = persistTimers.get(userId);
+  if (timer) {
+    clearTimeout(timer);
+    persistTimers.delete(userId);
+  }
+  changedQueries.delete(userId);
+  queryClient.removeQueries({ queryKey: ["user", userId] });
+  restoredUsers.delete(userId);
+  const index = await secureStorage.get<PersistedQueryIndex>(
+    getPersistedCacheKey(userId),
+  );
+  try {
+    await AsyncStorage.multiRemove(
+      (index?.queryHashes ?? []).map((hash) =>
+        getPersistedQueryKey(userId, hash),
+      ),
+    );
+  } catch (error) {
+    logger.debug("Failed to clear query cache", error);
+  }
+  await secureStorage.delete(getPersistedCacheKey(userId));
+};
+
+interface CachedQueryOptions<T> {
+  queryKey: QueryKey;
+  queryFn: () => Promise<T>;
+  staleTime: number;
+  force?: boolean;
+  /** Receives cached data, if any, before a stale copy is revalidated */
+  onCached?: (data: T, updatedAt: number) => void;
+}
+
+/**
+ * Stale-while-revalidate read for stores: cached data (from memory or
+ * disk) is handed to `onCached` right away, and only a stale, invalidated
+ * or forced query goes back to the server. Concurrent callers share one
+ * request.
+ */
+export const fetchCachedQuery = async <T>({
+  queryKey,
+  queryFn,
+  staleTime,
+  force = false,
+  onCached,
+}: CachedQueryOptions<T>): Promise<T> => {
+  const userId = getQueryUserId(queryKey);
+  if (userId) {
+    await restoreQueryCache(userId);
+  }
+
+  const cached = queryClient.getQueryState<T>(queryKey);
+  if (cached?.data !== undefined) {
+    onCached?.(cached.data, cached.dataUpdatedAt);
+  }
+
+  return queryClient.fetchQuery({
+    queryKey,
+    queryFn,
+    staleTime: force ? 0 : staleTime,
+    // The API client already retries transient failures
+    retry: false,
+  });
+};
+
+/** When the cached copy of a query was fetched, or null if there is none */
+export const getQueryUpdatedAt = (queryKey: QueryKey): number | null => {
+  const state = queryClient.getQueryState(queryKey);
+  return state?.data !== undefined ? state.dataUpdatedAt : null;
+};
+
+// Write each user's queries to disk shortly after they change
+let queryPersistenceInitialized = false;
+
+export const initializeQueryPersistence = () => {
+  if (queryPersistenceInitialized) return;
+
+  queryPersistenceInitialized = true;
+  queryClient.getQueryCache().subscribe((event) => {
+    const userId = getQueryUserId(event.query.queryKey);
+    // Writing before the disk copy is restored would overwrite it
+    if (!userId || !restoredUsers.has(userId)) {
+      return;
+    }
+    if (
+      (event.type === "updated" &&
+        (event.action.type === "success" ||
+          event.action.type === "invalidate")) ||
+      event.type === "removed"
+    ) {
+      schedulePersist(userId, event.query.queryHash);
+    }
+  });
+
+  logger.info("Query cache persistence initialized");
+};
@@ -0,0 +1,48 @@
+/**
+ * Every cached query lives under its user's key, so switching accounts or
+ * logging out can drop one user's data with a single prefix.
+ */
+export const queryKeys = {
+  user: (userId: string) => ["user", userId] as const,
+
+  cases: (userId: string) => ["user", userId, "cases"] as const,
+  caseList: (userId: string, filtersKey: string) =>
+    [...queryKeys.cases(userId), "list", filtersKey] as const,
+  caseDetail: (userId: string, caseId: string) =>
+    [...queryKeys.cases(userId), "detail", caseId] as const,
+  caseHistory: (userId: string, caseId: string) =>
+    [...queryKeys.cases(userId), "history", caseId] as const,
+
+  notifications: (userId: string) => ["user", userId, "notifications"] as const,
+  notificationList: (userId: string) =>
+    [...queryKeys.notifications(userId), "list"] as const,
+  notificationUnreadCount: (userId: string) =>
+    [...queryKeys.notifications(userId), "unreadCount"] as const,
+
+  subscriptionStatus: (userId: string) =>
+    ["user", userId, "subscription", "status"] as const,
+
+  dashboard: (userId: string) => ["user", userId, "dashboard"] as const,
+  dashboardStats: (userId: string) =>
+    [...queryKeys.dashboard(userId), "stats"] as const,
+  nextAppointment: (userId: string) =>
+    [...queryKeys.dashboard(userId), "nextAppointment"] as const,
+
+  emails: (userId: string) => ["user", userId, "emails"] as const,
+  conversations: (userId: string) => ["user", userId, "conversations"] as const,
+  chatMessages: (userId: string, roomId: string) =>
+    [...queryKeys.conversations(userId), "messages", roomId] as const,
+};
+
+/** How long each kind of data is served without a refetch */
+export const STALE_TIMES = {
+  cases: 5 * 60 * 1000,
+  notifications: 2 * 60 * 1000,
+  notificationUnreadCount: 60 * 1000,
+  subscriptionStatus: 5 * 60 * 1000,
+  dashboardStats: 5 * 60 * 1000,
+  nextAppointment: 10 * 60 * 1000,
+  emails: 2 * 60 * 1000,
+  conversations: 60 * 1000,
+  chatMessages: 60 * 1000,
+} as const;
@@ -0,0 +1,128 @@
+import * as Notifications from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import { AppState } from "react-native";
+import { processBackgroundNotification } from "../fcm";
+import { handleNotificationAction } from "../notificationActions";
+import { BACKGROUND_NOTIFICATION_TASK } from "../backgroundNotificationTask";
+
+jest.mock("expo-task-manager", () => ({ defineTask: jest.fn() }));
+jest.mock("expo-notifications", () => ({
+  DEFAULT_ACTION_IDENTIFIER: "expo.modules.notifications.actions.DEFAULT",
+  registerTaskAsync: jest.fn(() => Promise.resolve()),
+  setNotificationHandler: jest.fn(),
+  clearLastNotificationResponse: jest.fn(),
+  dismissNotificationAsync: jest.fn(() => Promise.resolve()),
+}));
+jest.mock("expo-router", () => ({ router: { push: jest.fn() } }));
+jest.mock("../../api/axios", () => ({ apiClient: {} }));
+jest.mock("../fcm", () => ({
+  processBackgroundNotification: jest.fn(() => Promise.resolve()),
+}));
+jest.mock("../notificationSync", () => ({
+  syncDataForNotification: jest.fn(() => Promise.resolve()),
+}));
+jest.mock("../notificationActions", () => ({
+  handleNotificationAction: jest.fn(() => Promise.resolve()),
+}));
+
+const [[taskName, runTask]] = (TaskManager.defineTask as jest.Mock).mock.calls;
+const processed = processBackgroundNotification as jest.Mock;
+const actioned = handleNotificationAction as jest.Mock;
+
+const reply = (identifier: string, userText: string) => ({
+  actionIdentifier: "reply",
+  userText,
+  notification: {
+    request: {
+      identifier,
+      content: { data: { type: "NEW_MESSAGE", roomId: "room-1" } },
+    },
+  },
+});
+
+const run = (data: unknown, error: unknown = null) =>
+  runTask({ data, error, executionInfo: {} });
+
+beforeEach(() => {
+  processed.mockClear();
+  actioned.mockClear();
+  Object.defineProperty(AppState, "currentState", {
+    value: "background",
+    configurable: true,
+  });
+});
+
+describe("background notification task", () => {
+  it("defines and registers the task when the module loads", () => {
+    expect(taskName).toBe(BACKGROUND_NOTIFICATION_TASK);
+    expect(Notifications.registerTaskAsync).toHaveBeenCalledWith(
+      BACKGROUND_NOTIFICATION_TASK,
+    );
+  });
+
+  it("parses the Android data string", async () => {
+    await run({
+      notification: { title: "Case update", body: "Approved" },
+      data: { dataString: '{"type":"CASE_STATUS_UPDATE","caseId":"c1"}' },
+    });
+
+    expect(processed).toHaveBeenCalledWith({
+      title: "Case update",
+      body: "Approved",
+      data: { type: "CASE_STATUS_UPDATE", caseId: "c1" },
+    });
+  });
+
+  it("reads iOS custom data and the aps alert", async () => {
+    await run({
+      notification: null,
+      data: { body: { type: "NEW_EMAIL", messageId: "m1" } },
+      aps: { alert: { title: "New email", body: "From your advisor" } },
+    });
+
+    expect(processed).toHaveBeenCalledWith({
+      title: "New email",
+      body: "From your advisor",
+      data: { type: "NEW_EMAIL", messageId: "m1" },
+    });
+  });
+
+  it("leaves foreground pushes and taps to the listeners", async () => {
+    await run({
+      actionIdentifier: "expo.modules.notifications.actions.DEFAULT",
+      notification: {},
+    });
+    Object.defineProperty(AppState, "currentState", { value: "active" });
+    await run({ notification: null, data: { dataString: "{}" } });
+
+    expect(processed).not.toHaveBeenCalled();
+    expect(actioned).not.toHaveBeenCalled();
+  });
+
+  it("sends a reply pressed while the app was terminated", async () => {
+    await run(reply("push-1", "On my way"));
+
+    expect(actioned).toHaveBeenCalledWith(
+      "reply",
+      { type: "NEW_MESSAGE", roomId: "room-1" },
+      "On my way",
+    );
+    expect(Notifications.clearLastNotificationResponse).toHaveBeenCalled();
+    expect(Notifications.dismissNotificationAsync).toHaveBeenCalledWith(
+      "push-1",
+    );
+  });
+
+  it("runs an action once when the listener also receives it", async () => {
+    await run(reply("push-2", "Thanks"));
+    await run(reply("push-2", "Thanks"));
+
+    expect(actioned).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing when the task reports an error", async () => {
+    await run(undefined, new Error("boom"));
+
+    expect(processed).not.toHaveBeenCalled();
+  });
+});
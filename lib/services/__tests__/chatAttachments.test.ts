@@ -0,0 +1,114 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import {
+  chatAttachments,
+  MAX_CHAT_ATTACHMENT_BYTES,
+  type PendingChatAttachment,
+} from "../chatAttachments";
+import { uploadFileToAPI } from "../fileUpload";
+import type { MemoryFileSystem } from "../../../test/mocks/fileSystem";
+
+jest.mock("expo-file-system/legacy", () =>
+  require("../../../test/mocks/fileSystem").createMemoryFileSystem(),
+);
+jest.mock("expo-document-picker", () => ({ getDocumentAsync: jest.fn() }));
+jest.mock("../fileUpload", () => ({ uploadFileToAPI: jest.fn() }));
+jest.mock("../../i18n", () => ({ t: (key: string) => key }));
+
+const memoryFs = FileSystem as unknown as MemoryFileSystem;
+
+const picked = (id: string, name: string): PendingChatAttachment => ({
+  id,
+  uri: `file:///cache/DocumentPicker/${name}`,
+  name,
+  mimeType: "application/pdf",
+  size: 4,
+});
+
+beforeEach(() => {
+  memoryFs.files.clear();
+});
+
+describe("chatAttachments.retain", () => {
+  it("copies picked files out of the cache directory", async () => {
+    const attachment = picked("att-1", "passport.pdf");
+    memoryFs.files.set(attachment.uri, Buffer.from("scan"));
+
+    const [retained] = await chatAttachments.retain([attachment]);
+
+    expect(retained.uri).toBe("file:///documents/outbox-attachments/att-1.pdf");
+    expect(memoryFs.files.get(retained.uri)?.toString()).toBe("scan");
+  });
+
+  it("keeps the original file when the copy fails", async () => {
+    const attachment = picked("att-1", "missing.pdf");
+
+    const [retained] = await chatAttachments.retain([attachment]);
+
+    expect(retained).toEqual(attachment);
+  });
+});
+
+describe("chatAttachments.release", () => {
+  it("deletes retained copies and leaves other files alone", async () => {
+    const attachment = picked("att-1", "passport.pdf");
+    memoryFs.files.set(attachment.uri, Buffer.from("scan"));
+    const [retained] = await chatAttachments.retain([attachment]);
+
+    await chatAttachments.release([retained, attachment]);
+
+    expect(memoryFs.files.has(retained.uri)).toBe(false);
+    expect(memoryFs.files.has(attachment.uri)).toBe(true);
+  });
+});
+
+describe("chatAttachments.upload", () => {
+  it("reports each file as it lands before a later one fails", async () => {
+    (uploadFileToAPI as jest.Mock)
+      .mockResolvedValueOnce({ success: true, url: "https://files/a.pdf" })
+      .mockRejectedValueOnce(new Error("Network Error"));
+    const onUploaded = jest.fn();
+
+    await expect(
+      chatAttachments.upload(
+        [picked("att-1", "a.pdf"), picked("att-2", "b.pdf")],
+        undefined,
+        onUploaded,
+      ),
+    ).rejects.toThrow("Network Error");
+
+    expect(onUploaded).toHaveBeenCalledTimes(1);
+    expect(onUploaded).toHaveBeenCalledWith(
+      {
+        name: "a.pdf",
+        url: "https://files/a.pdf",
+        type: "application/pdf",
+        size: 4,
+      },
+      picked("att-1", "a.pdf"),
+    );
+  });
+});
+
+describe("chatAttachments.pickDocuments", () => {
+  it("reads the size from disk when the picker leaves it out", async () => {
+    const small = "file:///cache/DocumentPicker/letter.pdf";
+    const large = "file:///cache/DocumentPicker/scan.pdf";
+    memoryFs.files.set(small, Buffer.from("scan"));
+    memoryFs.files.set(large, Buffer.alloc(MAX_CHAT_ATTACHMENT_BYTES + 1));
+    (DocumentPicker.getDocumentAsync as jest.Mock).mockResolvedValue({
+      canceled: false,
+      assets: [
+        { uri: small, name: "letter.pdf", mimeType: "application/pdf" },
+        { uri: large, name: "scan.pdf", mimeType: "application/pdf" },
+      ],
+    });
+
+    const { accepted, rejected } = await chatAttachments.pickDocuments();
+
+    expect(accepted).toEqual([
+      expect.objectContaining({ uri: small, size: 4 }),
+    ]);
+    expect(rejected).toEqual([expect.objectContaining({ uri: large })]);
+  });
+});
@@ -0,0 +1,194 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system/legacy";
+import { apiClient } from "../../api/axios";
+import {
+  chunkedUploadService,
+  UPLOAD_CHUNK_SIZE_BYTES,
+  uploadSessions,
+  type UploadSession,
+} from "../chunkedUpload";
+import type { MemoryFileSystem } from "../../../test/mocks/fileSystem";
+import {
+  createMockUploadServer,
+  type MockUploadServer,
+} from "../../../test/mocks/uploadServer";
+
+jest.mock("expo-file-system/legacy", () =>
+  require("../../../test/mocks/fileSystem").createMemoryFileSystem(),
+);
+jest.mock("../../api/axios", () => ({
+  apiClient: require("axios").create(),
+}));
+
+const memoryFs = FileSystem as unknown as MemoryFileSystem;
+const PICKED_URI = "file:///cache/DocumentPicker/passport.pdf";
+const FILE_SIZE = UPLOAD_CHUNK_SIZE_BYTES * 3 + 512;
+
+let server: MockUploadServer;
+
+const prepare = () =>
+  chunkedUploadService.prepareSession({
+    fileUri: PICKED_URI,
+    fileName: "passport.pdf",
+    mimeType: "application/pdf",
+    fileSize: FILE_SIZE,
+    caseId: "case-1",
+    documentType: "PASSPORT",
+  });
+
+/** Run a session to the end, letting retry backoff elapse instantly */
+const run = async (session: UploadSession) => {
+  const updates: UploadSession[] = [];
+  const result = chunkedUploadService.runSession(session, (updated) => {
+    updates.push(updated);
+  });
+  await jest.runAllTimersAsync();
+  return { result: await result, updates };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  memoryFs.files.clear();
+  memoryFs.files.set(PICKED_URI, Buffer.alloc(FILE_SIZE, 7));
+  server = createMockUploadServer();
+  apiClient.defaults.adapter = server.adapter;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("chunkedUploadService.prepareSession", () => {
+  it("copies the picked file out of the cache directory", async () => {
+    const session = await prepare();
+
+    expect(session.fileUri.startsWith(memoryFs.documentDirectory)).toBe(true);
+    expect(memoryFs.files.has(session.fileUri)).toBe(true);
+    expect(session.totalChunks).toBe(4);
+  });
+});
+
+describe("chunkedUploadService.runSession", () => {
+  it("uploads every chunk and completes", async () => {
+    const { result, updates } = await run(await prepare());
+
+    expect(result.status).toBe("completed");
+    expect(result.url).toBe("https://files.test/session-1/passport.pdf");
+    expect(result.uploadedChunks).toEqual([0, 1, 2, 3]);
+    expect(server.chunkUploads()).toHaveLength(4);
+    expect(updates.at(-1)).toEqual(result);
+  });
+
+  it("resumes from the chunks the backend already has", async () => {
+    const first = await prepare();
+    server.failChunk(2, "network", "network", "network", "network", "network");
+    const interrupted = (await run(first)).result;
+
+    expect(interrupted.status).toBe("paused");
+    expect(interrupted.remoteSessionId).toBe("session-1");
+    // Chunk 3 never left the device
+    expect(server.chunkUploads(3)).toHaveLength(0);
+
+    // A chunk can land without the app seeing the response
+    server.receiveChunks("session-1", [2]);
+    server.requests.length = 0;
+    const { result } = await run(interrupted);
+
+    expect(result.status).toBe("completed");
+    expect(server.requests[0]).toEqual({
+      method: "GET",
+      url: "/uploads/sessions/session-1",
+    });
+    expect(server.chunkUploads().map((request) => request.url)).toEqual([
+      "/uploads/sessions/session-1/chunks/3",
+    ]);
+  });
+
+  it("retries a chunk that fails with a transient error", async () => {
+    server.failChunk(1, 503, "network");
+    const { result } = await run(await prepare());
+
+    expect(result.status).toBe("completed");
+    expect(server.chunkUploads(1)).toHaveLength(3);
+    expect(server.chunkUploads(2)).toHaveLength(1);
+  });
+
+  it("pauses after the retry budget is spent", async () => {
+    server.failChunk(1, 503, 503, 503, 503, 503);
+    const { result } = await run(await prepare());
+
+    expect(result.status).toBe("paused");
+    expect(result.uploadedChunks).toEqual([0]);
+    expect(server.chunkUploads(1)).toHaveLength(5);
+  });
+
+  it("fails without retrying when the backend rejects a chunk", async () => {
+    server.failChunk(0, 422);
+    const { result } = await run(await prepare());
+
+    expect(result.status).toBe("failed");
+    expect(result.lastError).toBe("Chunk 0 rejected");
+    expect(server.chunkUploads(0)).toHaveLength(1);
+  });
+
+  it("starts over in a new session once the old one expires", async () => {
+    server.failChunk(2, "network", "network", "network", "network", "network");
+    const interrupted = (await run(await prepare())).result;
+    server.expireSession("session-1");
+
+    const expired = (await run(interrupted)).result;
+    expect(expired.status).toBe("paused");
+    expect(expired.remoteSessionId).toBeNull();
+    expect(expired.uploadedChunks).toEqual([]);
+
+    const { result } = await run(expired);
+    expect(result.status).toBe("completed");
+    expect(result.remoteSessionId).toBe("session-2");
+    expect(server.sessions.get("session-2")?.chunks.size).toBe(4);
+  });
+
+  it("keeps chunk uploads out of the API client's own retries", async () => {
+    const put = jest.spyOn(apiClient, "put");
+    await run(await prepare());
+
+    expect(put).toHaveBeenCalledTimes(4);
+    put.mock.calls.forEach(([, , config]) => {
+      expect(config).toEqual({ retry: false });
+    });
+    put.mockRestore();
+  });
+
+  it("fails when the copied file has been removed", async () => {
+    const session = await prepare();
+    await chunkedUploadService.discardFile(session);
+
+    const { result } = await run(session);
+
+    expect(result.status).toBe("failed");
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe("uploadSessions.save", () => {
+  it("keeps the newest snapshot when an older write finishes last", async () => {
+    const session = await prepare();
+    const setItem = AsyncStorage.setItem as jest.Mock;
+    const storeItem = setItem.getMockImplementation()!;
+    setItem.mockImplementationOnce(
+      (key: string, value: string) =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve(storeItem(key, value)), 100),
+        ),
+    );
+
+    const writes = [
+      uploadSessions.save([{ ...session, uploadedChunks: [0] }], "user-1"),
+      uploadSessions.save([{ ...session, uploadedChunks: [0, 1] }], "user-1"),
+    ];
+    await jest.runAllTimersAsync();
+    await Promise.all(writes);
+
+    const [stored] = await uploadSessions.load("user-1");
+    expect(stored.uploadedChunks).toEqual([0, 1]);
+  });
+});
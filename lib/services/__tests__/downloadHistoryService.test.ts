@@ -0,0 +1,88 @@
+import { documentVault } from "../documentVault";
+import { downloadHistoryService } from "../downloadHistoryService";
+
+jest.mock("../documentVault", () => {
+  const records = new Map<string, unknown>();
+  return {
+    documentVault: {
+      isVaultUri: (uri: string) => uri.startsWith("file:///documents/vault/"),
+      readJson: jest.fn(async (name: string) => records.get(name) ?? null),
+      writeJson: jest.fn(async (name: string, value: unknown) => {
+        records.set(name, value);
+      }),
+      removeFile: jest.fn(async () => undefined),
+    },
+  };
+});
+
+const vaultFile = (index: number) =>
+  `file:///documents/vault/user-1/file-${index}.bin`;
+
+const seedHistory = (count: number, source: "document" | "template") =>
+  downloadHistoryService.saveDownloads(
+    Array.from({ length: count }, (_, index) => ({
+      id: `download-${index}`,
+      name: `file-${index}.pdf`,
+      url: `https://files.test/${index}`,
+      localUri: vaultFile(index),
+      downloadedAt: new Date(2026, 0, 1).toISOString(),
+      source,
+    })),
+    "user-1",
+  );
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("downloadHistoryService.addDownload", () => {
+  it("deletes the vault file of records trimmed from the history", async () => {
+    await seedHistory(500, "document");
+
+    await downloadHistoryService.addDownload(
+      { name: "new.pdf", url: "https://files.test/new", source: "document" },
+      "user-1",
+    );
+
+    const history = await downloadHistoryService.getDownloads("user-1");
+    expect(history).toHaveLength(500);
+    expect(history[0].name).toBe("new.pdf");
+    expect(documentVault.removeFile).toHaveBeenCalledTimes(1);
+    expect(documentVault.removeFile).toHaveBeenCalledWith(vaultFile(499));
+  });
+
+  it("keeps template files, which the template cache still uses", async () => {
+    await seedHistory(500, "template");
+
+    await downloadHistoryService.addDownload(
+      { name: "new.pdf", url: "https://files.test/new", source: "document" },
+      "user-1",
+    );
+
+    expect(documentVault.removeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe("when the vault stays locked", () => {
+  beforeEach(() => {
+    (documentVault.readJson as jest.Mock).mockRejectedValueOnce(
+      new Error("Document vault is locked"),
+    );
+  });
+
+  it("lists no downloads", async () => {
+    await expect(
+      downloadHistoryService.getDownloads("user-1"),
+    ).resolves.toEqual([]);
+  });
+
+  it("returns the download without overwriting the sealed history", async () => {
+    const record = await downloadHistoryService.addDownload(
+      { name: "new.pdf", url: "https://files.test/new", source: "document" },
+      "user-1",
+    );
+
+    expect(record.name).toBe("new.pdf");
+    expect(documentVault.writeJson).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,35 @@
+import { emailDrafts, type EmailDraft } from "../emailDrafts";
+
+jest.mock("expo-crypto", () => ({
+  randomUUID: () => require("crypto").randomUUID(),
+}));
+
+const input = {
+  caseId: "case-1",
+  recipientId: "agent-1",
+  subject: "Bank statements",
+  content: "Attached are my last three statements.",
+};
+
+describe("emailDrafts", () => {
+  it("gives each draft its own idempotency key", () => {
+    const first = emailDrafts.createEntry(input);
+    const second = emailDrafts.createEntry(input);
+
+    expect(first.idempotencyKey).toEqual(expect.any(String));
+    expect(first.idempotencyKey).not.toBe(second.idempotencyKey);
+  });
+
+  it("requeues an interrupted send under the same idempotency key", async () => {
+    const draft: EmailDraft = {
+      ...emailDrafts.createEntry(input),
+      status: "sending",
+    };
+    await emailDrafts.save([draft], "user-1");
+
+    const [loaded] = await emailDrafts.load("user-1");
+
+    expect(loaded.status).toBe("queued");
+    expect(loaded.idempotencyKey).toBe(draft.idempotencyKey);
+  });
+});
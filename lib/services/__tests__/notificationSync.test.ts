@@ -0,0 +1,150 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { dehydrate, QueryClient } from "@tanstack/react-query";
+import { queryClient } from "../../query/queryClient";
+import { queryKeys } from "../../query/queryKeys";
+import { getSyncTargets, syncDataForNotification } from "../notificationSync";
+import { useAppointmentsStore } from "../../../stores/appointments/appointmentsStore";
+
+jest.mock("../../firebase/config", () => ({
+  auth: {
+    authStateReady: jest.fn(() => Promise.resolve()),
+    currentUser: { uid: "user-1" },
+  },
+}));
+// A background launch: nothing has signed the store in
+jest.mock("../../../stores/auth/authStore", () => ({
+  useAuthStore: { getState: () => ({ user: null }) },
+}));
+jest.mock("../../../stores/documents/documentsStore", () => ({
+  useDocumentsStore: {
+    getState: () => ({ invalidateCache: jest.fn() }),
+  },
+}));
+jest.mock("../../../stores/notifications/notificationsStore", () => ({
+  useNotificationsStore: {
+    getState: () => ({
+      lastFetched: null,
+      fetchUnreadCount: jest.fn(() => Promise.resolve()),
+    }),
+  },
+}));
+jest.mock("../../../stores/appointments/appointmentsStore", () => {
+  const state = {
+    lists: { upcoming: { page: 0 } },
+    monthAppointments: {} as Record<string, unknown[]>,
+    selectedAppointment: null as { id: string } | null,
+    fetchAppointments: jest.fn(() => Promise.resolve()),
+    fetchMonth: jest.fn(() => Promise.resolve()),
+    fetchAppointmentById: jest.fn(() => Promise.resolve()),
+  };
+  return { useAppointmentsStore: { getState: () => state } };
+});
+
+const USER_ID = "user-1";
+const CACHE_KEY = `query_cache_${USER_ID}`;
+
+const readPersistedQuery = async (queryKey: readonly unknown[]) => {
+  const raw = await AsyncStorage.getItem(
+    `${CACHE_KEY}:${JSON.stringify(queryKey)}`,
+  );
+  return raw ? JSON.parse(raw) : null;
+};
+
+describe("getSyncTargets", () => {
+  it.each([
+    ["CASE_STATUS_UPDATE", ["cases", "dashboard", "notifications"]],
+    ["DOCUMENT_REJECTED", ["documents", "cases", "dashboard", "notifications"]],
+    ["NEW_MESSAGE", ["conversations", "notifications"]],
+    ["NEW_EMAIL", ["emails", "notifications"]],
+    ["APPOINTMENT_UPDATED", ["appointments", "dashboard", "notifications"]],
+    ["APPOINTMENT_REMINDER", []],
+  ])("maps %s", (type, targets) => {
+    expect(getSyncTargets(type)).toEqual(targets);
+  });
+
+  it("refreshes notifications for unknown or missing types", () => {
+    expect(getSyncTargets("SOMETHING_NEW")).toEqual(["notifications"]);
+    expect(getSyncTargets()).toEqual(["notifications"]);
+  });
+});
+
+describe("syncDataForNotification", () => {
+  beforeEach(async () => {
+    queryClient.clear();
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    // Drops the garbage collection timers of the cached queries
+    queryClient.clear();
+  });
+
+  it("invalidates the restored disk cache and saves it for the next launch", async () => {
+    // What an earlier session left on disk
+    const previous = new QueryClient();
+    previous.setQueryData(queryKeys.caseList(USER_ID, "all"), [{ id: "c1" }]);
+    previous.setQueryData(queryKeys.emails(USER_ID), []);
+    const { queries } = dehydrate(previous);
+    await AsyncStorage.multiSet(
+      queries.map((query) => [
+        `${CACHE_KEY}:${query.queryHash}`,
+        JSON.stringify(query),
+      ]),
+    );
+    await AsyncStorage.setItem(
+      CACHE_KEY,
+      JSON.stringify({
+        version: 2,
+        savedAt: Date.now(),
+        queryHashes: queries.map((query) => query.queryHash),
+      }),
+    );
+    previous.clear();
+
+    await syncDataForNotification(
+      { type: "CASE_STATUS_UPDATE", caseId: "c1" },
+      { refetch: false },
+    );
+
+    expect(
+      queryClient.getQueryState(queryKeys.caseList(USER_ID, "all"))
+        ?.isInvalidated,
+    ).toBe(true);
+    expect(
+      (await readPersistedQuery(queryKeys.caseList(USER_ID, "all"))).state
+        .isInvalidated,
+    ).toBe(true);
+    expect(
+      (await readPersistedQuery(queryKeys.emails(USER_ID))).state.isInvalidated,
+    ).toBe(false);
+  });
+
+  it("refreshes loaded months and the open appointment", async () => {
+    const appointments = useAppointmentsStore.getState();
+    appointments.monthAppointments = { "2026-03": [], "2026-04": [] };
+    appointments.selectedAppointment = { id: "apt-1" } as never;
+
+    await syncDataForNotification({
+      type: "APPOINTMENT_UPDATED",
+      appointmentId: "apt-1",
+    });
+
+    expect(appointments.fetchMonth).toHaveBeenCalledWith(new Date(2026, 2, 1));
+    expect(appointments.fetchMonth).toHaveBeenCalledWith(new Date(2026, 3, 1));
+    expect(appointments.fetchAppointmentById).toHaveBeenCalledWith("apt-1");
+    expect(appointments.fetchAppointments).not.toHaveBeenCalled();
+  });
+
+  it("leaves an unrelated open appointment alone", async () => {
+    const appointments = useAppointmentsStore.getState();
+    appointments.selectedAppointment = { id: "apt-2" } as never;
+
+    await syncDataForNotification({
+      type: "APPOINTMENT_CANCELLED",
+      appointmentId: "apt-1",
+    });
+
+    expect(appointments.fetchAppointmentById).not.toHaveBeenCalled();
+  });
+});
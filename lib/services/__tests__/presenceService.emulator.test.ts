@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+import { AppState, AppStateStatus } from "react-native";
+import { deleteApp } from "firebase/app";
+import {
+  createUserWithEmailAndPassword,
+  signOut,
+  type User,
+} from "firebase/auth";
+import { get, goOffline, ref, serverTimestamp, set } from "firebase/database";
+import { app, auth, database } from "@/lib/firebase/config";
+
+/**
+ * Runs against the Auth and Realtime Database emulators with the rules in
+ * test/firebase. `pnpm test:emulator` starts them and sets their hosts; it
+ * needs the Firebase CLI and a Java runtime. Without the hosts the suite is
+ * skipped.
+ */
+
+jest.mock("@/lib/firebase/config", () => {
+  const { initializeApp } = require("firebase/app");
+  const { connectAuthEmulator, getAuth } = require("firebase/auth");
+  const { connectDatabaseEmulator, getDatabase } = require("firebase/database");
+
+  const projectId = "demo-presence";
+  const app = initializeApp({
+    apiKey: "demo-key",
+    projectId,
+    databaseURL: `http://${process.env.FIREBASE_DATABASE_EMULATOR_HOST}?ns=${projectId}`,
+  });
+  const auth = getAuth(app);
+  const database = getDatabase(app);
+  if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+    connectAuthEmulator(
+      auth,
+      `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}`,
+      { disableWarnings: true },
+    );
+    const [host, port] =
+      process.env.FIREBASE_DATABASE_EMULATOR_HOST!.split(":");
+    connectDatabaseEmulator(database, host, Number(port));
+  }
+  return { app, auth, database, getDatabaseInstance: () => database };
+});
+
+const hasEmulators =
+  !!process.env.FIREBASE_AUTH_EMULATOR_HOST &&
+  !!process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+
+const WAIT_TIMEOUT_MS = 5000;
+
+/** Poll the status node until it matches, since writes land asynchronously */
+const waitForStatus = async (
+  uid: string,
+  predicate: (status: any) => boolean,
+) => {
+  const deadline = Date.now() + WAIT_TIMEOUT_MS;
+  let status: any = null;
+  while (Date.now() < deadline) {
+    status = (await get(ref(database!, `status/${uid}`))).val();
+    if (predicate(status)) {
+      return status;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`Status never matched: ${JSON.stringify(status)}`);
+};
+
+const connectionCount = (status: any) =>
+  Object.keys(status?.connections ?? {}).length;
+
+(hasEmulators ? describe : describe.skip)("presenceService", () => {
+  let presenceService: typeof import("../presenceService").presenceService;
+  let stopTracking: () => void;
+  let user: User;
+
+  const setAppState = (state: AppStateStatus) => {
+    const [[, handler]] = (AppState.addEventListener as jest.Mock).mock.calls;
+    handler(state);
+  };
+
+  beforeAll(() => {
+    // The service reads the state when it loads
+    Object.assign(AppState, { currentState: "active" });
+    ({ presenceService } = require("../presenceService"));
+  });
+
+  beforeEach(async () => {
+    (AppState.addEventListener as jest.Mock).mockClear();
+    stopTracking = presenceService.initializePresenceTracking();
+    const credential = await createUserWithEmailAndPassword(
+      auth,
+      `client-${Date.now()}@example.com`,
+      "password123",
+    );
+    user = credential.user;
+  });
+
+  afterEach(async () => {
+    stopTracking();
+    await signOut(auth);
+  });
+
+  afterAll(async () => {
+    goOffline(database!);
+    await deleteApp(app);
+  });
+
+  it("registers this device as a connection once signed in", async () => {
+    const status = await waitForStatus(
+      user.uid,
+      (value) => connectionCount(value) === 1,
+    );
+
+    expect(status.state).toBe("online");
+    expect(Object.values(status.connections)).toEqual([
+      expect.objectContaining({ platform: expect.any(String) }),
+    ]);
+  });
+
+  it("keeps the user online while another device is connected", async () => {
+    await waitForStatus(user.uid, (value) => connectionCount(value) === 1);
+    await set(ref(database!, `status/${user.uid}/connections/laptop`), {
+      connectedAt: serverTimestamp(),
+      platform: "web",
+    });
+
+    setAppState("background");
+
+    const status = await waitForStatus(
+      user.uid,
+      (value) => connectionCount(value) === 1 && !!value.lastSeen,
+    );
+    expect(Object.keys(status.connections)).toEqual(["laptop"]);
+  });
+
+  it("removes the device connection before signing out", async () => {
+    await waitForStatus(user.uid, (value) => connectionCount(value) === 1);
+
+    await presenceService.disconnectDevice();
+    await signOut(auth);
+
+    const status = await waitForStatus(user.uid, (value) => !!value?.lastSeen);
+    expect(connectionCount(status)).toBe(0);
+  });
+
+  it("cannot remove the connection once signed out", async () => {
+    await waitForStatus(user.uid, (value) => connectionCount(value) === 1);
+
+    // What logout did before it disconnected the device first
+    await signOut(auth);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    const status = await waitForStatus(user.uid, () => true);
+    expect(connectionCount(status)).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+import * as Notifications from "expo-notifications";
+import { router } from "expo-router";
+import { handleNotificationResponse } from "../pushNotifications";
+
+jest.mock("expo-notifications", () => ({
+  DEFAULT_ACTION_IDENTIFIER: "expo.modules.notifications.actions.DEFAULT",
+  setNotificationHandler: jest.fn(),
+  clearLastNotificationResponse: jest.fn(),
+  dismissNotificationAsync: jest.fn(() => Promise.resolve()),
+}));
+jest.mock("expo-router", () => ({ router: { push: jest.fn() } }));
+jest.mock("../../api/axios", () => ({ apiClient: {} }));
+jest.mock("../notificationSync", () => ({
+  syncDataForNotification: jest.fn(() => Promise.resolve()),
+}));
+jest.mock("../notificationActions", () => ({
+  handleNotificationAction: jest.fn(() => Promise.resolve()),
+}));
+
+const tap = (identifier: string) =>
+  ({
+    actionIdentifier: Notifications.DEFAULT_ACTION_IDENTIFIER,
+    notification: {
+      request: {
+        identifier,
+        content: { data: { type: "NEW_MESSAGE", caseId: "case-1" } },
+      },
+    },
+  }) as unknown as Notifications.NotificationResponse;
+
+describe("handleNotificationResponse", () => {
+  it("acts on a response once and clears it for later launches", async () => {
+    await handleNotificationResponse(tap("push-1"));
+    await handleNotificationResponse(tap("push-1"));
+
+    expect(router.push).toHaveBeenCalledTimes(1);
+    expect(Notifications.clearLastNotificationResponse).toHaveBeenCalledTimes(
+      1,
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import * as Notifications from "expo-notifications";
+import i18n from "../i18n";
+import { NOTIFICATION_CATEGORIES } from "../constants";
+import { secureStorage } from "../storage/secureStorage";
+import { getAppointmentStart } from "../utils/calendar";
+import { logger } from "../utils/logger";
+import type { Appointment } from "../types";
+
+const REMINDERS_KEY = "appointment_reminders";
+const REMINDER_OFFSETS_KEY = "appointment_reminder_offsets";
+
+/** Offsets the user can pick from, in minutes before the appointment */
+export const REMINDER_OFFSET_OPTIONS = [15, 60, 24 * 60, 2 * 24 * 60];
+export const DEFAULT_REMINDER_OFFSETS = [24 * 60, 60];
+
+interface ScheduledReminders {
+  notificationIds: string[];
+  /** Start time and offsets the reminders were built for */
+  signature: string;
+  startsAt: number;
+}
+
+type ReminderIndex = Record<string, ScheduledReminders>;
+
+const loadIndex = async () =>
+  (await secureStorage.get<ReminderIndex>(REMINDERS_KEY)) ?? {};
+
+const saveIndex = (index: ReminderIndex) =>
+  secureStorage.set(REMINDERS_KEY, index);
+
+const buildSignature = (startsAt: number, offsets: number[]) =>
+  `${startsAt}:${[...offsets].sort((a, b) => a - b).join(",")}`;
+
+const cancelNotifications = async (notificationIds: string[]) => {
+  await Promise.all(
+    notificationIds.map((id) =>
+      Notifications.cancelScheduledNotificationAsync(id).catch((error) =>
+        logger.debug("Failed to cancel appointment reminder", { id, error }),
+      ),
+    ),
+  );
+};
+
+const hasPermission = async () => {
+  const { status } = await Notifications.getPermissionsAsync();
+  if (status === "granted") return true;
+  const request = await Notifications.requestPermissionsAsync();
+  return request.status === "granted";
+};
+
+export const getAppointmentTitle = (appointment: Appointment) =>
+  appointment.title ||
+  i18n.t("appointments.defaultTitle", {
+    reference: appointment.case?.referenceNumber,
+    defaultValue: "Appointment · {{reference}}",
+  });
+
+const formatOffset = (minutes: number) =>
+  minutes % (24 * 60) === 0
+    ? i18n.t("appointments.reminderInDays", {
+        count: minutes / (24 * 60),
+        defaultValue: "In {{count}} day(s)",
+      })
+    : minutes % 60 === 0
+      ? i18n.t("appointments.reminderInHours", {
+          count: minutes / 60,
+          defaultValue: "In {{count}} hour(s)",
+        })
+      : i18n.t("appointments.reminderInMinutes", {
+          count: minutes,
+          defaultValue: "In {{count}} minutes",
+        });
+
+const scheduleFor = async (
+  appointment: Appointment,
+  startsAt: number,
+  offsets: number[],
+) => {
+  const now = Date.now();
+  const notificationIds: string[] = [];
+
+  for (const minutes of offsets) {
+    const fireAt = startsAt - minutes * 60 * 1000;
+    if (fireAt <= now) continue;
+
+    const id = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: getAppointmentTitle(appointment),
+        body: [formatOffset(minutes), appointment.location]
+          .filter(Boolean)
+          .join(" · "),
+        data: {
+          type: "APPOINTMENT_REMINDER",
+          appointmentId: appointment.id,
+          caseId: appointment.case?.id,
+        },
+        categoryIdentifier: NOTIFICATION_CATEGORIES.APPOINTMENT,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(fireAt),
+        channelId: "default",
+      },
+    });
+    notificationIds.push(id);
+  }
+
+  return notificationIds;
+};
+
+/**
+ * Local reminders for appointments, scheduled on the device so they fire
+ * even when the app is offline.
+ */
+export const appointmentReminders = {
+  async getOffsets(): Promise<number[]> {
+    return (
+      (await secureStorage.get<number[]>(REMINDER_OFFSETS_KEY)) ??
+      DEFAULT_REMINDER_OFFSETS
+    );
+  },
+
+  async setOffsets(offsets: number[]): Promise<void> {
+    await secureStorage.set(REMINDER_OFFSETS_KEY, offsets);
+  },
+
+  /**
+   * Bring scheduled reminders in line with the given appointments. Moved
+   * appointments are rescheduled and cancelled ones lose their reminders;
+   * appointments missing from the list are left alone since it may be a
+   * single page.
+   */
+  async sync(appointments: Appointment[], offsets: number[]): Promise<void> {
+    try {
+      const index = await loadIndex();
+      const now = Date.now();
+      let permissionChecked = false;
+      let permitted = false;
+
+      // Forget reminders for appointments that have already started
+      for (const [appointmentId, entry] of Object.entries(index)) {
+        if (entry.startsAt <= now) {
+          delete index[appointmentId];
+        }
+      }
+
+      for (const appointment of appointments) {
+        const startsAt = getAppointmentStart(appointment);
+        const existing = index[appointment.id];
+        const isActive =
+          startsAt !== null &&
+          startsAt > now &&
+          (appointment.status ?? "SCHEDULED") === "SCHEDULED";
+
+        if (!isActive || offsets.length === 0) {
+          if (existing) {
+            await cancelNotifications(existing.notificationIds);
+            delete index[appointment.id];
+          }
+          continue;
+        }
+
+        const signature = buildSignature(startsAt, offsets);
+        if (existing?.signature === signature) continue;
+
+        if (!permissionChecked) {
+          permitted = await hasPermission();
+          permissionChecked = true;
+        }
+        if (!permitted) {
+          logger.info("Appointment reminders skipped: permission denied");
+          break;
+        }
+
+        if (existing) {
+          await cancelNotifications(existing.notificationIds);
+        }
+        index[appointment.id] = {
+          notificationIds: await scheduleFor(appointment, startsAt, offsets),
+          signature,
+          startsAt,
+        };
+      }
+
+      await saveIndex(index);
+    } catch (error) {
+      logger.warn("Failed to sync appointment reminders", error);
+    }
+  },
+
+  async cancelAll(): Promise<void> {
+    const index = await loadIndex();
+    await cancelNotifications(
+      Object.values(index).flatMap((entry) => entry.notificationIds),
+    );
+    await secureStorage.delete(REMINDERS_KEY);
+  },
+};
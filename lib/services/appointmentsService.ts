@@ -1,6 +1,10 @@
 import { apiClient } from "../api/axios";
 import { logger } from "../utils/logger";
-import type { Appointment } from "../types";
+import type {
+  Appointment,
+  AppointmentStatus,
+  AppointmentsPage,
+} from "../types";
 
 interface ApiResponse<T> {
   success: boolean;
@@ -12,9 +16,49 @@ interface UpcomingAppointmentPayload {
   appointment: Appointment | null | undefined;
 }
 
+interface AppointmentListPayload {
+  appointments?: any[];
+  pagination?: {
+    page?: number;
+    totalPages?: number;
+    hasMore?: boolean;
+  };
+}
+
+export type AppointmentScope = "upcoming" | "past";
+
+export interface AppointmentListFilters {
+  scope?: AppointmentScope;
+  /** ISO date, inclusive */
+  from?: string;
+  /** ISO date, exclusive */
+  to?: string;
+  caseId?: string;
+  page?: number;
+  limit?: number;
+}
+
+const APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  "SCHEDULED",
+  "COMPLETED",
+  "CANCELLED",
+  "MISSED",
+];
+
+const normalizeAppointmentStatus = (
+  status: unknown,
+): AppointmentStatus | undefined => {
+  const normalized = String(status ?? "").toUpperCase();
+  if (normalized === "CANCELED") return "CANCELLED";
+  return APPOINTMENT_STATUSES.find((value) => value === normalized);
+};
+
 const mapAppointment = (appointment: any): Appointment => ({
   id: String(appointment.id ?? ""),
   scheduledAt: String(appointment.scheduledAt ?? ""),
+  endsAt: appointment.endsAt ?? appointment.endAt ?? null,
+  title: appointment.title ?? null,
+  status: normalizeAppointmentStatus(appointment.status),
   location: appointment.location ?? null,
   notes: appointment.notes ?? null,
   case: {
@@ -33,6 +77,88 @@ const mapAppointment = (appointment: any): Appointment => ({
 });
 
 export const appointmentsService = {
+  /**
+   * Get one page of appointments. Upcoming appointments are sorted soonest
+   * first, past ones most recent first.
+   */
+  async getAppointments(
+    filters: AppointmentListFilters = {},
+  ): Promise<AppointmentsPage> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const params = new URLSearchParams();
+    params.set("page", String(page));
+    params.set("limit", String(limit));
+    if (filters.scope) params.set("scope", filters.scope);
+    if (filters.from) params.set("from", filters.from);
+    if (filters.to) params.set("to", filters.to);
+    if (filters.caseId) params.set("caseId", filters.caseId);
+
+    try {
+      const response = await apiClient.get<ApiResponse<AppointmentListPayload>>(
+        `/appointments?${params.toString()}`,
+      );
+
+      const rawAppointments = response.data.data?.appointments ?? [];
+      const pagination = response.data.data?.pagination;
+      const appointments = rawAppointments.map(mapAppointment);
+      const hasMore =
+        pagination?.hasMore ??
+        (pagination?.totalPages !== undefined
+          ? page < pagination.totalPages
+          : appointments.length >= limit);
+
+      logger.info("Appointments fetched", {
+        scope: filters.scope,
+        page,
+        count: appointments.length,
+      });
+      return { appointments, page, hasMore };
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        return { appointments: [], page, hasMore: false };
+      }
+      logger.error("Error fetching appointments", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get a single appointment by ID
+   */
+  async getAppointmentById(appointmentId: string): Promise<Appointment> {
+    try {
+      const response = await apiClient.get<
+        ApiResponse<{ appointment?: any } | any>
+      >(`/appointments/${appointmentId}`);
+
+      const data = response.data.data;
+      const rawAppointment = data?.appointment ?? data;
+      if (!rawAppointment?.id) {
+        throw new Error("Appointment not found");
+      }
+      return mapAppointment(rawAppointment);
+    } catch (error: any) {
+      logger.error("Error fetching appointment", { appointmentId, error });
+      throw error;
+    }
+  },
+
+  /**
+   * Let the advisor know the client will attend
+   */
+  async confirmAppointment(appointmentId: string): Promise<void> {
+    try {
+      await apiClient.post<ApiResponse<unknown>>(
+        `/appointments/${appointmentId}/confirm`,
+      );
+      logger.info("Appointment confirmed", { appointmentId });
+    } catch (error: any) {
+      logger.error("Error confirming appointment", { appointmentId, error });
+      throw error;
+    }
+  },
+
   async getUpcoming(): Promise<Appointment | null> {
     try {
       const response = await apiClient.get<
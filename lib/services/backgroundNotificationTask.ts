@@ -0,0 +1,93 @@
+/**
+ * Background Notification Task
+ * Runs for pushes that arrive while the app is backgrounded or terminated.
+ * The task is defined when this module loads, so the entry point imports
+ * it before anything else; the OS may start the JS bundle just to run it.
+ */
+
+import * as Notifications from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import { AppState, Platform } from "react-native";
+import { logger } from "../utils/logger";
+import {
+  processBackgroundNotification,
+  type BackgroundNotificationContent,
+} from "./fcm";
+import {
+  handleNotificationResponse,
+  type NotificationData,
+} from "./pushNotifications";
+
+export const BACKGROUND_NOTIFICATION_TASK = "background-notification-task";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown) => (typeof value === "string" ? value : null);
+
+/**
+ * Android delivers the data payload as a JSON string; iOS nests the custom
+ * data under `body` next to `aps`.
+ */
+const readTaskData = (data: Record<string, unknown>): NotificationData => {
+  if (typeof data.dataString === "string") {
+    try {
+      const parsed = JSON.parse(data.dataString);
+      return isRecord(parsed) ? parsed : {};
+    } catch (error) {
+      logger.warn("Background notification data is not valid JSON", error);
+      return {};
+    }
+  }
+  return isRecord(data.body) ? data.body : data;
+};
+
+const toNotificationContent = (
+  payload: Exclude<
+    Notifications.NotificationTaskPayload,
+    Notifications.NotificationResponse
+  >,
+): BackgroundNotificationContent => {
+  const data = readTaskData(payload.data ?? {});
+  const alert = isRecord(payload.aps) ? payload.aps.alert : null;
+  const source = payload.notification ?? (isRecord(alert) ? alert : data);
+  return {
+    title: asText(source.title),
+    body: asText(source.body) ?? asText(source.message),
+    data,
+  };
+};
+
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(
+  BACKGROUND_NOTIFICATION_TASK,
+  async ({ data, error }) => {
+    if (error) {
+      logger.error("Background notification task failed", error);
+      return;
+    }
+
+    if ("actionIdentifier" in data) {
+      // Buttons that keep the app hidden reach this task even when the app
+      // is not running; a response the listener already took is skipped.
+      // Taps open the app, where the listener or cold start check runs.
+      if (data.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+        await handleNotificationResponse(data);
+      }
+      return;
+    }
+
+    // In the foreground the received listener syncs instead
+    if (AppState.currentState === "active") {
+      return;
+    }
+    await processBackgroundNotification(toNotificationContent(data));
+  },
+);
+
+if (Platform.OS !== "web") {
+  Notifications.registerTaskAsync(BACKGROUND_NOTIFICATION_TASK).catch(
+    (error) => {
+      logger.warn("Could not register background notification task", error);
+    },
+  );
+}
@@ -0,0 +1,82 @@
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import i18n from "../i18n";
+import { buildAppointmentIcs } from "../utils/calendar";
+import { logger } from "../utils/logger";
+import { getAppointmentTitle } from "./appointmentReminders";
+import type { Appointment } from "../types";
+
+const buildDescription = (appointment: Appointment) => {
+  const lines: string[] = [];
+  if (appointment.case?.referenceNumber) {
+    lines.push(
+      i18n.t("appointments.caseReference", {
+        reference: appointment.case.referenceNumber,
+        defaultValue: "Case {{reference}}",
+      }),
+    );
+  }
+  if (appointment.assignedAgent) {
+    const { firstName, lastName, email } = appointment.assignedAgent;
+    const name = `${firstName} ${lastName}`.trim() || email;
+    lines.push(
+      i18n.t("appointments.withAdvisor", {
+        name,
+        defaultValue: "With {{name}}",
+      }),
+    );
+  }
+  if (appointment.notes) {
+    lines.push("", appointment.notes);
+  }
+  return lines.join("\n");
+};
+
+/**
+ * Hands appointments to the device calendar as .ics files through the
+ * share sheet, which every calendar app can import from.
+ */
+export const calendarExport = {
+  async exportAppointment(
+    appointment: Appointment,
+    reminderOffsets: number[] = [],
+  ): Promise<void> {
+    const ics = buildAppointmentIcs(appointment, {
+      title: getAppointmentTitle(appointment),
+      description: buildDescription(appointment),
+      reminderOffsets,
+    });
+    if (!ics) {
+      throw new Error(
+        i18n.t("appointments.exportInvalidDate", {
+          defaultValue: "This appointment has no valid date.",
+        }),
+      );
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error(
+        i18n.t("appointments.exportUnavailable", {
+          defaultValue: "Sharing is not available on this device.",
+        }),
+      );
+    }
+
+    const directory = FileSystem.cacheDirectory || FileSystem.documentDirectory;
+    const fileUri = `${directory}appointment-${appointment.id}.ics`;
+    await FileSystem.writeAsStringAsync(fileUri, ics, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    await Sharing.shareAsync(fileUri, {
+      mimeType: "text/calendar",
+      UTI: "com.apple.ical.ics",
+      dialogTitle: i18n.t("appointments.addToCalendar", {
+        defaultValue: "Add to calendar",
+      }),
+    });
+    logger.info("Appointment exported to calendar", {
+      appointmentId: appointment.id,
+    });
+  },
+};
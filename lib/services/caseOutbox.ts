@@ -0,0 +1,124 @@
+import { isApiError } from "../api/client";
+import { secureStorage } from "../storage/secureStorage";
+import { logger } from "../utils/logger";
+import type { Case, CreateCaseRequest } from "../types";
+
+export type CaseOutboxOperation = "create" | "update" | "delete";
+
+export type CaseOutboxStatus = "pending" | "syncing" | "failed";
+
+export interface CaseOutboxEntry {
+  id: string;
+  operation: CaseOutboxOperation;
+  /**
+   * Case the mutation targets. For queued creates this is the local temp ID
+   * until the server assigns a UUID, after which queued entries are rewritten.
+   */
+  caseId: string;
+  payload?: CreateCaseRequest | Partial<Case>;
+  /** Sent with a queued create so the backend drops a duplicate */
+  idempotencyKey?: string;
+  status: CaseOutboxStatus;
+  attempts: number;
+  lastError?: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const STORAGE_KEY_PREFIX = "case_outbox_"; // Will be suffixed with user ID
+const LOCAL_CASE_ID_PREFIX = "local-case-";
+
+const getStorageKey = (userId?: string | null): string =>
+  userId ? `${STORAGE_KEY_PREFIX}${userId}` : `${STORAGE_KEY_PREFIX}no_user`;
+
+const generateId = (prefix: string) =>
+  `${prefix}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * True when the request never reached the backend (offline, DNS, timeout),
+ * as opposed to the backend rejecting it.
+ */
+export const isNetworkError = (error: any): boolean => {
+  if (!error || error.response) {
+    return false;
+  }
+  if (isApiError(error)) {
+    return error.code === "NETWORK_ERROR" || error.code === "TIMEOUT";
+  }
+  return (
+    error.message === "Network Error" ||
+    error.code === "ERR_NETWORK" ||
+    error.code === "ECONNABORTED" ||
+    error.code === "ETIMEDOUT"
+  );
+};
+
+export const isLocalCaseId = (caseId?: string | null): boolean =>
+  typeof caseId === "string" && caseId.startsWith(LOCAL_CASE_ID_PREFIX);
+
+export const caseOutbox = {
+  createLocalCaseId(): string {
+    return generateId(LOCAL_CASE_ID_PREFIX);
+  },
+
+  createEntry(
+    operation: CaseOutboxOperation,
+    caseId: string,
+    payload?: CaseOutboxEntry["payload"],
+  ): CaseOutboxEntry {
+    const now = Date.now();
+    return {
+      id: generateId("case_mutation_"),
+      operation,
+      caseId,
+      payload,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+  },
+
+  async load(userId?: string | null): Promise<CaseOutboxEntry[]> {
+    const stored = await secureStorage.get<CaseOutboxEntry[]>(
+      getStorageKey(userId),
+    );
+    if (!Array.isArray(stored)) {
+      return [];
+    }
+    // An entry left "syncing" means the app was killed mid-request; the
+    // server may or may not have applied it, so replay it.
+    return stored.map((entry) =>
+      entry.status === "syncing" ? { ...entry, status: "pending" } : entry,
+    );
+  },
+
+  async save(
+    entries: CaseOutboxEntry[],
+    userId?: string | null,
+  ): Promise<void> {
+    try {
+      if (entries.length === 0) {
+        await secureStorage.delete(getStorageKey(userId));
+        return;
+      }
+      await secureStorage.set(getStorageKey(userId), entries);
+    } catch (error) {
+      logger.warn("Failed to persist case outbox", error);
+    }
+  },
+
+  /**
+   * Point queued mutations that still reference a temp ID at the server UUID.
+   */
+  reassignCaseId(
+    entries: CaseOutboxEntry[],
+    fromId: string,
+    toId: string,
+  ): CaseOutboxEntry[] {
+    return entries.map((entry) =>
+      entry.caseId === fromId ? { ...entry, caseId: toId } : entry,
+    );
+  },
+};
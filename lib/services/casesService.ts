@@ -1,12 +1,19 @@
-import { apiClient } from "../api/axios";
+import { api } from "../api/client";
+import {
+  caseDetailContract,
+  caseHistoryContract,
+  caseListContract,
+  createCaseContract,
+  emptyContract,
+} from "../api/contracts";
+import { withIdempotencyKey } from "../api/retry";
 import { logger } from "../utils/logger";
-import type { Case, CaseStatus, CreateCaseRequest } from "../types";
-
-interface ApiResponse<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-}
+import type {
+  Case,
+  CaseStatus,
+  CaseStatusEvent,
+  CreateCaseRequest,
+} from "../types";
 
 const UUID_REGEX =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -38,7 +45,8 @@ const formatServiceType = (serviceType: string) =>
     .replace(/(^|\s)\w/g, (c) => c.toUpperCase());
 
 const mapCase = (apiCase: any): Case => {
-  const status = (apiCase.status || "SUBMITTED") as CaseStatus;
+  // Raw, so a status the app does not know yet renders as unknown
+  const status: string = apiCase.status ?? "";
   const client = apiCase.client
     ? {
         id: apiCase.client.id,
@@ -73,7 +81,34 @@ const mapCase = (apiCase: any): Case => {
     client,
     assignedAgent: assignedAgent ?? null,
     displayName: formatServiceType(apiCase.serviceType),
-    progress: CASE_STATUS_PROGRESS_MAP[status] ?? 0,
+    progress: CASE_STATUS_PROGRESS_MAP[status as CaseStatus] ?? null,
+  };
+};
+
+const mapCaseStatusEvent = (event: any, index: number): CaseStatusEvent => {
+  const actor = event.actor ?? event.changedBy ?? event.performedBy;
+  const actorName = actor
+    ? (actor.name ??
+      (`${actor.firstName ?? ""} ${actor.lastName ?? ""}`.trim() ||
+        actor.email ||
+        ""))
+    : "";
+
+  return {
+    id: String(event.id ?? `${event.status}-${index}`),
+    status: (event.status ?? event.toStatus ?? "SUBMITTED") as CaseStatus,
+    previousStatus: (event.previousStatus ??
+      event.fromStatus ??
+      null) as CaseStatus | null,
+    timestamp: String(event.timestamp ?? event.changedAt ?? event.createdAt),
+    actor: actorName
+      ? {
+          id: actor.id ?? null,
+          name: actorName,
+          role: actor.role ?? undefined,
+        }
+      : null,
+    note: event.note ?? event.notes ?? event.comment ?? null,
   };
 };
 
@@ -112,10 +147,10 @@ const resolveCaseIdInternal = async (
       params.set("limit", "5");
       params.set("page", "1");
 
-      const response = await apiClient.get<
-        ApiResponse<{ cases: any[]; pagination: any }>
-      >(`/cases?${params.toString()}`);
-      const apiCases = response.data.data?.cases || [];
+      const { cases: apiCases } = await api.get(
+        `/cases?${params.toString()}`,
+        caseListContract,
+      );
       const mappedCases = apiCases.map(mapCase);
       const matchedCase = mappedCases.find(
         (caseItem) =>
@@ -132,7 +167,7 @@ const resolveCaseIdInternal = async (
     } catch (error: any) {
       logger.error("Failed to resolve case identifier", {
         caseIdentifier: normalized,
-        error: error?.response?.data?.error || error.message || error,
+        error: error?.message || error,
       });
       throw error;
     } finally {
@@ -154,6 +189,40 @@ export const casesService = {
     return resolveCaseIdInternal(caseIdentifier);
   },
 
+  /**
+   * Map an identifier (e.g. an offline temp ID) onto a server case UUID so
+   * later lookups resolve without a network round trip.
+   */
+  registerCaseIdAlias(alias: string, caseId: string): void {
+    const normalizedAlias = sanitizeCaseIdentifier(alias);
+    if (!normalizedAlias || !isUuid(caseId)) {
+      return;
+    }
+    caseIdCache.set(normalizedAlias, caseId);
+    caseIdCache.set(caseId, caseId);
+  },
+
+  /**
+   * Build a placeholder case for a create that has not reached the server yet
+   */
+  buildLocalCase(
+    localId: string,
+    data: CreateCaseRequest,
+    createdAt: number = Date.now(),
+  ): Case {
+    const now = new Date(createdAt).toISOString();
+    return mapCase({
+      id: localId,
+      referenceNumber: "",
+      serviceType: data.serviceType,
+      status: "SUBMITTED",
+      priority: data.priority ?? "NORMAL",
+      submissionDate: now,
+      lastUpdated: now,
+      destinationId: data.destinationId,
+    });
+  },
+
   /**
    * Get all cases for the current user
    */
@@ -190,11 +259,10 @@ export const casesService = {
       }
 
       const query = params.toString();
-      const response = await apiClient.get<
-        ApiResponse<{ cases: any[]; pagination: any }>
-      >(query ? `/cases?${query}` : "/cases");
-
-      const cases = response.data.data?.cases || [];
+      const { cases } = await api.get(
+        query ? `/cases?${query}` : "/cases",
+        caseListContract,
+      );
       const mapped = cases.map(mapCase);
       logger.info("Cases fetched successfully", { count: mapped.length });
       return mapped;
@@ -210,26 +278,8 @@ export const casesService = {
   async getCaseById(caseIdentifier: string): Promise<Case> {
     const caseId = await resolveCaseIdInternal(caseIdentifier);
     try {
-      const response = await apiClient.get<ApiResponse<any>>(
-        `/cases/${caseId}`,
-      );
-
-      // Handle both { success, data: Case } and { success, data: { case: Case } }
-      let caseData: any | undefined;
-      if (response.data.success && response.data.data) {
-        const data = response.data.data;
-        if ("case" in data && typeof data === "object") {
-          caseData = (data as any).case;
-        } else {
-          caseData = data as Case;
-        }
-      }
-
-      if (!caseData) {
-        throw new Error("Case not found");
-      }
-
-      const mapped = mapCase(caseData);
+      const data = await api.get(`/cases/${caseId}`, caseDetailContract);
+      const mapped = mapCase(data.case);
       logger.info("Case fetched successfully", { caseId });
       return mapped;
     } catch (error: any) {
@@ -238,12 +288,49 @@ export const casesService = {
     }
   },
 
+  /**
+   * Get every status transition recorded for a case, oldest first
+   */
+  async getCaseHistory(caseIdentifier: string): Promise<CaseStatusEvent[]> {
+    const caseId = await resolveCaseIdInternal(caseIdentifier);
+    try {
+      const data = await api.get(
+        `/cases/${caseId}/history`,
+        caseHistoryContract,
+      );
+
+      const rawEvents = data?.history ?? data?.events ?? [];
+      const events = rawEvents
+        .map(mapCaseStatusEvent)
+        .sort(
+          (a, b) =>
+            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+        );
+      logger.info("Case history fetched successfully", {
+        caseId,
+        count: events.length,
+      });
+      return events;
+    } catch (error: any) {
+      // Older backends do not expose history yet - treat as empty
+      if (error?.status === 404) {
+        logger.info("Case history not available", { caseId });
+        return [];
+      }
+      logger.error("Error fetching case history", { caseIdentifier, error });
+      throw error;
+    }
+  },
+
   /**
    * Create a new case
    * Note: Backend will verify subscription status before allowing case creation
    * If subscription is not active, backend returns 403 with SUBSCRIPTION_REQUIRED or SUBSCRIPTION_EXPIRED
    */
-  async createCase(data: CreateCaseRequest): Promise<Case> {
+  async createCase(
+    data: CreateCaseRequest,
+    idempotencyKey?: string,
+  ): Promise<Case> {
     try {
       logger.info("Sending createCase request to API", {
         endpoint: "/cases",
@@ -254,41 +341,27 @@ export const casesService = {
         },
       });
 
-      const response = await apiClient.post<ApiResponse<{ case: any }>>(
+      const { case: caseData } = await api.post(
         "/cases",
+        createCaseContract,
         data,
+        withIdempotencyKey(idempotencyKey),
       );
 
-      logger.info("CreateCase API response received", {
-        success: response.data.success,
-        hasData: !!response.data.data,
-        error: response.data.error,
-      });
-
-      const caseData = response.data.data?.case;
-      if (!caseData) {
-        logger.error("CreateCase API response missing case data", {
-          response: response.data,
-        });
-        throw new Error(response.data.error || "Failed to create case");
-      }
-
       const mapped = mapCase(caseData);
       logger.info("Case created successfully", { caseId: mapped.id });
       return mapped;
     } catch (error: any) {
       logger.error("Error creating case", {
         error: error.message,
-        response: error.response?.data,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        url: error.config?.url,
-        method: error.config?.method,
+        code: error.code,
+        status: error.status,
+        details: error.details,
       });
 
       // Provide user-friendly error messages for subscription errors
-      const errorCode = error?.response?.data?.code;
-      const errorMessage = error?.response?.data?.error || error.message;
+      const errorCode = error?.code;
+      const errorMessage = error?.message;
 
       if (
         errorCode === "SUBSCRIPTION_REQUIRED" ||
@@ -318,17 +391,12 @@ export const casesService = {
   async updateCase(caseIdentifier: string, data: Partial<Case>): Promise<Case> {
     const caseId = await resolveCaseIdInternal(caseIdentifier);
     try {
-      const response = await apiClient.put<ApiResponse<any>>(
+      const caseData = await api.put(
         `/cases/${caseId}`,
+        caseDetailContract,
         data,
       );
-
-      const caseData = response.data.data;
-      if (!caseData) {
-        throw new Error(response.data.error || "Failed to update case");
-      }
-
-      const mapped = mapCase(caseData);
+      const mapped = mapCase(caseData.case);
       logger.info("Case updated successfully", { caseId });
       return mapped;
     } catch (error: any) {
@@ -343,7 +411,7 @@ export const casesService = {
   async deleteCase(caseIdentifier: string): Promise<void> {
     const caseId = await resolveCaseIdInternal(caseIdentifier);
     try {
-      await apiClient.delete(`/cases/${caseId}`);
+      await api.delete(`/cases/${caseId}`, emptyContract);
       logger.info("Case deleted successfully", { caseId });
     } catch (error: any) {
       logger.error("Error deleting case", { caseIdentifier, error });
@@ -9,6 +9,7 @@ import {
   push,
   onValue,
   onChildAdded,
+  onChildChanged,
   off,
   query,
   orderByChild,
@@ -17,7 +18,9 @@ import {
   get,
   limitToLast,
   endAt,
+  serverTimestamp,
 } from "firebase/database";
+import i18n from "../i18n";
 import { logger } from "../utils/logger";
 
 export interface ChatMessage {
@@ -39,6 +42,24 @@ export interface ChatMessage {
   status?: "pending" | "sent" | "failed";
   tempId?: string; // Temporary ID for optimistic messages
   error?: string; // Error message if failed
+  uploadProgress?: number; // 0-100 while attachments are uploading
+  editedAt?: number; // Set when the sender changed the text
+  deletedAt?: number; // Soft delete: content is cleared, the bubble stays
+  replyTo?: ChatReplyReference;
+  deliveredTo?: Record<string, number>; // Participant ID -> when it reached their device
+  readBy?: Record<string, number>; // Participant ID -> when they opened it
+}
+
+/**
+ * Snapshot of the message being replied to, so the quote still renders when
+ * the parent is outside the loaded page.
+ */
+export interface ChatReplyReference {
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  message: string;
+  hasAttachments?: boolean;
 }
 
 export interface ChatParticipants {
@@ -92,6 +113,28 @@ function getDatabaseInstance(): ReturnType<typeof getDbInstance> {
   return getDbInstance();
 }
 
+/**
+ * Map a raw `chats/{roomId}/messages/{id}` node to a ChatMessage
+ */
+function mapFirebaseMessage(id: string, firebaseData: any): ChatMessage {
+  return {
+    id,
+    caseId: firebaseData.caseId || "",
+    senderId: firebaseData.senderId || "",
+    senderName: firebaseData.senderName || "Unknown",
+    senderRole: firebaseData.senderRole || "CLIENT",
+    message: firebaseData.content || firebaseData.message || "",
+    timestamp: firebaseData.sentAt || firebaseData.timestamp || Date.now(),
+    isRead: firebaseData.isRead || false,
+    attachments: firebaseData.attachments || [],
+    editedAt: firebaseData.editedAt || undefined,
+    deletedAt: firebaseData.deletedAt || undefined,
+    replyTo: firebaseData.replyTo || undefined,
+    deliveredTo: firebaseData.deliveredTo || undefined,
+    readBy: firebaseData.readBy || undefined,
+  };
+}
+
 class ChatService {
   private async fetchMessagesForRoom(
     roomId: string,
@@ -135,20 +178,7 @@ class ChatService {
           const firebaseData = childSnapshot.val();
           if (!firebaseData || typeof firebaseData !== "object") return;
 
-          const mappedMessage: ChatMessage = {
-            id: childSnapshot.key!,
-            caseId: firebaseData.caseId || "",
-            senderId: firebaseData.senderId || "",
-            senderName: firebaseData.senderName || "Unknown",
-            senderRole: firebaseData.senderRole || "CLIENT",
-            message: firebaseData.content || firebaseData.message || "",
-            timestamp:
-              firebaseData.sentAt || firebaseData.timestamp || Date.now(),
-            isRead: firebaseData.isRead || false,
-            attachments: firebaseData.attachments || [],
-          };
-
-          messages.push(mappedMessage);
+          messages.push(mapFirebaseMessage(childSnapshot.key!, firebaseData));
         });
       }
 
@@ -579,7 +609,8 @@ class ChatService {
     }
   }
 
-  // Send a message
+  // Send a message. Passing a clientMessageId makes the write idempotent:
+  // the message is stored under that key, so resending updates it in place.
   async sendMessage(
     caseIdOrRoomId: string,
     senderId: string,
@@ -589,6 +620,9 @@ class ChatService {
     attachments?: ChatMessage["attachments"],
     clientId?: string,
     agentId?: string,
+    clientMessageId?: string,
+    replyTo?: ChatReplyReference,
+    sentAt?: number,
   ): Promise<boolean> {
     try {
       const db = getDatabaseInstance();
@@ -626,10 +660,13 @@ class ChatService {
       }
 
       const messagesRef = ref(db, `chats/${chatRoomId}/messages`);
-      const newMessageRef = push(messagesRef);
+      const newMessageRef = clientMessageId
+        ? ref(db, `chats/${chatRoomId}/messages/${clientMessageId}`)
+        : push(messagesRef);
       const messageId = newMessageRef.key!;
 
-      const timestamp = Date.now();
+      // A resend keeps the time the message was first written
+      const timestamp = sentAt ?? Date.now();
 
       // Ensure metadata exists before writing message
       const metadataRef = ref(db, `chats/${chatRoomId}/metadata`);
@@ -650,9 +687,9 @@ class ChatService {
         senderName,
         content: message,
         sentAt: timestamp,
-        isRead: false,
         caseId: messageCaseId,
         attachments: attachments || [],
+        ...(replyTo ? { replyTo } : {}),
       };
 
       if (existingMetadata.exists()) {
@@ -679,8 +716,13 @@ class ChatService {
         }
       }
 
-      // Write the message
-      await set(newMessageRef, messageData);
+      if (clientMessageId) {
+        // An earlier attempt that timed out may have landed and been read
+        // since; update leaves its read and delivery receipts alone
+        await update(newMessageRef, messageData);
+      } else {
+        await set(newMessageRef, { ...messageData, isRead: false });
+      }
 
       return true;
     } catch (error) {
@@ -689,14 +731,126 @@ class ChatService {
     }
   }
 
+  // Replace the text of a sent message and stamp it as edited
+  async editMessage(
+    chatRoomId: string,
+    messageId: string,
+    content: string,
+  ): Promise<boolean> {
+    try {
+      const db = getDatabaseInstance();
+      if (!db) {
+        logger.warn("Database not available, cannot edit message", {
+          chatRoomId,
+          messageId,
+        });
+        return false;
+      }
+
+      await update(ref(db, `chats/${chatRoomId}/messages/${messageId}`), {
+        content,
+        editedAt: Date.now(),
+      });
+      await this.updateLastMessagePreview(chatRoomId, messageId, content);
+      return true;
+    } catch (error) {
+      logger.error("Failed to edit message", error);
+      return false;
+    }
+  }
+
+  // Soft delete: the node stays so replies and ordering survive, but its
+  // content and attachments are cleared
+  async deleteMessage(chatRoomId: string, messageId: string): Promise<boolean> {
+    try {
+      const db = getDatabaseInstance();
+      if (!db) {
+        logger.warn("Database not available, cannot delete message", {
+          chatRoomId,
+          messageId,
+        });
+        return false;
+      }
+
+      await update(ref(db, `chats/${chatRoomId}/messages/${messageId}`), {
+        content: "",
+        attachments: null,
+        replyTo: null,
+        deletedAt: Date.now(),
+      });
+      await this.updateLastMessagePreview(
+        chatRoomId,
+        messageId,
+        i18n.t("chat.messageRemoved", { defaultValue: "Message removed" }),
+      );
+      return true;
+    } catch (error) {
+      logger.error("Failed to delete message", error);
+      return false;
+    }
+  }
+
+  // Conversation lists show the room and userChats previews, so rewrite
+  // them when the changed message is the latest one
+  private async updateLastMessagePreview(
+    chatRoomId: string,
+    messageId: string,
+    preview: string,
+  ): Promise<void> {
+    const db = getDatabaseInstance();
+    if (!db) {
+      return;
+    }
+
+    try {
+      const metadataRef = ref(db, `chats/${chatRoomId}/metadata`);
+      const [sentAtSnap, metadataSnap] = await Promise.all([
+        get(ref(db, `chats/${chatRoomId}/messages/${messageId}/sentAt`)),
+        get(metadataRef),
+      ]);
+      const sentAt = sentAtSnap.val();
+      const metadata = metadataSnap.val();
+      if (
+        !metadata ||
+        typeof sentAt !== "number" ||
+        sentAt < (metadata.lastMessageTime ?? 0)
+      ) {
+        return;
+      }
+
+      const previewUpdate = { lastMessage: preview.substring(0, 100) };
+      const participantIds = [
+        metadata.participants?.agentId,
+        metadata.participants?.clientId,
+      ].filter((id): id is string => typeof id === "string" && id.length > 0);
+      await Promise.all([
+        update(metadataRef, previewUpdate),
+        ...participantIds.map((participantId) =>
+          update(
+            ref(db, `userChats/${participantId}/${chatRoomId}`),
+            previewUpdate,
+          ),
+        ),
+      ]);
+    } catch (error) {
+      // The message itself changed; a stale preview is not worth failing on
+      logger.warn("Failed to update last message preview", {
+        chatRoomId,
+        error,
+      });
+    }
+  }
+
   /**
    * Optimized Firebase subscription for NEW messages only
-   * Listens only to new messages using child_added
+   * Listens only to new messages using child_added, plus child_changed when
+   * onMessageChanged is given so edits and deletions show up live
    */
   subscribeToNewMessagesOptimized(
     chatRoomId: string,
     onNewMessage: (message: ChatMessage) => void,
     lastKnownTimestamp?: number,
+    onMessageChanged?: (message: ChatMessage) => void,
   ): () => void {
     const db = getDatabaseInstance();
     if (!db) {
@@ -727,19 +881,7 @@ class ChatService {
           return;
         }
 
-        const mapped: ChatMessage = {
-          id: snapshot.key!,
-          caseId: firebaseData.caseId || "",
-          senderId: firebaseData.senderId || "",
-          senderName: firebaseData.senderName || "Unknown",
-          senderRole: firebaseData.senderRole || "CLIENT",
-          message: firebaseData.content || firebaseData.message || "",
-          timestamp,
-          isRead: firebaseData.isRead || false,
-          attachments: firebaseData.attachments || [],
-        };
-
-        onNewMessage(mapped);
+        onNewMessage(mapFirebaseMessage(snapshot.key!, firebaseData));
       },
       (error) => {
         logger.error(
@@ -749,7 +891,49 @@ class ChatService {
       },
     );
 
-    return unsubscribe;
+    if (!onMessageChanged) {
+      return unsubscribe;
+    }
+
+    const unsubscribeChanges = onChildChanged(
+      messagesRef,
+      (snapshot) => {
+        const firebaseData = snapshot.val();
+        if (!firebaseData || typeof firebaseData !== "object") {
+          return;
+        }
+        onMessageChanged(mapFirebaseMessage(snapshot.key!, firebaseData));
+      },
+      (error) => {
+        logger.error(
+          `[Firebase Message Changes] Error listening to message changes for room ${chatRoomId.substring(0, 8)}...`,
+          error,
+        );
+      },
+    );
+
+    return () => {
+      unsubscribe();
+      unsubscribeChanges();
+    };
+  }
+
+  /**
+   * Firebase connection state from `.info/connected`. Fires with false while
+   * the socket is down and true once it has (re)connected.
+   */
+  subscribeToConnectionState(
+    onChange: (connected: boolean) => void,
+  ): () => void {
+    const db = getDatabaseInstance();
+    if (!db) {
+      logger.warn("Database not available, cannot watch connection state");
+      return () => {};
+    }
+
+    return onValue(ref(db, ".info/connected"), (snapshot) => {
+      onChange(snapshot.val() === true);
+    });
   }
 
   // Load initial messages directly from Firebase
@@ -936,20 +1120,7 @@ class ChatService {
           const firebaseData = childSnapshot.val();
           if (!firebaseData || typeof firebaseData !== "object") return;
 
-          const mappedMessage: ChatMessage = {
-            id: childSnapshot.key!,
-            caseId: firebaseData.caseId || "",
-            senderId: firebaseData.senderId || "",
-            senderName: firebaseData.senderName || "Unknown",
-            senderRole: firebaseData.senderRole || "CLIENT",
-            message: firebaseData.content || firebaseData.message || "",
-            timestamp:
-              firebaseData.sentAt || firebaseData.timestamp || Date.now(),
-            isRead: firebaseData.isRead || false,
-            attachments: firebaseData.attachments || [],
-          };
-
-          messages.push(mappedMessage);
+          messages.push(mapFirebaseMessage(childSnapshot.key!, firebaseData));
         });
       }
 
@@ -999,13 +1170,18 @@ class ChatService {
       }
 
       const updatePromises: Promise<void>[] = [];
+      // Stamped by the server so a skewed device clock cannot misdate it
+      const readAt = serverTimestamp();
 
       snapshot.forEach((msgSnap) => {
         const msg = msgSnap.val();
         if (msg.senderId !== userId && !msg.isRead) {
           const messageRef = ref(db, `chats/${roomId}/messages/${msgSnap.key}`);
           updatePromises.push(
-            update(messageRef, { isRead: true }).catch((err: any) => {
+            update(messageRef, {
+              isRead: true,
+              [`readBy/${userId}`]: readAt,
+            }).catch((err: any) => {
               if (err.code !== "PERMISSION_DENIED") {
                 logger.error(
                   `Failed to mark message as read (roomId=${roomId}, messageId=${msgSnap.key}, userId=${userId})`,
@@ -1048,7 +1224,87 @@ class ChatService {
     }
   }
 
-  // Mark chat room as read
+  /**
+   * Record that messages reached (or were opened by) this participant. One
+   * multi-path update covers all of them.
+   */
+  async markMessageReceipts(
+    roomId: string,
+    messageIds: string[],
+    userId: string,
+    receipt: "delivered" | "read",
+  ): Promise<void> {
+    const db = getDatabaseInstance();
+    if (!db || messageIds.length === 0) {
+      return;
+    }
+
+    const stampedAt = serverTimestamp();
+    const updates: Record<string, unknown> = {};
+    messageIds.forEach((messageId) => {
+      if (receipt === "read") {
+        updates[`${messageId}/isRead`] = true;
+        updates[`${messageId}/readBy/${userId}`] = stampedAt;
+      } else {
+        updates[`${messageId}/deliveredTo/${userId}`] = stampedAt;
+      }
+    });
+
+    try {
+      await update(ref(db, `chats/${roomId}/messages`), updates);
+    } catch (error: any) {
+      if (error?.code !== "PERMISSION_DENIED") {
+        logger.warn("Failed to record message receipts", {
+          roomId,
+          receipt,
+          count: messageIds.length,
+          error: error?.message,
+        });
+      }
+    }
+  }
+
+  // Acknowledge delivery of the latest messages from the other participant
+  async markMessagesAsDelivered(
+    roomId: string,
+    userId: string,
+    limit: number = 50,
+  ): Promise<void> {
+    try {
+      const db = getDatabaseInstance();
+      if (!db) {
+        return;
+      }
+      const snapshot = await get(
+        query(
+          ref(db, `chats/${roomId}/messages`),
+          orderByChild("sentAt"),
+          limitToLast(limit),
+        ),
+      );
+      if (!snapshot.exists()) {
+        return;
+      }
+
+      const undelivered: string[] = [];
+      snapshot.forEach((msgSnap) => {
+        const msg = msgSnap.val();
+        if (
+          msg &&
+          msg.senderId !== userId &&
+          !msg.isRead &&
+          !msg.deliveredTo?.[userId]
+        ) {
+          undelivered.push(msgSnap.key!);
+        }
+      });
+
+      await this.markMessageReceipts(roomId, undelivered, userId, "delivered");
+    } catch (error) {
+      logger.warn("Failed to mark messages as delivered", { roomId, error });
+    }
+  }
+
   async markChatRoomAsRead(roomId: string, userId: string): Promise<boolean> {
     try {
       logger.info("\n\n\n [Chat Service] Marking chat room as read", {
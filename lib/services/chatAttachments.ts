@@ -0,0 +1,275 @@
+import * as ImagePicker from "expo-image-picker";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import i18n from "../i18n";
+import { getFileSize } from "../utils/fileInfo";
+import { logger } from "../utils/logger";
+import { uploadFileToAPI } from "./fileUpload";
+import type { ChatMessage } from "./chat";
+import type { UploadDocumentRequest } from "../types";
+
+export type ChatAttachment = NonNullable<ChatMessage["attachments"]>[number];
+
+/** A file picked in the composer that has not been uploaded yet */
+export interface PendingChatAttachment {
+  id: string;
+  uri: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export const MAX_CHAT_ATTACHMENTS = 5;
+export const MAX_CHAT_ATTACHMENT_BYTES = 25 * 1024 * 1024; // 25MB
+
+export const isImageAttachment = (attachment: { type?: string }) =>
+  (attachment.type ?? "").startsWith("image/");
+
+// Picked files live in the cache directory, which the OS may clear
+const RETAINED_DIRECTORY = "outbox-attachments/";
+
+const getRetainedDirectory = () =>
+  FileSystem.documentDirectory
+    ? `${FileSystem.documentDirectory}${RETAINED_DIRECTORY}`
+    : null;
+
+const createPendingId = () =>
+  `att-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const guessImageName = (uri: string, mimeType: string) => {
+  const fromUri = uri.split("/").pop();
+  if (fromUri && fromUri.includes(".")) return fromUri;
+  const extension = mimeType.split("/")[1] || "jpg";
+  return `photo-${Date.now()}.${extension}`;
+};
+
+/**
+ * Some pickers leave the size out; read it from disk so the size limit
+ * still applies. A file that cannot be read fails on upload instead.
+ */
+const resolveSize = async (uri: string, size: number | null | undefined) =>
+  size ?? (await getFileSize(uri)) ?? 0;
+
+const fromImageAsset = async (
+  asset: ImagePicker.ImagePickerAsset,
+): Promise<PendingChatAttachment> => {
+  const mimeType = asset.mimeType || "image/jpeg";
+  return {
+    id: createPendingId(),
+    uri: asset.uri,
+    name: asset.fileName || guessImageName(asset.uri, mimeType),
+    mimeType,
+    size: await resolveSize(asset.uri, asset.fileSize),
+  };
+};
+
+const ensurePermission = async (mode: "camera" | "library") => {
+  const permission =
+    mode === "camera"
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (permission.status !== "granted") {
+    throw new Error(
+      i18n.t("chat.attachments.permissionDenied", {
+        defaultValue:
+          "Please allow access in your device settings to attach files.",
+      }),
+    );
+  }
+};
+
+/**
+ * Drop files that are too large and report them, so the composer can tell
+ * the user which ones were skipped.
+ */
+const splitBySize = (attachments: PendingChatAttachment[]) => {
+  const accepted = attachments.filter(
+    (item) => item.size <= MAX_CHAT_ATTACHMENT_BYTES,
+  );
+  const rejected = attachments.filter(
+    (item) => item.size > MAX_CHAT_ATTACHMENT_BYTES,
+  );
+  return { accepted, rejected };
+};
+
+export const chatAttachments = {
+  async pickPhotos(limit = MAX_CHAT_ATTACHMENTS) {
+    await ensurePermission("library");
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      allowsMultipleSelection: limit > 1,
+      selectionLimit: limit,
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets?.length) {
+      return { accepted: [], rejected: [] };
+    }
+    return splitBySize(
+      await Promise.all(result.assets.slice(0, limit).map(fromImageAsset)),
+    );
+  },
+
+  async takePhoto() {
+    await ensurePermission("camera");
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ["images"],
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets?.length) {
+      return { accepted: [], rejected: [] };
+    }
+    return splitBySize([await fromImageAsset(result.assets[0])]);
+  },
+
+  async pickDocuments(limit = MAX_CHAT_ATTACHMENTS) {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: "*/*",
+      multiple: limit > 1,
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets?.length) {
+      return { accepted: [], rejected: [] };
+    }
+    return splitBySize(
+      await Promise.all(
+        result.assets.slice(0, limit).map(async (asset) => ({
+          id: createPendingId(),
+          uri: asset.uri,
+          name: asset.name,
+          mimeType: asset.mimeType || "application/octet-stream",
+          size: await resolveSize(asset.uri, asset.size),
+        })),
+      ),
+    );
+  },
+
+  /**
+   * Upload pending files one after another and report overall progress,
+   * weighted by file size. `onUploaded` runs as each file lands, so callers
+   * can keep it when a later file fails.
+   */
+  async upload(
+    attachments: PendingChatAttachment[],
+    onProgress?: (percent: number) => void,
+    onUploaded?: (
+      uploaded: ChatAttachment,
+      source: PendingChatAttachment,
+    ) => void | Promise<void>,
+  ): Promise<ChatAttachment[]> {
+    const totalBytes =
+      attachments.reduce((sum, item) => sum + Math.max(item.size, 1), 0) || 1;
+    let completedBytes = 0;
+    const uploaded: ChatAttachment[] = [];
+
+    for (const attachment of attachments) {
+      const weight = Math.max(attachment.size, 1);
+      const result = await uploadFileToAPI(
+        attachment.uri,
+        attachment.name,
+        attachment.mimeType,
+        {
+          onProgress: (percent) =>
+            onProgress?.(
+              Math.round(
+                ((completedBytes + (weight * percent) / 100) / totalBytes) *
+                  100,
+              ),
+            ),
+        },
+      );
+      if (!result.success || !result.url) {
+        throw new Error(
+          result.error ||
+            i18n.t("chat.attachments.uploadFailed", {
+              defaultValue: "Failed to upload attachment",
+            }),
+        );
+      }
+
+      completedBytes += weight;
+      onProgress?.(Math.round((completedBytes / totalBytes) * 100));
+      const uploadedAttachment: ChatAttachment = {
+        name: attachment.name,
+        url: result.url,
+        type: attachment.mimeType,
+        size: attachment.size,
+      };
+      uploaded.push(uploadedAttachment);
+      await onUploaded?.(uploadedAttachment, attachment);
+    }
+
+    logger.info("Chat attachments uploaded", { count: uploaded.length });
+    return uploaded;
+  },
+
+  /**
+   * Copy files into app storage so they survive until a queued message or
+   * draft is sent. A file that cannot be copied keeps its original URI.
+   */
+  async retain(
+    attachments: PendingChatAttachment[],
+  ): Promise<PendingChatAttachment[]> {
+    const directory = getRetainedDirectory();
+    if (!directory || attachments.length === 0) {
+      return attachments;
+    }
+
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    return Promise.all(
+      attachments.map(async (attachment) => {
+        if (attachment.uri.startsWith(directory)) {
+          return attachment;
+        }
+        const extension = attachment.name.includes(".")
+          ? attachment.name.slice(attachment.name.lastIndexOf("."))
+          : "";
+        const uri = `${directory}${attachment.id}${extension}`;
+        try {
+          await FileSystem.copyAsync({ from: attachment.uri, to: uri });
+          return { ...attachment, uri };
+        } catch (error) {
+          logger.warn("Failed to copy attachment into app storage", {
+            name: attachment.name,
+            error,
+          });
+          return attachment;
+        }
+      }),
+    );
+  },
+
+  /** Delete the copies made by retain; other files are left alone */
+  async release(attachments: PendingChatAttachment[]): Promise<void> {
+    const directory = getRetainedDirectory();
+    if (!directory) {
+      return;
+    }
+    await Promise.all(
+      attachments
+        .filter((attachment) => attachment.uri.startsWith(directory))
+        .map(async (attachment) => {
+          try {
+            await FileSystem.deleteAsync(attachment.uri, { idempotent: true });
+          } catch (error) {
+            logger.debug("Failed to remove attachment copy", error);
+          }
+        }),
+    );
+  },
+
+  /** Payload that files a chat attachment as a document on the case */
+  toDocumentRequest(
+    attachment: ChatAttachment,
+    caseId: string,
+  ): UploadDocumentRequest {
+    return {
+      caseId,
+      documentType: "OTHER",
+      fileName: attachment.name,
+      originalName: attachment.name,
+      filePath: attachment.url,
+      fileSize: attachment.size || undefined,
+      mimeType: attachment.type || "application/octet-stream",
+    };
+  },
+};
@@ -0,0 +1,140 @@
+import { secureStorage } from "../storage/secureStorage";
+import { logger } from "../utils/logger";
+import type { ChatMessage, ChatReplyReference } from "./chat";
+import type { ChatAttachment, PendingChatAttachment } from "./chatAttachments";
+
+export type ChatOutboxStatus = "pending" | "sending" | "failed";
+
+export interface ChatOutboxEntry {
+  /**
+   * Client-generated message ID. It doubles as the Firebase key the message
+   * is written under, so a resend overwrites instead of duplicating.
+   */
+  tempId: string;
+  roomId: string;
+  caseId: string;
+  senderId: string;
+  senderName: string;
+  senderRole: ChatMessage["senderRole"];
+  message: string;
+  /** Files already uploaded */
+  attachments: ChatAttachment[];
+  /** Local files still to upload before the message can be sent */
+  pendingAttachments: PendingChatAttachment[];
+  replyTo?: ChatReplyReference;
+  clientId?: string;
+  agentId?: string;
+  status: ChatOutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string | null;
+  createdAt: number;
+}
+
+export type ChatOutboxInput = Omit<
+  ChatOutboxEntry,
+  | "tempId"
+  | "attachments"
+  | "status"
+  | "attempts"
+  | "nextAttemptAt"
+  | "lastError"
+  | "createdAt"
+>;
+
+const STORAGE_KEY_PREFIX = "chat_outbox_"; // Will be suffixed with user ID
+
+/** Automatic attempts before a message waits for the user to retry */
+export const MAX_CHAT_SEND_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2_000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+const getStorageKey = (userId?: string | null): string =>
+  userId ? `${STORAGE_KEY_PREFIX}${userId}` : `${STORAGE_KEY_PREFIX}no_user`;
+
+// Firebase keys may not contain ".", "#", "$", "[", "]" or "/"
+const generateTempId = () =>
+  `temp-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const getChatRetryDelay = (attempts: number) =>
+  Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS,
+  );
+
+/** Optimistic bubble shown for a queued message */
+export const toOutboxMessage = (entry: ChatOutboxEntry): ChatMessage => ({
+  id: entry.tempId,
+  tempId: entry.tempId,
+  caseId: entry.caseId,
+  senderId: entry.senderId,
+  senderName: entry.senderName,
+  senderRole: entry.senderRole,
+  message: entry.message,
+  timestamp: entry.createdAt,
+  isRead: false,
+  attachments:
+    entry.attachments.length + entry.pendingAttachments.length > 0
+      ? [
+          ...entry.attachments,
+          ...entry.pendingAttachments.map((attachment) => ({
+            name: attachment.name,
+            url: attachment.uri,
+            type: attachment.mimeType,
+            size: attachment.size,
+          })),
+        ]
+      : undefined,
+  replyTo: entry.replyTo,
+  status: entry.status === "failed" ? "failed" : "pending",
+  error: entry.status === "failed" ? (entry.lastError ?? undefined) : undefined,
+  uploadProgress:
+    entry.status !== "failed" && entry.pendingAttachments.length > 0
+      ? 0
+      : undefined,
+});
+
+export const chatOutbox = {
+  createEntry(input: ChatOutboxInput): ChatOutboxEntry {
+    const now = Date.now();
+    return {
+      ...input,
+      tempId: generateTempId(),
+      attachments: [],
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: null,
+      createdAt: now,
+    };
+  },
+
+  async load(userId?: string | null): Promise<ChatOutboxEntry[]> {
+    const stored = await secureStorage.get<ChatOutboxEntry[]>(
+      getStorageKey(userId),
+    );
+    if (!Array.isArray(stored)) {
+      return [];
+    }
+    // An entry left "sending" means the app was killed mid-send; resending
+    // is safe because the write is keyed by tempId.
+    return stored.map((entry) =>
+      entry.status === "sending" ? { ...entry, status: "pending" } : entry,
+    );
+  },
+
+  async save(
+    entries: ChatOutboxEntry[],
+    userId?: string | null,
+  ): Promise<void> {
+    try {
+      if (entries.length === 0) {
+        await secureStorage.delete(getStorageKey(userId));
+        return;
+      }
+      await secureStorage.set(getStorageKey(userId), entries);
+    } catch (error) {
+      logger.warn("Failed to persist chat outbox", error);
+    }
+  },
+};
@@ -0,0 +1,354 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { apiClient } from "../api/axios";
+import { secureStorage } from "../storage/secureStorage";
+import { logger } from "../utils/logger";
+import { isNetworkError } from "./caseOutbox";
+
+export const UPLOAD_CHUNK_SIZE_BYTES = 1024 * 1024; // 1MB
+// Smaller files go up in a single request
+export const CHUNKED_UPLOAD_THRESHOLD_BYTES = 5 * 1024 * 1024; // 5MB
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+
+export type UploadSessionStatus =
+  | "uploading"
+  | "paused" // Connectivity lost; resumed automatically
+  | "failed" // Rejected by the backend or the source file is gone
+  | "completed";
+
+export interface UploadSession {
+  id: string;
+  /** Server-side session, assigned once the upload has been opened */
+  remoteSessionId: string | null;
+  /** Copy of the picked file kept in app storage so it survives cache purges */
+  fileUri: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  uploadedChunks: number[];
+  /** Document record to create once the file is hosted */
+  caseId: string;
+  documentType: string;
+  /** Set when the file is a new version of an existing document */
+  replacesDocumentId?: string | null;
+  status: UploadSessionStatus;
+  url?: string | null;
+  lastError?: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateUploadSessionInput {
+  fileUri: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  caseId: string;
+  documentType: string;
+  replacesDocumentId?: string | null;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const STORAGE_KEY_PREFIX = "upload_sessions_"; // Will be suffixed with user ID
+const UPLOAD_DIRECTORY = "pending-uploads/";
+
+const getStorageKey = (userId?: string | null): string =>
+  userId ? `${STORAGE_KEY_PREFIX}${userId}` : `${STORAGE_KEY_PREFIX}no_user`;
+
+const generateId = () =>
+  `upload_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const getRetryDelay = (attempt: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS) +
+  Math.floor(Math.random() * 250);
+
+const getErrorMessage = (error: any) =>
+  error?.response?.data?.error || error?.message || "Upload failed";
+
+/**
+ * Server errors and timeouts are worth retrying; validation and auth
+ * failures will not succeed on a second attempt.
+ */
+const isRetryableError = (error: any) => {
+  if (isNetworkError(error)) {
+    return true;
+  }
+  const status = error?.response?.status;
+  return status === 408 || status === 429 || (status >= 500 && status < 600);
+};
+
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export const uploadSessions = {
+  async load(userId?: string | null): Promise<UploadSession[]> {
+    const stored = await secureStorage.get<UploadSession[]>(
+      getStorageKey(userId),
+    );
+    if (!Array.isArray(stored)) {
+      return [];
+    }
+    // Sessions interrupted by an app kill pick up where they left off
+    return stored.map((session) =>
+      session.status === "uploading"
+        ? { ...session, status: "paused" }
+        : session,
+    );
+  },
+
+  /**
+   * Progress updates arrive faster than storage writes finish, so writes
+   * run one at a time in call order and an older snapshot never lands
+   * after a newer one.
+   */
+  save(sessions: UploadSession[], userId?: string | null): Promise<void> {
+    const write = pendingWrite.then(async () => {
+      try {
+        if (sessions.length === 0) {
+          await secureStorage.delete(getStorageKey(userId));
+          return;
+        }
+        await secureStorage.set(getStorageKey(userId), sessions);
+      } catch (error) {
+        logger.warn("Failed to persist upload sessions", error);
+      }
+    });
+    pendingWrite = write;
+    return write;
+  },
+};
+
+export const chunkedUploadService = {
+  /**
+   * Copy the picked file into app storage and describe the upload. Nothing
+   * is sent to the backend until the session is run.
+   */
+  async prepareSession(
+    input: CreateUploadSessionInput,
+  ): Promise<UploadSession> {
+    const baseDirectory =
+      FileSystem.documentDirectory || FileSystem.cacheDirectory;
+    if (!baseDirectory) {
+      throw new Error("Storage is not available on this device");
+    }
+
+    const id = generateId();
+    const directory = `${baseDirectory}${UPLOAD_DIRECTORY}`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    const fileUri = `${directory}${id}`;
+    await FileSystem.copyAsync({ from: input.fileUri, to: fileUri });
+
+    const now = Date.now();
+    return {
+      id,
+      remoteSessionId: null,
+      fileUri,
+      fileName: input.fileName,
+      mimeType: input.mimeType,
+      fileSize: input.fileSize,
+      chunkSize: UPLOAD_CHUNK_SIZE_BYTES,
+      totalChunks: Math.max(
+        1,
+        Math.ceil(input.fileSize / UPLOAD_CHUNK_SIZE_BYTES),
+      ),
+      uploadedChunks: [],
+      caseId: input.caseId,
+      documentType: input.documentType,
+      replacesDocumentId: input.replacesDocumentId ?? null,
+      status: "uploading",
+      url: null,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+  },
+
+  async openSession(session: UploadSession): Promise<string> {
+    const response = await apiClient.post<ApiResponse<{ sessionId: string }>>(
+      "/uploads/sessions",
+      {
+        fileName: session.fileName,
+        mimeType: session.mimeType,
+        fileSize: session.fileSize,
+        chunkSize: session.chunkSize,
+        totalChunks: session.totalChunks,
+      },
+    );
+
+    const sessionId = response.data.data?.sessionId;
+    if (!response.data.success || !sessionId) {
+      throw new Error(response.data.error || "Failed to start upload");
+    }
+    return sessionId;
+  },
+
+  /**
+   * Chunks the backend has already stored. Used on resume because a chunk
+   * may have landed even though the app never saw the response.
+   */
+  async getReceivedChunks(remoteSessionId: string): Promise<number[]> {
+    const response = await apiClient.get<
+      ApiResponse<{ receivedChunks: number[] }>
+    >(`/uploads/sessions/${remoteSessionId}`);
+    return response.data.data?.receivedChunks ?? [];
+  },
+
+  async uploadChunk(session: UploadSession, index: number): Promise<void> {
+    const position = index * session.chunkSize;
+    const length = Math.min(session.chunkSize, session.fileSize - position);
+    const data = await FileSystem.readAsStringAsync(session.fileUri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position,
+      length,
+    });
+
+    await apiClient.put(
+      `/uploads/sessions/${session.remoteSessionId}/chunks/${index}`,
+      { data, offset: position, size: length },
+      // runSession retries chunks itself; stacking the client's retries on
+      // top would resend one bad chunk many times over
+      { retry: false },
+    );
+  },
+
+  async completeSession(remoteSessionId: string): Promise<string> {
+    const response = await apiClient.post<ApiResponse<{ url: string }>>(
+      `/uploads/sessions/${remoteSessionId}/complete`,
+    );
+    const url = response.data.data?.url;
+    if (!url) {
+      throw new Error(response.data.error || "Upload failed: No URL returned");
+    }
+    return url;
+  },
+
+  /**
+   * Upload every chunk the backend is missing, retrying each with
+   * exponential backoff, then finalize. Never throws: the returned session
+   * carries the outcome so callers can persist it as-is.
+   */
+  async runSession(
+    initial: UploadSession,
+    onUpdate: (session: UploadSession) => void,
+  ): Promise<UploadSession> {
+    let session: UploadSession = {
+      ...initial,
+      status: "uploading",
+      lastError: null,
+    };
+    const update = (changes: Partial<UploadSession>) => {
+      session = { ...session, ...changes, updatedAt: Date.now() };
+      onUpdate(session);
+    };
+
+    try {
+      const info = await FileSystem.getInfoAsync(session.fileUri);
+      if (!info.exists) {
+        update({
+          status: "failed",
+          lastError: "The file is no longer available on this device",
+        });
+        return session;
+      }
+
+      if (session.remoteSessionId) {
+        const received = await this.getReceivedChunks(session.remoteSessionId);
+        update({ uploadedChunks: received });
+      } else {
+        update({ remoteSessionId: await this.openSession(session) });
+      }
+
+      for (let index = 0; index < session.totalChunks; index += 1) {
+        if (session.uploadedChunks.includes(index)) {
+          continue;
+        }
+
+        for (let attempt = 0; ; attempt += 1) {
+          try {
+            await this.uploadChunk(session, index);
+            break;
+          } catch (error) {
+            if (!isRetryableError(error) || attempt >= MAX_CHUNK_ATTEMPTS - 1) {
+              throw error;
+            }
+            logger.debug("Retrying upload chunk", {
+              uploadId: session.id,
+              index,
+              attempt: attempt + 1,
+            });
+            await wait(getRetryDelay(attempt));
+          }
+        }
+
+        update({ uploadedChunks: [...session.uploadedChunks, index] });
+      }
+
+      const url = await this.completeSession(session.remoteSessionId!);
+      update({ status: "completed", url });
+      logger.info("Chunked upload completed", {
+        uploadId: session.id,
+        fileName: session.fileName,
+        chunks: session.totalChunks,
+      });
+    } catch (error: any) {
+      const status = error?.response?.status;
+      if (status === 404 || status === 410) {
+        // The backend expired the session; start over on the next attempt
+        update({
+          status: "paused",
+          remoteSessionId: null,
+          uploadedChunks: [],
+          lastError: getErrorMessage(error),
+        });
+      } else {
+        update({
+          status: isRetryableError(error) ? "paused" : "failed",
+          lastError: getErrorMessage(error),
+        });
+      }
+      logger.warn("Chunked upload interrupted", {
+        uploadId: session.id,
+        status: session.status,
+        error: session.lastError,
+      });
+    }
+
+    return session;
+  },
+
+  async discardFile(session: UploadSession): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(session.fileUri, { idempotent: true });
+    } catch (error) {
+      logger.debug("Failed to remove upload file", error);
+    }
+  },
+};
+
+export const getUploadProgress = (sessions: UploadSession[]): number | null => {
+  const active = sessions.filter((session) => session.status !== "failed");
+  if (active.length === 0) {
+    return null;
+  }
+
+  const totalBytes = active.reduce((sum, session) => sum + session.fileSize, 0);
+  const uploadedBytes = active.reduce(
+    (sum, session) =>
+      sum +
+      Math.min(
+        session.fileSize,
+        session.uploadedChunks.length * session.chunkSize,
+      ),
+    0,
+  );
+  return totalBytes > 0 ? Math.round((uploadedBytes * 100) / totalBytes) : 0;
+};
@@ -0,0 +1,174 @@
+import * as FileSystem from "expo-file-system/legacy";
+import {
+  ImageManipulator,
+  ImageManipulatorContext,
+  SaveFormat,
+} from "expo-image-manipulator";
+import * as Print from "expo-print";
+import { logger } from "../utils/logger";
+
+export interface ScannedPage {
+  id: string;
+  uri: string;
+  width: number;
+  height: number;
+}
+
+/** Fraction of the page trimmed from each edge, 0 to MAX_CROP_INSET */
+export interface PageCropInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export const MAX_CROP_INSET = 0.4;
+
+// A4 at 72 PPI, the unit expo-print uses for page size
+const PDF_PAGE_WIDTH = 595;
+const PDF_PAGE_HEIGHT = 842;
+// Roughly 200 DPI on A4: legible for review without bloating the PDF
+const MAX_PAGE_EDGE = 1654;
+const PAGE_COMPRESSION = 0.7;
+
+const generateId = () =>
+  `page_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const clampInset = (value: number) =>
+  Math.min(Math.max(value, 0), MAX_CROP_INSET);
+
+const renderPage = async (
+  uri: string,
+  transform: (context: ImageManipulatorContext) => ImageManipulatorContext,
+): Promise<ScannedPage> => {
+  const context = transform(ImageManipulator.manipulate(uri));
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({
+    compress: PAGE_COMPRESSION,
+    format: SaveFormat.JPEG,
+  });
+  return {
+    id: generateId(),
+    uri: result.uri,
+    width: result.width,
+    height: result.height,
+  };
+};
+
+export const documentScanner = {
+  /**
+   * Re-encode a captured image as a JPEG no larger than the PDF needs.
+   */
+  async normalizePage(
+    uri: string,
+    width: number,
+    height: number,
+  ): Promise<ScannedPage> {
+    const longestEdge = Math.max(width, height);
+    return renderPage(uri, (context) =>
+      longestEdge > MAX_PAGE_EDGE
+        ? context.resize(
+            width >= height
+              ? { width: MAX_PAGE_EDGE }
+              : { height: MAX_PAGE_EDGE },
+          )
+        : context,
+    );
+  },
+
+  async rotatePage(page: ScannedPage, degrees = 90): Promise<ScannedPage> {
+    return renderPage(page.uri, (context) => context.rotate(degrees));
+  },
+
+  async cropPage(
+    page: ScannedPage,
+    insets: PageCropInsets,
+  ): Promise<ScannedPage> {
+    const left = Math.round(page.width * clampInset(insets.left));
+    const top = Math.round(page.height * clampInset(insets.top));
+    const right = Math.round(page.width * clampInset(insets.right));
+    const bottom = Math.round(page.height * clampInset(insets.bottom));
+
+    return renderPage(page.uri, (context) =>
+      context.crop({
+        originX: left,
+        originY: top,
+        width: Math.max(1, page.width - left - right),
+        height: Math.max(1, page.height - top - bottom),
+      }),
+    );
+  },
+
+  /**
+   * Merge pages, in order, into one A4 PDF with a page per image.
+   */
+  async buildPdf(pages: ScannedPage[]): Promise<{ uri: string; size: number }> {
+    if (pages.length === 0) {
+      throw new Error("Add at least one page before creating the PDF");
+    }
+
+    const images = await Promise.all(
+      pages.map((page) =>
+        FileSystem.readAsStringAsync(page.uri, {
+          encoding: FileSystem.EncodingType.Base64,
+        }),
+      ),
+    );
+
+    const body = images
+      .map(
+        (data) =>
+          `<div class="page"><img src="data:image/jpeg;base64,${data}" /></div>`,
+      )
+      .join("");
+
+    const html = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      @page { margin: 0; }
+      html, body { margin: 0; padding: 0; }
+      .page {
+        width: ${PDF_PAGE_WIDTH}px;
+        height: ${PDF_PAGE_HEIGHT}px;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        overflow: hidden;
+        page-break-after: always;
+      }
+      .page:last-child { page-break-after: auto; }
+      img { max-width: 100%; max-height: 100%; object-fit: contain; }
+    </style>
+  </head>
+  <body>${body}</body>
+</html>`;
+
+    const { uri } = await Print.printToFileAsync({
+      html,
+      width: PDF_PAGE_WIDTH,
+      height: PDF_PAGE_HEIGHT,
+    });
+
+    const info = await FileSystem.getInfoAsync(uri);
+    const size = info.exists ? info.size : 0;
+    logger.info("Scanned document merged", { pages: pages.length, size });
+
+    return { uri, size };
+  },
+
+  /**
+   * Remove intermediate page images or a merged PDF once they are no
+   * longer needed.
+   */
+  async discardFiles(uris: string[]): Promise<void> {
+    await Promise.all(
+      uris.map((uri) =>
+        FileSystem.deleteAsync(uri, { idempotent: true }).catch((error) => {
+          logger.debug("Failed to remove scanned file", error);
+        }),
+      ),
+    );
+  },
+};
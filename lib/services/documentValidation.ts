@@ -0,0 +1,316 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import { decode as decodeJpeg } from "jpeg-js";
+import { logger } from "../utils/logger";
+import { MrzData, parseMrz } from "../utils/mrz";
+
+export type DocumentValidationIssueCode =
+  | "wrongFileType"
+  | "lowResolution"
+  | "blurry"
+  | "tooDark"
+  | "glare"
+  | "tooManyPages"
+  | "mrzNotFound"
+  | "documentExpired"
+  | "expiresSoon";
+
+export interface DocumentValidationIssue {
+  code: DocumentValidationIssueCode;
+  /** Critical issues almost always lead to a rejection; both can be overridden */
+  severity: "warning" | "critical";
+  params?: Record<string, string | number>;
+}
+
+export interface DocumentValidationResult {
+  issues: DocumentValidationIssue[];
+  mrz: MrzData | null;
+}
+
+export interface DocumentValidationInput {
+  uri: string;
+  mimeType?: string | null;
+  fileName?: string | null;
+  documentType: string;
+}
+
+type FileKind = "image" | "pdf" | "word" | "other";
+
+const DEFAULT_FILE_KINDS: FileKind[] = ["pdf", "image", "word"];
+const ACCEPTED_FILE_KINDS: Record<string, FileKind[]> = {
+  PHOTO: ["image"],
+  PASSPORT: ["image", "pdf"],
+  ID_CARD: ["image", "pdf"],
+};
+const MAX_PAGES: Record<string, number> = {
+  PHOTO: 1,
+  PASSPORT: 2,
+  ID_CARD: 2,
+};
+const MRZ_DOCUMENT_TYPES = ["PASSPORT", "ID_CARD"];
+
+const MIN_SHORT_EDGE_PX = 1000;
+const MIN_PHOTO_SHORT_EDGE_PX = 600;
+// Heuristics tuned on a downscaled copy; they flag, they do not decide
+const ANALYSIS_WIDTH = 480;
+const BLUR_VARIANCE_THRESHOLD = 60;
+const DARK_MEAN_THRESHOLD = 60;
+const GLARE_PIXEL_THRESHOLD = 250;
+const GLARE_RATIO_THRESHOLD = 0.06;
+// Larger PDFs are not read into memory just to count pages
+const MAX_PDF_SCAN_BYTES = 10 * 1024 * 1024;
+const EXPIRY_WARNING_MONTHS = 6;
+
+const getFileKind = (mimeType?: string | null, fileName?: string | null) => {
+  const type = (mimeType ?? "").toLowerCase();
+  const extension = (fileName ?? "").split(".").pop()?.toLowerCase() ?? "";
+  if (
+    type.startsWith("image/") ||
+    ["jpg", "jpeg", "png", "heic", "webp"].includes(extension)
+  ) {
+    return "image";
+  }
+  if (type === "application/pdf" || extension === "pdf") {
+    return "pdf";
+  }
+  if (type.includes("word") || ["doc", "docx"].includes(extension)) {
+    return "word";
+  }
+  return "other";
+};
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+// Loaded lazily: the OCR module is native and absent from Expo Go and web
+const loadTextExtractor = () => {
+  try {
+    return require("expo-text-extractor") as typeof import("expo-text-extractor");
+  } catch (error) {
+    logger.debug("Text extraction is unavailable", error);
+    return null;
+  }
+};
+
+interface ImageStats {
+  width: number;
+  height: number;
+  meanLuminance: number;
+  glareRatio: number;
+  /** Variance of the Laplacian; low values mean few sharp edges */
+  sharpness: number;
+}
+
+const analyzeImage = async (uri: string): Promise<ImageStats> => {
+  const original = await ImageManipulator.manipulate(uri).renderAsync();
+  const preview = await ImageManipulator.manipulate(uri)
+    .resize({ width: Math.min(ANALYSIS_WIDTH, original.width) })
+    .renderAsync();
+  const saved = await preview.saveAsync({
+    base64: true,
+    compress: 0.9,
+    format: SaveFormat.JPEG,
+  });
+  if (!saved.base64) {
+    throw new Error("Image preview could not be encoded");
+  }
+
+  const { data, width, height } = decodeJpeg(base64ToBytes(saved.base64), {
+    useTArray: true,
+  });
+
+  const pixelCount = width * height;
+  const luminance = new Float32Array(pixelCount);
+  let total = 0;
+  let glarePixels = 0;
+  for (let index = 0; index < pixelCount; index += 1) {
+    const offset = index * 4;
+    const value =
+      0.299 * data[offset] +
+      0.587 * data[offset + 1] +
+      0.114 * data[offset + 2];
+    luminance[index] = value;
+    total += value;
+    if (value >= GLARE_PIXEL_THRESHOLD) {
+      glarePixels += 1;
+    }
+  }
+
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let samples = 0;
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const index = y * width + x;
+      const laplacian =
+        luminance[index - width] +
+        luminance[index + width] +
+        luminance[index - 1] +
+        luminance[index + 1] -
+        4 * luminance[index];
+      laplacianSum += laplacian;
+      laplacianSquares += laplacian * laplacian;
+      samples += 1;
+    }
+  }
+  const laplacianMean = samples > 0 ? laplacianSum / samples : 0;
+
+  return {
+    width: original.width,
+    height: original.height,
+    meanLuminance: pixelCount > 0 ? total / pixelCount : 0,
+    glareRatio: pixelCount > 0 ? glarePixels / pixelCount : 0,
+    sharpness:
+      samples > 0 ? laplacianSquares / samples - laplacianMean ** 2 : 0,
+  };
+};
+
+/**
+ * Page count from the PDF structure: the page tree's /Count, falling back
+ * to counting page objects. Null when neither is readable (e.g. compressed
+ * object streams).
+ */
+const countPdfPages = async (uri: string): Promise<number | null> => {
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists || info.size > MAX_PDF_SCAN_BYTES) {
+    return null;
+  }
+  const raw = atob(
+    await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    }),
+  );
+
+  const treeCounts = Array.from(
+    raw.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)/g),
+    (match) => Number(match[1]),
+  );
+  if (treeCounts.length > 0) {
+    return Math.max(...treeCounts);
+  }
+  const pageObjects = raw.match(/\/Type\s*\/Page\b(?!s)/g)?.length ?? 0;
+  return pageObjects > 0 ? pageObjects : null;
+};
+
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+export const documentValidationService = {
+  /**
+   * Run every pre-upload check that applies to the file and document type.
+   * Individual checks that cannot run (missing native module, unreadable
+   * file) are skipped rather than reported.
+   */
+  async validate(
+    input: DocumentValidationInput,
+    now: Date = new Date(),
+  ): Promise<DocumentValidationResult> {
+    const issues: DocumentValidationIssue[] = [];
+    let mrz: MrzData | null = null;
+    const documentType = input.documentType.toUpperCase();
+    const fileKind = getFileKind(input.mimeType, input.fileName);
+
+    const acceptedKinds =
+      ACCEPTED_FILE_KINDS[documentType] ?? DEFAULT_FILE_KINDS;
+    if (!acceptedKinds.includes(fileKind)) {
+      issues.push({ code: "wrongFileType", severity: "critical" });
+    }
+
+    if (fileKind === "image") {
+      try {
+        const stats = await analyzeImage(input.uri);
+        const minEdge =
+          documentType === "PHOTO"
+            ? MIN_PHOTO_SHORT_EDGE_PX
+            : MIN_SHORT_EDGE_PX;
+        if (Math.min(stats.width, stats.height) < minEdge) {
+          issues.push({
+            code: "lowResolution",
+            severity: "warning",
+            params: { width: stats.width, height: stats.height },
+          });
+        }
+        if (stats.sharpness < BLUR_VARIANCE_THRESHOLD) {
+          issues.push({ code: "blurry", severity: "critical" });
+        }
+        if (stats.meanLuminance < DARK_MEAN_THRESHOLD) {
+          issues.push({ code: "tooDark", severity: "warning" });
+        }
+        if (stats.glareRatio > GLARE_RATIO_THRESHOLD) {
+          issues.push({ code: "glare", severity: "warning" });
+        }
+      } catch (error) {
+        logger.debug("Image quality check skipped", error);
+      }
+    }
+
+    const maxPages = MAX_PAGES[documentType];
+    if (fileKind === "pdf" && maxPages) {
+      try {
+        const pageCount = await countPdfPages(input.uri);
+        if (pageCount !== null && pageCount > maxPages) {
+          issues.push({
+            code: "tooManyPages",
+            severity: "warning",
+            params: { count: pageCount, max: maxPages },
+          });
+        }
+      } catch (error) {
+        logger.debug("PDF page count skipped", error);
+      }
+    }
+
+    const textExtractor =
+      fileKind === "image" && MRZ_DOCUMENT_TYPES.includes(documentType)
+        ? loadTextExtractor()
+        : null;
+    if (textExtractor?.isSupported) {
+      try {
+        mrz = parseMrz(
+          await textExtractor.extractTextFromImage(input.uri),
+          now,
+        );
+        const expiry =
+          mrz?.checksValid && mrz.expiryDate
+            ? new Date(`${mrz.expiryDate}T00:00:00`)
+            : null;
+
+        if (!expiry) {
+          issues.push({ code: "mrzNotFound", severity: "warning" });
+        } else if (expiry < now) {
+          issues.push({
+            code: "documentExpired",
+            severity: "critical",
+            params: { date: expiry.toLocaleDateString() },
+          });
+        } else if (expiry < addMonths(now, EXPIRY_WARNING_MONTHS)) {
+          issues.push({
+            code: "expiresSoon",
+            severity: "warning",
+            params: { date: expiry.toLocaleDateString() },
+          });
+        }
+      } catch (error) {
+        logger.debug("MRZ check skipped", error);
+      }
+    }
+
+    if (issues.length > 0) {
+      logger.info("Document pre-check found issues", {
+        documentType,
+        issues: issues.map((issue) => issue.code),
+      });
+    }
+
+    return { issues, mrz };
+  },
+};
@@ -0,0 +1,431 @@
+import { AppState } from "react-native";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { bytesToUtf8, utf8ToBytes } from "@noble/ciphers/utils";
+import i18n from "../i18n";
+import { secureStorage } from "../storage/secureStorage";
+import { logger } from "../utils/logger";
+
+/**
+ * Encrypted storage for downloaded documents and templates.
+ *
+ * Every file is sealed with XChaCha20-Poly1305 under a per-user key kept in
+ * the platform keystore. When biometric unlock is enabled the key is stored
+ * with `requireAuthentication`, so the OS releases it only after a
+ * biometric check; the app lock's own prompt cannot stand in for that one.
+ * Re-enrolling biometrics invalidates such a key, and files sealed under
+ * it can no longer be opened. Without biometrics the key relies on the
+ * keystore's device-level protection alone. The key is dropped from memory
+ * whenever the vault is locked. Files handed to other apps are decrypted
+ * into a scratch directory that is emptied on lock.
+ */
+
+export interface VaultUsage {
+  fileCount: number;
+  /** Encrypted size on disk, in bytes */
+  totalBytes: number;
+}
+
+const KEY_STORAGE_PREFIX = "vault_key_"; // Will be suffixed with user ID
+const BOUND_KEY_STORAGE_PREFIX = "vault_key_bound_";
+const VAULT_DIRECTORY = "vault/";
+const OPEN_DIRECTORY = "vault-open/";
+const FILE_EXTENSION = ".bin";
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+// Written ahead of the nonce so unrelated files are never mistaken for vault entries
+const FILE_MAGIC = utf8ToBytes("PTV1");
+// btoa on the whole buffer overflows the call stack for multi-MB files
+const BASE64_CHUNK_BYTES = 0x8000;
+
+let unlockedVault: { userKey: string; key: Uint8Array } | null = null;
+let pendingUnlock: { userKey: string; promise: Promise<Uint8Array> } | null =
+  null;
+
+const getUserKey = (userId?: string | null) => userId || "no_user";
+
+const getKeyStorageKey = (userId?: string | null) =>
+  `${KEY_STORAGE_PREFIX}${getUserKey(userId)}`;
+
+const getBoundKeyStorageKey = (userId?: string | null) =>
+  `${BOUND_KEY_STORAGE_PREFIX}${getUserKey(userId)}`;
+
+const getBaseDirectory = () => {
+  if (!FileSystem.documentDirectory) {
+    throw new Error("Secure storage is not available on this device");
+  }
+  return FileSystem.documentDirectory;
+};
+
+const getVaultDirectory = (userId?: string | null) =>
+  `${getBaseDirectory()}${VAULT_DIRECTORY}${getUserKey(userId)}/`;
+
+const getOpenDirectory = () =>
+  `${FileSystem.cacheDirectory || getBaseDirectory()}${OPEN_DIRECTORY}`;
+
+const generateId = () =>
+  `vault_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_BYTES) {
+    binary += String.fromCharCode(
+      ...bytes.subarray(offset, offset + BASE64_CHUNK_BYTES),
+    );
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+const seal = (key: Uint8Array, plaintext: Uint8Array) => {
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const ciphertext = xchacha20poly1305(key, nonce).encrypt(plaintext);
+  const sealed = new Uint8Array(
+    FILE_MAGIC.length + NONCE_BYTES + ciphertext.length,
+  );
+  sealed.set(FILE_MAGIC, 0);
+  sealed.set(nonce, FILE_MAGIC.length);
+  sealed.set(ciphertext, FILE_MAGIC.length + NONCE_BYTES);
+  return sealed;
+};
+
+const open = (key: Uint8Array, sealed: Uint8Array) => {
+  const hasMagic = FILE_MAGIC.every((byte, index) => sealed[index] === byte);
+  if (!hasMagic) {
+    throw new Error("File is not a vault entry");
+  }
+  const nonce = sealed.subarray(
+    FILE_MAGIC.length,
+    FILE_MAGIC.length + NONCE_BYTES,
+  );
+  // Throws when the file was tampered with or sealed under another key
+  return xchacha20poly1305(key, nonce).decrypt(
+    sealed.subarray(FILE_MAGIC.length + NONCE_BYTES),
+  );
+};
+
+const readBytes = async (uri: string) =>
+  base64ToBytes(
+    await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    }),
+  );
+
+const writeBytes = (uri: string, bytes: Uint8Array) =>
+  FileSystem.writeAsStringAsync(uri, bytesToBase64(bytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+const ensureDirectory = async (directory: string) => {
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+};
+
+const biometricKeyOptions = (): SecureStore.SecureStoreOptions => ({
+  requireAuthentication: true,
+  authenticationPrompt: i18n.t("documentVault.unlockPrompt", {
+    defaultValue: "Unlock your documents",
+  }),
+});
+
+const shouldBindKey = async () => {
+  if (!(await secureStorage.getBiometricEnabled())) {
+    return false;
+  }
+  if (!SecureStore.canUseBiometricAuthentication()) {
+    // The preference outlived the enrolment; fall back to the device keystore
+    logger.warn("Biometric unlock enabled but unavailable on this device");
+    return false;
+  }
+  return true;
+};
+
+/** Prompts for biometrics when the key exists; null when it does not */
+const readBoundKey = async (userId?: string | null) => {
+  try {
+    return await SecureStore.getItemAsync(
+      getBoundKeyStorageKey(userId),
+      biometricKeyOptions(),
+    );
+  } catch (error) {
+    logger.warn("Document vault key was not released", error);
+    throw new Error("Document vault is locked");
+  }
+};
+
+const deleteBoundKey = async (userId?: string | null) => {
+  try {
+    await SecureStore.deleteItemAsync(getBoundKeyStorageKey(userId), {
+      requireAuthentication: true,
+    });
+  } catch (error) {
+    logger.warn("Failed to delete biometric vault key", error);
+  }
+};
+
+/**
+ * Read the user's key from wherever the biometric preference puts it,
+ * moving it across when the preference changed since it was stored.
+ */
+const loadOrCreateKey = async (userId?: string | null) => {
+  const storageKey = getKeyStorageKey(userId);
+  const boundStorageKey = getBoundKeyStorageKey(userId);
+
+  if (await shouldBindKey()) {
+    const bound = await readBoundKey(userId);
+    if (bound) {
+      return base64ToBytes(bound);
+    }
+    const stored = await secureStorage.getSecure(storageKey);
+    const key = stored
+      ? base64ToBytes(stored)
+      : Crypto.getRandomBytes(KEY_BYTES);
+    await SecureStore.setItemAsync(
+      boundStorageKey,
+      bytesToBase64(key),
+      biometricKeyOptions(),
+    );
+    await secureStorage.deleteSecure(storageKey);
+    logger.info("Document vault key bound to biometrics");
+    return key;
+  }
+
+  const stored = await secureStorage.getSecure(storageKey);
+  if (stored) {
+    return base64ToBytes(stored);
+  }
+  const bound = await readBoundKey(userId);
+  const key = bound ? base64ToBytes(bound) : Crypto.getRandomBytes(KEY_BYTES);
+  await secureStorage.setSecure(storageKey, bytesToBase64(key));
+  if (bound) {
+    await deleteBoundKey(userId);
+    logger.info("Document vault key released from biometrics");
+  } else {
+    logger.info("Document vault key created");
+  }
+  return key;
+};
+
+export const documentVault = {
+  /**
+   * Release the user's vault key, prompting for biometrics when the user
+   * enabled them. Concurrent callers share a single prompt. Rejects when the
+   * prompt is cancelled or fails.
+   */
+  async unlock(userId?: string | null): Promise<Uint8Array> {
+    const userKey = getUserKey(userId);
+    if (unlockedVault?.userKey === userKey) {
+      return unlockedVault.key;
+    }
+    if (pendingUnlock?.userKey === userKey) {
+      return pendingUnlock.promise;
+    }
+
+    const promise = (async () => {
+      try {
+        const key = await loadOrCreateKey(userId);
+        unlockedVault = { userKey, key };
+        return key;
+      } finally {
+        if (pendingUnlock?.userKey === userKey) {
+          pendingUnlock = null;
+        }
+      }
+    })();
+    pendingUnlock = { userKey, promise };
+    return promise;
+  },
+
+  isUnlocked(userId?: string | null): boolean {
+    return unlockedVault?.userKey === getUserKey(userId);
+  },
+
+  /**
+   * Forget the key and delete every decrypted copy handed out since the
+   * last unlock.
+   */
+  async lock(): Promise<void> {
+    unlockedVault = null;
+    await documentVault.purgeOpenFiles();
+  },
+
+  async purgeOpenFiles(): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(getOpenDirectory(), { idempotent: true });
+    } catch (error) {
+      logger.warn("Failed to purge decrypted vault files", error);
+    }
+  },
+
+  isVaultUri(uri?: string | null): boolean {
+    return Boolean(
+      uri &&
+      FileSystem.documentDirectory &&
+      uri.startsWith(`${FileSystem.documentDirectory}${VAULT_DIRECTORY}`),
+    );
+  },
+
+  /**
+   * Encrypt a local file into the vault and delete the plaintext source.
+   * Returns the vault URI to store in place of the original.
+   */
+  async importFile(
+    sourceUri: string,
+    userId?: string | null,
+  ): Promise<{ uri: string; size: number }> {
+    const key = await documentVault.unlock(userId);
+    const directory = getVaultDirectory(userId);
+    await ensureDirectory(directory);
+
+    const plaintext = await readBytes(sourceUri);
+    const uri = `${directory}${generateId()}${FILE_EXTENSION}`;
+    await writeBytes(uri, seal(key, plaintext));
+    await FileSystem.deleteAsync(sourceUri, { idempotent: true });
+
+    logger.info("File added to document vault", { size: plaintext.length });
+    return { uri, size: plaintext.length };
+  },
+
+  /**
+   * Decrypt a vault file into the scratch directory so it can be opened or
+   * shared. The copy lives until the vault is next locked.
+   */
+  async openFile(
+    vaultUri: string,
+    fileName: string,
+    userId?: string | null,
+  ): Promise<string> {
+    const key = await documentVault.unlock(userId);
+    const directory = `${getOpenDirectory()}${Date.now()}/`;
+    await ensureDirectory(directory);
+
+    const plaintext = open(key, await readBytes(vaultUri));
+    const uri = `${directory}${fileName.replace(/[^\w.-]+/g, "_") || "document"}`;
+    await writeBytes(uri, plaintext);
+    return uri;
+  },
+
+  async removeFile(vaultUri: string): Promise<void> {
+    if (!documentVault.isVaultUri(vaultUri)) {
+      return;
+    }
+    try {
+      await FileSystem.deleteAsync(vaultUri, { idempotent: true });
+    } catch (error) {
+      logger.warn("Failed to remove vault file", error);
+    }
+  },
+
+  /**
+   * Read an encrypted JSON document stored alongside the files (used for
+   * download metadata). Returns null when it has never been written.
+   */
+  async readJson<T>(name: string, userId?: string | null): Promise<T | null> {
+    const uri = `${getVaultDirectory(userId)}${name}.json${FILE_EXTENSION}`;
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+      return null;
+    }
+    const key = await documentVault.unlock(userId);
+    return JSON.parse(bytesToUtf8(open(key, await readBytes(uri)))) as T;
+  },
+
+  async writeJson(
+    name: string,
+    value: unknown,
+    userId?: string | null,
+  ): Promise<void> {
+    const key = await documentVault.unlock(userId);
+    const directory = getVaultDirectory(userId);
+    await ensureDirectory(directory);
+    await writeBytes(
+      `${directory}${name}.json${FILE_EXTENSION}`,
+      seal(key, utf8ToBytes(JSON.stringify(value))),
+    );
+  },
+
+  async getUsage(userId?: string | null): Promise<VaultUsage> {
+    const usage: VaultUsage = { fileCount: 0, totalBytes: 0 };
+    try {
+      const directory = getVaultDirectory(userId);
+      const info = await FileSystem.getInfoAsync(directory);
+      if (!info.exists) {
+        return usage;
+      }
+      const entries = await FileSystem.readDirectoryAsync(directory);
+      for (const entry of entries) {
+        const entryInfo = await FileSystem.getInfoAsync(`${directory}${entry}`);
+        if (!entryInfo.exists || entryInfo.isDirectory) {
+          continue;
+        }
+        usage.totalBytes += entryInfo.size;
+        if (!entry.endsWith(`.json${FILE_EXTENSION}`)) {
+          usage.fileCount += 1;
+        }
+      }
+    } catch (error) {
+      logger.warn("Failed to measure document vault", error);
+    }
+    return usage;
+  },
+
+  /**
+   * Destroy the user's vault: files, metadata and key. Without the key any
+   * copy that escaped deletion stays unreadable.
+   */
+  async wipe(userId?: string | null): Promise<void> {
+    if (unlockedVault?.userKey === getUserKey(userId)) {
+      await documentVault.lock();
+    }
+    await secureStorage.deleteSecure(getKeyStorageKey(userId));
+    await deleteBoundKey(userId);
+    try {
+      await FileSystem.deleteAsync(getVaultDirectory(userId), {
+        idempotent: true,
+      });
+    } catch (error) {
+      logger.warn("Failed to delete document vault files", error);
+    }
+    logger.info("Document vault wiped", { userId });
+  },
+};
+
+// Drop the key whenever the app leaves the foreground. Decrypted copies are
+// only purged on return, since the app that opened them may still be reading.
+let autoLockInitialized = false;
+
+export const initializeVaultAutoLock = () => {
+  if (autoLockInitialized) return;
+
+  autoLockInitialized = true;
+  let wasBackgrounded = false;
+
+  AppState.addEventListener("change", (appState) => {
+    if (appState === "background") {
+      wasBackgrounded = true;
+      unlockedVault = null;
+      return;
+    }
+    if (appState === "active" && wasBackgrounded) {
+      wasBackgrounded = false;
+      documentVault.purgeOpenFiles().catch(() => undefined);
+    }
+  });
+
+  // Copies left behind by a crash or force quit
+  documentVault.purgeOpenFiles().catch(() => undefined);
+
+  logger.info("Document vault auto-lock initialized");
+};
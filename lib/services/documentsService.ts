@@ -1,12 +1,22 @@
 import { apiClient } from "../api/axios";
+import { api } from "../api/client";
+import {
+  documentContract,
+  documentDetailContract,
+  documentListContract,
+  documentVersionContract,
+  documentVersionsContract,
+  emptyContract,
+} from "../api/contracts";
+import type { Infer } from "../api/schema";
 import { logger } from "../utils/logger";
-import type { Document, UploadDocumentRequest } from "../types";
-
-interface ApiResponse<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-}
+import type {
+  Document,
+  DocumentStatus,
+  DocumentVersion,
+  ReplaceDocumentRequest,
+  UploadDocumentRequest,
+} from "../types";
 
 const DOCUMENT_DOWNLOAD_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
@@ -40,69 +50,72 @@ const resolveApiRelativeUrl = (
   return `${baseURL}${normalizedPath}`;
 };
 
-const pickDocumentFilePath = (doc: any): string => {
-  const candidate =
-    doc?.filePath ??
-    doc?.file_path ??
-    doc?.fileUrl ??
-    doc?.file_url ??
-    doc?.downloadUrl ??
-    doc?.download_url ??
-    doc?.url ??
-    "";
-
-  return typeof candidate === "string" ? candidate : "";
-};
-
-const mapDocument = (doc: any): Document => {
-  const resolvedCase = doc.case ?? doc.caseDetails ?? doc.case_details;
-  const resolvedFilePath = pickDocumentFilePath(doc);
-  const normalizedFilePath =
-    resolveApiRelativeUrl(resolvedFilePath) ?? resolvedFilePath;
-
-  return {
-    id: doc.id ?? doc.documentId ?? doc.document_id,
-    originalName:
-      doc.originalName ??
-      doc.original_name ??
-      doc.fileName ??
-      doc.file_name ??
-      "",
-    fileName:
-      doc.fileName ??
-      doc.file_name ??
-      doc.originalName ??
-      doc.original_name ??
-      "",
-    documentType: doc.documentType ?? doc.document_type ?? doc.type ?? "",
-    status:
-      doc.status ?? doc.documentStatus ?? doc.document_status ?? "PENDING",
-    uploadDate:
-      doc.uploadDate ??
-      doc.upload_date ??
-      doc.createdAt ??
-      doc.created_at ??
-      "",
-    filePath: normalizedFilePath,
-    fileSize:
-      typeof doc.fileSize === "number"
-        ? doc.fileSize
-        : typeof doc.file_size === "number"
-          ? doc.file_size
-          : undefined,
-    mimeType: doc.mimeType ?? doc.mime_type,
-    caseId: doc.caseId ?? doc.case_id ?? "",
-    case: resolvedCase
-      ? {
-          id: resolvedCase.id,
-          referenceNumber:
-            resolvedCase.referenceNumber ?? resolvedCase.reference_number,
-          serviceType: resolvedCase.serviceType ?? resolvedCase.service_type,
-        }
-      : undefined,
-    uploadedById: doc.uploadedById ?? doc.uploaded_by_id,
-  };
-};
+type ApiDocument = Infer<typeof documentContract>;
+type ApiDocumentVersion = Infer<typeof documentVersionContract>;
+
+const resolveFilePath = (filePath?: string) =>
+  resolveApiRelativeUrl(filePath) ?? filePath ?? "";
+
+/** Blank review text from the backend means there is none */
+const reviewText = (value?: string) => (value?.trim() ? value : undefined);
+
+const formatReviewer = (reviewer: ApiDocumentVersion["reviewedBy"]) =>
+  typeof reviewer === "string"
+    ? reviewer
+    : reviewer
+      ? [reviewer.firstName, reviewer.lastName].filter(Boolean).join(" ") ||
+        reviewer.name ||
+        reviewer.email
+      : undefined;
+
+const mapDocumentVersion = (
+  version: ApiDocumentVersion,
+  index: number,
+): DocumentVersion => ({
+  id: version.id ?? `${index}`,
+  version: version.version ?? index + 1,
+  originalName: version.originalName ?? version.fileName ?? "",
+  fileName: version.fileName ?? version.originalName ?? "",
+  status: (version.status ?? "PENDING") as DocumentStatus,
+  uploadDate: version.uploadDate ?? "",
+  filePath: resolveFilePath(version.filePath),
+  fileSize: version.fileSize,
+  mimeType: version.mimeType,
+  rejectionReason: reviewText(version.rejectionReason),
+  reviewerComment: reviewText(version.reviewerComment),
+  reviewedBy: formatReviewer(version.reviewedBy),
+  reviewedAt: version.reviewedAt,
+});
+
+const sortVersions = (versions: DocumentVersion[]) =>
+  [...versions].sort((a, b) => b.version - a.version);
+
+const mapDocument = (doc: ApiDocument): Document => ({
+  id: doc.id,
+  originalName: doc.originalName ?? doc.fileName ?? "",
+  fileName: doc.fileName ?? doc.originalName ?? "",
+  documentType: doc.documentType ?? "",
+  status: (doc.status ?? "PENDING") as DocumentStatus,
+  uploadDate: doc.uploadDate ?? "",
+  filePath: resolveFilePath(doc.filePath),
+  fileSize: doc.fileSize,
+  mimeType: doc.mimeType,
+  caseId: doc.caseId ?? "",
+  case: doc.case
+    ? {
+        id: doc.case.id,
+        referenceNumber: doc.case.referenceNumber ?? "",
+        serviceType: doc.case.serviceType ?? "",
+      }
+    : undefined,
+  uploadedById: doc.uploadedById,
+  version: doc.version,
+  versions: doc.versions
+    ? sortVersions(doc.versions.map(mapDocumentVersion))
+    : undefined,
+  rejectionReason: reviewText(doc.rejectionReason),
+  reviewerComment: reviewText(doc.reviewerComment),
+});
 
 export const documentsService = {
   /**
@@ -153,11 +166,11 @@ export const documentsService = {
       }
 
       const query = params.toString();
-      const response = await apiClient.get<
-        ApiResponse<{ documents: any[]; pagination: any }>
-      >(query ? `/documents?${query}` : "/documents");
+      const { documents } = await api.get(
+        query ? `/documents?${query}` : "/documents",
+        documentListContract,
+      );
 
-      const documents = response.data.data?.documents || [];
       const mapped = documents.map(mapDocument);
       logger.info("Documents fetched successfully", { count: mapped.length });
       return mapped;
@@ -172,15 +185,11 @@ export const documentsService = {
    */
   async getDocumentById(documentId: string): Promise<Document> {
     try {
-      const response = await apiClient.get<ApiResponse<{ document: any }>>(
+      const { document } = await api.get(
         `/documents/${documentId}`,
+        documentDetailContract,
       );
 
-      const document = response.data.data?.document;
-      if (!document) {
-        throw new Error(response.data.error || "Document not found");
-      }
-
       const mapped = mapDocument(document);
       logger.info("Document fetched successfully", { documentId });
       return mapped;
@@ -205,16 +214,12 @@ export const documentsService = {
         mimeType: data.mimeType,
       };
 
-      const response = await apiClient.post<ApiResponse<{ document: any }>>(
+      const { document } = await api.post(
         "/documents",
+        documentDetailContract,
         uploadData,
       );
 
-      const document = response.data.data?.document;
-      if (!document) {
-        throw new Error(response.data.error || "Failed to upload document");
-      }
-
       const mapped = mapDocument(document);
       logger.info("Document uploaded successfully", { documentId: mapped.id });
       return mapped;
@@ -224,12 +229,73 @@ export const documentsService = {
     }
   },
 
+  /**
+   * Upload a new version of an existing document. The previous file, its
+   * status and review comments stay in the document's version history.
+   */
+  async replaceDocument(
+    documentId: string,
+    data: ReplaceDocumentRequest,
+  ): Promise<Document> {
+    try {
+      const versionData = {
+        fileName: data.fileName,
+        originalName: data.originalName ?? data.fileName,
+        filePath: data.filePath,
+        fileSize: data.fileSize ?? 0,
+        mimeType: data.mimeType,
+      };
+
+      const { document } = await api.post(
+        `/documents/${documentId}/versions`,
+        documentDetailContract,
+        versionData,
+      );
+
+      documentDownloadCache.delete(documentId);
+      const mapped = mapDocument(document);
+      logger.info("Document replaced successfully", {
+        documentId: mapped.id,
+        version: mapped.version,
+      });
+      return mapped;
+    } catch (error: any) {
+      logger.error("Error replacing document", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get every version of a document, newest first
+   */
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    try {
+      const { versions } = await api.get(
+        `/documents/${documentId}/versions`,
+        documentVersionsContract,
+      );
+      const mapped = sortVersions(versions.map(mapDocumentVersion));
+      logger.info("Document versions fetched successfully", {
+        documentId,
+        count: mapped.length,
+      });
+      return mapped;
+    } catch (error: any) {
+      // Documents uploaded before versioning have no history yet
+      if (error?.status === 404) {
+        return [];
+      }
+      logger.error("Error fetching document versions", error);
+      throw error;
+    }
+  },
+
   /**
    * Delete a document
    */
   async deleteDocument(documentId: string): Promise<void> {
     try {
-      await apiClient.delete<ApiResponse<void>>(`/documents/${documentId}`);
+      await api.delete(`/documents/${documentId}`, emptyContract);
       logger.info("Document deleted successfully", { documentId });
     } catch (error: any) {
       logger.error("Error deleting document", error);
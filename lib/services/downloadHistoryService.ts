@@ -1,5 +1,7 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system/legacy";
 import { logger } from "../utils/logger";
+import { documentVault } from "./documentVault";
 
 export interface DownloadHistoryRecord {
   id: string;
@@ -23,24 +25,72 @@ const getStorageKey = (userId?: string | null): string => {
     : `${STORAGE_KEY_PREFIX}no_user`;
 };
 
-const readDownloads = async (
+const VAULT_RECORD_NAME = "download_history";
+
+/**
+ * Move history written before the vault existed: encrypt any plaintext
+ * files it points to and drop the AsyncStorage copy.
+ */
+const migrateLegacyDownloads = async (
   userId?: string | null,
-): Promise<DownloadHistoryRecord[]> => {
+): Promise<DownloadHistoryRecord[] | null> => {
+  const storageKey = getStorageKey(userId);
+  const stored = await AsyncStorage.getItem(storageKey);
+  if (!stored) {
+    return null;
+  }
+
+  let legacy: DownloadHistoryRecord[] = [];
   try {
-    const storageKey = getStorageKey(userId);
-    const stored = await AsyncStorage.getItem(storageKey);
-    if (!stored) {
-      return [];
-    }
     const parsed = JSON.parse(stored);
-    if (Array.isArray(parsed)) {
-      return parsed;
-    }
-    return [];
+    legacy = Array.isArray(parsed) ? parsed : [];
   } catch (error) {
-    logger.warn("Failed to read download history", error);
-    return [];
+    logger.warn("Discarding unreadable legacy download history", error);
+  }
+
+  const migrated: DownloadHistoryRecord[] = [];
+  for (const record of legacy) {
+    if (!record.localUri || documentVault.isVaultUri(record.localUri)) {
+      migrated.push(record);
+      continue;
+    }
+    try {
+      const info = await FileSystem.getInfoAsync(record.localUri);
+      if (!info.exists) {
+        migrated.push({ ...record, localUri: undefined });
+        continue;
+      }
+      const { uri } = await documentVault.importFile(record.localUri, userId);
+      migrated.push({ ...record, localUri: uri });
+    } catch (error) {
+      logger.warn("Failed to move download into the vault", {
+        id: record.id,
+        error,
+      });
+      migrated.push({ ...record, localUri: undefined });
+    }
   }
+
+  await documentVault.writeJson(VAULT_RECORD_NAME, migrated, userId);
+  await AsyncStorage.removeItem(storageKey);
+  logger.info("Download history moved into the vault", {
+    count: migrated.length,
+  });
+  return migrated;
+};
+
+const readDownloads = async (
+  userId?: string | null,
+): Promise<DownloadHistoryRecord[]> => {
+  const migrated = await migrateLegacyDownloads(userId);
+  if (migrated) {
+    return migrated;
+  }
+  const stored = await documentVault.readJson<DownloadHistoryRecord[]>(
+    VAULT_RECORD_NAME,
+    userId,
+  );
+  return Array.isArray(stored) ? stored : [];
 };
 
 const writeDownloads = async (
@@ -48,16 +98,28 @@ const writeDownloads = async (
   userId?: string | null,
 ) => {
   try {
-    const storageKey = getStorageKey(userId);
-    await AsyncStorage.setItem(storageKey, JSON.stringify(records));
+    await documentVault.writeJson(VAULT_RECORD_NAME, records, userId);
   } catch (error) {
     logger.warn("Failed to persist download history", error);
   }
 };
 
+const removeRecordFile = async (record: DownloadHistoryRecord) => {
+  // Templates share their vault file with the template cache
+  if (record.localUri && record.source !== "template") {
+    await documentVault.removeFile(record.localUri);
+  }
+};
+
 export const downloadHistoryService = {
   async getDownloads(userId?: string | null): Promise<DownloadHistoryRecord[]> {
-    return readDownloads(userId);
+    try {
+      return await readDownloads(userId);
+    } catch (error) {
+      // Biometrics declined: the history stays sealed until the next unlock
+      logger.warn("Failed to read download history", error);
+      return [];
+    }
   },
 
   async saveDownloads(
@@ -71,7 +133,20 @@ export const downloadHistoryService = {
     record: Omit<DownloadHistoryRecord, "id" | "downloadedAt">,
     userId?: string | null,
   ): Promise<DownloadHistoryRecord> {
-    const current = await readDownloads(userId);
+    const newRecord: DownloadHistoryRecord = {
+      ...record,
+      id: `download_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      downloadedAt: new Date().toISOString(),
+    };
+
+    let current: DownloadHistoryRecord[];
+    try {
+      current = await readDownloads(userId);
+    } catch (error) {
+      // Writing now would replace the history the vault did not open
+      logger.warn("Download not recorded; history is unavailable", error);
+      return newRecord;
+    }
 
     const duplicate = current.find((item) => {
       const sameSource = record.source ? item.source === record.source : true;
@@ -101,19 +176,13 @@ export const downloadHistoryService = {
       return duplicate;
     }
 
-    const newRecord: DownloadHistoryRecord = {
-      ...record,
-      id: `download_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-      downloadedAt: new Date().toISOString(),
-    };
-
     const updated = [newRecord, ...current];
-
-    if (updated.length > MAX_ITEMS) {
-      updated.length = MAX_ITEMS;
-    }
+    const trimmed = updated.splice(MAX_ITEMS);
 
     await writeDownloads(updated, userId);
+    for (const record of trimmed) {
+      await removeRecordFile(record);
+    }
     logger.info("Download stored in history", {
       name: newRecord.name,
       source: newRecord.source,
@@ -123,18 +192,23 @@ export const downloadHistoryService = {
 
   async removeDownload(id: string, userId?: string | null): Promise<void> {
     const current = await readDownloads(userId);
-    const updated = current.filter((item) => item.id !== id);
-    if (updated.length === current.length) {
+    const removed = current.find((item) => item.id === id);
+    if (!removed) {
       return;
     }
+    const updated = current.filter((item) => item.id !== id);
     await writeDownloads(updated, userId);
+    await removeRecordFile(removed);
     logger.info("Download removed from history", { id });
   },
 
   async clearDownloads(userId?: string | null): Promise<void> {
     try {
-      const storageKey = getStorageKey(userId);
-      await AsyncStorage.removeItem(storageKey);
+      const current = await readDownloads(userId);
+      await writeDownloads([], userId);
+      for (const record of current) {
+        await removeRecordFile(record);
+      }
       logger.info("Download history cleared", { userId });
     } catch (error) {
       logger.warn("Failed to clear download history", error);
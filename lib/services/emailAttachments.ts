@@ -0,0 +1,91 @@
+import { chatAttachments, PendingChatAttachment } from "./chatAttachments";
+import type { EmailAttachment } from "../types";
+
+export const MAX_EMAIL_ATTACHMENTS = 10;
+export const MAX_EMAIL_ATTACHMENT_BYTES = 10 * 1024 * 1024; // 10MB per file
+export const MAX_EMAIL_TOTAL_BYTES = 25 * 1024 * 1024; // 25MB per email
+
+export type EmailAttachmentSource = "library" | "camera" | "document";
+
+export interface EmailAttachmentPickResult {
+  accepted: PendingChatAttachment[];
+  /** Larger than MAX_EMAIL_ATTACHMENT_BYTES */
+  tooLarge: PendingChatAttachment[];
+  /** Would exceed the file count or total size of the email */
+  overLimit: PendingChatAttachment[];
+}
+
+/**
+ * Split picked files into the ones that fit next to what is already
+ * attached and the ones that break a limit.
+ */
+export const applyEmailAttachmentLimits = (
+  current: { size?: number }[],
+  picked: PendingChatAttachment[],
+): EmailAttachmentPickResult => {
+  const result: EmailAttachmentPickResult = {
+    accepted: [],
+    tooLarge: [],
+    overLimit: [],
+  };
+  let count = current.length;
+  let totalBytes = current.reduce((sum, item) => sum + (item.size ?? 0), 0);
+
+  picked.forEach((attachment) => {
+    if (attachment.size > MAX_EMAIL_ATTACHMENT_BYTES) {
+      result.tooLarge.push(attachment);
+      return;
+    }
+    if (
+      count >= MAX_EMAIL_ATTACHMENTS ||
+      totalBytes + attachment.size > MAX_EMAIL_TOTAL_BYTES
+    ) {
+      result.overLimit.push(attachment);
+      return;
+    }
+    count += 1;
+    totalBytes += attachment.size;
+    result.accepted.push(attachment);
+  });
+
+  return result;
+};
+
+export const emailAttachments = {
+  /** Let the user pick files and keep the ones within the email limits */
+  async pick(
+    source: EmailAttachmentSource,
+    current: { size?: number }[],
+  ): Promise<EmailAttachmentPickResult> {
+    const remaining = Math.max(MAX_EMAIL_ATTACHMENTS - current.length, 1);
+    const picked =
+      source === "camera"
+        ? await chatAttachments.takePhoto()
+        : source === "library"
+          ? await chatAttachments.pickPhotos(remaining)
+          : await chatAttachments.pickDocuments(remaining);
+    return applyEmailAttachmentLimits(current, [
+      ...picked.accepted,
+      ...picked.rejected,
+    ]);
+  },
+
+  /** Upload through the shared upload endpoint */
+  upload(
+    attachments: PendingChatAttachment[],
+    onProgress?: (percent: number) => void,
+  ): Promise<EmailAttachment[]> {
+    return chatAttachments.upload(attachments, onProgress);
+  },
+
+  /** Keep a draft's files in app storage until it is sent or deleted */
+  retain(
+    attachments: PendingChatAttachment[],
+  ): Promise<PendingChatAttachment[]> {
+    return chatAttachments.retain(attachments);
+  },
+
+  release(attachments: PendingChatAttachment[]): Promise<void> {
+    return chatAttachments.release(attachments);
+  },
+};
@@ -0,0 +1,121 @@
+import { createIdempotencyKey } from "../api/retry";
+import { secureStorage } from "../storage/secureStorage";
+import { logger } from "../utils/logger";
+import type { EmailAttachment } from "../types";
+import type { PendingChatAttachment } from "./chatAttachments";
+
+/**
+ * A draft is being edited; "queued" drafts wait in the outbox until the
+ * network is back; "failed" ones were rejected by the server and need the
+ * user's attention.
+ */
+export type EmailDraftStatus = "draft" | "queued" | "sending" | "failed";
+
+export interface EmailDraft {
+  id: string;
+  caseId: string;
+  caseReference?: string | null;
+  /** Advisor the email is addressed to */
+  recipientId: string;
+  recipientName?: string | null;
+  subject: string;
+  content: string;
+  /** Files already uploaded, e.g. by a send attempt that then went offline */
+  attachments?: EmailAttachment[];
+  /** Local files still to upload before the email can be sent */
+  pendingAttachments?: PendingChatAttachment[];
+  /**
+   * Sent with every attempt so the backend drops a resend of an email it
+   * already has. Renewed when the draft is edited. Drafts saved before the
+   * key existed fall back to their ID.
+   */
+  idempotencyKey?: string;
+  status: EmailDraftStatus;
+  attempts: number;
+  lastError?: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type EmailDraftInput = Pick<
+  EmailDraft,
+  | "caseId"
+  | "caseReference"
+  | "recipientId"
+  | "recipientName"
+  | "subject"
+  | "content"
+  | "attachments"
+  | "pendingAttachments"
+>;
+
+const STORAGE_KEY_PREFIX = "email_drafts_"; // Will be suffixed with user ID
+
+const getStorageKey = (userId?: string | null): string =>
+  userId ? `${STORAGE_KEY_PREFIX}${userId}` : `${STORAGE_KEY_PREFIX}no_user`;
+
+export const isEmailDraftEmpty = (draft: EmailDraftInput) =>
+  !draft.subject.trim() &&
+  !draft.content.trim() &&
+  !draft.attachments?.length &&
+  !draft.pendingAttachments?.length;
+
+const attachmentKeys = (draft: EmailDraftInput) =>
+  [
+    ...(draft.attachments ?? []).map((attachment) => attachment.url),
+    ...(draft.pendingAttachments ?? []).map((attachment) => attachment.id),
+  ].join("|");
+
+/** Whether saving `input` over `draft` would change anything */
+export const hasEmailDraftChanges = (
+  draft: EmailDraft,
+  input: EmailDraftInput,
+) =>
+  draft.caseId !== input.caseId ||
+  (draft.caseReference ?? null) !== (input.caseReference ?? null) ||
+  draft.recipientId !== input.recipientId ||
+  (draft.recipientName ?? null) !== (input.recipientName ?? null) ||
+  draft.subject !== input.subject ||
+  draft.content !== input.content ||
+  attachmentKeys(draft) !== attachmentKeys(input);
+
+export const emailDrafts = {
+  createEntry(input: EmailDraftInput): EmailDraft {
+    const now = Date.now();
+    return {
+      ...input,
+      id: `email_draft_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      idempotencyKey: createIdempotencyKey(),
+      status: "draft",
+      attempts: 0,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+  },
+
+  async load(userId?: string | null): Promise<EmailDraft[]> {
+    const stored = await secureStorage.get<EmailDraft[]>(getStorageKey(userId));
+    if (!Array.isArray(stored)) {
+      return [];
+    }
+    // A draft left "sending" means the app was killed mid-request; the
+    // server may or may not have received it, so send it again under the
+    // same idempotency key.
+    return stored.map((draft) =>
+      draft.status === "sending" ? { ...draft, status: "queued" } : draft,
+    );
+  },
+
+  async save(drafts: EmailDraft[], userId?: string | null): Promise<void> {
+    try {
+      if (drafts.length === 0) {
+        await secureStorage.delete(getStorageKey(userId));
+        return;
+      }
+      await secureStorage.set(getStorageKey(userId), drafts);
+    } catch (error) {
+      logger.warn("Failed to persist email drafts", error);
+    }
+  },
+};
@@ -1,4 +1,5 @@
-import { apiClient } from "../api/axios";
+import { api } from "../api/client";
+import { faqListContract } from "../api/contracts";
 import { logger } from "../utils/logger";
 
 export interface FAQItem {
@@ -9,25 +10,15 @@ export interface FAQItem {
   isActive?: boolean;
 }
 
-interface FAQEnvelope {
-  success: boolean;
-  data?:
-    | {
-        faqs?: FAQItem[];
-        categories?: string[];
-      }
-    | FAQItem[];
-  error?: string;
-}
-
 export const faqService = {
   async getAllFAQs(category?: string): Promise<FAQItem[]> {
     try {
       const params = category ? { params: { category } } : undefined;
-      const response = await apiClient.get<FAQEnvelope>("/faq", params);
-      const payload = response.data.data ?? [];
-      const faqs = Array.isArray(payload) ? payload : (payload.faqs ?? []);
-      return faqs.filter((f) => f && (f.isActive ?? true));
+      const payload = await api.get("/faq", faqListContract, params);
+      const faqs: FAQItem[] = Array.isArray(payload)
+        ? payload
+        : (payload.faqs ?? []);
+      return faqs.filter((f) => f.isActive ?? true);
     } catch (error: any) {
       logger.error("Failed to load FAQs", error);
       throw new Error(error?.response?.data?.error || "Unable to load FAQs");
@@ -17,6 +17,8 @@ import { Platform } from "react-native";
 import Constants from "expo-constants";
 import { logger } from "../utils/logger";
 import { messagingSenderId } from "../firebase/config";
+import { syncDataForNotification } from "./notificationSync";
+import type { NotificationData } from "./pushNotifications";
 
 /**
  * Check if FCM is properly configured
@@ -195,20 +197,33 @@ export const setupTokenRefreshListener = (
   };
 };
 
+export type BackgroundNotificationContent = Pick<
+  Notifications.NotificationContent,
+  "title" | "body"
+> & { data: NotificationData };
+
 /**
  * Process background notification data
- * Called when app receives notification while in background
+ * Called by the background notification task while the app is not active
  */
 export const processBackgroundNotification = async (
-  notification: Notifications.Notification,
+  content: BackgroundNotificationContent,
 ): Promise<void> => {
   try {
-    const data = notification.request.content.data;
+    const { title, body, data } = content;
     logger.info("FCM: Processing background notification", {
-      title: notification.request.content.title,
+      title,
       data: data,
     });
 
+    // Mark affected caches stale; the stores refetch on next read
+    await syncDataForNotification(data, { refetch: false });
+
+    // Silent data-only pushes have nothing for the user to open
+    if (!title?.trim() && !body?.trim()) {
+      return;
+    }
+
     // Update badge count if needed
     const badgeCount = await Notifications.getBadgeCountAsync();
     await Notifications.setBadgeCountAsync(badgeCount + 1);
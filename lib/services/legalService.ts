@@ -1,32 +1,9 @@
-import { apiClient } from "../api/axios";
+import { api } from "../api/client";
+import { legalContentContract } from "../api/contracts";
+import type { Infer } from "../api/schema";
 import { logger } from "../utils/logger";
 
-interface LegalDocument {
-  id?: string;
-  title?: string;
-  version?: string | null;
-  content?: string | null;
-  language?: string;
-  isActive?: boolean;
-  publishedAt?: string | null;
-  updatedAt?: string;
-}
-
-interface LegalResponse {
-  success: boolean;
-  data?:
-    | {
-        document?: LegalDocument | null;
-        documents?: LegalDocument[];
-        content?: string;
-      }
-    | LegalDocument
-    | string
-    | null;
-  error?: string;
-}
-
-function extractContent(payload: LegalResponse["data"]): string {
+function extractContent(payload: Infer<typeof legalContentContract>): string {
   if (!payload) {
     return "";
   }
@@ -35,15 +12,15 @@ function extractContent(payload: LegalResponse["data"]): string {
     return payload;
   }
 
-  if ("content" in payload && typeof payload.content === "string") {
+  if (typeof payload.content === "string") {
     return payload.content;
   }
 
-  if ("document" in payload && payload.document) {
-    return payload.document?.content ?? "";
+  if (payload.document) {
+    return payload.document.content ?? "";
   }
 
-  if ("documents" in payload && Array.isArray(payload.documents)) {
+  if (payload.documents) {
     const [first] = payload.documents;
     return first?.content ?? "";
   }
@@ -56,13 +33,13 @@ async function fetchLegalContent(
   language: string = "en",
 ): Promise<string> {
   try {
-    const res = await apiClient.get<LegalResponse>(endpoint, {
+    const payload = await api.get(endpoint, legalContentContract, {
       params: {
         latest: true,
         language,
       },
     });
-    return extractContent(res.data?.data);
+    return extractContent(payload);
   } catch (error: any) {
     logger.error(`Failed to load legal content from ${endpoint}`, error);
     throw new Error(
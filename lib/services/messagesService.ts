@@ -1,4 +1,10 @@
-import { apiClient } from "../api/axios";
+import { api } from "../api/client";
+import { withIdempotencyKey } from "../api/retry";
+import {
+  emailDetailContract,
+  emailListContract,
+  emptyContract,
+} from "../api/contracts";
 import { logger } from "../utils/logger";
 import { auth } from "../firebase/config";
 import type {
@@ -9,16 +15,6 @@ import type {
   MessageDirection,
 } from "../types";
 
-interface ApiResponse<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-}
-
-interface EmailListResponse {
-  emails: RawEmail[];
-}
-
 interface RawParticipant {
   id?: string | null;
   firstName?: string | null;
@@ -76,6 +72,7 @@ interface EmailReplyPayload {
   senderId: string;
   content: string;
   subject?: string;
+  attachments?: EmailAttachment[];
 }
 
 const formatDisplayName = (
@@ -250,10 +247,10 @@ export const messagesService = {
     }
 
     try {
-      const response = await apiClient.get<ApiResponse<EmailListResponse>>(
+      const { emails: rawEmails } = await api.get(
         `/emails?${searchParams.toString()}`,
+        emailListContract,
       );
-      const rawEmails = response.data.data?.emails ?? [];
       logger.info("Emails fetched", {
         count: rawEmails.length,
         direction: params.direction,
@@ -296,13 +293,10 @@ export const messagesService = {
 
     const request = (async (): Promise<Message> => {
       try {
-        const response = await apiClient.get<ApiResponse<{ email: RawEmail }>>(
+        const { email } = await api.get(
           `/emails/${messageId}`,
+          emailDetailContract,
         );
-        const email = response.data.data?.email;
-        if (!email) {
-          throw new Error(response.data.error || "Message not found");
-        }
         const mapped = mapEmailToMessage(email);
         emailDetailCache.set(messageId, {
           data: mapped,
@@ -322,19 +316,25 @@ export const messagesService = {
     return request;
   },
 
-  async sendEmail(payload: SendEmailPayload) {
+  async sendEmail(payload: SendEmailPayload, idempotencyKey?: string) {
     try {
-      await apiClient.post("/emails/send", {
-        caseId: payload.caseId,
-        subject: payload.subject,
-        content: payload.content,
-        attachments: payload.attachments,
-        ...(payload.recipientId ? { recipientId: payload.recipientId } : {}),
-      });
+      await api.post(
+        "/emails/send",
+        emptyContract,
+        {
+          caseId: payload.caseId,
+          subject: payload.subject,
+          content: payload.content,
+          attachments: payload.attachments,
+          ...(payload.recipientId ? { recipientId: payload.recipientId } : {}),
+        },
+        withIdempotencyKey(idempotencyKey),
+      );
       logger.info("Email sent", { caseId: payload.caseId });
     } catch (error: any) {
       logger.error("Failed to send email", {
-        error: error?.response?.data || error.message,
+        code: error?.code,
+        error: error?.message,
       });
       throw error;
     }
@@ -342,16 +342,20 @@ export const messagesService = {
 
   async replyToEmail(payload: EmailReplyPayload) {
     try {
-      await apiClient.post("/emails/incoming", {
+      await api.post("/emails/incoming", emptyContract, {
         threadId: payload.threadId,
         senderId: payload.senderId,
         content: payload.content,
         ...(payload.subject ? { subject: payload.subject } : {}),
+        ...(payload.attachments?.length
+          ? { attachments: payload.attachments }
+          : {}),
       });
       logger.info("Email reply sent", { threadId: payload.threadId });
     } catch (error: any) {
       logger.error("Failed to reply to email", {
-        error: error?.response?.data || error.message,
+        code: error?.code,
+        error: error?.message,
       });
       throw error;
     }
@@ -383,9 +387,7 @@ export const messagesService = {
 
   async markAsRead(messageId: string): Promise<void> {
     try {
-      await apiClient.put<ApiResponse<void>>(
-        `/emails/${encodeURIComponent(messageId)}`,
-      );
+      await api.put(`/emails/${encodeURIComponent(messageId)}`, emptyContract);
       const cached = emailDetailCache.get(messageId);
       if (cached) {
         emailDetailCache.set(messageId, {
@@ -407,9 +409,7 @@ export const messagesService = {
 
   async markAllAsRead(): Promise<void> {
     try {
-      await apiClient.put<ApiResponse<void>>("/emails/mark-read", {
-        emailIds: [],
-      });
+      await api.put("/emails/mark-read", emptyContract, { emailIds: [] });
       logger.info("All messages marked as read");
     } catch (error: any) {
       logger.error("Error marking all messages as read", error);
@@ -419,12 +419,9 @@ export const messagesService = {
 
   async markAsUnread(messageId: string): Promise<void> {
     try {
-      await apiClient.put<ApiResponse<void>>(
-        `/emails/${encodeURIComponent(messageId)}`,
-        {
-          unread: true,
-        },
-      );
+      await api.put(`/emails/${encodeURIComponent(messageId)}`, emptyContract, {
+        unread: true,
+      });
       const cached = emailDetailCache.get(messageId);
       if (cached) {
         emailDetailCache.set(messageId, {
@@ -443,7 +440,8 @@ export const messagesService = {
         "Backend does not support mark-as-unread; falling back to local state",
         {
           messageId,
-          error: error.response?.data || error.message,
+          code: error?.code,
+          error: error?.message,
         },
       );
       throw error;
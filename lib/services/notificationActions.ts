@@ -0,0 +1,309 @@
+/**
+ * Notification Actions
+ * Categories with action buttons for push and local notifications, and
+ * the handlers that run when one of those buttons is pressed.
+ */
+
+import * as Notifications from "expo-notifications";
+import { router } from "expo-router";
+import i18n from "../i18n";
+import { NOTIFICATION_ACTIONS, NOTIFICATION_CATEGORIES } from "../constants";
+import { auth } from "../firebase/config";
+import { logger } from "../utils/logger";
+import { chatService } from "./chat";
+import { calendarExport } from "./calendarExport";
+import { appointmentsService } from "./appointmentsService";
+import { syncDataForNotification } from "./notificationSync";
+import type { NotificationData } from "./pushNotifications";
+
+const AUTH_WAIT_TIMEOUT = 10 * 1000; // 10 seconds
+
+/**
+ * Register the categories with the OS. Button titles are resolved now, so
+ * call again after the app language changes.
+ */
+export const registerNotificationCategories = async (): Promise<void> => {
+  const markRead: Notifications.NotificationAction = {
+    identifier: NOTIFICATION_ACTIONS.MARK_READ,
+    buttonTitle: i18n.t("notifications.actions.markRead", {
+      defaultValue: "Mark read",
+    }),
+    options: { opensAppToForeground: false },
+  };
+
+  try {
+    await Promise.all([
+      Notifications.setNotificationCategoryAsync(
+        NOTIFICATION_CATEGORIES.MESSAGE,
+        [
+          {
+            identifier: NOTIFICATION_ACTIONS.REPLY,
+            buttonTitle: i18n.t("notifications.actions.reply", {
+              defaultValue: "Reply",
+            }),
+            textInput: {
+              submitButtonTitle: i18n.t("notifications.actions.send", {
+                defaultValue: "Send",
+              }),
+              placeholder: i18n.t("notifications.actions.replyPlaceholder", {
+                defaultValue: "Write a reply…",
+              }),
+            },
+            options: { opensAppToForeground: false },
+          },
+          markRead,
+        ],
+      ),
+      Notifications.setNotificationCategoryAsync(
+        NOTIFICATION_CATEGORIES.DOCUMENT_REJECTED,
+        [
+          {
+            identifier: NOTIFICATION_ACTIONS.UPLOAD_NOW,
+            buttonTitle: i18n.t("notifications.actions.uploadNow", {
+              defaultValue: "Upload now",
+            }),
+            options: { opensAppToForeground: true },
+          },
+          markRead,
+        ],
+      ),
+      Notifications.setNotificationCategoryAsync(
+        NOTIFICATION_CATEGORIES.APPOINTMENT,
+        [
+          {
+            identifier: NOTIFICATION_ACTIONS.CONFIRM_APPOINTMENT,
+            buttonTitle: i18n.t("notifications.actions.confirm", {
+              defaultValue: "Confirm",
+            }),
+            options: { opensAppToForeground: false },
+          },
+          {
+            // The calendar is reached through the share sheet
+            identifier: NOTIFICATION_ACTIONS.ADD_TO_CALENDAR,
+            buttonTitle: i18n.t("appointments.addToCalendar", {
+              defaultValue: "Add to calendar",
+            }),
+            options: { opensAppToForeground: true },
+          },
+        ],
+      ),
+      Notifications.setNotificationCategoryAsync(
+        NOTIFICATION_CATEGORIES.GENERAL,
+        [markRead],
+      ),
+    ]);
+    logger.info("Notification categories registered");
+  } catch (error) {
+    logger.warn("Could not register notification categories", error);
+  }
+};
+
+/**
+ * The signed-in user, waiting for a cold start to restore the session
+ */
+const waitForUser = async () => {
+  const { useAuthStore, initializeAuthListener } =
+    await import("../../stores/auth/authStore");
+  // A button pressed while the app was terminated runs without the layout
+  // that normally starts the listener
+  initializeAuthListener();
+  const current = useAuthStore.getState();
+  if (!current.isLoading) {
+    return current.user;
+  }
+
+  return new Promise<typeof current.user>((resolve) => {
+    const timeout = setTimeout(() => {
+      unsubscribe();
+      resolve(useAuthStore.getState().user);
+    }, AUTH_WAIT_TIMEOUT);
+    const unsubscribe = useAuthStore.subscribe((state) => {
+      if (!state.isLoading) {
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve(state.user);
+      }
+    });
+  });
+};
+
+const getActionFailedMessage = (actionIdentifier: string) => {
+  switch (actionIdentifier) {
+    case NOTIFICATION_ACTIONS.REPLY:
+      return i18n.t("notifications.actions.replyFailed", {
+        defaultValue: "Your reply could not be sent. Open the chat to retry.",
+      });
+    case NOTIFICATION_ACTIONS.CONFIRM_APPOINTMENT:
+      return i18n.t("notifications.actions.confirmFailed", {
+        defaultValue:
+          "Your appointment could not be confirmed. Open the app to try again.",
+      });
+    default:
+      return i18n.t("notifications.actions.failedMessage", {
+        defaultValue: "Open the app to try again.",
+      });
+  }
+};
+
+/** Tell the user about an action that failed while the app was hidden */
+const notifyActionFailed = async (message: string) => {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: i18n.t("notifications.actions.failedTitle", {
+          defaultValue: "Action not completed",
+        }),
+        body: message,
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    logger.debug("Failed to show notification action error", error);
+  }
+};
+
+const replyToMessage = async (data: NotificationData, text?: string) => {
+  const message = text?.trim();
+  const roomId = data.roomId ?? data.chatRoomId ?? data.caseId;
+  if (!message || !roomId) {
+    logger.warn("Notification reply skipped: nothing to send", {
+      hasMessage: !!message,
+      hasRoom: !!roomId,
+    });
+    return;
+  }
+
+  const user = await waitForUser();
+  if (!user) {
+    throw new Error("Reply requires a signed-in user");
+  }
+
+  const sent = await chatService.sendMessage(
+    roomId,
+    auth.currentUser?.uid || user.uid,
+    user.displayName || user.email || "User",
+    "CLIENT",
+    message,
+  );
+  if (!sent) {
+    throw new Error("Chat service did not accept the reply");
+  }
+  logger.info("Replied to message from notification", { roomId });
+};
+
+const markNotificationRead = async (data: NotificationData) => {
+  const work: Promise<void>[] = [];
+  if (data.notificationId) {
+    const { useNotificationsStore } =
+      await import("../../stores/notifications/notificationsStore");
+    work.push(
+      useNotificationsStore.getState().markAsRead(String(data.notificationId)),
+    );
+  }
+  if (data.type === "NEW_EMAIL" && data.messageId) {
+    const { useMessagesStore } =
+      await import("../../stores/messages/messagesStore");
+    work.push(useMessagesStore.getState().markAsRead(data.messageId));
+  }
+  if (work.length === 0) {
+    logger.warn("Notification has nothing to mark as read", {
+      type: data.type,
+    });
+  }
+  await Promise.all(work);
+};
+
+const openDocumentUpload = (data: NotificationData) => {
+  router.push({
+    pathname: "/documents/upload",
+    params: {
+      caseId: data.caseId,
+      documentType: data.documentType,
+      replaceDocumentId: data.documentId,
+      replaceDocumentName: data.documentName,
+    },
+  });
+};
+
+const addAppointmentToCalendar = async (data: NotificationData) => {
+  if (!data.appointmentId) {
+    router.push("/appointments");
+    return;
+  }
+
+  try {
+    const { useAppointmentsStore } =
+      await import("../../stores/appointments/appointmentsStore");
+    const store = useAppointmentsStore.getState();
+    await store.loadReminderOffsets();
+    const appointment = await appointmentsService.getAppointmentById(
+      data.appointmentId,
+    );
+    await calendarExport.exportAppointment(
+      appointment,
+      useAppointmentsStore.getState().reminderOffsets,
+    );
+  } catch (error) {
+    // The detail screen offers the same export with its own error handling
+    logger.warn("Calendar export from notification failed", error);
+    router.push({
+      pathname: "/appointments/[id]",
+      params: { id: data.appointmentId },
+    });
+  }
+};
+
+const confirmAppointment = async (data: NotificationData) => {
+  if (!data.appointmentId) {
+    logger.warn("Appointment confirmation skipped: no appointment id");
+    return;
+  }
+  await appointmentsService.confirmAppointment(data.appointmentId);
+  await syncDataForNotification(
+    { ...data, type: "APPOINTMENT_UPDATED" },
+    { refetch: false },
+  );
+};
+
+/**
+ * Run the action behind a notification button. Actions that leave the app
+ * hidden report failures with a local notification instead of throwing.
+ */
+export const handleNotificationAction = async (
+  actionIdentifier: string,
+  data: NotificationData,
+  userText?: string,
+): Promise<void> => {
+  logger.info("Handling notification action", {
+    actionIdentifier,
+    type: data.type,
+  });
+
+  try {
+    switch (actionIdentifier) {
+      case NOTIFICATION_ACTIONS.REPLY:
+        await replyToMessage(data, userText);
+        break;
+      case NOTIFICATION_ACTIONS.MARK_READ:
+        await markNotificationRead(data);
+        break;
+      case NOTIFICATION_ACTIONS.UPLOAD_NOW:
+        openDocumentUpload(data);
+        break;
+      case NOTIFICATION_ACTIONS.ADD_TO_CALENDAR:
+        await addAppointmentToCalendar(data);
+        break;
+      case NOTIFICATION_ACTIONS.CONFIRM_APPOINTMENT:
+        await confirmAppointment(data);
+        break;
+      default:
+        logger.warn("Unknown notification action", { actionIdentifier });
+    }
+  } catch (error: any) {
+    logger.error("Notification action failed", {
+      actionIdentifier,
+      error: error?.message,
+    });
+    await notifyActionFailed(getActionFailedMessage(actionIdentifier));
+  }
+};
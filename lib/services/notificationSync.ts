@@ -0,0 +1,258 @@
+/**
+ * Notification Sync
+ * Routes each push notification to the data it makes stale, so screens
+ * refresh when the server says something changed instead of waiting for
+ * their cache to expire.
+ */
+
+import { auth } from "../firebase/config";
+import {
+  persistQueryCache,
+  queryClient,
+  restoreQueryCache,
+} from "../query/queryClient";
+import { queryKeys } from "../query/queryKeys";
+import { fromMonthKey } from "../utils/calendar";
+import { logger } from "../utils/logger";
+import type { NotificationData } from "./pushNotifications";
+
+export type SyncTarget =
+  | "cases"
+  | "documents"
+  | "notifications"
+  | "emails"
+  | "conversations"
+  | "appointments"
+  | "dashboard";
+
+/** What each notification type invalidates on the client */
+const SYNC_TARGETS_BY_TYPE: Record<string, SyncTarget[]> = {
+  CASE_STATUS_UPDATE: ["cases", "dashboard", "notifications"],
+  CASE_ASSIGNED: ["cases", "dashboard", "notifications"],
+  // A document decision can move its case in or out of DOCUMENTS_REQUIRED
+  DOCUMENT_UPLOADED: ["documents", "cases", "dashboard", "notifications"],
+  DOCUMENT_VERIFIED: ["documents", "cases", "dashboard", "notifications"],
+  DOCUMENT_REJECTED: ["documents", "cases", "dashboard", "notifications"],
+  NEW_MESSAGE: ["conversations", "notifications"],
+  NEW_EMAIL: ["emails", "notifications"],
+  APPOINTMENT_SCHEDULED: ["appointments", "dashboard", "notifications"],
+  APPOINTMENT_UPDATED: ["appointments", "dashboard", "notifications"],
+  APPOINTMENT_CANCELLED: ["appointments", "dashboard", "notifications"],
+  SYSTEM_ANNOUNCEMENT: ["notifications"],
+  // Scheduled on the device by appointmentReminders; nothing changed upstream
+  APPOINTMENT_REMINDER: [],
+};
+
+// Every server push is backed by a notification record the cache lacks
+const DEFAULT_SYNC_TARGETS: SyncTarget[] = ["notifications"];
+
+export const getSyncTargets = (type?: string): SyncTarget[] =>
+  (type && SYNC_TARGETS_BY_TYPE[type]) || DEFAULT_SYNC_TARGETS;
+
+export interface NotificationSyncOptions {
+  /**
+   * Refetch whatever the stores currently show. Off for background
+   * deliveries, where marking the cache stale is enough for the next read.
+   */
+  refetch?: boolean;
+}
+
+const getCurrentUserId = async (): Promise<string | null> => {
+  // Loaded lazily: the stores import the services this module sits beside
+  const { useAuthStore } = await import("../../stores/auth/authStore");
+  const user = useAuthStore.getState().user;
+  if (user) {
+    return user.uid;
+  }
+  // Background launches never start the auth listener that fills the store
+  await auth.authStateReady();
+  return auth.currentUser?.uid ?? null;
+};
+
+const invalidateTarget = async (
+  target: SyncTarget,
+  userId: string,
+): Promise<void> => {
+  switch (target) {
+    case "cases":
+      await queryClient.invalidateQueries({
+        queryKey: queryKeys.cases(userId),
+      });
+      break;
+    case "documents": {
+      const { useDocumentsStore } =
+        await import("../../stores/documents/documentsStore");
+      useDocumentsStore.getState().invalidateCache();
+      break;
+    }
+    case "notifications":
+      await queryClient.invalidateQueries({
+        queryKey: queryKeys.notifications(userId),
+      });
+      break;
+    case "emails":
+      await queryClient.invalidateQueries({
+        queryKey: queryKeys.emails(userId),
+      });
+      break;
+    case "conversations":
+      await queryClient.invalidateQueries({
+        queryKey: queryKeys.conversations(userId),
+      });
+      break;
+    case "appointments":
+      await queryClient.invalidateQueries({
+        queryKey: queryKeys.nextAppointment(userId),
+      });
+      break;
+    case "dashboard":
+      // The home screen watches these keys and refetches while mounted
+      await queryClient.invalidateQueries({
+        queryKey: queryKeys.dashboard(userId),
+      });
+      break;
+  }
+};
+
+const refetchTarget = async (
+  target: SyncTarget,
+  userId: string,
+  data: NotificationData,
+): Promise<void> => {
+  switch (target) {
+    case "cases": {
+      const { useCasesStore } = await import("../../stores/cases/casesStore");
+      const cases = useCasesStore.getState();
+      const refreshes: Promise<void>[] = [];
+      if (cases.lastFetched !== null) {
+        refreshes.push(
+          cases.fetchCases(cases.currentFilters ?? undefined, { force: true }),
+        );
+      }
+      if (data.caseId && cases.selectedCase?.id === data.caseId) {
+        refreshes.push(cases.fetchCaseById(data.caseId, { force: true }));
+      }
+      if (data.caseId && cases.caseHistory[data.caseId]) {
+        refreshes.push(cases.fetchCaseHistory(data.caseId, { force: true }));
+      }
+      await Promise.all(refreshes);
+      break;
+    }
+    case "documents": {
+      const { useDocumentsStore } =
+        await import("../../stores/documents/documentsStore");
+      const documents = useDocumentsStore.getState();
+      if (documents.currentFilters || documents.documents.length > 0) {
+        await documents.fetchDocuments(documents.currentFilters ?? undefined, {
+          force: true,
+        });
+      }
+      break;
+    }
+    case "notifications": {
+      const { useNotificationsStore } =
+        await import("../../stores/notifications/notificationsStore");
+      const notifications = useNotificationsStore.getState();
+      await Promise.all([
+        notifications.fetchUnreadCount(),
+        notifications.lastFetched !== null
+          ? notifications.fetchNotifications()
+          : Promise.resolve(),
+      ]);
+      break;
+    }
+    case "emails": {
+      const { useMessagesStore } =
+        await import("../../stores/messages/messagesStore");
+      await useMessagesStore.getState().fetchMessages(true);
+      break;
+    }
+    case "conversations": {
+      const { useMessagesStore } =
+        await import("../../stores/messages/messagesStore");
+      const messages = useMessagesStore.getState();
+      // A live subscription already delivers new chat messages
+      if (
+        !messages.unsubscribeConversations &&
+        messages.lastConversationsUserId === userId
+      ) {
+        await messages.fetchConversations(userId, true);
+      }
+      break;
+    }
+    case "appointments": {
+      const { useAppointmentsStore } =
+        await import("../../stores/appointments/appointmentsStore");
+      const appointments = useAppointmentsStore.getState();
+      const refreshes: Promise<void>[] = Object.keys(
+        appointments.monthAppointments,
+      ).map((monthKey) => appointments.fetchMonth(fromMonthKey(monthKey)));
+      if (appointments.lists.upcoming.page > 0) {
+        refreshes.push(appointments.fetchAppointments("upcoming"));
+      }
+      const selectedId = appointments.selectedAppointment?.id;
+      if (
+        selectedId &&
+        (!data.appointmentId || data.appointmentId === selectedId)
+      ) {
+        refreshes.push(appointments.fetchAppointmentById(selectedId));
+      }
+      await Promise.all(refreshes);
+      break;
+    }
+    case "dashboard":
+      break;
+  }
+};
+
+/**
+ * Bring the caches a notification affects up to date. Failures are logged
+ * per target so one bad refetch does not hold back the rest.
+ */
+export const syncDataForNotification = async (
+  data: NotificationData | null | undefined,
+  options: NotificationSyncOptions = {},
+): Promise<void> => {
+  const targets = getSyncTargets(data?.type);
+  if (targets.length === 0) {
+    return;
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    logger.debug("Skipping notification sync: user not authenticated");
+    return;
+  }
+
+  const refetch = options.refetch ?? true;
+  logger.info("Syncing data for notification", {
+    type: data?.type,
+    targets,
+    refetch,
+  });
+  // Invalidating before the disk copy is loaded would mark nothing, and
+  // the next launch would restore the old snapshot as fresh
+  await restoreQueryCache(userId);
+
+  await Promise.all(
+    targets.map(async (target) => {
+      try {
+        await invalidateTarget(target, userId);
+        if (refetch) {
+          await refetchTarget(target, userId, data ?? {});
+        }
+      } catch (error) {
+        logger.warn("Failed to sync data for notification", {
+          type: data?.type,
+          target,
+          error,
+        });
+      }
+    }),
+  );
+
+  if (!refetch) {
+    // Keep the invalidation for the next launch to restore
+    await persistQueryCache(userId);
+  }
+};
@@ -1,12 +1,24 @@
-import { apiClient } from "../api/axios";
+import { api } from "../api/client";
+import {
+  emptyContract,
+  notificationContract,
+  notificationListContract,
+} from "../api/contracts";
+import type { Infer } from "../api/schema";
 import { logger } from "../utils/logger";
 import type { Notification } from "../types";
 
-interface ApiResponse<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-}
+const mapNotification = (
+  notification: Infer<typeof notificationContract>,
+): Notification => ({
+  ...notification,
+  type: notification.type as Notification["type"],
+  description: notification.description ?? "",
+  time: notification.time ?? "",
+  unread: notification.unread ?? false,
+  relatedId: notification.relatedId ?? undefined,
+  createdAt: notification.createdAt ?? undefined,
+});
 
 export const notificationsService = {
   /**
@@ -14,15 +26,12 @@ export const notificationsService = {
    */
   async getNotifications(page = 1, pageSize = 20): Promise<Notification[]> {
     try {
-      const response = await apiClient.get<
-        ApiResponse<{
-          notifications: Notification[];
-          unreadCount: number;
-          pagination: any;
-        }>
-      >(`/notifications?page=${page}&limit=${pageSize}`);
+      const data = await api.get(
+        `/notifications?page=${page}&limit=${pageSize}`,
+        notificationListContract,
+      );
 
-      const notifications = response.data.data?.notifications || [];
+      const notifications = data.notifications.map(mapNotification);
       logger.info("Notifications fetched successfully", {
         count: notifications.length,
       });
@@ -39,14 +48,11 @@ export const notificationsService = {
   async getUnreadCount(): Promise<number> {
     try {
       // The API returns unreadCount in the GET /notifications response
-      const response = await apiClient.get<
-        ApiResponse<{
-          notifications: Notification[];
-          unreadCount: number;
-          pagination: any;
-        }>
-      >("/notifications?page=1&limit=1");
-      const count = response.data.data?.unreadCount || 0;
+      const data = await api.get(
+        "/notifications?page=1&limit=1",
+        notificationListContract,
+      );
+      const count = data.unreadCount || 0;
       logger.info("Unread notifications count fetched", { count });
       return count;
     } catch (error: any) {
@@ -60,9 +66,7 @@ export const notificationsService = {
    */
   async markAsRead(notificationId: string): Promise<void> {
     try {
-      await apiClient.put<ApiResponse<void>>(
-        `/notifications/${notificationId}`,
-      );
+      await api.put(`/notifications/${notificationId}`, emptyContract);
       logger.info("Notification marked as read", { notificationId });
     } catch (error: any) {
       logger.error("Error marking notification as read", error);
@@ -75,7 +79,7 @@ export const notificationsService = {
    */
   async markAllAsRead(): Promise<void> {
     try {
-      await apiClient.put<ApiResponse<void>>("/notifications/mark-all-read");
+      await api.put("/notifications/mark-all-read", emptyContract);
       logger.info("All notifications marked as read");
     } catch (error: any) {
       logger.error("Error marking all notifications as read", error);
@@ -88,9 +92,7 @@ export const notificationsService = {
    */
   async deleteNotification(notificationId: string): Promise<void> {
     try {
-      await apiClient.delete<ApiResponse<void>>(
-        `/notifications/${notificationId}`,
-      );
+      await api.delete(`/notifications/${notificationId}`, emptyContract);
       logger.info("Notification deleted successfully", { notificationId });
     } catch (error: any) {
       logger.error("Error deleting notification", error);
@@ -1,13 +1,16 @@
-import { apiClient } from "../api/axios";
+import { api } from "../api/client";
+import {
+  emptyContract,
+  paymentHistoryContract,
+  paymentIntentContract,
+  paymentVerificationContract,
+  refundContract,
+  subscriptionStatusContract,
+} from "../api/contracts";
+import { withIdempotencyKey } from "../api/retry";
 import { logger } from "../utils/logger";
 import type { PaymentIntent, PaymentRecord, RefundResponse } from "../types";
 
-interface ApiResponse<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-}
-
 export interface CreatePaymentIntentParams {
   amount: number; // in major units (e.g., 500.00 for Basic tier)
   currency?: string; // default provided server-side
@@ -38,15 +41,15 @@ export interface RefundParams {
 export const paymentsService = {
   async createPaymentIntent(
     params: CreatePaymentIntentParams,
+    idempotencyKey?: string,
   ): Promise<PaymentIntent> {
     try {
-      const res = await apiClient.post<ApiResponse<PaymentIntent>>(
+      return await api.post(
         "/payments/intents",
+        paymentIntentContract,
         params,
+        withIdempotencyKey(idempotencyKey),
       );
-      if (!res.data.success || !res.data.data)
-        throw new Error(res.data.error || "Failed to create intent");
-      return res.data.data;
     } catch (error: any) {
       logger.error("createPaymentIntent failed", error);
       const message =
@@ -69,15 +72,13 @@ export const paymentsService = {
     params: ConfirmPaymentParams,
   ): Promise<PaymentIntent> {
     try {
-      const res = await apiClient.post<ApiResponse<PaymentIntent>>(
+      return await api.post(
         `/payments/intents/${params.paymentIntentId}/confirm`,
+        paymentIntentContract,
         {
           paymentMethodId: params.paymentMethodId,
         },
       );
-      if (!res.data.success || !res.data.data)
-        throw new Error(res.data.error || "Failed to confirm payment");
-      return res.data.data;
     } catch (error: any) {
       logger.error("confirmPaymentIntent failed", error);
       throw new Error(
@@ -99,22 +100,9 @@ export const paymentsService = {
     subscriptionExpiresAt: string | null;
   }> {
     try {
-      const res = await apiClient.post<
-        ApiResponse<{
-          paymentStatus: string;
-          stripeStatus: string;
-          hasPaid: boolean;
-          subscriptionTier: string | null;
-          paymentDate: string | null;
-          subscriptionExpiresAt: string | null;
-        }>
-      >("/payments/verify", { paymentIntentId });
-
-      if (!res.data.success || !res.data.data) {
-        throw new Error(res.data.error || "Failed to verify payment");
-      }
-
-      return res.data.data;
+      return await api.post("/payments/verify", paymentVerificationContract, {
+        paymentIntentId,
+      });
     } catch (error: any) {
       logger.error("verifyPayment failed", error);
       throw new Error(
@@ -129,12 +117,10 @@ export const paymentsService = {
    */
   async verifyPaymentStatus(paymentIntentId: string): Promise<PaymentIntent> {
     try {
-      const res = await apiClient.get<ApiResponse<PaymentIntent>>(
+      return await api.get(
         `/payments/intents/${paymentIntentId}`,
+        paymentIntentContract,
       );
-      if (!res.data.success || !res.data.data)
-        throw new Error(res.data.error || "Failed to verify payment");
-      return res.data.data;
     } catch (error: any) {
       logger.error("verifyPaymentStatus failed", error);
       throw new Error(
@@ -149,11 +135,11 @@ export const paymentsService = {
    */
   async getSubscriptionStatus(): Promise<SubscriptionStatus> {
     try {
-      const res =
-        await apiClient.get<ApiResponse<SubscriptionStatus>>(
-          "/payments/status",
-        );
-      if (!res.data.success || !res.data.data) {
+      const status = await api.get(
+        "/payments/status",
+        subscriptionStatusContract.nullable(),
+      );
+      if (!status) {
         // Return default status if not found
         return {
           hasPaid: false,
@@ -165,9 +151,9 @@ export const paymentsService = {
         };
       }
       // Normalize response: ensure isActive is present (derive from hasPaid if missing)
-      const status = res.data.data;
       return {
         ...status,
+        bypassed: status.bypassed ?? false,
         isActive:
           status.isActive !== undefined ? status.isActive : status.hasPaid,
       };
@@ -187,14 +173,14 @@ export const paymentsService = {
 
   async getPaymentHistory(userId?: string): Promise<PaymentRecord[]> {
     try {
-      const res = await apiClient.get<ApiResponse<PaymentRecord[]>>(
+      const history = await api.get(
         "/payments/history",
+        paymentHistoryContract.nullable(),
         {
           params: userId ? { userId } : undefined,
         },
       );
-      if (!res.data.success || !res.data.data) return [];
-      return res.data.data;
+      return history ?? [];
     } catch (error: any) {
       logger.error("getPaymentHistory failed", error);
       return [];
@@ -203,11 +189,10 @@ export const paymentsService = {
 
   async cancelPaymentIntent(paymentIntentId: string): Promise<void> {
     try {
-      const res = await apiClient.post<ApiResponse<void>>(
+      await api.post(
         `/payments/intents/${paymentIntentId}/cancel`,
+        emptyContract,
       );
-      if (!res.data.success)
-        throw new Error(res.data.error || "Failed to cancel intent");
     } catch (error: any) {
       logger.error("cancelPaymentIntent failed", error);
       throw new Error(
@@ -218,13 +203,7 @@ export const paymentsService = {
 
   async requestRefund(params: RefundParams): Promise<RefundResponse> {
     try {
-      const res = await apiClient.post<ApiResponse<RefundResponse>>(
-        "/payments/refunds",
-        params,
-      );
-      if (!res.data.success || !res.data.data)
-        throw new Error(res.data.error || "Failed to create refund");
-      return res.data.data;
+      return await api.post("/payments/refunds", refundContract, params);
     } catch (error: any) {
       logger.error("requestRefund failed", error);
       throw new Error(
@@ -1,12 +1,21 @@
+import {
+  AppState,
+  AppStateStatus,
+  NativeEventSubscription,
+  Platform,
+} from "react-native";
 import {
   onAuthStateChanged,
   Unsubscribe as AuthUnsubscribe,
 } from "firebase/auth";
 import {
   ref,
+  child,
   onValue,
   onDisconnect,
+  push,
   set,
+  update,
   serverTimestamp,
   remove,
   DatabaseReference,
@@ -15,23 +24,57 @@ import {
 
 import { auth, getDatabaseInstance } from "@/lib/firebase/config";
 import { logger } from "@/lib/utils/logger";
-
-type PresenceState = "online" | "offline";
-
-const OFFLINE_STATUS = {
-  state: "offline" as PresenceState,
-  last_changed: serverTimestamp(),
-};
-
-const ONLINE_STATUS = {
-  state: "online" as PresenceState,
-  last_changed: serverTimestamp(),
-};
+import {
+  getActiveTypers,
+  OFFLINE_PRESENCE,
+  parsePresenceStatus,
+  PeerPresence,
+  TYPING_HEARTBEAT_MS,
+} from "@/lib/utils/presence";
+
+/*
+ * Layout of `status/{uid}`:
+ *   connections/{pushId}  one entry per connected, foregrounded device
+ *   lastSeen              server time the last device went away
+ *   state, last_changed   kept for clients that predate `connections`
+ *
+ * Each device only ever removes its own connection, so a phone going to the
+ * background does not mark the user offline while their laptop is open.
+ */
 
 let initialized = false;
 let authUnsubscribe: AuthUnsubscribe | null = null;
 let connectionUnsubscribe: Unsubscribe | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
 let activeStatusRef: DatabaseReference | null = null;
+let activeConnectionRef: DatabaseReference | null = null;
+let isSocketConnected = false;
+let appState: AppStateStatus = AppState.currentState;
+
+// Local clock correction from `.info/serverTimeOffset`, for typing expiry
+let serverTimeOffset = 0;
+let serverTimeOffsetUnsubscribe: Unsubscribe | null = null;
+
+// Last typing heartbeat written per room, to throttle writes per keystroke
+const lastTypingWriteAt = new Map<string, number>();
+
+const getServerNow = () => Date.now() + serverTimeOffset;
+
+const watchServerTimeOffset = () => {
+  if (serverTimeOffsetUnsubscribe) {
+    return;
+  }
+  const db = getDatabaseInstance();
+  if (!db) {
+    return;
+  }
+  serverTimeOffsetUnsubscribe = onValue(
+    ref(db, ".info/serverTimeOffset"),
+    (snapshot) => {
+      serverTimeOffset = Number(snapshot.val()) || 0;
+    },
+  );
+};
 
 const cleanupConnectionListener = () => {
   if (connectionUnsubscribe) {
@@ -45,31 +88,78 @@ const cleanupConnectionListener = () => {
   }
 };
 
-const markCurrentUserOffline = () => {
-  if (!activeStatusRef) {
+/** Register this device as a live connection of the signed-in user */
+const goOnline = () => {
+  if (!activeStatusRef || activeConnectionRef || !isSocketConnected) {
     return;
   }
 
-  set(activeStatusRef, {
-    state: "offline",
-    last_changed: serverTimestamp(),
-  }).catch((error) => {
-    logger.warn("Failed to mark user offline during cleanup", error);
-  });
+  const statusRef = activeStatusRef;
+  const deviceRef = push(child(statusRef, "connections"));
+  activeConnectionRef = deviceRef;
+
+  // Server-side cleanup first, so a crash right after still goes offline
+  Promise.all([
+    onDisconnect(deviceRef).remove(),
+    onDisconnect(statusRef).update({
+      state: "offline",
+      lastSeen: serverTimestamp(),
+      last_changed: serverTimestamp(),
+    }),
+  ])
+    .then(() =>
+      Promise.all([
+        set(deviceRef, {
+          connectedAt: serverTimestamp(),
+          platform: Platform.OS,
+        }),
+        update(statusRef, {
+          state: "online",
+          last_changed: serverTimestamp(),
+        }),
+      ]),
+    )
+    .catch((error) => {
+      logger.warn("Failed to mark user online", error);
+    });
+};
+
+/** Drop this device's connection, e.g. when the app is backgrounded */
+const goOffline = (): Promise<void> => {
+  const statusRef = activeStatusRef;
+  const deviceRef = activeConnectionRef;
+  activeConnectionRef = null;
+  if (!statusRef || !deviceRef) {
+    return Promise.resolve();
+  }
+
+  onDisconnect(deviceRef)
+    .cancel()
+    .catch(() => undefined);
+  return remove(deviceRef)
+    .then(() =>
+      update(statusRef, {
+        lastSeen: serverTimestamp(),
+        last_changed: serverTimestamp(),
+      }),
+    )
+    .catch((error) => {
+      logger.warn("Failed to mark user offline", error);
+    });
 };
 
-// Feature flag to disable presence tracking
-const PRESENCE_ENABLED = false;
+const handleAppStateChange = (nextState: AppStateStatus) => {
+  const wasActive = appState === "active";
+  appState = nextState;
+  if (nextState === "active" && !wasActive) {
+    goOnline();
+  } else if (nextState !== "active" && wasActive) {
+    goOffline();
+  }
+};
 
 export const presenceService = {
   initializePresenceTracking(): () => void {
-    // Temporarily disabled - return noop cleanup
-    if (!PRESENCE_ENABLED) {
-      return () => {
-        // noop - presence disabled
-      };
-    }
-
     if (initialized) {
       return () => {
         // noop for repeated initializations
@@ -77,13 +167,19 @@ export const presenceService = {
     }
 
     initialized = true;
+    watchServerTimeOffset();
+    appStateSubscription = AppState.addEventListener(
+      "change",
+      handleAppStateChange,
+    );
 
     authUnsubscribe = onAuthStateChanged(auth, async (user) => {
       cleanupConnectionListener();
+      goOffline();
+      activeStatusRef = null;
+      isSocketConnected = false;
 
       if (!user) {
-        markCurrentUserOffline();
-        activeStatusRef = null;
         return;
       }
 
@@ -99,15 +195,6 @@ export const presenceService = {
         );
         await new Promise((resolve) => setTimeout(resolve, 500));
         db = getDatabaseInstance();
-        if (db) {
-          logger.info(
-            "[PresenceService] Database initialized successfully on retry!",
-          );
-        }
-      } else {
-        logger.info(
-          "[PresenceService] Database available, initializing presence tracking",
-        );
       }
 
       if (!db) {
@@ -117,30 +204,23 @@ export const presenceService = {
         return;
       }
 
-      const userStatusRef = ref(db, `status/${user.uid}`);
-      const connectedRef = ref(db, ".info/connected");
-
-      connectionUnsubscribe = onValue(connectedRef, (snapshot) => {
-        if (!snapshot.val()) {
-          return;
-        }
-
-        onDisconnect(userStatusRef)
-          .set(OFFLINE_STATUS)
-          .catch((error) => {
-            logger.warn(
-              "Failed to register onDisconnect handler for presence",
-              error,
-            );
-          })
-          .then(() =>
-            set(userStatusRef, ONLINE_STATUS).catch((error) => {
-              logger.warn("Failed to mark user online", error);
-            }),
-          );
-      });
-
-      activeStatusRef = userStatusRef;
+      watchServerTimeOffset();
+      activeStatusRef = ref(db, `status/${user.uid}`);
+
+      connectionUnsubscribe = onValue(
+        ref(db, ".info/connected"),
+        (snapshot) => {
+          isSocketConnected = snapshot.val() === true;
+          if (!isSocketConnected) {
+            // The server runs the onDisconnect handlers; register anew later
+            activeConnectionRef = null;
+            return;
+          }
+          if (appState === "active") {
+            goOnline();
+          }
+        },
+      );
     });
 
     return () => {
@@ -149,53 +229,56 @@ export const presenceService = {
         authUnsubscribe();
         authUnsubscribe = null;
       }
-      markCurrentUserOffline();
+      appStateSubscription?.remove();
+      appStateSubscription = null;
+      goOffline();
       activeStatusRef = null;
       initialized = false;
     };
   },
 
+  /**
+   * Remove this device's connection ahead of sign-out. Once signed out the
+   * database rules reject writes to the user's status node, so leaving it
+   * to the auth listener would keep the user online until the socket drops.
+   */
+  async disconnectDevice(): Promise<void> {
+    await goOffline();
+    activeStatusRef = null;
+  },
+
   subscribeToUserPresence(
     userId: string | null | undefined,
-    callback: (state: PresenceState) => void,
+    callback: (presence: PeerPresence) => void,
   ): () => void {
-    // Temporarily disabled - always return offline
-    if (!PRESENCE_ENABLED) {
-      callback("offline");
-      return () => {};
-    }
-
     if (!userId) {
-      callback("offline");
+      callback(OFFLINE_PRESENCE);
       return () => {};
     }
 
     const db = getDatabaseInstance();
     if (!db) {
-      callback("offline");
+      callback(OFFLINE_PRESENCE);
       return () => {};
     }
 
-    const statusRef = ref(db, `status/${userId}`);
-
-    const unsubscribe = onValue(statusRef, (snapshot) => {
-      const status = snapshot.val();
-      if (status?.state === "online") {
-        callback("online");
-        return;
-      }
-      callback("offline");
-    });
-
-    return unsubscribe;
+    return onValue(
+      ref(db, `status/${userId}`),
+      (snapshot) => {
+        callback(parsePresenceStatus(snapshot.val()));
+      },
+      (error) => {
+        logger.warn("Failed to read user presence", { userId, error });
+        callback(OFFLINE_PRESENCE);
+      },
+    );
   },
 
+  /**
+   * Typing is a heartbeat: while the user keeps typing, the entry's server
+   * timestamp is refreshed at most every TYPING_HEARTBEAT_MS.
+   */
   setTyping(roomId: string | null | undefined, isTyping: boolean) {
-    // Temporarily disabled
-    if (!PRESENCE_ENABLED) {
-      return;
-    }
-
     const user = auth.currentUser;
     if (!user || !roomId) {
       return;
@@ -208,12 +291,21 @@ export const presenceService = {
 
     const typingRef = ref(db, `typing/${roomId}/${user.uid}`);
     if (isTyping) {
-      set(typingRef, true).catch((error) => {
+      const now = Date.now();
+      if (now - (lastTypingWriteAt.get(roomId) ?? 0) < TYPING_HEARTBEAT_MS) {
+        return;
+      }
+      lastTypingWriteAt.set(roomId, now);
+      set(typingRef, serverTimestamp()).catch((error) => {
         logger.warn("Failed to update typing status", { error, roomId });
       });
       return;
     }
 
+    if (!lastTypingWriteAt.has(roomId)) {
+      return;
+    }
+    lastTypingWriteAt.delete(roomId);
     remove(typingRef).catch((error) => {
       logger.warn("Failed to remove typing status", { error, roomId });
     });
@@ -223,12 +315,6 @@ export const presenceService = {
     roomId: string | null | undefined,
     callback: (typingMap: Record<string, boolean>) => void,
   ): () => void {
-    // Temporarily disabled - always return empty typing map
-    if (!PRESENCE_ENABLED) {
-      callback({});
-      return () => {};
-    }
-
     if (!roomId) {
       callback({});
       return () => {};
@@ -240,30 +326,43 @@ export const presenceService = {
       return () => {};
     }
 
-    const typingRef = ref(db, `typing/${roomId}`);
-    const unsubscribe = onValue(typingRef, (snapshot) => {
-      const data = snapshot.val() || {};
+    watchServerTimeOffset();
+    let latest: Record<string, unknown> = {};
+    let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Re-evaluate when the oldest heartbeat goes stale, since a client that
+    // vanished will not write again
+    const emit = () => {
+      if (expiryTimer) {
+        clearTimeout(expiryTimer);
+        expiryTimer = null;
+      }
+      const serverNow = getServerNow();
+      const { typers, nextExpiryAt } = getActiveTypers(latest, serverNow);
       const normalized: Record<string, boolean> = {};
-      Object.keys(data).forEach((key) => {
-        const entry = data[key];
-        const isActive =
-          typeof entry === "boolean" ? entry : Boolean(entry?.value);
-        if (isActive) {
-          normalized[key] = true;
-        }
+      typers.forEach((id) => {
+        normalized[id] = true;
       });
       callback(normalized);
+      if (nextExpiryAt !== null) {
+        expiryTimer = setTimeout(emit, Math.max(nextExpiryAt - serverNow, 0));
+      }
+    };
+
+    const unsubscribe = onValue(ref(db, `typing/${roomId}`), (snapshot) => {
+      latest = snapshot.val() || {};
+      emit();
     });
 
-    return unsubscribe;
+    return () => {
+      unsubscribe();
+      if (expiryTimer) {
+        clearTimeout(expiryTimer);
+      }
+    };
   },
 
   registerTypingOnDisconnect(roomId: string | null | undefined) {
-    // Temporarily disabled
-    if (!PRESENCE_ENABLED) {
-      return;
-    }
-
     const user = auth.currentUser;
     if (!user || !roomId) {
       return;
@@ -5,11 +5,13 @@
 
 import * as Notifications from "expo-notifications";
 import * as Device from "expo-device";
-import { Platform } from "react-native";
+import { AppState, Platform } from "react-native";
 import Constants from "expo-constants";
 import { logger } from "../utils/logger";
 import { router } from "expo-router";
 import { apiClient } from "../api/axios";
+import { syncDataForNotification } from "./notificationSync";
+import { handleNotificationAction } from "./notificationActions";
 
 export interface NotificationListenerOptions {
   onNotificationReceived?: (payload: {
@@ -30,6 +32,17 @@ Notifications.setNotificationHandler({
     const data = notification.request.content.data as NotificationData;
     const channelId = data?.type ? getChannelIdForType(data.type) : "default";
 
+    // Data-only pushes exist to trigger a sync, not to be shown
+    if (isSilentNotification(notification)) {
+      return {
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+        shouldShowAlert: false,
+        shouldShowBanner: false,
+        shouldShowList: false,
+      };
+    }
+
     return {
       shouldPlaySound: true,
       shouldSetBadge: true,
@@ -56,6 +69,16 @@ export interface PushNotificationToken {
   deviceId?: string;
 }
 
+/**
+ * Whether a notification carries only data, with nothing to display
+ */
+export const isSilentNotification = (
+  notification: Notifications.Notification,
+): boolean => {
+  const { title, body } = notification.request.content;
+  return !title?.trim() && !body?.trim();
+};
+
 /**
  * Register for push notifications and get Expo push token
  */
@@ -269,6 +292,54 @@ export const handleNotificationNavigation = async (data: NotificationData) => {
   }
 };
 
+// Cold starts can deliver the same response to the listener and to
+// getLastNotificationResponse; each one is acted on once per process
+const handledResponseKeys = new Set<string>();
+
+/**
+ * Forget the response the OS keeps for cold starts, so a later launch does
+ * not run it again
+ */
+const clearLastNotificationResponse = () => {
+  try {
+    Notifications.clearLastNotificationResponse();
+  } catch (error) {
+    logger.debug("Could not clear last notification response", error);
+  }
+};
+
+/**
+ * Act on a notification response: a tap navigates, an action button runs
+ * its handler
+ */
+export const handleNotificationResponse = async (
+  response: Notifications.NotificationResponse,
+) => {
+  const { notification, actionIdentifier, userText } = response;
+  const key = `${notification.request.identifier}:${actionIdentifier}`;
+  if (handledResponseKeys.has(key)) {
+    return;
+  }
+  handledResponseKeys.add(key);
+  clearLastNotificationResponse();
+
+  const data = (notification.request.content.data ?? {}) as NotificationData;
+  if (actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER) {
+    await handleNotificationNavigation(data);
+    return;
+  }
+
+  await handleNotificationAction(actionIdentifier, data, userText);
+  // Android keeps an actioned notification (and its reply field) on screen
+  try {
+    await Notifications.dismissNotificationAsync(
+      notification.request.identifier,
+    );
+  } catch (error) {
+    logger.debug("Could not dismiss actioned notification", error);
+  }
+};
+
 /**
  * Get notification channel ID based on type
  */
@@ -289,6 +360,12 @@ export const setupNotificationListeners = (
   // Listen for notifications received while app is open
   const receivedSubscription = addNotificationReceivedListener(
     async (notification) => {
+      // The background notification task handles pushes while the app is
+      // not in the foreground
+      if (AppState.currentState !== "active") {
+        return;
+      }
+
       const data = notification.request.content.data as NotificationData;
       logger.info("📬 Notification received in listener", {
         title: notification.request.content.title,
@@ -296,6 +373,12 @@ export const setupNotificationListeners = (
         type: data.type,
       });
 
+      void syncDataForNotification(data);
+
+      if (isSilentNotification(notification)) {
+        return;
+      }
+
       options?.onNotificationReceived?.({
         notification,
         data,
@@ -306,9 +389,7 @@ export const setupNotificationListeners = (
   // Listen for user tapping on notifications
   const responseSubscription = addNotificationResponseListener(
     async (response) => {
-      const data = response.notification.request.content
-        .data as NotificationData;
-      await handleNotificationNavigation(data);
+      await handleNotificationResponse(response);
     },
   );
 
@@ -322,20 +403,15 @@ export const setupNotificationListeners = (
 /**
  * Get last notification response (useful for cold starts)
  */
-export const getLastNotificationResponse = async () => {
-  try {
-    const response = await Notifications.getLastNotificationResponseAsync();
-    if (response) {
-      const data = response.notification.request.content
-        .data as NotificationData;
-      return data;
+export const getLastNotificationResponse =
+  async (): Promise<Notifications.NotificationResponse | null> => {
+    try {
+      return await Notifications.getLastNotificationResponseAsync();
+    } catch (error) {
+      logger.error("Error getting last notification response", error);
+      return null;
     }
-    return null;
-  } catch (error) {
-    logger.error("Error getting last notification response", error);
-    return null;
-  }
-};
+  };
 
 /**
  * Check if notifications are enabled
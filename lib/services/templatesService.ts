@@ -4,6 +4,7 @@ import * as FileSystem from "expo-file-system/legacy";
 import { auth } from "../firebase/config";
 
 import { templateCache } from "./templateCache";
+import { documentVault } from "./documentVault";
 
 interface ApiResponse<T> {
   success: boolean;
@@ -302,8 +303,9 @@ export const templatesService = {
     };
 
     try {
+      // Plaintext only touches the cache until it is sealed into the vault
       const baseDirectory =
-        FileSystem.documentDirectory || FileSystem.cacheDirectory;
+        FileSystem.cacheDirectory || FileSystem.documentDirectory;
       if (!baseDirectory) {
         logger.warn(
           "File storage unavailable, returning remote URL for template download",
@@ -314,7 +316,12 @@ export const templatesService = {
         return buildRemoteFallback();
       }
 
-      const cachedEntry = await templateCache.get(normalizedTemplate);
+      let cachedEntry = await templateCache.get(normalizedTemplate);
+      if (cachedEntry && !documentVault.isVaultUri(cachedEntry.localUri)) {
+        // Cached before the vault existed; drop the plaintext copy
+        await templateCache.remove(template.id);
+        cachedEntry = null;
+      }
       if (cachedEntry) {
         logger.info("Serving template from cache", { templateId: template.id });
         const info = await FileSystem.getInfoAsync(cachedEntry.localUri);
@@ -351,10 +358,20 @@ export const templatesService = {
       );
 
       if (downloadResult.status < 200 || downloadResult.status >= 300) {
+        await FileSystem.deleteAsync(downloadResult.uri, { idempotent: true });
         throw new Error(`Download failed with status ${downloadResult.status}`);
       }
 
-      const fileInfo = await FileSystem.getInfoAsync(downloadResult.uri);
+      let stored: { uri: string; size: number };
+      try {
+        stored = await documentVault.importFile(
+          downloadResult.uri,
+          auth.currentUser?.uid,
+        );
+      } catch (vaultError) {
+        await FileSystem.deleteAsync(downloadResult.uri, { idempotent: true });
+        throw vaultError;
+      }
       const fallbackMime =
         template.mimeType && template.mimeType.includes("/")
           ? template.mimeType
@@ -366,7 +383,7 @@ export const templatesService = {
         downloadResult.headers?.["content-type"] ||
         fallbackMime;
 
-      await templateCache.set(normalizedTemplate, downloadResult.uri, {
+      await templateCache.set(normalizedTemplate, stored.uri, {
         fileName: finalFileName,
         downloadUrl: remoteUrl,
         version: normalizedTemplate.version,
@@ -375,14 +392,14 @@ export const templatesService = {
 
       logger.info("Template download completed", {
         templateId: template.id,
-        path: downloadResult.uri,
+        path: stored.uri,
       });
 
       return {
-        localUri: downloadResult.uri,
+        localUri: stored.uri,
         remoteUrl,
         fileName: finalFileName,
-        fileSize: typeof fileInfo.size === "number" ? fileInfo.size : undefined,
+        fileSize: stored.size,
         mimeType,
         fromCache: false,
       };
@@ -7,6 +7,7 @@ const STORAGE_KEYS = {
   REFRESH_TOKEN: "refresh_token",
   USER_DATA: "user_data",
   BIOMETRIC_ENABLED: "biometric_enabled",
+  APP_LOCK_TIMEOUT: "app_lock_timeout",
   REMEMBER_ME: "remember_me",
 } as const;
 
@@ -127,6 +128,14 @@ class SecureStorage {
     return value ?? false;
   }
 
+  async setAppLockTimeout(timeoutMs: number): Promise<void> {
+    await this.set(STORAGE_KEYS.APP_LOCK_TIMEOUT, timeoutMs);
+  }
+
+  async getAppLockTimeout(): Promise<number | null> {
+    return await this.get<number>(STORAGE_KEYS.APP_LOCK_TIMEOUT);
+  }
+
   async setRememberMe(remember: boolean): Promise<void> {
     await this.set(STORAGE_KEYS.REMEMBER_ME, remember);
   }
@@ -30,7 +30,8 @@ export interface Case {
   id: string;
   referenceNumber: string;
   serviceType: string;
-  status: CaseStatus;
+  /** Raw from the API; values outside CaseStatus are shown as unknown */
+  status: CaseStatus | string;
   priority: Priority;
   submissionDate: string;
   lastUpdated: string;
@@ -44,7 +45,23 @@ export interface Case {
    * UI helpers (derived fields)
    */
   displayName: string;
-  progress: number;
+  /** Null when the status is unknown */
+  progress: number | null;
+}
+
+export interface CaseStatusEventActor {
+  id?: string | null;
+  name: string;
+  role?: "CLIENT" | "AGENT" | "ADMIN" | "SYSTEM" | string;
+}
+
+export interface CaseStatusEvent {
+  id: string;
+  status: CaseStatus | string;
+  previousStatus?: CaseStatus | string | null;
+  timestamp: string;
+  actor?: CaseStatusEventActor | null;
+  note?: string | null;
 }
 
 export interface AppointmentCaseReference {
@@ -59,9 +76,16 @@ export interface AppointmentAgentSummary {
   email: string;
 }
 
+export type AppointmentStatus =
+  "SCHEDULED" | "COMPLETED" | "CANCELLED" | "MISSED";
+
 export interface Appointment {
   id: string;
   scheduledAt: string;
+  /** Falls back to a one hour slot when the backend sends no end time */
+  endsAt?: string | null;
+  title?: string | null;
+  status?: AppointmentStatus;
   location?: string | null;
   notes?: string | null;
   case: AppointmentCaseReference;
@@ -69,6 +93,12 @@ export interface Appointment {
   actionUrl?: string | null;
 }
 
+export interface AppointmentsPage {
+  appointments: Appointment[];
+  page: number;
+  hasMore: boolean;
+}
+
 export interface Destination {
   id: string;
   name: string;
@@ -117,6 +147,9 @@ export interface Message {
   attachments?: EmailAttachment[];
 }
 
+/** Delivery progress of an outgoing chat message, derived from its receipts */
+export type ChatDeliveryState = "sent" | "delivered" | "read";
+
 // ChatMessage is now defined in lib/services/chat.ts to match Firebase structure
 // This interface is kept for backward compatibility but should use ChatMessage from chat service
 export interface ChatMessage {
@@ -124,13 +157,29 @@ export interface ChatMessage {
   text: string;
   sender: "user" | "agent";
   time: string;
-  status?: "sent" | "delivered" | "read";
+  status?: ChatDeliveryState;
   conversationId?: string;
   userId?: string;
 }
 
 export type DocumentStatus = "PENDING" | "APPROVED" | "REJECTED";
 
+export interface DocumentVersion {
+  id: string;
+  version: number;
+  originalName: string;
+  fileName: string;
+  status: DocumentStatus;
+  uploadDate: string;
+  filePath: string;
+  fileSize?: number;
+  mimeType?: string;
+  rejectionReason?: string;
+  reviewerComment?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
 export interface Document {
   id: string;
   originalName: string;
@@ -148,6 +197,12 @@ export interface Document {
     serviceType: string;
   };
   uploadedById?: string;
+  /** Current version number, starting at 1 */
+  version?: number;
+  /** Previous and current versions, newest first, when the API includes them */
+  versions?: DocumentVersion[];
+  rejectionReason?: string;
+  reviewerComment?: string;
 }
 
 export interface Notification {
@@ -161,6 +216,7 @@ export interface Notification {
   badgeColor?: string;
   userId?: string;
   relatedId?: string;
+  createdAt?: string;
 }
 
 export interface NotificationSettings {
@@ -215,6 +271,11 @@ export interface UploadDocumentRequest {
   mimeType: string;
 }
 
+export type ReplaceDocumentRequest = Omit<
+  UploadDocumentRequest,
+  "caseId" | "documentType"
+>;
+
 // Payments
 export interface PaymentIntent {
   id: string;
@@ -0,0 +1,55 @@
+import type { Appointment } from "@/lib/types";
+import { buildAppointmentIcs } from "../calendar";
+
+const appointment: Appointment = {
+  id: "appt-1",
+  scheduledAt: "2026-11-02T09:00:00.000Z",
+  endsAt: null,
+  title: null,
+  status: "SCHEDULED",
+  location: null,
+  notes: null,
+  case: { id: "case-1", referenceNumber: "PT-001", status: "SUBMITTED" },
+  assignedAgent: null,
+  actionUrl: null,
+};
+
+/** Content lines of the file with their folding kept as separate entries */
+const physicalLines = (ics: string) => ics.split("\r\n").filter(Boolean);
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+const octets = (line: string) => Buffer.byteLength(line, "utf8");
+
+describe("buildAppointmentIcs", () => {
+  it("folds long lines at 75 octets", () => {
+    const description = "a".repeat(200);
+    const ics = buildAppointmentIcs(appointment, {
+      title: "Visa interview",
+      description,
+    })!;
+
+    const lines = physicalLines(ics);
+    lines.forEach((line) => expect(octets(line)).toBeLessThanOrEqual(75));
+    expect(lines.find((line) => line.startsWith("DESCRIPTION:"))).toHaveLength(
+      75,
+    );
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}\r\n`);
+  });
+
+  it("counts multi-byte characters by their UTF-8 length", () => {
+    const description = "Rendez-vous à la préfecture – 東京 🛂 ".repeat(8);
+    const ics = buildAppointmentIcs(appointment, {
+      title: "Visa interview",
+      description,
+    })!;
+
+    const lines = physicalLines(ics);
+    lines.forEach((line) => {
+      expect(octets(line)).toBeLessThanOrEqual(75);
+      // No surrogate pair is split across lines
+      expect(line).not.toMatch(/[\uD800-\uDBFF]$|^ ?[\uDC00-\uDFFF]/);
+    });
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}\r\n`);
+  });
+});
@@ -0,0 +1,85 @@
+import { buildCaseActivity } from "../caseActivity";
+import type { ChatMessage } from "../../services/chat";
+import type { Message, Notification } from "../../types";
+
+const notification = (
+  id: string,
+  fields: Partial<Notification> = {},
+): Notification => ({
+  id,
+  type: "case-update",
+  title: id,
+  description: "",
+  time: "",
+  unread: false,
+  ...fields,
+});
+
+const email = (id: string, sentAt: string) =>
+  ({ id, subject: id, sentAt, direction: "incoming" }) as Message;
+
+const chat = (id: string, timestamp: number) =>
+  ({ id, senderName: "Advisor", message: id, timestamp }) as ChatMessage;
+
+const keys = (items: { key: string }[]) => items.map((item) => item.key);
+
+describe("buildCaseActivity", () => {
+  it("merges every source newest first", () => {
+    const items = buildCaseActivity({
+      chatRooms: [
+        {
+          roomId: "room-1",
+          messages: [chat("m1", Date.parse("2026-03-03T10:00:00Z"))],
+        },
+      ],
+      emails: [email("e1", "2026-03-04T10:00:00Z")],
+      documents: [],
+      notifications: [
+        notification("n1", { createdAt: "2026-03-02T10:00:00Z" }),
+      ],
+    });
+
+    expect(keys(items)).toEqual([
+      "email:e1",
+      "chat:room-1:m1",
+      "notification:n1",
+    ]);
+  });
+
+  it("keeps notifications without a time in their response position", () => {
+    const items = buildCaseActivity({
+      chatRooms: [],
+      emails: [
+        email("e1", "2026-03-05T10:00:00Z"),
+        email("e2", "2026-03-01T10:00:00Z"),
+      ],
+      documents: [],
+      notifications: [
+        notification("n1", { time: "2026-03-04T10:00:00Z" }),
+        notification("n2", { time: "2 hours ago" }),
+        notification("n3", { time: "2026-03-02T10:00:00Z" }),
+      ],
+    });
+
+    expect(keys(items)).toEqual([
+      "email:e1",
+      "notification:n1",
+      "notification:n2",
+      "notification:n3",
+      "email:e2",
+    ]);
+    expect(items[2].timestamp).toBeUndefined();
+    expect(items[2].timeLabel).toBe("2 hours ago");
+  });
+
+  it("puts leading notifications without a time first", () => {
+    const items = buildCaseActivity({
+      chatRooms: [],
+      emails: [email("e1", "2026-03-05T10:00:00Z")],
+      documents: [],
+      notifications: [notification("n1", { time: "Just now" })],
+    });
+
+    expect(keys(items)).toEqual(["notification:n1", "email:e1"]);
+  });
+});
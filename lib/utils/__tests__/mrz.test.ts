@@ -0,0 +1,80 @@
+import { computeCheckDigit, parseMrz } from "../mrz";
+
+const NOW = new Date(2026, 0, 1);
+
+// Specimens from ICAO Doc 9303
+const TD3 = [
+  "P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<",
+  "L898902C36UTO7408122F1204159ZE184226B<<<<<10",
+];
+const TD1 = [
+  "I<UTOD231458907<<<<<<<<<<<<<<<",
+  "7408122F1204159UTO<<<<<<<<<<<6",
+  "ERIKSSON<<ANNA<MARIA<<<<<<<<<<",
+];
+
+describe("computeCheckDigit", () => {
+  it("weights characters 7, 3, 1", () => {
+    expect(computeCheckDigit("L898902C3")).toBe(6);
+    expect(computeCheckDigit("740812")).toBe(2);
+    expect(computeCheckDigit("120415")).toBe(9);
+  });
+});
+
+describe("parseMrz", () => {
+  it("parses a TD3 passport", () => {
+    expect(parseMrz(TD3, NOW)).toEqual({
+      format: "TD3",
+      documentCode: "P",
+      issuingCountry: "UTO",
+      documentNumber: "L898902C3",
+      nationality: "UTO",
+      surname: "ERIKSSON",
+      givenNames: "ANNA MARIA",
+      birthDate: "1974-08-12",
+      expiryDate: "2012-04-15",
+      checksValid: true,
+    });
+  });
+
+  it("parses a TD1 identity card", () => {
+    expect(parseMrz(TD1, NOW)).toEqual({
+      format: "TD1",
+      documentCode: "I",
+      issuingCountry: "UTO",
+      documentNumber: "D23145890",
+      nationality: "UTO",
+      surname: "ERIKSSON",
+      givenNames: "ANNA MARIA",
+      birthDate: "1974-08-12",
+      expiryDate: "2012-04-15",
+      checksValid: true,
+    });
+  });
+
+  it("finds the zone in OCR text and forgives misread digits", () => {
+    const text = [
+      "PASSPORT / PASSEPORT",
+      "Utopia",
+      TD3[0].toLowerCase(),
+      // Birth date read with a letter O and the filler dropped at the end
+      TD3[1].replace("740812", "74O812").slice(0, -2),
+    ].join("\n");
+
+    const parsed = parseMrz(text, NOW);
+
+    expect(parsed?.birthDate).toBe("1974-08-12");
+    expect(parsed?.documentNumber).toBe("L898902C3");
+  });
+
+  it("flags a bad check digit", () => {
+    const parsed = parseMrz([TD3[0], TD3[1].replace("C36UTO", "C37UTO")], NOW);
+
+    expect(parsed?.documentNumber).toBe("L898902C3");
+    expect(parsed?.checksValid).toBe(false);
+  });
+
+  it("returns null without a machine-readable zone", () => {
+    expect(parseMrz("Nom: Eriksson\nPrénom: Anna", NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import { getActiveTypers, TYPING_STALE_MS } from "../presence";
+
+describe("getActiveTypers", () => {
+  const now = 1_000_000;
+
+  it("keeps fresh heartbeats and reports when the oldest expires", () => {
+    const result = getActiveTypers(
+      { fresh: now - 1000, older: now - 2000, stale: now - TYPING_STALE_MS },
+      now,
+    );
+
+    expect(result.typers).toEqual(["fresh", "older"]);
+    expect(result.nextExpiryAt).toBe(now - 2000 + TYPING_STALE_MS);
+  });
+
+  it("reads entries written by older clients", () => {
+    const result = getActiveTypers(
+      {
+        flag: true,
+        wrappedFlag: { value: true },
+        wrappedTime: { value: now - 500 },
+        wrappedStale: { value: now - TYPING_STALE_MS * 2 },
+        empty: {},
+        missing: null,
+      },
+      now,
+    );
+
+    expect(result.typers).toEqual(["flag", "wrappedFlag", "wrappedTime"]);
+  });
+});
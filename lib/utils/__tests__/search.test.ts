@@ -0,0 +1,117 @@
+import {
+  buildSearchIndex,
+  getHighlightSegments,
+  matchesSearchQuery,
+  normalizeSearchText,
+  searchIndex,
+  tokenize,
+  type SearchEntry,
+} from "../search";
+
+const entry = (
+  key: string,
+  body: string,
+  fields: Partial<SearchEntry> = {},
+): SearchEntry => ({
+  key,
+  source: "chat",
+  title: "",
+  body,
+  target: { id: key },
+  ...fields,
+});
+
+const keys = (results: { entry: SearchEntry }[]) =>
+  results.map((result) => result.entry.key);
+
+describe("normalizeSearchText", () => {
+  it("lowercases and strips French accents", () => {
+    expect(normalizeSearchText("Dossier À JOUR, reçu élève")).toBe(
+      "dossier a jour, recu eleve",
+    );
+  });
+
+  it("expands ligatures", () => {
+    expect(normalizeSearchText("Œuvre Straße Æther")).toBe(
+      "oeuvre strasse aether",
+    );
+  });
+});
+
+describe("tokenize", () => {
+  it("splits on French apostrophes, straight and curly", () => {
+    expect(tokenize("l'avocat d’État")).toEqual(["l", "avocat", "d", "etat"]);
+  });
+});
+
+describe("searchIndex", () => {
+  const index = buildSearchIndex([
+    entry("accent", "Votre dossier est à jour", { timestamp: 1 }),
+    entry("apostrophe", "Rendez-vous avec l’avocat", { timestamp: 2 }),
+    entry("ligature", "Copie de l'œuvre et adresse Straße", { timestamp: 3 }),
+    entry("prefix", "Le passeport expire", { timestamp: 4 }),
+    entry("exact", "Le pass est prêt", { timestamp: 5 }),
+  ]);
+
+  it("finds accented text from an unaccented query", () => {
+    expect(keys(searchIndex(index, "dossier a jour"))).toEqual(["accent"]);
+  });
+
+  it("finds words after an apostrophe", () => {
+    expect(keys(searchIndex(index, "avocat"))).toEqual(["apostrophe"]);
+    expect(keys(searchIndex(index, "l'avocat"))).toEqual(["apostrophe"]);
+  });
+
+  it("matches ligatures written either way", () => {
+    expect(keys(searchIndex(index, "oeuvre"))).toEqual(["ligature"]);
+    expect(keys(searchIndex(index, "œuvre"))).toEqual(["ligature"]);
+    expect(keys(searchIndex(index, "strasse"))).toEqual(["ligature"]);
+  });
+
+  it("ranks a whole word above a prefix", () => {
+    expect(keys(searchIndex(index, "pass"))).toEqual(["exact", "prefix"]);
+  });
+
+  it("needs every query word and a minimum length", () => {
+    expect(searchIndex(index, "passeport jour")).toEqual([]);
+    expect(searchIndex(index, "p")).toEqual([]);
+  });
+});
+
+describe("matchesSearchQuery", () => {
+  it("only matches the start of words", () => {
+    expect(matchesSearchQuery("Le passeport", "pass")).toBe(true);
+    expect(matchesSearchQuery("Le passeport", "port")).toBe(false);
+  });
+});
+
+describe("getHighlightSegments", () => {
+  it("highlights the accented original", () => {
+    expect(getHighlightSegments("Reçu à l'État", "etat")).toEqual([
+      { text: "Reçu à l'", match: false },
+      { text: "État", match: true },
+    ]);
+  });
+
+  it("highlights a ligature as one character", () => {
+    expect(getHighlightSegments("Une œuvre", "oeuvre")).toEqual([
+      { text: "Une ", match: false },
+      { text: "œuvre", match: true },
+    ]);
+    expect(getHighlightSegments("Straße", "strasse")).toEqual([
+      { text: "Straße", match: true },
+    ]);
+  });
+
+  it("leaves matches inside a word alone", () => {
+    expect(getHighlightSegments("passeport", "port")).toEqual([
+      { text: "passeport", match: false },
+    ]);
+  });
+
+  it("returns the text unchanged without a query", () => {
+    expect(getHighlightSegments("Bonjour", "  ")).toEqual([
+      { text: "Bonjour", match: false },
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+import type { Appointment } from "@/lib/types";
+
+const DEFAULT_APPOINTMENT_DURATION_MS = 60 * 60 * 1000;
+const ICS_PRODUCT_ID = "-//Patrick Travel Agency//Mobile App//EN";
+// RFC 5545 limits content lines to 75 octets before folding
+const ICS_LINE_LIMIT = 75;
+
+export const toTime = (value?: string | null) => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? null : time;
+};
+
+export const getAppointmentStart = (appointment: Appointment) =>
+  toTime(appointment.scheduledAt);
+
+export const getAppointmentEnd = (appointment: Appointment) => {
+  const start = getAppointmentStart(appointment);
+  if (start === null) return null;
+  const end = toTime(appointment.endsAt);
+  return end !== null && end > start
+    ? end
+    : start + DEFAULT_APPOINTMENT_DURATION_MS;
+};
+
+/** Local calendar day, e.g. "2026-03-09" */
+export const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/** First and last instant of the month containing `date`, as ISO strings */
+export const getMonthRange = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), 1);
+  const end = new Date(date.getFullYear(), date.getMonth() + 1, 1);
+  return { from: start.toISOString(), to: end.toISOString() };
+};
+
+export const toMonthKey = (date: Date) => toDateKey(date).slice(0, 7);
+
+/** First day of a "YYYY-MM" month key, in local time */
+export const fromMonthKey = (monthKey: string) => {
+  const [year, month] = monthKey.split("-").map(Number);
+  return new Date(year, month - 1, 1);
+};
+
+/**
+ * Days shown in a month view: whole weeks starting on Monday, padded with
+ * days from the neighbouring months.
+ */
+export const buildMonthGrid = (month: Date): Date[] => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const leading = (first.getDay() + 6) % 7;
+  const daysInMonth = new Date(
+    month.getFullYear(),
+    month.getMonth() + 1,
+    0,
+  ).getDate();
+  const cellCount = Math.ceil((leading + daysInMonth) / 7) * 7;
+
+  return Array.from(
+    { length: cellCount },
+    (_, index) =>
+      new Date(month.getFullYear(), month.getMonth(), index - leading + 1),
+  );
+};
+
+export const groupAppointmentsByDay = (appointments: Appointment[]) => {
+  const groups: Record<string, Appointment[]> = {};
+  appointments.forEach((appointment) => {
+    const start = getAppointmentStart(appointment);
+    if (start === null) return;
+    const key = toDateKey(new Date(start));
+    (groups[key] ??= []).push(appointment);
+  });
+  Object.values(groups).forEach((group) =>
+    group.sort(
+      (a, b) => (getAppointmentStart(a) ?? 0) - (getAppointmentStart(b) ?? 0),
+    ),
+  );
+  return groups;
+};
+
+const formatIcsDate = (time: number) =>
+  new Date(time)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const utf8Length = (codePoint: number) =>
+  codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+/**
+ * Fold a content line at the octet limit, never splitting the UTF-8
+ * sequence of a character across lines
+ */
+const foldIcsLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = utf8Length(char.codePointAt(0)!);
+    if (currentBytes + charBytes > ICS_LINE_LIMIT) {
+      parts.push(current);
+      // Continuation lines start with a space, which counts towards the limit
+      current = " ";
+      currentBytes = 1;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+};
+
+export interface AppointmentIcsOptions {
+  title: string;
+  description?: string;
+  /** Minutes before the start at which the calendar should alert */
+  reminderOffsets?: number[];
+}
+
+/**
+ * Build an iCalendar file for a single appointment, ready to be opened by
+ * the device calendar.
+ */
+export const buildAppointmentIcs = (
+  appointment: Appointment,
+  options: AppointmentIcsOptions,
+): string | null => {
+  const start = getAppointmentStart(appointment);
+  const end = getAppointmentEnd(appointment);
+  if (start === null || end === null) return null;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:appointment-${appointment.id}@patrick-travel`,
+    `DTSTAMP:${formatIcsDate(Date.now())}`,
+    `DTSTART:${formatIcsDate(start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(options.title)}`,
+  ];
+  if (appointment.location) {
+    lines.push(`LOCATION:${escapeIcsText(appointment.location)}`);
+  }
+  if (options.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(options.description)}`);
+  }
+  if (appointment.actionUrl) {
+    lines.push(`URL:${appointment.actionUrl}`);
+  }
+  if (appointment.status === "CANCELLED") {
+    lines.push("STATUS:CANCELLED");
+  }
+  (options.reminderOffsets ?? []).forEach((minutes) => {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeIcsText(options.title)}`,
+      `TRIGGER:-PT${minutes}M`,
+      "END:VALARM",
+    );
+  });
+  lines.push("END:VEVENT", "END:VCALENDAR");
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+};
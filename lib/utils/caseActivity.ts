@@ -0,0 +1,182 @@
+import type { ChatMessage } from "@/lib/services/chat";
+import type { Document, Message, Notification } from "@/lib/types";
+
+export type CaseActivityKind = "chat" | "email" | "document" | "notification";
+
+export type CaseActivityFilter = CaseActivityKind | "all";
+
+export const CASE_ACTIVITY_FILTERS: CaseActivityFilter[] = [
+  "all",
+  "chat",
+  "email",
+  "document",
+  "notification",
+];
+
+export type CaseActivityEvent =
+  | "chatMessage"
+  | "emailReceived"
+  | "emailSent"
+  | "documentUploaded"
+  | "documentApproved"
+  | "documentRejected"
+  | "notification";
+
+export interface CaseActivityItem {
+  key: string;
+  kind: CaseActivityKind;
+  event: CaseActivityEvent;
+  title: string;
+  body?: string | null;
+  /** Unknown for notifications the API sends only a preformatted time for */
+  timestamp?: number;
+  timeLabel?: string;
+  unread?: boolean;
+  target: { id: string; roomId?: string };
+}
+
+export interface CaseActivitySources {
+  chatRooms: { roomId: string; messages: ChatMessage[] }[];
+  emails: Message[];
+  documents: Document[];
+  notifications: Notification[];
+}
+
+const toTime = (value?: string | null) => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const chatActivity = (
+  chatRooms: CaseActivitySources["chatRooms"],
+): CaseActivityItem[] =>
+  chatRooms.flatMap(({ roomId, messages }) =>
+    messages
+      .filter((message) => message.id && !message.deletedAt)
+      .map((message) => ({
+        key: `chat:${roomId}:${message.id}`,
+        kind: "chat" as const,
+        event: "chatMessage" as const,
+        title: message.senderName,
+        body:
+          message.message ||
+          (message.attachments ?? [])
+            .map((attachment) => attachment.name)
+            .join(", "),
+        timestamp: message.timestamp,
+        target: { id: message.id, roomId },
+      })),
+  );
+
+const emailActivity = (emails: Message[]): CaseActivityItem[] =>
+  emails.map((email) => ({
+    key: `email:${email.id}`,
+    kind: "email",
+    event: email.direction === "outgoing" ? "emailSent" : "emailReceived",
+    title: email.subject || email.name,
+    body: email.preview || email.message,
+    timestamp: toTime(email.sentAt),
+    unread: email.direction !== "outgoing" && email.unread,
+    target: { id: email.id },
+  }));
+
+/**
+ * Every uploaded version is an event, and so is every review of one. The
+ * current version stands in when the API does not send the history.
+ */
+const documentActivity = (documents: Document[]): CaseActivityItem[] =>
+  documents.flatMap((document) => {
+    const versions = document.versions?.length
+      ? document.versions
+      : [
+          {
+            id: document.id,
+            version: document.version ?? 1,
+            originalName: document.originalName,
+            uploadDate: document.uploadDate,
+            status: document.status,
+            rejectionReason: document.rejectionReason,
+            reviewedAt: undefined as string | undefined,
+          },
+        ];
+
+    return versions.flatMap((version) => {
+      const items: CaseActivityItem[] = [
+        {
+          key: `document:${document.id}:${version.id}:uploaded`,
+          kind: "document",
+          event: "documentUploaded",
+          title: version.originalName || document.originalName,
+          body: document.documentType,
+          timestamp: toTime(version.uploadDate),
+          target: { id: document.id },
+        },
+      ];
+      const reviewedAt = toTime(version.reviewedAt);
+      if (reviewedAt && version.status !== "PENDING") {
+        items.push({
+          key: `document:${document.id}:${version.id}:reviewed`,
+          kind: "document",
+          event:
+            version.status === "APPROVED"
+              ? "documentApproved"
+              : "documentRejected",
+          title: version.originalName || document.originalName,
+          body: version.status === "REJECTED" ? version.rejectionReason : null,
+          timestamp: reviewedAt,
+          target: { id: document.id },
+        });
+      }
+      return items;
+    });
+  });
+
+const notificationActivity = (
+  notifications: Notification[],
+): CaseActivityItem[] =>
+  notifications.map((notification) => ({
+    key: `notification:${notification.id}`,
+    kind: "notification",
+    event: "notification",
+    title: notification.title,
+    body: notification.description,
+    timestamp: toTime(notification.createdAt) ?? toTime(notification.time),
+    timeLabel: notification.time,
+    unread: notification.unread,
+    target: { id: notification.id },
+  }));
+
+/**
+ * Notifications arrive newest first, so one without a time sorts with the
+ * notification above it rather than at the very end
+ */
+const withResponseOrder = (items: CaseActivityItem[]) => {
+  let previous = Number.MAX_SAFE_INTEGER;
+  return items.map((item) => {
+    previous = item.timestamp ?? previous;
+    return { item, sortTime: previous };
+  });
+};
+
+/** Merge everything that happened on a case, newest first */
+export const buildCaseActivity = ({
+  chatRooms,
+  emails,
+  documents,
+  notifications,
+}: CaseActivitySources): CaseActivityItem[] =>
+  [
+    ...[
+      ...chatActivity(chatRooms),
+      ...emailActivity(emails),
+      ...documentActivity(documents),
+    ].map((item) => ({ item, sortTime: item.timestamp ?? 0 })),
+    ...withResponseOrder(notificationActivity(notifications)),
+  ]
+    .sort((a, b) => b.sortTime - a.sortTime)
+    .map(({ item }) => item);
+
+export const filterCaseActivity = (
+  items: CaseActivityItem[],
+  filter: CaseActivityFilter,
+) => (filter === "all" ? items : items.filter((item) => item.kind === filter));
@@ -0,0 +1,90 @@
+import type { Case, CaseStatusEvent } from "@/lib/types";
+
+// Forward order of a case's lifecycle; a move to an earlier step is a regression
+const STATUS_PROGRESSION: readonly string[] = [
+  "SUBMITTED",
+  "UNDER_REVIEW",
+  "DOCUMENTS_REQUIRED",
+  "PROCESSING",
+  "APPROVED",
+  "REJECTED",
+  "CLOSED",
+];
+
+export interface CaseTimelineStage {
+  event: CaseStatusEvent;
+  /** Time spent in this status; runs until now for the current stage */
+  durationMs: number;
+  isCurrent: boolean;
+  isRegression: boolean;
+}
+
+const toTime = (value?: string | null) => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? null : time;
+};
+
+export const isStatusRegression = (
+  from?: string | null,
+  to?: string | null,
+) => {
+  if (!from || !to) {
+    return false;
+  }
+  const fromIndex = STATUS_PROGRESSION.indexOf(from);
+  const toIndex = STATUS_PROGRESSION.indexOf(to);
+  return fromIndex !== -1 && toIndex !== -1 && toIndex < fromIndex;
+};
+
+/**
+ * Best-effort history for cases whose backend has no recorded transitions:
+ * the submission plus the current status if it has moved on since.
+ */
+export const deriveCaseHistory = (caseItem: Case): CaseStatusEvent[] => {
+  const events: CaseStatusEvent[] = [
+    {
+      id: `${caseItem.id}-submitted`,
+      status: "SUBMITTED",
+      timestamp: caseItem.submissionDate,
+    },
+  ];
+
+  if (caseItem.status !== "SUBMITTED") {
+    events.push({
+      id: `${caseItem.id}-${caseItem.status.toLowerCase()}`,
+      status: caseItem.status,
+      previousStatus: "SUBMITTED",
+      timestamp: caseItem.lastUpdated,
+    });
+  }
+
+  return events;
+};
+
+export const buildTimelineStages = (
+  events: CaseStatusEvent[],
+  now: number = Date.now(),
+): CaseTimelineStage[] =>
+  events.map((event, index) => {
+    const next = events[index + 1];
+    const start = toTime(event.timestamp);
+    const end = next ? toTime(next.timestamp) : now;
+    const previousStatus =
+      event.previousStatus ?? events[index - 1]?.status ?? null;
+
+    return {
+      event,
+      durationMs: start !== null && end !== null ? Math.max(0, end - start) : 0,
+      isCurrent: !next,
+      isRegression: isStatusRegression(previousStatus, event.status),
+    };
+  });
+
+export const splitDuration = (durationMs: number) => {
+  const totalMinutes = Math.floor(durationMs / 60_000);
+  return {
+    days: Math.floor(totalMinutes / (60 * 24)),
+    hours: Math.floor((totalMinutes % (60 * 24)) / 60),
+    minutes: totalMinutes % 60,
+  };
+};
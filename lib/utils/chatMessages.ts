@@ -1,4 +1,74 @@
-import { ChatMessage } from "@/lib/services/chat";
+import { ChatMessage, ChatReplyReference } from "@/lib/services/chat";
+import type { ChatDeliveryState } from "@/lib/types";
+
+/** How long after sending a message its author may still edit it */
+export const CHAT_EDIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+const REPLY_SNIPPET_LENGTH = 140;
+
+/**
+ * Edits and deletions bump a message's revision; a copy with a lower
+ * revision is stale and must not overwrite a newer one.
+ */
+export const getMessageRevision = (message: ChatMessage) =>
+  Math.max(message.editedAt || 0, message.deletedAt || 0);
+
+export const isMessageDeleted = (message: ChatMessage) =>
+  Boolean(message.deletedAt);
+
+// Queued messages are not in Firebase yet, so there is nothing to change
+const isDelivered = (message: ChatMessage) =>
+  message.status !== "pending" && message.status !== "failed";
+
+export const canDeleteMessage = (
+  message: ChatMessage,
+  userId?: string | null,
+) =>
+  Boolean(userId) &&
+  message.senderId === userId &&
+  !isMessageDeleted(message) &&
+  isDelivered(message);
+
+export const canEditMessage = (
+  message: ChatMessage,
+  userId?: string | null,
+  now = Date.now(),
+) =>
+  canDeleteMessage(message, userId) &&
+  Boolean(message.message?.trim()) &&
+  now - (message.timestamp || 0) < CHAT_EDIT_WINDOW_MS;
+
+export const toReplyReference = (message: ChatMessage): ChatReplyReference => ({
+  messageId: message.id,
+  senderId: message.senderId,
+  senderName: message.senderName,
+  message: (message.message || "").slice(0, REPLY_SNIPPET_LENGTH),
+  hasAttachments: (message.attachments?.length ?? 0) > 0,
+});
+
+// Latest receipt from anyone other than the sender
+const latestReceipt = (
+  receipts: Record<string, number> | undefined,
+  senderId: string,
+) => {
+  const times = Object.entries(receipts ?? {})
+    .filter(([participantId]) => participantId !== senderId)
+    .map(([, time]) => time);
+  return times.length > 0 ? Math.max(...times) : undefined;
+};
+
+export const getReadAt = (message: ChatMessage) =>
+  latestReceipt(message.readBy, message.senderId);
+
+/** A read message counts as delivered even if no delivery was recorded */
+export const getDeliveredAt = (message: ChatMessage) =>
+  latestReceipt(message.deliveredTo, message.senderId) ?? getReadAt(message);
+
+export const getDeliveryState = (message: ChatMessage): ChatDeliveryState => {
+  if (message.isRead || getReadAt(message)) return "read";
+  if (getDeliveredAt(message)) return "delivered";
+  return "sent";
+};
 
 const sortAsc = (messages: ChatMessage[]) =>
   [...messages].sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
@@ -58,6 +128,12 @@ export const mergeMessageIntoList = (
   );
 
   if (existingIndex !== -1) {
+    if (
+      getMessageRevision(messages[existingIndex]) >
+      getMessageRevision(newMessage)
+    ) {
+      return messages;
+    }
     const updated = [...messages];
     updated[existingIndex] = newMessage;
     return sortAsc(updated);
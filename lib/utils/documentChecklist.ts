@@ -0,0 +1,102 @@
+import {
+  DESTINATION_REQUIREMENT_OVERRIDES,
+  DocumentRequirement,
+  SERVICE_DOCUMENT_REQUIREMENTS,
+} from "@/lib/constants/documentRequirements";
+import type { Document } from "@/lib/types";
+
+export type ChecklistItemStatus =
+  "missing" | "pending" | "approved" | "rejected";
+
+export interface DocumentChecklistItem {
+  requirement: DocumentRequirement;
+  status: ChecklistItemStatus;
+  /** Uploads matching this document type, newest first */
+  documents: Document[];
+}
+
+export interface DocumentChecklistSummary {
+  requiredCount: number;
+  approvedCount: number;
+  outstandingCount: number;
+}
+
+// An approved upload satisfies the item even if older attempts were rejected
+const STATUS_RANK: Record<ChecklistItemStatus, number> = {
+  missing: 0,
+  rejected: 1,
+  pending: 2,
+  approved: 3,
+};
+
+const normalizeType = (value?: string | null) =>
+  (value ?? "")
+    .trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, "_");
+
+export const getDocumentRequirements = (
+  serviceType?: string | null,
+  destinationCode?: string | null,
+): DocumentRequirement[] => {
+  const base = SERVICE_DOCUMENT_REQUIREMENTS[normalizeType(serviceType)] ?? [];
+  const overrides =
+    DESTINATION_REQUIREMENT_OVERRIDES[normalizeType(destinationCode)]?.[
+      normalizeType(serviceType)
+    ] ?? [];
+
+  const merged = new Map<string, DocumentRequirement>();
+  [...base, ...overrides].forEach((requirement) => {
+    merged.set(requirement.documentType, requirement);
+  });
+  return Array.from(merged.values());
+};
+
+export const buildDocumentChecklist = (
+  requirements: DocumentRequirement[],
+  documents: Document[],
+): DocumentChecklistItem[] =>
+  requirements.map((requirement) => {
+    const matches = documents
+      .filter(
+        (doc) =>
+          normalizeType(doc.documentType) ===
+          normalizeType(requirement.documentType),
+      )
+      .sort(
+        (a, b) =>
+          new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime(),
+      );
+
+    const status = matches.reduce<ChecklistItemStatus>((best, doc) => {
+      const docStatus = (doc.status ?? "PENDING").toLowerCase();
+      const candidate: ChecklistItemStatus =
+        docStatus === "approved"
+          ? "approved"
+          : docStatus === "rejected"
+            ? "rejected"
+            : "pending";
+      return STATUS_RANK[candidate] > STATUS_RANK[best] ? candidate : best;
+    }, "missing");
+
+    return { requirement, status, documents: matches };
+  });
+
+export const summarizeChecklist = (
+  items: DocumentChecklistItem[],
+): DocumentChecklistSummary => {
+  const requiredItems = items.filter(
+    (item) => item.requirement.level === "required",
+  );
+  const approvedCount = requiredItems.filter(
+    (item) => item.status === "approved",
+  ).length;
+
+  return {
+    requiredCount: requiredItems.length,
+    approvedCount,
+    outstandingCount: requiredItems.filter(
+      (item) => item.status === "missing" || item.status === "rejected",
+    ).length,
+  };
+};
@@ -0,0 +1,107 @@
+import type { Message } from "@/lib/types";
+
+export interface EmailThread {
+  key: string;
+  subject: string;
+  /** Oldest first */
+  messages: Message[];
+  latest: Message;
+  unreadCount: number;
+  caseId?: string | null;
+  caseReference?: string | null;
+  /** Server thread to reply to, if any message carries one */
+  threadId?: string | null;
+}
+
+export interface QuotedTextSplit {
+  body: string;
+  quoted: string | null;
+}
+
+// "Re:", "RE :", "Fwd:", "TR:" and friends, possibly repeated
+const REPLY_PREFIX = /^\s*((re|fw|fwd|tr|aw|wg)\s*(\[\d+\])?\s*:\s*)+/i;
+
+// Where a client starts quoting the previous message. Email bodies reach
+// the app with their whitespace collapsed, so none of these rely on lines.
+const QUOTE_MARKERS = [
+  /(^|\n)\s*>/,
+  /(^|\s)On\s[^\n]{1,200}?\swrote\s?:/i,
+  /(^|\s)Le\s[^\n]{1,200}?\sa\sécrit\s?:/i,
+  /-{2,}\s*(Original Message|Message d'origine)\s*-{2,}/i,
+  /(^|\s)(From|De)\s?:\s[^\n]{1,200}?\s(Sent|Envoyé)\s?:/i,
+];
+
+const getEmailTime = (email: Message) =>
+  email.sentAt ? new Date(email.sentAt).getTime() || 0 : 0;
+
+export const normalizeEmailSubject = (subject?: string | null) =>
+  (subject ?? "").replace(REPLY_PREFIX, "").replace(/\s+/g, " ").trim();
+
+/**
+ * Emails from the same server thread share a key; older emails without a
+ * thread fall back to their case and normalised subject.
+ */
+export const getEmailThreadKey = (email: Message) =>
+  email.threadId
+    ? `thread:${email.threadId}`
+    : `subject:${email.caseId ?? ""}:${normalizeEmailSubject(email.subject).toLowerCase()}`;
+
+/** Group inbox and sent emails into threads, most recent thread first */
+export const groupEmailsIntoThreads = (emails: Message[]): EmailThread[] => {
+  const byKey = new Map<string, Map<string, Message>>();
+  emails.forEach((email) => {
+    const key = getEmailThreadKey(email);
+    const thread = byKey.get(key) ?? new Map<string, Message>();
+    thread.set(email.id, email);
+    byKey.set(key, thread);
+  });
+
+  const threads: EmailThread[] = [];
+  byKey.forEach((entries, key) => {
+    const messages = Array.from(entries.values()).sort(
+      (a, b) => getEmailTime(a) - getEmailTime(b),
+    );
+    const first = messages[0];
+    const latest = messages[messages.length - 1];
+    threads.push({
+      key,
+      subject: normalizeEmailSubject(first.subject) || first.subject || "",
+      messages,
+      latest,
+      unreadCount: messages.filter(
+        (email) => email.direction !== "outgoing" && email.unread,
+      ).length,
+      caseId: messages.find((email) => email.caseId)?.caseId,
+      caseReference: messages.find((email) => email.caseReference)
+        ?.caseReference,
+      threadId: [...messages].reverse().find((email) => email.threadId)
+        ?.threadId,
+    });
+  });
+
+  return threads.sort(
+    (a, b) => getEmailTime(b.latest) - getEmailTime(a.latest),
+  );
+};
+
+export const findEmailThread = (threads: EmailThread[], emailId: string) =>
+  threads.find((thread) =>
+    thread.messages.some((email) => email.id === emailId),
+  );
+
+/** Separate what the sender wrote from the earlier message they quoted */
+export const splitQuotedText = (content?: string | null): QuotedTextSplit => {
+  const text = content ?? "";
+  const start = QUOTE_MARKERS.reduce((earliest, marker) => {
+    const match = marker.exec(text);
+    return match ? Math.min(earliest, match.index) : earliest;
+  }, text.length);
+
+  const body = text.slice(0, start).trim();
+  const quoted = text.slice(start).trim();
+  // A message made only of quoted text is shown as is
+  if (!body || !quoted) {
+    return { body: text.trim(), quoted: null };
+  }
+  return { body, quoted };
+};
@@ -3,6 +3,7 @@ import { apiClient } from "../api/axios";
 import { auth } from "../firebase/config";
 import { logger } from "./logger";
 import { downloadHistoryService } from "../services/downloadHistoryService";
+import { documentVault } from "../services/documentVault";
 
 export interface DownloadOptions {
   url: string;
@@ -52,8 +53,9 @@ export const downloadAndTrackFile = async ({
   error?: string;
 }> => {
   try {
+    // Plaintext only touches the cache until it is sealed into the vault
     const targetDirectory =
-      FileSystem.documentDirectory || FileSystem.cacheDirectory;
+      FileSystem.cacheDirectory || FileSystem.documentDirectory;
     if (!targetDirectory) {
       throw new Error("Storage is not available on this device");
     }
@@ -69,22 +71,24 @@ export const downloadAndTrackFile = async ({
     );
 
     if (result.status < 200 || result.status >= 300) {
+      await FileSystem.deleteAsync(result.uri, { idempotent: true });
       throw new Error(`Download failed with status ${result.status}`);
     }
 
-    const finalUri = result.uri;
-
-    let fileSize: number | undefined;
+    const userId = auth.currentUser?.uid;
+    let stored: { uri: string; size: number };
     try {
-      const info = await FileSystem.getInfoAsync(finalUri);
-      fileSize = typeof info.size === "number" ? info.size : undefined;
-    } catch (infoError) {
-      logger.warn("Unable to determine downloaded file size", infoError);
+      stored = await documentVault.importFile(result.uri, userId);
+    } catch (vaultError) {
+      await FileSystem.deleteAsync(result.uri, { idempotent: true });
+      throw vaultError;
     }
 
+    const finalUri = stored.uri;
+    const fileSize = stored.size;
+
     if (source) {
-      const userId = auth.currentUser?.uid;
-      await downloadHistoryService.addDownload(
+      const record = await downloadHistoryService.addDownload(
         {
           name: filename,
           url: downloadUrl,
@@ -97,6 +101,11 @@ export const downloadAndTrackFile = async ({
         },
         userId,
       );
+      // A repeat download keeps the copy already in the vault
+      if (record.localUri && record.localUri !== finalUri) {
+        await documentVault.removeFile(finalUri);
+        return { success: true, localUri: record.localUri };
+      }
     }
 
     return {
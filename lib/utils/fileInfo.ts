@@ -0,0 +1,16 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { logger } from "./logger";
+
+/**
+ * Size of a local file in bytes, for pickers that leave it out. Null when
+ * the file cannot be read.
+ */
+export const getFileSize = async (uri: string): Promise<number | null> => {
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists && !info.isDirectory ? info.size : null;
+  } catch (error) {
+    logger.debug("Failed to read file size", { uri, error });
+    return null;
+  }
+};
@@ -0,0 +1,201 @@
+// Machine-readable zone parsing for passports (TD3) and ID cards (TD1/TD2)
+
+export type MrzFormat = "TD1" | "TD2" | "TD3";
+
+export interface MrzData {
+  format: MrzFormat;
+  documentCode: string;
+  issuingCountry: string;
+  documentNumber: string;
+  nationality: string;
+  surname: string;
+  givenNames: string;
+  /** ISO date (YYYY-MM-DD) */
+  birthDate: string | null;
+  /** ISO date (YYYY-MM-DD) */
+  expiryDate: string | null;
+  /** False when any check digit disagrees, which usually means an OCR misread */
+  checksValid: boolean;
+}
+
+const LINE_LENGTHS: Record<MrzFormat, number> = { TD1: 30, TD2: 36, TD3: 44 };
+const LINE_COUNTS: Record<MrzFormat, number> = { TD1: 3, TD2: 2, TD3: 2 };
+// OCR regularly drops trailing filler characters
+const LENGTH_TOLERANCE = 2;
+
+// Letters OCR confuses with digits, applied only to numeric fields
+const DIGIT_CORRECTIONS: Record<string, string> = {
+  O: "0",
+  Q: "0",
+  D: "0",
+  I: "1",
+  L: "1",
+  Z: "2",
+  S: "5",
+  G: "6",
+  B: "8",
+};
+
+const normalizeLine = (line: string) =>
+  line
+    .toUpperCase()
+    .replace(/[«‹＜]/g, "<")
+    .replace(/\s+/g, "");
+
+const toDigits = (value: string) =>
+  value.replace(/[A-Z]/g, (char) => DIGIT_CORRECTIONS[char] ?? char);
+
+const charValue = (char: string) => {
+  if (char >= "0" && char <= "9") return char.charCodeAt(0) - 48;
+  if (char >= "A" && char <= "Z") return char.charCodeAt(0) - 55;
+  return 0;
+};
+
+export const computeCheckDigit = (value: string) => {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let index = 0; index < value.length; index += 1) {
+    sum += charValue(value[index]) * weights[index % 3];
+  }
+  return sum % 10;
+};
+
+const checkField = (value: string, checkDigit: string) =>
+  checkDigit === "<"
+    ? /^<*$/.test(value)
+    : computeCheckDigit(value) === Number(checkDigit);
+
+const clean = (value: string) => value.replace(/<+$/g, "").replace(/</g, " ");
+
+/**
+ * YYMMDD to ISO. Expiry dates are always in this century; birth dates
+ * later than today belong to the previous one.
+ */
+const parseMrzDate = (
+  value: string,
+  kind: "birth" | "expiry",
+  now: Date,
+): string | null => {
+  if (!/^\d{6}$/.test(value)) {
+    return null;
+  }
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+  const currentYY = now.getFullYear() % 100;
+  const century = kind === "expiry" || yy <= currentYY ? 2000 : 1900;
+  const year = century + yy;
+  return `${year}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+};
+
+const parseNames = (value: string) => {
+  const [surname = "", given = ""] = value.split("<<");
+  return { surname: clean(surname).trim(), givenNames: clean(given).trim() };
+};
+
+const parseLines = (format: MrzFormat, lines: string[], now: Date): MrzData => {
+  if (format === "TD1") {
+    const [first, second, third] = lines;
+    const documentNumber = first.slice(5, 14);
+    const birth = toDigits(second.slice(0, 6));
+    const expiry = toDigits(second.slice(8, 14));
+    const checksValid =
+      checkField(documentNumber, toDigits(first[14])) &&
+      checkField(birth, toDigits(second[6])) &&
+      checkField(expiry, toDigits(second[14]));
+
+    return {
+      format,
+      documentCode: clean(first.slice(0, 2)),
+      issuingCountry: clean(first.slice(2, 5)),
+      documentNumber: clean(documentNumber),
+      nationality: clean(second.slice(15, 18)),
+      ...parseNames(third),
+      birthDate: parseMrzDate(birth, "birth", now),
+      expiryDate: parseMrzDate(expiry, "expiry", now),
+      checksValid,
+    };
+  }
+
+  // TD2 and TD3 share the same second-line layout
+  const [first, second] = lines;
+  const documentNumber = second.slice(0, 9);
+  const birth = toDigits(second.slice(13, 19));
+  const expiry = toDigits(second.slice(21, 27));
+  const checksValid =
+    checkField(documentNumber, toDigits(second[9])) &&
+    checkField(birth, toDigits(second[19])) &&
+    checkField(expiry, toDigits(second[27]));
+
+  return {
+    format,
+    documentCode: clean(first.slice(0, 2)),
+    issuingCountry: clean(first.slice(2, 5)),
+    documentNumber: clean(documentNumber),
+    nationality: clean(second.slice(10, 13)),
+    ...parseNames(first.slice(5)),
+    birthDate: parseMrzDate(birth, "birth", now),
+    expiryDate: parseMrzDate(expiry, "expiry", now),
+    checksValid,
+  };
+};
+
+const matchFormat = (line: string): MrzFormat | null => {
+  const match = (Object.keys(LINE_LENGTHS) as MrzFormat[]).find(
+    (format) =>
+      Math.abs(line.length - LINE_LENGTHS[format]) <= LENGTH_TOLERANCE,
+  );
+  return match ?? null;
+};
+
+const fitLength = (line: string, length: number) =>
+  line.length >= length ? line.slice(0, length) : line.padEnd(length, "<");
+
+/**
+ * Find and parse an MRZ in free OCR text. Returns the first block whose
+ * lines have a consistent format, preferring blocks that pass their checks.
+ */
+export const parseMrz = (
+  text: string | string[],
+  now: Date = new Date(),
+): MrzData | null => {
+  const rawLines = (Array.isArray(text) ? text.join("\n") : text).split(
+    /\r?\n/,
+  );
+  const candidates = rawLines
+    .map(normalizeLine)
+    // MRZ lines always contain filler characters
+    .filter((line) => /^[A-Z0-9<]+$/.test(line) && line.includes("<"));
+
+  let fallback: MrzData | null = null;
+
+  for (let index = 0; index < candidates.length; index += 1) {
+    const format = matchFormat(candidates[index]);
+    if (!format) {
+      continue;
+    }
+    const count = LINE_COUNTS[format];
+    const block = candidates.slice(index, index + count);
+    if (
+      block.length < count ||
+      block.some((line) => matchFormat(line) !== format)
+    ) {
+      continue;
+    }
+
+    const parsed = parseLines(
+      format,
+      block.map((line) => fitLength(line, LINE_LENGTHS[format])),
+      now,
+    );
+    if (parsed.checksValid) {
+      return parsed;
+    }
+    fallback = fallback ?? parsed;
+  }
+
+  return fallback;
+};
@@ -0,0 +1,123 @@
+/**
+ * Pure presence helpers that work on plain `status` and `typing` snapshot
+ * values, independent of the Firebase SDK.
+ */
+
+export interface PeerPresence {
+  isOnline: boolean;
+  /** Server time the user was last connected, null when never seen */
+  lastSeen: number | null;
+}
+
+export const OFFLINE_PRESENCE: PeerPresence = {
+  isOnline: false,
+  lastSeen: null,
+};
+
+/** Typing entries older than this are left over from a dropped client */
+export const TYPING_STALE_MS = 8000;
+/** Minimum gap between two typing heartbeats from the same device */
+export const TYPING_HEARTBEAT_MS = 3000;
+
+const toTime = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : null;
+
+/**
+ * Read a `status/{uid}` node. Each device registers itself under
+ * `connections`, so the user stays online until the last one disconnects.
+ * Nodes written by older clients only carry `state`.
+ */
+export const parsePresenceStatus = (status: any): PeerPresence => {
+  if (!status || typeof status !== "object") {
+    return OFFLINE_PRESENCE;
+  }
+
+  const lastSeen = toTime(status.lastSeen) ?? toTime(status.last_changed);
+  if (status.connections && typeof status.connections === "object") {
+    return {
+      isOnline: Object.keys(status.connections).length > 0,
+      lastSeen,
+    };
+  }
+
+  return { isOnline: status.state === "online", lastSeen };
+};
+
+/** Some older clients wrote typing entries as `{ value }` objects */
+const hasValueField = (entry: unknown): entry is { value: unknown } =>
+  typeof entry === "object" && entry !== null && "value" in entry;
+
+/**
+ * Users typing in a room according to `typing/{roomId}`. Entries are
+ * heartbeat timestamps; `true` comes from older clients and never expires.
+ */
+export const getActiveTypers = (
+  typingMap: Record<string, unknown> | null | undefined,
+  serverNow: number,
+  staleMs = TYPING_STALE_MS,
+): { typers: string[]; nextExpiryAt: number | null } => {
+  const typers: string[] = [];
+  let nextExpiryAt: number | null = null;
+
+  for (const [userId, entry] of Object.entries(typingMap ?? {})) {
+    const value = hasValueField(entry) ? entry.value : entry;
+    if (value === true) {
+      typers.push(userId);
+      continue;
+    }
+    const typedAt = toTime(value);
+    if (typedAt === null || serverNow - typedAt >= staleMs) {
+      continue;
+    }
+    typers.push(userId);
+    const expiresAt = typedAt + staleMs;
+    nextExpiryAt =
+      nextExpiryAt === null ? expiresAt : Math.min(nextExpiryAt, expiresAt);
+  }
+
+  return { typers, nextExpiryAt };
+};
+
+export const formatLastSeen = (
+  lastSeen: number | null,
+  t: (key: string, options?: Record<string, unknown>) => string,
+  now = Date.now(),
+) => {
+  if (!lastSeen) {
+    return t("chat.offline", { defaultValue: "Offline" });
+  }
+
+  const diffMinutes = Math.floor(Math.max(now - lastSeen, 0) / (1000 * 60));
+  if (diffMinutes < 1) {
+    return t("presence.lastSeenJustNow", {
+      defaultValue: "Last seen just now",
+    });
+  }
+  if (diffMinutes < 60) {
+    return t("presence.lastSeenMinutes", {
+      count: diffMinutes,
+      defaultValue: "Last seen {{count}} min ago",
+    });
+  }
+
+  const date = new Date(lastSeen);
+  const time = date.toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  if (date.toDateString() === new Date(now).toDateString()) {
+    return t("presence.lastSeenToday", {
+      time,
+      defaultValue: "Last seen today at {{time}}",
+    });
+  }
+  return t("presence.lastSeenOn", {
+    date: date.toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    }),
+    defaultValue: "Last seen {{date}}",
+  });
+};
@@ -0,0 +1,269 @@
+/**
+ * Local full-text search over content already cached on the device: chat
+ * history, emails and case documents. Matching ignores case and accents so
+ * "dossier a jour" finds "Dossier à jour", and each query word may be the
+ * start of a word in the text ("pass" finds "passeport").
+ */
+
+export type SearchSource = "chat" | "email" | "document";
+
+export interface SearchEntry {
+  /** Unique across sources, e.g. `chat:{roomId}:{messageId}` */
+  key: string;
+  source: SearchSource;
+  /** Sender, subject or file name */
+  title: string;
+  body: string;
+  caseId?: string | null;
+  caseReference?: string | null;
+  timestamp?: number;
+  /** Source-specific ids used to open the result */
+  target: {
+    id: string;
+    roomId?: string;
+  };
+}
+
+export interface SearchResult {
+  entry: SearchEntry;
+  score: number;
+}
+
+export interface SearchResultGroup {
+  /** Null for results that belong to no case */
+  caseReference: string | null;
+  results: SearchResult[];
+}
+
+export interface SearchIndex {
+  entries: SearchEntry[];
+  /** Token to the positions in `entries` containing it */
+  postings: Map<string, number[]>;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Queries shorter than this return no results */
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+const DEFAULT_RESULT_LIMIT = 100;
+
+const DIACRITICS = /[\u0300-\u036f]/g;
+const LIGATURES: Record<string, string> = { œ: "oe", æ: "ae", ß: "ss" };
+// Whitespace, punctuation and French apostrophes ("l'avocat" -> l, avocat)
+const TOKEN_SEPARATORS = /[\s.,;:!?¿¡"'’‘“”«»()[\]{}<>/\\|@#%&*+=~`^_\-–—…]+/;
+
+const normalizeChar = (char: string) => {
+  const lower = char.toLowerCase();
+  return LIGATURES[lower] ?? lower.normalize("NFD").replace(DIACRITICS, "");
+};
+
+/** Lowercase and strip accents so French and English text compare equally */
+export const normalizeSearchText = (text: string | null | undefined) => {
+  if (!text) return "";
+  let normalized = "";
+  for (const char of text) {
+    normalized += normalizeChar(char);
+  }
+  return normalized;
+};
+
+export const tokenize = (text: string | null | undefined): string[] =>
+  normalizeSearchText(text)
+    .split(TOKEN_SEPARATORS)
+    .filter((token) => token.length > 0);
+
+export const buildSearchIndex = (entries: SearchEntry[]): SearchIndex => {
+  const postings = new Map<string, number[]>();
+  entries.forEach((entry, position) => {
+    const tokens = new Set([
+      ...tokenize(entry.title),
+      ...tokenize(entry.body),
+      ...tokenize(entry.caseReference),
+    ]);
+    tokens.forEach((token) => {
+      const list = postings.get(token);
+      if (list) {
+        list.push(position);
+      } else {
+        postings.set(token, [position]);
+      }
+    });
+  });
+  return { entries, postings };
+};
+
+/**
+ * Entries containing every query word, best matches first. A whole-word
+ * match scores higher than a prefix match, and recency breaks ties.
+ */
+export const searchIndex = (
+  index: SearchIndex,
+  query: string,
+  limit = DEFAULT_RESULT_LIMIT,
+): SearchResult[] => {
+  const queryTokens = [...new Set(tokenize(query))];
+  if (
+    queryTokens.length === 0 ||
+    query.trim().length < MIN_SEARCH_QUERY_LENGTH
+  ) {
+    return [];
+  }
+
+  let scores: Map<number, number> | null = null;
+  for (const queryToken of queryTokens) {
+    const tokenScores = new Map<number, number>();
+    index.postings.forEach((positions, token) => {
+      if (!token.startsWith(queryToken)) return;
+      const weight = token === queryToken ? 2 : 1;
+      positions.forEach((position) => {
+        tokenScores.set(
+          position,
+          Math.max(tokenScores.get(position) ?? 0, weight),
+        );
+      });
+    });
+
+    const previous: Map<number, number> | null = scores;
+    const combined = new Map<number, number>();
+    tokenScores.forEach((weight, position) => {
+      if (!previous) {
+        combined.set(position, weight);
+      } else if (previous.has(position)) {
+        combined.set(position, (previous.get(position) ?? 0) + weight);
+      }
+    });
+    scores = combined;
+    if (scores.size === 0) {
+      return [];
+    }
+  }
+
+  const results: SearchResult[] = [];
+  scores?.forEach((score, position) => {
+    results.push({ entry: index.entries[position], score });
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (b.entry.timestamp ?? 0) - (a.entry.timestamp ?? 0),
+    )
+    .slice(0, limit);
+};
+
+/** True when every query word starts a word of the text */
+export const matchesSearchQuery = (
+  text: string | null | undefined,
+  query: string,
+) => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return true;
+  const tokens = tokenize(text);
+  return queryTokens.every((queryToken) =>
+    tokens.some((token) => token.startsWith(queryToken)),
+  );
+};
+
+/**
+ * Split text into plain and matching runs for highlighting. Matching is
+ * done on the normalized text and mapped back, so accented originals are
+ * highlighted as typed by their author.
+ */
+export const getHighlightSegments = (
+  text: string,
+  query: string,
+): HighlightSegment[] => {
+  const queryTokens = tokenize(query);
+  if (!text || queryTokens.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  // Position in `text` of each character of the normalized string
+  const chars = Array.from(text);
+  const offsets: number[] = [];
+  const charStarts: number[] = [];
+  let normalized = "";
+  let cursor = 0;
+  chars.forEach((char, charIndex) => {
+    charStarts.push(cursor);
+    const mapped = normalizeChar(char);
+    for (let i = 0; i < mapped.length; i += 1) {
+      offsets.push(charIndex);
+    }
+    normalized += mapped;
+    cursor += char.length;
+  });
+  charStarts.push(cursor);
+
+  const isMatched = new Array<boolean>(chars.length).fill(false);
+  queryTokens.forEach((queryToken) => {
+    let from = normalized.indexOf(queryToken);
+    while (from !== -1) {
+      const startsWord =
+        from === 0 || TOKEN_SEPARATORS.test(normalized[from - 1]);
+      if (startsWord) {
+        const end = from + queryToken.length - 1;
+        for (let i = offsets[from]; i <= offsets[end]; i += 1) {
+          isMatched[i] = true;
+        }
+      }
+      from = normalized.indexOf(queryToken, from + 1);
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= chars.length; i += 1) {
+    if (i === chars.length || isMatched[i] !== isMatched[runStart]) {
+      segments.push({
+        text: text.slice(charStarts[runStart], charStarts[i]),
+        match: isMatched[runStart],
+      });
+      runStart = i;
+    }
+  }
+  return segments;
+};
+
+/** A window of `text` around the first match, for result previews */
+export const getSearchSnippet = (text: string, query: string, radius = 60) => {
+  const compact = text.replace(/\s+/g, " ").trim();
+  const segments = getHighlightSegments(compact, query);
+  const firstMatch = segments.findIndex((segment) => segment.match);
+  if (firstMatch === -1 || compact.length <= radius * 2) {
+    return compact.slice(0, radius * 2);
+  }
+
+  const matchStart = segments
+    .slice(0, firstMatch)
+    .reduce((length, segment) => length + segment.text.length, 0);
+  const start = Math.max(matchStart - radius, 0);
+  const end = Math.min(matchStart + radius, compact.length);
+  return `${start > 0 ? "…" : ""}${compact.slice(start, end)}${
+    end < compact.length ? "…" : ""
+  }`;
+};
+
+/** Group results by case reference, ordered by each group's best result */
+export const groupResultsByCase = (
+  results: SearchResult[],
+): SearchResultGroup[] => {
+  const groups = new Map<string | null, SearchResult[]>();
+  results.forEach((result) => {
+    const caseReference = result.entry.caseReference?.trim() || null;
+    const group = groups.get(caseReference);
+    if (group) {
+      group.push(result);
+    } else {
+      groups.set(caseReference, [result]);
+    }
+  });
+  return Array.from(groups, ([caseReference, grouped]) => ({
+    caseReference,
+    results: grouped,
+  }));
+};
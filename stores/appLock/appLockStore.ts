@@ -0,0 +1,164 @@
+import { create } from "zustand";
+import { AppState } from "react-native";
+import * as LocalAuthentication from "expo-local-authentication";
+import i18n from "../../lib/i18n";
+import { secureStorage } from "../../lib/storage/secureStorage";
+import { logger } from "../../lib/utils/logger";
+
+export const APP_LOCK_TIMEOUT_OPTIONS = [0, 60_000, 5 * 60_000, 15 * 60_000];
+const DEFAULT_APP_LOCK_TIMEOUT = 60_000; // 1 minute
+
+interface AppLockState {
+  /** Settings have been read from storage */
+  hydrated: boolean;
+  enabled: boolean;
+  /** Time in the background before the app locks again, in ms */
+  timeoutMs: number;
+  isLocked: boolean;
+  isAuthenticating: boolean;
+
+  hydrate: () => Promise<void>;
+  /**
+   * Turn the lock on or off. Both directions require a successful
+   * authentication so a borrowed unlocked phone cannot disable it.
+   */
+  setEnabled: (enabled: boolean) => Promise<boolean>;
+  setTimeoutMs: (timeoutMs: number) => Promise<void>;
+  unlock: () => Promise<boolean>;
+  lock: () => void;
+}
+
+/**
+ * Face ID / fingerprint, falling back to the device PIN or passcode. Devices
+ * without any screen lock cannot be protected, so they are let through.
+ */
+const authenticate = async (): Promise<boolean> => {
+  const level = await LocalAuthentication.getEnrolledLevelAsync();
+  if (level === LocalAuthentication.SecurityLevel.NONE) {
+    logger.warn("App lock skipped: no screen lock is set on this device");
+    return true;
+  }
+
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage: i18n.t("appLock.prompt", {
+      defaultValue: "Unlock to continue",
+    }),
+    fallbackLabel: i18n.t("appLock.usePin", { defaultValue: "Use PIN" }),
+    cancelLabel: i18n.t("common.cancel"),
+    disableDeviceFallback: false,
+  });
+
+  if (!result.success) {
+    logger.info("App unlock failed", { error: result.error });
+  }
+  return result.success;
+};
+
+export const useAppLockStore = create<AppLockState>((set, get) => ({
+  hydrated: false,
+  enabled: false,
+  timeoutMs: DEFAULT_APP_LOCK_TIMEOUT,
+  isLocked: false,
+  isAuthenticating: false,
+
+  hydrate: async () => {
+    const [enabled, timeoutMs] = await Promise.all([
+      secureStorage.getBiometricEnabled(),
+      secureStorage.getAppLockTimeout(),
+    ]);
+    // A cold start always counts as a timeout
+    set({
+      hydrated: true,
+      enabled,
+      timeoutMs: timeoutMs ?? DEFAULT_APP_LOCK_TIMEOUT,
+      isLocked: enabled,
+    });
+  },
+
+  setEnabled: async (enabled) => {
+    if (enabled === get().enabled) {
+      return true;
+    }
+    set({ isAuthenticating: true });
+    try {
+      const authenticated = await authenticate();
+      if (!authenticated) {
+        return false;
+      }
+      await secureStorage.setBiometricEnabled(enabled);
+      set({ enabled });
+      logger.info("App lock preference updated", { enabled });
+      return true;
+    } finally {
+      set({ isAuthenticating: false });
+    }
+  },
+
+  setTimeoutMs: async (timeoutMs) => {
+    await secureStorage.setAppLockTimeout(timeoutMs);
+    set({ timeoutMs });
+  },
+
+  unlock: async () => {
+    if (get().isAuthenticating) {
+      return false;
+    }
+    set({ isAuthenticating: true });
+    try {
+      const authenticated = await authenticate();
+      if (authenticated) {
+        set({ isLocked: false });
+      }
+      return authenticated;
+    } catch (error) {
+      logger.error("App unlock error", error);
+      return false;
+    } finally {
+      set({ isAuthenticating: false });
+    }
+  },
+
+  lock: () => {
+    if (get().enabled) {
+      set({ isLocked: true });
+    }
+  },
+}));
+
+// Lock on cold start and after the configured time in the background
+let appLockInitialized = false;
+
+export const initializeAppLock = () => {
+  if (appLockInitialized) return;
+
+  appLockInitialized = true;
+  let backgroundedAt: number | null = null;
+
+  AppState.addEventListener("change", (appState) => {
+    const state = useAppLockStore.getState();
+    if (appState === "background") {
+      // The biometric prompt itself briefly backgrounds the app on Android
+      if (!state.isAuthenticating) {
+        backgroundedAt = Date.now();
+      }
+      return;
+    }
+    if (appState === "active" && backgroundedAt !== null) {
+      const elapsed = Date.now() - backgroundedAt;
+      backgroundedAt = null;
+      if (elapsed >= state.timeoutMs) {
+        state.lock();
+      }
+    }
+  });
+
+  useAppLockStore
+    .getState()
+    .hydrate()
+    .catch((error) => {
+      logger.warn("Failed to load app lock settings", error);
+      useAppLockStore.setState({ hydrated: true });
+    });
+
+  logger.info("App lock initialized");
+};
@@ -0,0 +1,59 @@
+import { appointmentsService } from "../../../lib/services/appointmentsService";
+import { appointmentReminders } from "../../../lib/services/appointmentReminders";
+import { useAppointmentsStore } from "../appointmentsStore";
+import type { Appointment } from "../../../lib/types";
+
+jest.mock("../../../lib/services/appointmentsService", () => ({
+  appointmentsService: {
+    getAppointments: jest.fn(),
+    getAppointmentById: jest.fn(),
+  },
+}));
+jest.mock("../../../lib/services/appointmentReminders", () => ({
+  DEFAULT_REMINDER_OFFSETS: [24 * 60, 60],
+  appointmentReminders: {
+    getOffsets: jest.fn(() => Promise.resolve([15])),
+    sync: jest.fn(() => Promise.resolve()),
+    cancelAll: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+const appointment = {
+  id: "apt-1",
+  scheduledAt: "2026-11-03T09:00:00.000Z",
+  status: "SCHEDULED",
+} as Appointment;
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("appointment reminders", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("schedules reminders from the calendar month with the saved offsets", async () => {
+    (appointmentsService.getAppointments as jest.Mock).mockResolvedValue({
+      appointments: [appointment],
+      page: 1,
+      hasMore: false,
+    });
+
+    await useAppointmentsStore.getState().fetchMonth(new Date(2026, 10, 1));
+    await flush();
+
+    expect(appointmentReminders.sync).toHaveBeenCalledWith([appointment], [15]);
+  });
+
+  it("schedules reminders for an appointment opened directly", async () => {
+    (appointmentsService.getAppointmentById as jest.Mock).mockResolvedValue(
+      appointment,
+    );
+
+    await useAppointmentsStore.getState().fetchAppointmentById("apt-1");
+    await flush();
+
+    expect(appointmentReminders.sync).toHaveBeenCalledWith([appointment], [15]);
+    // The first fetch already read the saved offsets for this session
+    expect(appointmentReminders.getOffsets).not.toHaveBeenCalled();
+  });
+});
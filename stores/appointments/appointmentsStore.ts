@@ -0,0 +1,235 @@
+import { create } from "zustand";
+import {
+  appointmentsService,
+  AppointmentScope,
+} from "../../lib/services/appointmentsService";
+import {
+  appointmentReminders,
+  DEFAULT_REMINDER_OFFSETS,
+} from "../../lib/services/appointmentReminders";
+import { getMonthRange, toMonthKey } from "../../lib/utils/calendar";
+import { logger } from "../../lib/utils/logger";
+import type { Appointment } from "../../lib/types";
+
+const APPOINTMENTS_PAGE_SIZE = 20;
+
+interface AppointmentList {
+  items: Appointment[];
+  page: number;
+  hasMore: boolean;
+}
+
+const emptyList = (): AppointmentList => ({
+  items: [],
+  page: 0,
+  hasMore: true,
+});
+
+interface AppointmentsState {
+  lists: Record<AppointmentScope, AppointmentList>;
+  /** Appointments per month, keyed "YYYY-MM" */
+  monthAppointments: Record<string, Appointment[]>;
+  selectedAppointment: Appointment | null;
+  reminderOffsets: number[];
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  isMonthLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchAppointments: (scope: AppointmentScope) => Promise<void>;
+  loadMore: (scope: AppointmentScope) => Promise<void>;
+  fetchMonth: (month: Date) => Promise<void>;
+  fetchAppointmentById: (appointmentId: string) => Promise<void>;
+  loadReminderOffsets: () => Promise<void>;
+  /** Schedule local reminders for appointments fetched anywhere in the app */
+  scheduleReminders: (appointments: Appointment[]) => Promise<void>;
+  setReminderOffsets: (offsets: number[]) => Promise<void>;
+  clearError: () => void;
+  clearCache: () => Promise<void>;
+}
+
+const syncReminders = (appointments: Appointment[], offsets: number[]) =>
+  offsets.length > 0
+    ? appointmentReminders.sync(appointments, offsets)
+    : appointmentReminders.cancelAll();
+
+// Read once per session; until then the store holds the default offsets
+let reminderOffsetsLoad: Promise<void> | null = null;
+
+export const useAppointmentsStore = create<AppointmentsState>((set, get) => ({
+  lists: { upcoming: emptyList(), past: emptyList() },
+  monthAppointments: {},
+  selectedAppointment: null,
+  reminderOffsets: DEFAULT_REMINDER_OFFSETS,
+  isLoading: false,
+  isLoadingMore: false,
+  isMonthLoading: false,
+  error: null,
+
+  fetchAppointments: async (scope) => {
+    set({ isLoading: true, error: null });
+    try {
+      const result = await appointmentsService.getAppointments({
+        scope,
+        page: 1,
+        limit: APPOINTMENTS_PAGE_SIZE,
+      });
+      set((state) => ({
+        lists: {
+          ...state.lists,
+          [scope]: {
+            items: result.appointments,
+            page: result.page,
+            hasMore: result.hasMore,
+          },
+        },
+        isLoading: false,
+      }));
+
+      if (scope === "upcoming") {
+        void get().scheduleReminders(result.appointments);
+      }
+    } catch (error: any) {
+      logger.error("Error fetching appointments", error);
+      set({
+        error: error.message || "Failed to fetch appointments",
+        isLoading: false,
+      });
+    }
+  },
+
+  loadMore: async (scope) => {
+    const list = get().lists[scope];
+    if (get().isLoadingMore || get().isLoading || !list.hasMore) {
+      return;
+    }
+
+    set({ isLoadingMore: true });
+    try {
+      const result = await appointmentsService.getAppointments({
+        scope,
+        page: list.page + 1,
+        limit: APPOINTMENTS_PAGE_SIZE,
+      });
+      set((state) => {
+        const current = state.lists[scope];
+        const seen = new Set(current.items.map((item) => item.id));
+        return {
+          lists: {
+            ...state.lists,
+            [scope]: {
+              items: [
+                ...current.items,
+                ...result.appointments.filter((item) => !seen.has(item.id)),
+              ],
+              page: result.page,
+              hasMore: result.hasMore,
+            },
+          },
+          isLoadingMore: false,
+        };
+      });
+
+      if (scope === "upcoming") {
+        void get().scheduleReminders(result.appointments);
+      }
+    } catch (error: any) {
+      logger.error("Error loading more appointments", error);
+      set({
+        error: error.message || "Failed to fetch appointments",
+        isLoadingMore: false,
+      });
+    }
+  },
+
+  fetchMonth: async (month) => {
+    const monthKey = toMonthKey(month);
+    set({ isMonthLoading: true, error: null });
+    try {
+      // A month rarely holds more than a handful of appointments
+      const result = await appointmentsService.getAppointments({
+        ...getMonthRange(month),
+        limit: 100,
+      });
+      set((state) => ({
+        monthAppointments: {
+          ...state.monthAppointments,
+          [monthKey]: result.appointments,
+        },
+        isMonthLoading: false,
+      }));
+      void get().scheduleReminders(result.appointments);
+    } catch (error: any) {
+      logger.error("Error fetching appointments for month", {
+        monthKey,
+        error,
+      });
+      set({
+        error: error.message || "Failed to fetch appointments",
+        isMonthLoading: false,
+      });
+    }
+  },
+
+  fetchAppointmentById: async (appointmentId) => {
+    // Show what we already have while the details refresh
+    const { lists, monthAppointments } = get();
+    const cached = [
+      ...lists.upcoming.items,
+      ...lists.past.items,
+      ...Object.values(monthAppointments).flat(),
+    ].find((item) => item.id === appointmentId);
+
+    set({
+      selectedAppointment: cached ?? null,
+      isLoading: !cached,
+      error: null,
+    });
+    try {
+      const appointment =
+        await appointmentsService.getAppointmentById(appointmentId);
+      set({ selectedAppointment: appointment, isLoading: false });
+      void get().scheduleReminders([appointment]);
+    } catch (error: any) {
+      logger.error("Error fetching appointment", error);
+      set({
+        error: cached
+          ? null
+          : error.message || "Failed to fetch appointment details",
+        isLoading: false,
+      });
+    }
+  },
+
+  loadReminderOffsets: async () => {
+    reminderOffsetsLoad ??= appointmentReminders
+      .getOffsets()
+      .then((offsets) => set({ reminderOffsets: offsets }));
+    await reminderOffsetsLoad;
+  },
+
+  scheduleReminders: async (appointments) => {
+    await get().loadReminderOffsets();
+    await syncReminders(appointments, get().reminderOffsets);
+  },
+
+  setReminderOffsets: async (offsets) => {
+    const sorted = [...offsets].sort((a, b) => b - a);
+    set({ reminderOffsets: sorted });
+    await appointmentReminders.setOffsets(sorted);
+    await syncReminders(get().lists.upcoming.items, sorted);
+    logger.info("Appointment reminder offsets updated", { offsets: sorted });
+  },
+
+  clearError: () => set({ error: null }),
+
+  clearCache: async () => {
+    set({
+      lists: { upcoming: emptyList(), past: emptyList() },
+      monthAppointments: {},
+      selectedAppointment: null,
+    });
+    await appointmentReminders.cancelAll();
+  },
+}));
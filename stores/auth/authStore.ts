@@ -13,6 +13,10 @@ import {
 } from "firebase/auth";
 import { auth, database } from "../../lib/firebase/config";
 import { secureStorage } from "../../lib/storage/secureStorage";
+import { documentVault } from "../../lib/services/documentVault";
+import { presenceService } from "../../lib/services/presenceService";
+import { templateCache } from "../../lib/services/templateCache";
+import { clearQueryCache } from "../../lib/query/queryClient";
 import { logger } from "../../lib/utils/logger";
 import type { PushNotificationToken } from "../../lib/services/pushNotifications";
 
@@ -157,13 +161,18 @@ export const useAuthStore = create<AuthState>()(
               const { useDocumentsStore } = await import(
                 "../documents/documentsStore"
               );
+              const { useAppointmentsStore } = await import(
+                "../appointments/appointmentsStore"
+              );
 
               // Clear all caches for this user
               await Promise.all([
+                clearQueryCache(userId),
                 useCasesStore.getState().clearCache(),
                 useNotificationsStore.getState().clearCache(),
                 useSubscriptionStore.getState().clearSubscriptionStatus(),
                 useDocumentsStore.getState().clearCache(),
+                useAppointmentsStore.getState().clearCache(),
               ]);
 
               logger.info("Cleared all user caches on logout", { userId });
@@ -171,8 +180,22 @@ export const useAuthStore = create<AuthState>()(
               logger.warn("Failed to clear some caches on logout", cacheError);
               // Non-blocking - continue with logout
             }
+
+            // Downloaded passports and statements must not outlive the session
+            try {
+              await documentVault.wipe(userId);
+              await templateCache.clear();
+            } catch (vaultError) {
+              logger.warn(
+                "Failed to wipe document vault on logout",
+                vaultError,
+              );
+            }
           }
 
+          // Presence writes need the session that is about to end
+          await presenceService.disconnectDevice();
+
           // Sign out from Firebase
           await firebaseSignOut(auth);
 
@@ -0,0 +1,73 @@
+import { casesService } from "../../../lib/services/casesService";
+import { queryClient } from "../../../lib/query/queryClient";
+import type { CaseOutboxEntry } from "../../../lib/services/caseOutbox";
+import type { Case } from "../../../lib/types";
+import { useCasesStore } from "../casesStore";
+
+jest.mock("expo-crypto", () => ({ randomUUID: () => "uuid-1" }));
+jest.mock("../../../lib/services/casesService", () => ({
+  casesService: { updateCase: jest.fn() },
+}));
+jest.mock("../../../lib/services/caseOutbox", () => ({
+  caseOutbox: { save: jest.fn(() => Promise.resolve()) },
+  isLocalCaseId: () => false,
+  isNetworkError: () => false,
+}));
+jest.mock("../../auth/authStore", () => ({
+  useAuthStore: { getState: () => ({ user: { uid: "user-1" } }) },
+}));
+jest.mock("../../connectivity/connectivityStore", () => ({
+  isDeviceOffline: () => false,
+  subscribeToReconnect: jest.fn(),
+}));
+
+const entry = (
+  id: string,
+  caseId: string,
+  status: CaseOutboxEntry["status"],
+): CaseOutboxEntry => ({
+  id,
+  operation: "update",
+  caseId,
+  payload: { priority: "HIGH" } as Partial<Case>,
+  status,
+  attempts: status === "failed" ? 1 : 0,
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+describe("retryOutboxEntry", () => {
+  afterAll(() => {
+    queryClient.clear();
+  });
+
+  it("replays an entry retried while a sync was already running", async () => {
+    let finishFirstUpdate = () => {};
+    (casesService.updateCase as jest.Mock)
+      .mockImplementationOnce(
+        (caseId: string) =>
+          new Promise((resolve) => {
+            finishFirstUpdate = () => resolve({ id: caseId });
+          }),
+      )
+      .mockImplementation((caseId: string) => Promise.resolve({ id: caseId }));
+    useCasesStore.setState({
+      outbox: [
+        entry("failed-1", "case-1", "failed"),
+        entry("q-2", "case-2", "pending"),
+      ],
+    });
+
+    // The running sync skips the failed entry and waits on the second one
+    const sync = useCasesStore.getState().syncOutbox();
+    await useCasesStore.getState().retryOutboxEntry("failed-1");
+    finishFirstUpdate();
+    await sync;
+
+    expect(casesService.updateCase).toHaveBeenCalledWith("case-1", {
+      priority: "HIGH",
+    });
+    expect(useCasesStore.getState().outbox).toEqual([]);
+    expect(useCasesStore.getState().isSyncingOutbox).toBe(false);
+  });
+});
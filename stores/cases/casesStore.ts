@@ -1,26 +1,89 @@
 import { create } from "zustand";
 import { casesService } from "../../lib/services/casesService";
+import {
+  caseOutbox,
+  CaseOutboxEntry,
+  isLocalCaseId,
+  isNetworkError,
+} from "../../lib/services/caseOutbox";
 import { logger } from "../../lib/utils/logger";
-import { secureStorage } from "../../lib/storage/secureStorage";
-import type { Case, CreateCaseRequest } from "../../lib/types";
+import { createIdempotencyKey } from "../../lib/api/retry";
+import {
+  fetchCachedQuery,
+  getQueryUpdatedAt,
+  queryClient,
+} from "../../lib/query/queryClient";
+import { queryKeys, STALE_TIMES } from "../../lib/query/queryKeys";
+import type { Case, CaseStatusEvent, CreateCaseRequest } from "../../lib/types";
 import { useAuthStore } from "../auth/authStore";
+import {
+  isDeviceOffline,
+  subscribeToReconnect,
+} from "../connectivity/connectivityStore";
+
+/**
+ * Mark cached case lists (and optionally one case) stale after a mutation
+ * so the next read goes back to the server.
+ */
+const invalidateCaseQueries = (caseId?: string) => {
+  const userId = useAuthStore.getState().user?.uid;
+  if (!userId) {
+    return;
+  }
+  void queryClient.invalidateQueries({
+    queryKey: [...queryKeys.cases(userId), "list"],
+  });
+  if (caseId) {
+    void queryClient.invalidateQueries({
+      queryKey: queryKeys.caseDetail(userId, caseId),
+    });
+  }
+};
 
-const CASES_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-const CASES_CACHE_KEY_PREFIX = "cases_cache_"; // Will be suffixed with user ID
-const CASE_BY_ID_CACHE_KEY_PREFIX = "case_by_id_";
+/**
+ * Re-apply queued mutations on top of server data so optimistic changes
+ * survive refetches until the outbox has been replayed.
+ */
+const applyOutboxToCases = (
+  cases: Case[],
+  outbox: CaseOutboxEntry[],
+): Case[] => {
+  let result = cases;
+  outbox.forEach((entry) => {
+    switch (entry.operation) {
+      case "create":
+        if (!result.some((c) => c.id === entry.caseId)) {
+          result = [
+            casesService.buildLocalCase(
+              entry.caseId,
+              entry.payload as CreateCaseRequest,
+              entry.createdAt,
+            ),
+            ...result,
+          ];
+        }
+        break;
+      case "update":
+        result = result.map((c) =>
+          c.id === entry.caseId
+            ? { ...c, ...(entry.payload as Partial<Case>) }
+            : c,
+        );
+        break;
+      case "delete":
+        result = result.filter((c) => c.id !== entry.caseId);
+        break;
+    }
+  });
+  return result;
+};
 
-interface CasesCacheEntry {
-  cases: Case[];
-  filters: string;
-  fetchedAt: number;
-  userId?: string; // Store user ID for verification
-}
+const persistOutbox = (outbox: CaseOutboxEntry[]) =>
+  caseOutbox.save(outbox, useAuthStore.getState().user?.uid);
 
-// Helper to get user-specific cache key
-const getCasesCacheKey = (userId: string | null | undefined): string => {
-  if (!userId) return "cases_cache_no_user";
-  return `${CASES_CACHE_KEY_PREFIX}${userId}`;
-};
+// Set when an entry is retried while a sync is running and may already
+// have passed it; that sync runs again once it finishes
+let outboxResyncRequested = false;
 
 interface CasesState {
   cases: Case[];
@@ -34,6 +97,10 @@ interface CasesState {
     search?: string;
   } | null;
   lastFetched: number | null;
+  outbox: CaseOutboxEntry[];
+  isSyncingOutbox: boolean;
+  caseHistory: Record<string, CaseStatusEvent[]>;
+  isHistoryLoading: boolean;
 
   // Actions
   fetchCases: (
@@ -49,12 +116,20 @@ interface CasesState {
     caseId: string,
     options?: { force?: boolean },
   ) => Promise<void>;
+  fetchCaseHistory: (
+    caseId: string,
+    options?: { force?: boolean },
+  ) => Promise<void>;
   createCase: (data: CreateCaseRequest) => Promise<Case | null>;
   updateCase: (caseId: string, data: Partial<Case>) => Promise<void>;
   deleteCase: (caseId: string) => Promise<void>;
   setSelectedCase: (caseItem: Case | null) => void;
   clearError: () => void;
   clearCache: () => Promise<void>;
+  loadOutbox: () => Promise<void>;
+  syncOutbox: () => Promise<void>;
+  retryOutboxEntry: (entryId: string) => Promise<void>;
+  discardOutboxEntry: (entryId: string) => Promise<void>;
 }
 
 const buildFiltersKey = (filters?: {
@@ -78,12 +153,12 @@ export const useCasesStore = create<CasesState>((set, get) => ({
   selectedCase: null,
   currentFilters: null,
   lastFetched: null,
+  outbox: [],
+  isSyncingOutbox: false,
+  caseHistory: {},
+  isHistoryLoading: false,
 
   fetchCases: async (filters, options) => {
-    const force = options?.force || false;
-    const filtersKey = buildFiltersKey(filters);
-    const now = Date.now();
-
     // Get current user ID from auth store
     const userId = useAuthStore.getState().user?.uid;
     if (!userId) {
@@ -92,87 +167,40 @@ export const useCasesStore = create<CasesState>((set, get) => ({
       return;
     }
 
-    const cacheKey = getCasesCacheKey(userId);
-
-    // Check in-memory cache first
-    const lastFetched = get().lastFetched;
-    if (!force && get().cases.length > 0 && lastFetched !== null) {
-      const timeSinceFetch = now - lastFetched;
-      if (timeSinceFetch < CASES_CACHE_TTL) {
-        logger.debug("Cases cache hit (in-memory)", { timeSinceFetch });
-        set({ currentFilters: filters || null });
-        return;
-      }
-    }
-
-    // Check persistent cache (user-specific)
-    if (!force) {
-      try {
-        const cached = await secureStorage.get<CasesCacheEntry>(cacheKey);
-        // Verify cache is for current user and matches filters
-        if (
-          cached &&
-          cached.userId === userId &&
-          cached.filters === filtersKey &&
-          now - cached.fetchedAt < CASES_CACHE_TTL
-        ) {
-          logger.debug("Cases cache hit (persistent)", { filtersKey, userId });
+    const queryKey = queryKeys.caseList(userId, buildFiltersKey(filters));
+    let hasCachedData = false;
+    set({ isLoading: true, error: null, currentFilters: filters || null });
+    try {
+      const cases = await fetchCachedQuery({
+        queryKey,
+        queryFn: () => casesService.getCases(filters),
+        staleTime: STALE_TIMES.cases,
+        force: options?.force,
+        onCached: (cachedCases, fetchedAt) => {
+          // Serve the cached list while a stale one revalidates
+          hasCachedData = true;
           set({
-            cases: cached.cases,
+            cases: applyOutboxToCases(cachedCases, get().outbox),
             isLoading: false,
-            error: null,
-            currentFilters: filters || null,
-            lastFetched: cached.fetchedAt,
+            lastFetched: fetchedAt,
           });
-          return;
-        }
-      } catch (error) {
-        logger.debug("Failed to read cases cache", error);
-      }
-    }
-
-    set({ isLoading: true, error: null, currentFilters: filters || null });
-    try {
-      const currentFilters = filters || get().currentFilters || undefined;
-      const cases = await casesService.getCases(currentFilters || undefined);
-      const fetchedAt = Date.now();
-
-      // Update in-memory cache
-      set({ cases, isLoading: false, lastFetched: fetchedAt });
+        },
+      });
 
-      // Update persistent cache with user ID
-      try {
-        await secureStorage.set(cacheKey, {
-          cases,
-          filters: filtersKey,
-          fetchedAt,
-          userId, // Store user ID for verification
-        });
-      } catch (error) {
-        logger.debug("Failed to save cases cache", error);
-      }
+      set({
+        cases: applyOutboxToCases(cases, get().outbox),
+        isLoading: false,
+        lastFetched: getQueryUpdatedAt(queryKey),
+      });
     } catch (error: any) {
       const errorMessage =
         error.response?.data?.error || error.message || "Failed to fetch cases";
       logger.error("Error fetching cases", error);
 
-      // Try to use cached data on error (only if same user)
-      try {
-        const cached = await secureStorage.get<CasesCacheEntry>(cacheKey);
-        // Verify cache is for current user
-        if (cached && cached.userId === userId && cached.cases.length > 0) {
-          logger.info("Using cached cases data due to fetch error", { userId });
-          set({
-            cases: cached.cases,
-            isLoading: false,
-            error: null,
-            currentFilters: filters || null,
-            lastFetched: cached.fetchedAt,
-          });
-          return;
-        }
-      } catch (cacheError) {
-        logger.debug("Failed to read cases cache on error", cacheError);
+      if (hasCachedData) {
+        logger.info("Using cached cases data due to fetch error", { userId });
+        set({ isLoading: false });
+        return;
       }
 
       set({ error: errorMessage, isLoading: false });
@@ -180,68 +208,119 @@ export const useCasesStore = create<CasesState>((set, get) => ({
   },
 
   fetchCaseById: async (caseId: string, options) => {
-    const force = options?.force || false;
-    const cacheKey = `${CASE_BY_ID_CACHE_KEY_PREFIX}${caseId}`;
-    const now = Date.now();
-
-    // Check persistent cache first
-    if (!force) {
-      try {
-        const cached = await secureStorage.get<{
-          case: Case;
-          fetchedAt: number;
-        }>(cacheKey);
-        if (cached && now - cached.fetchedAt < CASES_CACHE_TTL) {
-          logger.debug("Case by ID cache hit", { caseId });
-          set({ selectedCase: cached.case, isLoading: false });
-          return;
-        }
-      } catch (error) {
-        logger.debug("Failed to read case cache", error);
+    // Cases created offline only exist locally until the outbox replays them
+    if (isLocalCaseId(caseId)) {
+      const localCase = get().cases.find((c) => c.id === caseId) ?? null;
+      set({ selectedCase: localCase, isLoading: false });
+      if (localCase) {
+        return;
       }
     }
 
+    const userId = useAuthStore.getState().user?.uid;
+    if (!userId) {
+      logger.warn("Cannot fetch case: user not authenticated");
+      set({ error: "User not authenticated", isLoading: false });
+      return;
+    }
+
+    let hasCachedData = false;
     set({ isLoading: true, error: null });
     try {
-      const caseItem = await casesService.getCaseById(caseId);
-      const fetchedAt = Date.now();
+      const caseItem = await fetchCachedQuery({
+        queryKey: queryKeys.caseDetail(userId, caseId),
+        queryFn: () => casesService.getCaseById(caseId),
+        staleTime: STALE_TIMES.cases,
+        force: options?.force,
+        onCached: (cachedCase) => {
+          hasCachedData = true;
+          set({ selectedCase: cachedCase, isLoading: false });
+        },
+      });
 
       set({ selectedCase: caseItem, isLoading: false });
-
-      // Update persistent cache
-      try {
-        await secureStorage.set(cacheKey, { case: caseItem, fetchedAt });
-      } catch (error) {
-        logger.debug("Failed to save case cache", error);
-      }
     } catch (error: any) {
       const errorMessage =
         error.response?.data?.error || error.message || "Failed to fetch case";
       logger.error("Error fetching case", error);
 
-      // Try to use cached data on error
-      try {
-        const cached = await secureStorage.get<{
-          case: Case;
-          fetchedAt: number;
-        }>(cacheKey);
-        if (cached) {
-          logger.info("Using cached case data due to fetch error");
-          set({ selectedCase: cached.case, isLoading: false });
-          return;
-        }
-      } catch (cacheError) {
-        logger.debug("Failed to read case cache on error", cacheError);
+      if (hasCachedData) {
+        logger.info("Using cached case data due to fetch error");
+        set({ isLoading: false });
+        return;
       }
 
       set({ error: errorMessage, isLoading: false });
     }
   },
 
+  fetchCaseHistory: async (caseId: string, options) => {
+    // Nothing is recorded server-side until an offline case has synced
+    if (isLocalCaseId(caseId)) {
+      return;
+    }
+
+    const userId = useAuthStore.getState().user?.uid;
+    if (!userId) {
+      return;
+    }
+
+    const applyHistory = (events: CaseStatusEvent[]) =>
+      set((state) => ({
+        caseHistory: { ...state.caseHistory, [caseId]: events },
+        isHistoryLoading: false,
+      }));
+
+    set({ isHistoryLoading: true });
+    try {
+      const events = await fetchCachedQuery({
+        queryKey: queryKeys.caseHistory(userId, caseId),
+        queryFn: () => casesService.getCaseHistory(caseId),
+        staleTime: STALE_TIMES.cases,
+        force: options?.force,
+        onCached: applyHistory,
+      });
+      applyHistory(events);
+    } catch (error: any) {
+      logger.error("Error fetching case history", error);
+      set({ isHistoryLoading: false });
+    }
+  },
+
   createCase: async (data: CreateCaseRequest) => {
     set({ isLoading: true, error: null });
+    // Shared by the direct attempt and its queued replay: a request that
+    // timed out may still have created the case
+    const idempotencyKey = createIdempotencyKey();
+
+    const queueCreate = () => {
+      const localId = caseOutbox.createLocalCaseId();
+      const entry = {
+        ...caseOutbox.createEntry("create", localId, data),
+        idempotencyKey,
+      };
+      const localCase = casesService.buildLocalCase(
+        localId,
+        data,
+        entry.createdAt,
+      );
+      const outbox = [...get().outbox, entry];
+      set((state) => ({
+        cases: [localCase, ...state.cases],
+        outbox,
+        isLoading: false,
+      }));
+      persistOutbox(outbox);
+      logger.info("Case creation queued for sync", { localId });
+      return localCase;
+    };
+
+    if (isDeviceOffline()) {
+      return queueCreate();
+    }
+
     try {
-      const newCase = await casesService.createCase(data);
+      const newCase = await casesService.createCase(data, idempotencyKey);
       const fetchedAt = Date.now();
 
       set((state) => ({
@@ -250,11 +329,13 @@ export const useCasesStore = create<CasesState>((set, get) => ({
         lastFetched: fetchedAt,
       }));
 
-      // Invalidate cache
-      get().clearCache();
+      invalidateCaseQueries();
 
       return newCase;
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        return queueCreate();
+      }
       const errorMessage =
         error.response?.data?.error || error.message || "Failed to create case";
       logger.error("Error creating case", error);
@@ -265,6 +346,34 @@ export const useCasesStore = create<CasesState>((set, get) => ({
 
   updateCase: async (caseId: string, data: Partial<Case>) => {
     set({ isLoading: true, error: null });
+
+    const queueUpdate = () => {
+      const entry = caseOutbox.createEntry("update", caseId, data);
+      const outbox = [...get().outbox, entry];
+      set((state) => ({
+        cases: state.cases.map((c) =>
+          c.id === caseId ? { ...c, ...data } : c,
+        ),
+        selectedCase:
+          state.selectedCase?.id === caseId
+            ? { ...state.selectedCase, ...data }
+            : state.selectedCase,
+        outbox,
+        isLoading: false,
+      }));
+      persistOutbox(outbox);
+      logger.info("Case update queued for sync", { caseId });
+    };
+
+    // Queue behind earlier mutations for this case to keep them ordered
+    const hasQueuedMutation = get().outbox.some(
+      (entry) => entry.caseId === caseId,
+    );
+    if (isLocalCaseId(caseId) || hasQueuedMutation || isDeviceOffline()) {
+      queueUpdate();
+      return;
+    }
+
     try {
       const updatedCase = await casesService.updateCase(caseId, data);
       const fetchedAt = Date.now();
@@ -277,17 +386,19 @@ export const useCasesStore = create<CasesState>((set, get) => ({
         lastFetched: fetchedAt,
       }));
 
-      // Update cache for this specific case
-      try {
-        const cacheKey = `${CASE_BY_ID_CACHE_KEY_PREFIX}${caseId}`;
-        await secureStorage.set(cacheKey, { case: updatedCase, fetchedAt });
-      } catch (error) {
-        logger.debug("Failed to update case cache", error);
+      const userId = useAuthStore.getState().user?.uid;
+      if (userId) {
+        queryClient.setQueryData(
+          queryKeys.caseDetail(userId, caseId),
+          updatedCase,
+        );
       }
-
-      // Invalidate main cache
-      get().clearCache();
+      invalidateCaseQueries();
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        queueUpdate();
+        return;
+      }
       const errorMessage =
         error.response?.data?.error || error.message || "Failed to update case";
       logger.error("Error updating case", error);
@@ -297,6 +408,47 @@ export const useCasesStore = create<CasesState>((set, get) => ({
 
   deleteCase: async (caseId: string) => {
     set({ isLoading: true, error: null });
+
+    const removeLocally = (outbox: CaseOutboxEntry[]) => {
+      set((state) => ({
+        cases: state.cases.filter((c) => c.id !== caseId),
+        selectedCase:
+          state.selectedCase?.id === caseId ? null : state.selectedCase,
+        outbox,
+        isLoading: false,
+      }));
+      persistOutbox(outbox);
+    };
+
+    // A case that never reached the server only needs its queued mutations dropped
+    const queuedCreate = get().outbox.find(
+      (entry) =>
+        entry.caseId === caseId &&
+        entry.operation === "create" &&
+        entry.status !== "syncing",
+    );
+    if (queuedCreate) {
+      removeLocally(get().outbox.filter((entry) => entry.caseId !== caseId));
+      logger.info("Discarded unsynced case", { caseId });
+      return;
+    }
+
+    const queueDelete = () => {
+      removeLocally([
+        ...get().outbox,
+        caseOutbox.createEntry("delete", caseId),
+      ]);
+      logger.info("Case deletion queued for sync", { caseId });
+    };
+
+    const hasQueuedMutation = get().outbox.some(
+      (entry) => entry.caseId === caseId,
+    );
+    if (isLocalCaseId(caseId) || hasQueuedMutation || isDeviceOffline()) {
+      queueDelete();
+      return;
+    }
+
     try {
       await casesService.deleteCase(caseId);
 
@@ -307,17 +459,18 @@ export const useCasesStore = create<CasesState>((set, get) => ({
         isLoading: false,
       }));
 
-      // Invalidate cache
-      get().clearCache();
-
-      // Remove case-specific cache
-      try {
-        const cacheKey = `${CASE_BY_ID_CACHE_KEY_PREFIX}${caseId}`;
-        await secureStorage.delete(cacheKey);
-      } catch (error) {
-        logger.debug("Failed to delete case cache", error);
+      const userId = useAuthStore.getState().user?.uid;
+      if (userId) {
+        queryClient.removeQueries({
+          queryKey: queryKeys.caseDetail(userId, caseId),
+        });
       }
+      invalidateCaseQueries();
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        queueDelete();
+        return;
+      }
       const errorMessage =
         error.response?.data?.error || error.message || "Failed to delete case";
       logger.error("Error deleting case", error);
@@ -334,15 +487,244 @@ export const useCasesStore = create<CasesState>((set, get) => ({
   },
 
   clearCache: async () => {
+    const userId = useAuthStore.getState().user?.uid;
+    if (userId) {
+      queryClient.removeQueries({ queryKey: queryKeys.cases(userId) });
+    }
+    set({ lastFetched: null });
+  },
+
+  loadOutbox: async () => {
+    const userId = useAuthStore.getState().user?.uid;
+    if (!userId) {
+      set({ outbox: [] });
+      return;
+    }
+    const outbox = await caseOutbox.load(userId);
+    set((state) => ({
+      outbox,
+      cases: applyOutboxToCases(state.cases, outbox),
+    }));
+  },
+
+  syncOutbox: async () => {
+    const userId = useAuthStore.getState().user?.uid;
+    if (!userId || get().isSyncingOutbox || get().outbox.length === 0) {
+      return;
+    }
+
+    set({ isSyncingOutbox: true });
+
+    const updateEntry = (entryId: string, patch: Partial<CaseOutboxEntry>) => {
+      const outbox = get().outbox.map((entry) =>
+        entry.id === entryId
+          ? { ...entry, ...patch, updatedAt: Date.now() }
+          : entry,
+      );
+      set({ outbox });
+      persistOutbox(outbox);
+    };
+
+    // Later mutations for a case must not overtake one that failed
+    const blockedCaseIds = new Set<string>();
+    const entryIds = get().outbox.map((entry) => entry.id);
+    let replayedCount = 0;
+
     try {
-      const userId = useAuthStore.getState().user?.uid;
-      if (userId) {
-        const cacheKey = getCasesCacheKey(userId);
-        await secureStorage.delete(cacheKey);
+      for (const entryId of entryIds) {
+        // Re-read each entry: a replayed create rewrites later case IDs
+        const entry = get().outbox.find((item) => item.id === entryId);
+        if (!entry) {
+          continue;
+        }
+        if (entry.status === "failed" || blockedCaseIds.has(entry.caseId)) {
+          blockedCaseIds.add(entry.caseId);
+          continue;
+        }
+
+        updateEntry(entry.id, { status: "syncing" });
+
+        try {
+          if (entry.operation === "create") {
+            const created = await casesService.createCase(
+              entry.payload as CreateCaseRequest,
+              entry.idempotencyKey ?? entry.id,
+            );
+            casesService.registerCaseIdAlias(entry.caseId, created.id);
+            const outbox = caseOutbox.reassignCaseId(
+              get().outbox.filter((item) => item.id !== entry.id),
+              entry.caseId,
+              created.id,
+            );
+            set((state) => ({
+              outbox,
+              cases: state.cases.map((c) =>
+                c.id === entry.caseId ? created : c,
+              ),
+              selectedCase:
+                state.selectedCase?.id === entry.caseId
+                  ? created
+                  : state.selectedCase,
+            }));
+            persistOutbox(outbox);
+          } else {
+            if (entry.operation === "update") {
+              const updatedCase = await casesService.updateCase(
+                entry.caseId,
+                entry.payload as Partial<Case>,
+              );
+              set((state) => ({
+                cases: state.cases.map((c) =>
+                  c.id === entry.caseId ? updatedCase : c,
+                ),
+                selectedCase:
+                  state.selectedCase?.id === entry.caseId
+                    ? updatedCase
+                    : state.selectedCase,
+              }));
+            } else {
+              try {
+                await casesService.deleteCase(entry.caseId);
+              } catch (error: any) {
+                // Already gone on the server - nothing left to replay
+                if (error?.response?.status !== 404) {
+                  throw error;
+                }
+              }
+            }
+            invalidateCaseQueries(entry.caseId);
+            const outbox = get().outbox.filter((item) => item.id !== entry.id);
+            set({ outbox });
+            persistOutbox(outbox);
+          }
+          replayedCount += 1;
+        } catch (error: any) {
+          const lastError =
+            error?.response?.data?.error || error?.message || "Sync failed";
+          if (isNetworkError(error)) {
+            // Connectivity dropped again; keep the rest queued for next time
+            updateEntry(entry.id, {
+              status: "pending",
+              attempts: entry.attempts + 1,
+              lastError,
+            });
+            break;
+          }
+          logger.error("Failed to replay queued case mutation", {
+            entryId: entry.id,
+            operation: entry.operation,
+            caseId: entry.caseId,
+            error: lastError,
+          });
+          updateEntry(entry.id, {
+            status: "failed",
+            attempts: entry.attempts + 1,
+            lastError,
+          });
+          blockedCaseIds.add(entry.caseId);
+        }
       }
-      set({ lastFetched: null });
-    } catch (error) {
-      logger.debug("Failed to clear cases cache", error);
+    } finally {
+      set({ isSyncingOutbox: false });
+    }
+
+    if (replayedCount > 0) {
+      logger.info("Case outbox replayed", {
+        replayedCount,
+        remaining: get().outbox.length,
+      });
+      invalidateCaseQueries();
+    }
+
+    if (outboxResyncRequested) {
+      outboxResyncRequested = false;
+      await get().syncOutbox();
+    }
+  },
+
+  retryOutboxEntry: async (entryId: string) => {
+    const outbox = get().outbox.map((entry) =>
+      entry.id === entryId
+        ? { ...entry, status: "pending" as const, updatedAt: Date.now() }
+        : entry,
+    );
+    set({ outbox });
+    await persistOutbox(outbox);
+    if (get().isSyncingOutbox) {
+      outboxResyncRequested = true;
+      return;
+    }
+    await get().syncOutbox();
+  },
+
+  discardOutboxEntry: async (entryId: string) => {
+    const entry = get().outbox.find((item) => item.id === entryId);
+    if (!entry) {
+      return;
+    }
+
+    // Dropping a create also drops everything queued against that local case
+    const outbox =
+      entry.operation === "create"
+        ? get().outbox.filter((item) => item.caseId !== entry.caseId)
+        : get().outbox.filter((item) => item.id !== entryId);
+
+    set((state) => ({
+      outbox,
+      cases:
+        entry.operation === "create"
+          ? state.cases.filter((c) => c.id !== entry.caseId)
+          : state.cases,
+    }));
+    await persistOutbox(outbox);
+
+    if (entry.operation !== "create") {
+      // Optimistic state for this case is now wrong; pull the server copy
+      await get().fetchCases(get().currentFilters ?? undefined, {
+        force: true,
+      });
     }
   },
 }));
+
+// Replay queued case mutations whenever connectivity or the signed-in user changes
+let outboxSyncInitialized = false;
+
+export const initializeCaseOutboxSync = () => {
+  if (outboxSyncInitialized) return;
+
+  outboxSyncInitialized = true;
+
+  let currentUserId = useAuthStore.getState().user?.uid ?? null;
+
+  const loadAndSync = async () => {
+    await useCasesStore.getState().loadOutbox();
+    await useCasesStore.getState().syncOutbox();
+  };
+
+  useAuthStore.subscribe((state) => {
+    const nextUserId = state.user?.uid ?? null;
+    if (nextUserId === currentUserId) {
+      return;
+    }
+    currentUserId = nextUserId;
+    loadAndSync().catch((error) => {
+      logger.warn("Failed to load case outbox", error);
+    });
+  });
+
+  subscribeToReconnect(() => {
+    useCasesStore
+      .getState()
+      .syncOutbox()
+      .catch((error) => {
+        logger.warn("Failed to sync case outbox", error);
+      });
+  });
+
+  loadAndSync().catch((error) => {
+    logger.warn("Failed to load case outbox", error);
+  });
+
+  logger.info("Case outbox sync initialized");
+};
@@ -0,0 +1,105 @@
+import type { NetworkState } from "expo-network";
+import {
+  isDeviceOffline,
+  setReachabilityProbe,
+  subscribeToReconnect,
+  useConnectivityStore,
+} from "../connectivityStore";
+
+const networkState = (
+  isConnected: boolean,
+  isInternetReachable = isConnected,
+): NetworkState => ({ isConnected, isInternetReachable });
+
+describe("subscribeToReconnect", () => {
+  let unsubscribe: () => void;
+  const listener = jest.fn();
+
+  beforeEach(() => {
+    listener.mockClear();
+    useConnectivityStore.getState().setNetworkState(networkState(true));
+    unsubscribe = subscribeToReconnect(listener);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it("fires once when the device comes back online", () => {
+    const { setNetworkState } = useConnectivityStore.getState();
+
+    setNetworkState(networkState(false));
+    expect(isDeviceOffline()).toBe(true);
+    setNetworkState(networkState(true));
+    setNetworkState(networkState(true));
+
+    expect(isDeviceOffline()).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("treats a connection without internet as offline", () => {
+    const { setNetworkState } = useConnectivityStore.getState();
+
+    setNetworkState(networkState(true, false));
+    expect(isDeviceOffline()).toBe(true);
+    expect(listener).not.toHaveBeenCalled();
+
+    setNetworkState(networkState(true, true));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("fires when the backend answers again", () => {
+    const { reportApiReachable } = useConnectivityStore.getState();
+
+    reportApiReachable(false);
+    expect(listener).not.toHaveBeenCalled();
+    reportApiReachable(true);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("reachability probe", () => {
+  const probe = jest.fn<Promise<boolean>, []>();
+
+  beforeAll(() => {
+    setReachabilityProbe(probe);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    probe.mockReset();
+    useConnectivityStore.getState().setNetworkState(networkState(true));
+  });
+
+  afterEach(() => {
+    // Cancels any probe still pending
+    useConnectivityStore.getState().reportApiReachable(true);
+    jest.useRealTimers();
+  });
+
+  it("backs off until the backend answers, then clears the flag", async () => {
+    probe.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+    useConnectivityStore.getState().reportApiReachable(false);
+
+    await jest.advanceTimersByTimeAsync(5_000);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(useConnectivityStore.getState().isApiUnreachable).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(9_999);
+    expect(probe).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(probe).toHaveBeenCalledTimes(2);
+    expect(useConnectivityStore.getState().isApiUnreachable).toBe(false);
+  });
+
+  it("stops probing once a request gets through", async () => {
+    useConnectivityStore.getState().reportApiReachable(false);
+    useConnectivityStore.getState().reportApiReachable(true);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+
+    expect(probe).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { create } from "zustand";
+import * as Network from "expo-network";
+import { logger } from "../../lib/utils/logger";
+
+const PROBE_BASE_DELAY_MS = 5 * 1000;
+const PROBE_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// Checks whether the backend answers again; registered by the API client
+let reachabilityProbe: (() => Promise<boolean>) | null = null;
+let probeTimer: ReturnType<typeof setTimeout> | null = null;
+let probeAttempt = 0;
+
+const cancelProbe = () => {
+  if (probeTimer) {
+    clearTimeout(probeTimer);
+    probeTimer = null;
+  }
+  probeAttempt = 0;
+};
+
+interface ConnectivityState {
+  /** The device has a network connection */
+  isConnected: boolean;
+  /** Whether that connection reaches the internet; null until checked */
+  isInternetReachable: boolean | null;
+  networkType: Network.NetworkStateType | null;
+  /** The last API request never reached the backend */
+  isApiUnreachable: boolean;
+  lastChangedAt: number | null;
+
+  setNetworkState: (state: Network.NetworkState) => void;
+  /** Called by the API client after each request settles */
+  reportApiReachable: (reachable: boolean) => void;
+}
+
+export const useConnectivityStore = create<ConnectivityState>((set, get) => ({
+  isConnected: true,
+  isInternetReachable: null,
+  networkType: null,
+  isApiUnreachable: false,
+  lastChangedAt: null,
+
+  setNetworkState: (state) => {
+    const isConnected = state.isConnected !== false;
+    const isInternetReachable = state.isInternetReachable ?? null;
+    const wasOffline = isOffline(get());
+    set({
+      isConnected,
+      isInternetReachable,
+      networkType: state.type ?? null,
+      lastChangedAt: Date.now(),
+      // A new connection deserves a fresh attempt at the backend
+      ...(isConnected ? { isApiUnreachable: false } : {}),
+    });
+    if (isConnected) {
+      cancelProbe();
+    }
+    const nowOffline = isOffline(get());
+    if (wasOffline !== nowOffline) {
+      logger.info("Connectivity changed", { offline: nowOffline });
+    }
+  },
+
+  reportApiReachable: (reachable) => {
+    if (get().isApiUnreachable === !reachable) {
+      return;
+    }
+    set({ isApiUnreachable: !reachable, lastChangedAt: Date.now() });
+    if (reachable) {
+      cancelProbe();
+    } else {
+      scheduleProbe();
+    }
+  },
+}));
+
+export const isOffline = (
+  state: Pick<ConnectivityState, "isConnected" | "isInternetReachable">,
+) => !state.isConnected || state.isInternetReachable === false;
+
+/** Snapshot for code outside React, e.g. outboxes deciding to queue */
+export const isDeviceOffline = () => isOffline(useConnectivityStore.getState());
+
+const canReachApi = (
+  state: Pick<
+    ConnectivityState,
+    "isConnected" | "isInternetReachable" | "isApiUnreachable"
+  >,
+) => !isOffline(state) && !state.isApiUnreachable;
+
+/**
+ * Call `listener` each time the device comes back online or the backend
+ * answers again. Outboxes use this rather than their own network
+ * listeners, so they all agree with the offline banner.
+ */
+export const subscribeToReconnect = (listener: () => void) =>
+  useConnectivityStore.subscribe((state, previous) => {
+    if (!canReachApi(previous) && canReachApi(state)) {
+      listener();
+    }
+  });
+
+/**
+ * Register how to check the backend while it is unreachable. Without a
+ * probe the flag only clears on the next request or network change.
+ */
+export const setReachabilityProbe = (probe: () => Promise<boolean>) => {
+  reachabilityProbe = probe;
+};
+
+/** Probe with exponential backoff until the backend answers */
+const scheduleProbe = () => {
+  if (probeTimer || !reachabilityProbe) {
+    return;
+  }
+  const delay = Math.min(
+    PROBE_BASE_DELAY_MS * Math.pow(2, probeAttempt),
+    PROBE_MAX_DELAY_MS,
+  );
+  probeAttempt += 1;
+  probeTimer = setTimeout(async () => {
+    probeTimer = null;
+    const state = useConnectivityStore.getState();
+    // Cleared meanwhile, or waiting on the network listener instead
+    if (!state.isApiUnreachable || isOffline(state) || !reachabilityProbe) {
+      return;
+    }
+    let reachable = false;
+    try {
+      reachable = await reachabilityProbe();
+    } catch (error) {
+      logger.debug("Reachability probe failed", error);
+    }
+    if (!useConnectivityStore.getState().isApiUnreachable) {
+      return;
+    }
+    if (reachable) {
+      logger.info("Backend reachable again");
+      useConnectivityStore.getState().reportApiReachable(true);
+    } else {
+      scheduleProbe();
+    }
+  }, delay);
+};
+
+// Follow the device's network state for the lifetime of the app
+let connectivityMonitorInitialized = false;
+
+export const initializeConnectivityMonitor = () => {
+  if (connectivityMonitorInitialized) return;
+
+  connectivityMonitorInitialized = true;
+  const { setNetworkState } = useConnectivityStore.getState();
+
+  Network.getNetworkStateAsync()
+    .then(setNetworkState)
+    .catch((error) => {
+      logger.debug("Failed to read network state", error);
+    });
+  Network.addNetworkStateListener(setNetworkState);
+
+  logger.info("Connectivity monitor initialized");
+};
@@ -1,8 +1,24 @@
 import { create } from "zustand";
+import { AppState } from "react-native";
 import { documentsService } from "../../lib/services/documentsService";
+import { uploadFileToAPI } from "../../lib/services/fileUpload";
+import {
+  CHUNKED_UPLOAD_THRESHOLD_BYTES,
+  chunkedUploadService,
+  CreateUploadSessionInput,
+  getUploadProgress,
+  UploadSession,
+  uploadSessions,
+} from "../../lib/services/chunkedUpload";
 import { logger } from "../../lib/utils/logger";
-import type { Document, UploadDocumentRequest } from "../../lib/types";
+import type {
+  Document,
+  DocumentVersion,
+  ReplaceDocumentRequest,
+  UploadDocumentRequest,
+} from "../../lib/types";
 import { useAuthStore } from "../auth/authStore";
+import { subscribeToReconnect } from "../connectivity/connectivityStore";
 
 const DOCUMENTS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
@@ -22,6 +38,12 @@ interface DocumentsCacheEntry {
   userId: string;
 }
 
+const persistUploadSessions = (sessions: UploadSession[]) =>
+  uploadSessions.save(sessions, useAuthStore.getState().user?.uid);
+
+// Sessions currently being driven, so a resume never runs one twice
+const runningUploadIds = new Set<string>();
+
 interface DocumentsState {
   documents: Document[];
   isLoading: boolean;
@@ -29,6 +51,11 @@ interface DocumentsState {
   uploading: boolean;
   currentFilters: DocumentFilters | null;
   documentsCache: Record<string, DocumentsCacheEntry>;
+  uploadSessions: UploadSession[];
+  /** Aggregate progress (0-100) across unfinished chunked uploads */
+  uploadProgress: number | null;
+  documentVersions: Record<string, DocumentVersion[]>;
+  versionsLoadingId: string | null;
 
   fetchDocuments: (
     filters?: DocumentFilters,
@@ -36,10 +63,34 @@ interface DocumentsState {
   ) => Promise<void>;
   fetchDocumentById: (documentId: string) => Promise<void>;
   uploadDocument: (data: UploadDocumentRequest) => Promise<Document | null>;
+  replaceDocument: (
+    documentId: string,
+    data: ReplaceDocumentRequest,
+  ) => Promise<Document | null>;
+  fetchDocumentVersions: (documentId: string) => Promise<DocumentVersion[]>;
+  /**
+   * Host a local file and create its document record. Large files use a
+   * resumable chunked session, which is returned so callers can tell a
+   * paused upload from a failed one. With `replacesDocumentId` the file
+   * becomes a new version of that document instead.
+   */
+  uploadFile: (
+    input: CreateUploadSessionInput,
+    options?: { onProgress?: (progress: number) => void },
+  ) => Promise<{ session: UploadSession | null; document: Document | null }>;
+  startChunkedUpload: (
+    input: CreateUploadSessionInput,
+  ) => Promise<{ session: UploadSession; document: Document | null }>;
+  loadUploadSessions: () => Promise<void>;
+  resumeUploads: () => Promise<void>;
+  retryUpload: (uploadId: string) => Promise<void>;
+  discardUpload: (uploadId: string) => Promise<void>;
   deleteDocument: (documentId: string) => Promise<void>;
   downloadDocument: (documentId: string) => Promise<void>;
   clearError: () => void;
   clearCache: () => void;
+  /** Mark cached lists stale without clearing what is on screen */
+  invalidateCache: () => void;
 }
 
 const buildCacheKey = (filters?: DocumentFilters, userId?: string | null) => {
@@ -63,6 +114,10 @@ export const useDocumentsStore = create<DocumentsState>((set, get) => ({
   uploading: false,
   currentFilters: null,
   documentsCache: {},
+  uploadSessions: [],
+  uploadProgress: null,
+  documentVersions: {},
+  versionsLoadingId: null,
 
   fetchDocuments: async (filters, options) => {
     const userId = useAuthStore.getState().user?.uid;
@@ -153,6 +208,159 @@ export const useDocumentsStore = create<DocumentsState>((set, get) => ({
     }
   },
 
+  replaceDocument: async (documentId, data) => {
+    set({ uploading: true, error: null });
+    try {
+      const document = await documentsService.replaceDocument(documentId, data);
+      set((state) => {
+        const { [documentId]: _staleVersions, ...documentVersions } =
+          state.documentVersions;
+        return {
+          documents: state.documents.map((item) =>
+            item.id === documentId ? { ...item, ...document } : item,
+          ),
+          uploading: false,
+          documentsCache: {},
+          documentVersions,
+        };
+      });
+      return document;
+    } catch (error: any) {
+      const errorMessage =
+        error.response?.data?.error ||
+        error.message ||
+        "Failed to replace document";
+      logger.error("Error replacing document", error);
+      set({ error: errorMessage, uploading: false });
+      return null;
+    }
+  },
+
+  fetchDocumentVersions: async (documentId) => {
+    set({ versionsLoadingId: documentId });
+    try {
+      const versions = await documentsService.getDocumentVersions(documentId);
+      set((state) => ({
+        documentVersions: { ...state.documentVersions, [documentId]: versions },
+        versionsLoadingId:
+          state.versionsLoadingId === documentId
+            ? null
+            : state.versionsLoadingId,
+      }));
+      return versions;
+    } catch (error: any) {
+      logger.error("Error fetching document versions", error);
+      set((state) => ({
+        versionsLoadingId:
+          state.versionsLoadingId === documentId
+            ? null
+            : state.versionsLoadingId,
+      }));
+      throw error;
+    }
+  },
+
+  uploadFile: async (input, options) => {
+    if (input.fileSize > CHUNKED_UPLOAD_THRESHOLD_BYTES) {
+      const onProgress = options?.onProgress;
+      const unsubscribe = onProgress
+        ? useDocumentsStore.subscribe((state) => {
+            if (state.uploadProgress !== null) {
+              onProgress(state.uploadProgress);
+            }
+          })
+        : undefined;
+      try {
+        return await get().startChunkedUpload(input);
+      } finally {
+        unsubscribe?.();
+      }
+    }
+
+    const uploadResult = await uploadFileToAPI(
+      input.fileUri,
+      input.fileName,
+      input.mimeType,
+      { onProgress: options?.onProgress },
+    );
+    if (!uploadResult.success || !uploadResult.url) {
+      throw new Error(uploadResult.error || "Upload failed");
+    }
+
+    const file = {
+      fileName: input.fileName,
+      originalName: input.fileName,
+      filePath: uploadResult.url,
+      fileSize: input.fileSize,
+      mimeType: input.mimeType,
+    };
+    const document = input.replacesDocumentId
+      ? await get().replaceDocument(input.replacesDocumentId, file)
+      : await get().uploadDocument({
+          caseId: input.caseId,
+          documentType: input.documentType,
+          ...file,
+        });
+    return { session: null, document };
+  },
+
+  startChunkedUpload: async (input) => {
+    const prepared = await chunkedUploadService.prepareSession(input);
+    const sessions = [...get().uploadSessions, prepared];
+    set({
+      uploadSessions: sessions,
+      uploadProgress: getUploadProgress(sessions),
+    });
+    await persistUploadSessions(sessions);
+
+    return runUploadSession(prepared);
+  },
+
+  loadUploadSessions: async () => {
+    const userId = useAuthStore.getState().user?.uid;
+    const sessions = userId ? await uploadSessions.load(userId) : [];
+    set({
+      uploadSessions: sessions,
+      uploadProgress: getUploadProgress(sessions),
+    });
+  },
+
+  resumeUploads: async () => {
+    const pending = get().uploadSessions.filter(
+      (session) =>
+        (session.status === "paused" || session.status === "completed") &&
+        !runningUploadIds.has(session.id),
+    );
+
+    for (const session of pending) {
+      await runUploadSession(session);
+    }
+  },
+
+  retryUpload: async (uploadId) => {
+    const session = get().uploadSessions.find((item) => item.id === uploadId);
+    if (!session || runningUploadIds.has(uploadId)) {
+      return;
+    }
+    await runUploadSession(session);
+  },
+
+  discardUpload: async (uploadId) => {
+    const session = get().uploadSessions.find((item) => item.id === uploadId);
+    if (!session) {
+      return;
+    }
+    const sessions = get().uploadSessions.filter(
+      (item) => item.id !== uploadId,
+    );
+    set({
+      uploadSessions: sessions,
+      uploadProgress: getUploadProgress(sessions),
+    });
+    await persistUploadSessions(sessions);
+    await chunkedUploadService.discardFile(session);
+  },
+
   deleteDocument: async (documentId: string) => {
     set({ isLoading: true, error: null });
     try {
@@ -194,4 +402,129 @@ export const useDocumentsStore = create<DocumentsState>((set, get) => ({
   clearCache: () => {
     set({ documentsCache: {}, documents: [] });
   },
+
+  invalidateCache: () => {
+    set({ documentsCache: {} });
+  },
 }));
+
+const replaceUploadSession = (session: UploadSession) => {
+  const sessions = useDocumentsStore
+    .getState()
+    .uploadSessions.map((item) => (item.id === session.id ? session : item));
+  useDocumentsStore.setState({
+    uploadSessions: sessions,
+    uploadProgress: getUploadProgress(sessions),
+  });
+  return persistUploadSessions(sessions);
+};
+
+/**
+ * Drive a session to completion and create its document record, or the
+ * new version of the document it replaces. A session whose file is hosted
+ * but whose record failed stays "completed" so the next resume only
+ * retries the record.
+ */
+const runUploadSession = async (
+  initial: UploadSession,
+): Promise<{ session: UploadSession; document: Document | null }> => {
+  runningUploadIds.add(initial.id);
+  try {
+    const session =
+      initial.status === "completed" && initial.url
+        ? initial
+        : await chunkedUploadService.runSession(initial, (updated) => {
+            replaceUploadSession(updated).catch(() => undefined);
+          });
+    await replaceUploadSession(session);
+
+    if (session.status !== "completed" || !session.url) {
+      return { session, document: null };
+    }
+
+    const file = {
+      fileName: session.fileName,
+      originalName: session.fileName,
+      filePath: session.url,
+      fileSize: session.fileSize,
+      mimeType: session.mimeType,
+    };
+    const { replaceDocument, uploadDocument } = useDocumentsStore.getState();
+    const document = session.replacesDocumentId
+      ? await replaceDocument(session.replacesDocumentId, file)
+      : await uploadDocument({
+          caseId: session.caseId,
+          documentType: session.documentType,
+          ...file,
+        });
+
+    if (document) {
+      const sessions = useDocumentsStore
+        .getState()
+        .uploadSessions.filter((item) => item.id !== session.id);
+      useDocumentsStore.setState({
+        uploadSessions: sessions,
+        uploadProgress: getUploadProgress(sessions),
+      });
+      await persistUploadSessions(sessions);
+      await chunkedUploadService.discardFile(session);
+    }
+
+    return { session, document };
+  } finally {
+    runningUploadIds.delete(initial.id);
+  }
+};
+
+// Resume interrupted uploads on launch, sign-in, foregrounding and reconnect
+let uploadResumeInitialized = false;
+
+export const initializeUploadResume = () => {
+  if (uploadResumeInitialized) return;
+
+  uploadResumeInitialized = true;
+
+  let currentUserId = useAuthStore.getState().user?.uid ?? null;
+
+  const loadAndResume = async () => {
+    await useDocumentsStore.getState().loadUploadSessions();
+    await useDocumentsStore.getState().resumeUploads();
+  };
+
+  useAuthStore.subscribe((state) => {
+    const nextUserId = state.user?.uid ?? null;
+    if (nextUserId === currentUserId) {
+      return;
+    }
+    currentUserId = nextUserId;
+    loadAndResume().catch((error) => {
+      logger.warn("Failed to resume uploads", error);
+    });
+  });
+
+  subscribeToReconnect(() => {
+    useDocumentsStore
+      .getState()
+      .resumeUploads()
+      .catch((error) => {
+        logger.warn("Failed to resume uploads", error);
+      });
+  });
+
+  AppState.addEventListener("change", (appState) => {
+    if (appState === "active") {
+      useDocumentsStore
+        .getState()
+        .resumeUploads()
+        .catch((error) => {
+          logger.warn("Failed to resume uploads", error);
+        });
+    }
+  });
+
+  loadAndResume().catch((error) => {
+    logger.warn("Failed to resume uploads", error);
+  });
+
+  logger.info("Upload resume initialized");
+};
@@ -5,29 +5,60 @@ import {
   ChatMessage,
   Conversation,
 } from "../../lib/services/chat";
+import {
+  chatOutbox,
+  ChatOutboxEntry,
+  ChatOutboxInput,
+  getChatRetryDelay,
+  MAX_CHAT_SEND_ATTEMPTS,
+  toOutboxMessage,
+} from "../../lib/services/chatOutbox";
+import {
+  chatAttachments,
+  PendingChatAttachment,
+} from "../../lib/services/chatAttachments";
+import {
+  EmailDraft,
+  EmailDraftInput,
+  emailDrafts,
+  hasEmailDraftChanges,
+  isEmailDraftEmpty,
+} from "../../lib/services/emailDrafts";
+import { emailAttachments } from "../../lib/services/emailAttachments";
+import { isNetworkError } from "../../lib/services/caseOutbox";
+import { createIdempotencyKey } from "../../lib/api/retry";
+import i18n from "../../lib/i18n";
 import { mergeMessageIntoList } from "../../lib/utils/chatMessages";
 import { logger } from "../../lib/utils/logger";
+import {
+  fetchCachedQuery,
+  getQueryUpdatedAt,
+  queryClient,
+} from "../../lib/query/queryClient";
+import { queryKeys, STALE_TIMES } from "../../lib/query/queryKeys";
 import type { Message } from "../../lib/types";
+import { useAuthStore } from "../auth/authStore";
+import {
+  isDeviceOffline,
+  subscribeToReconnect,
+} from "../connectivity/connectivityStore";
 
-const EMAIL_CACHE_TTL = 2 * 60 * 1000; // 2 minutes
-const CONVERSATIONS_CACHE_TTL = 60 * 1000; // 1 minute
-const CHAT_MESSAGES_CACHE_TTL = 60 * 1000; // 1 minute
 const MAX_CHAT_MESSAGES = 200;
+const CHAT_SEND_TIMEOUT = 20 * 1000; // 20 seconds
+
+/** The latest messages of a room, as cached per room */
+interface ChatMessagesPage {
+  messages: ChatMessage[];
+  hasMore: boolean;
+  totalCount: number;
+}
 
 interface MessagesState {
   messages: Message[];
   emailInbox: Message[];
   emailSent: Message[];
   chatMessages: ChatMessage[];
-  chatMessagesCache: Record<
-    string,
-    {
-      messages: ChatMessage[];
-      hasMore: boolean;
-      totalCount: number;
-      lastFetchedAt: number;
-    }
-  >;
+  chatMessagesCache: Record<string, ChatMessagesPage>;
   conversations: Conversation[];
   unreadChatTotal: number;
   unreadEmailTotal: number;
@@ -43,6 +74,10 @@ interface MessagesState {
   lastMessagesFetchedAt: number | null;
   lastConversationsFetchedAt: number | null;
   lastConversationsUserId: string | null;
+  chatOutbox: ChatOutboxEntry[];
+  isFlushingChatOutbox: boolean;
+  emailDrafts: EmailDraft[];
+  isFlushingEmailOutbox: boolean;
 
   fetchMessages: (force?: boolean) => Promise<void>;
   refreshEmailSegments: () => void;
@@ -60,6 +95,11 @@ interface MessagesState {
     hasMore: boolean;
     totalCount: number;
   }>;
+  /**
+   * Cache the recent messages of a case's chat room without opening it,
+   * for views such as the case activity feed
+   */
+  prefetchCaseChat: (caseId: string, userId: string) => Promise<void>;
   loadOlderChatMessages: (
     caseId: string,
     beforeTimestamp: number,
@@ -76,6 +116,26 @@ interface MessagesState {
     clientId?: string,
     agentId?: string,
   ) => Promise<boolean>;
+  enqueueChatMessage: (input: ChatOutboxInput) => Promise<ChatMessage>;
+  loadChatOutbox: () => Promise<void>;
+  flushChatOutbox: () => Promise<void>;
+  retryChatMessage: (tempId: string) => void;
+  discardChatMessage: (tempId: string) => void;
+  editChatMessage: (messageId: string, content: string) => Promise<boolean>;
+  loadEmailDrafts: () => Promise<void>;
+  /** Create or update a draft; an emptied draft is deleted and null returned */
+  saveEmailDraft: (
+    input: EmailDraftInput,
+    draftId?: string | null,
+  ) => EmailDraft | null;
+  deleteEmailDraft: (draftId: string) => void;
+  /**
+   * Send a draft now, or leave it queued in the outbox when offline.
+   * Throws when the server rejects it; the draft is kept for editing.
+   */
+  sendEmailDraft: (draftId: string) => Promise<"sent" | "queued">;
+  flushEmailOutbox: () => Promise<void>;
+  deleteChatMessage: (messageId: string) => Promise<boolean>;
   subscribeToChatMessages: (
     roomId: string,
     onNewMessage: (message: ChatMessage) => void,
@@ -130,6 +190,221 @@ const segmentEmails = (messages: Message[]) => {
   };
 };
 
+/** Write local read-state changes through to the cached email list */
+const syncEmailQuery = (messages: Message[]) => {
+  const userId = useAuthStore.getState().user?.uid;
+  if (!userId) {
+    return;
+  }
+  queryClient.setQueryData<Message[]>(queryKeys.emails(userId), (cached) =>
+    cached === undefined ? undefined : messages,
+  );
+};
+
+const sortByTimestamp = (messages: ChatMessage[]) =>
+  messages.slice().sort((a, b) => a.timestamp - b.timestamp);
+
+const loadChatPage = async (roomId: string): Promise<ChatMessagesPage> => {
+  const result = await chatService.loadMessagesForRoom(roomId, 50);
+  return {
+    messages: sortByTimestamp(result.messages ?? []).slice(-MAX_CHAT_MESSAGES),
+    hasMore: result.hasMore,
+    totalCount: result.totalCount,
+  };
+};
+
+/** A room's latest page, from the query cache while it is fresh */
+const fetchChatPage = (
+  roomId: string,
+  options?: {
+    force?: boolean;
+    onCached?: (page: ChatMessagesPage) => void;
+  },
+) => {
+  const userId = useAuthStore.getState().user?.uid;
+  if (!userId) {
+    return loadChatPage(roomId);
+  }
+  return fetchCachedQuery({
+    queryKey: queryKeys.chatMessages(userId, roomId),
+    queryFn: () => loadChatPage(roomId),
+    staleTime: STALE_TIMES.chatMessages,
+    force: options?.force,
+    onCached: options?.onCached,
+  });
+};
+
+/**
+ * Queued messages for a room are not in Firebase yet, so they are layered
+ * over whatever was loaded until the outbox delivers them.
+ */
+const withOutboxMessages = (
+  messages: ChatMessage[],
+  roomId: string,
+  outbox: ChatOutboxEntry[],
+) => {
+  const queued = outbox
+    .filter((entry) => entry.roomId === roomId)
+    .filter((entry) => !messages.some((m) => m.id === entry.tempId))
+    .map(toOutboxMessage);
+  return queued.length > 0
+    ? sortByTimestamp([...messages, ...queued])
+    : messages;
+};
+
+const persistChatOutbox = (outbox: ChatOutboxEntry[]) =>
+  chatOutbox.save(outbox, useAuthStore.getState().user?.uid);
+
+const persistEmailDrafts = (drafts: EmailDraft[]) =>
+  emailDrafts.save(drafts, useAuthStore.getState().user?.uid);
+
+const updateEmailDraft = (draftId: string, patch: Partial<EmailDraft>) => {
+  const drafts = useMessagesStore
+    .getState()
+    .emailDrafts.map((draft) =>
+      draft.id === draftId
+        ? { ...draft, ...patch, updatedAt: Date.now() }
+        : draft,
+    );
+  useMessagesStore.setState({ emailDrafts: drafts });
+  persistEmailDrafts(drafts);
+};
+
+const getEmailDraft = (draftId: string) =>
+  useMessagesStore.getState().emailDrafts.find((draft) => draft.id === draftId);
+
+/**
+ * Point the composer's attachments at the copies already made for the
+ * draft, so an autosave does not swap them back to cache-directory URIs.
+ */
+const withRetainedUris = (
+  attachments: PendingChatAttachment[] | undefined,
+  previous: PendingChatAttachment[] | undefined,
+) => {
+  if (!attachments?.length || !previous?.length) {
+    return attachments;
+  }
+  const uris = new Map(
+    previous.map((attachment) => [attachment.id, attachment.uri]),
+  );
+  return attachments.map((attachment) => ({
+    ...attachment,
+    uri: uris.get(attachment.id) ?? attachment.uri,
+  }));
+};
+
+/**
+ * Copy a saved draft's picked files out of the cache directory. Copies of
+ * files that left the draft while copying are deleted again.
+ */
+const retainEmailDraftAttachments = async (draftId: string) => {
+  const pending = getEmailDraft(draftId)?.pendingAttachments ?? [];
+  const retained = await emailAttachments.retain(pending);
+
+  const current = getEmailDraft(draftId)?.pendingAttachments ?? [];
+  const currentIds = new Set(current.map((attachment) => attachment.id));
+  await emailAttachments.release(
+    retained.filter((attachment) => !currentIds.has(attachment.id)),
+  );
+  const updated = withRetainedUris(current, retained) ?? [];
+  if (
+    updated.some((attachment, index) => attachment.uri !== current[index].uri)
+  ) {
+    updateEmailDraft(draftId, { pendingAttachments: updated });
+  }
+};
+
+/**
+ * Upload the draft's local files, keeping the results on the draft so a
+ * retry after a dropped connection does not upload them again, then send.
+ */
+const deliverEmailDraft = async (draft: EmailDraft) => {
+  let attachments = draft.attachments ?? [];
+  if (draft.pendingAttachments?.length) {
+    const uploaded = await emailAttachments.upload(draft.pendingAttachments);
+    attachments = [...attachments, ...uploaded];
+    const retained = getEmailDraft(draft.id)?.pendingAttachments ?? [];
+    updateEmailDraft(draft.id, { attachments, pendingAttachments: [] });
+    await emailAttachments.release(retained);
+  }
+
+  await messagesService.sendEmail(
+    {
+      caseId: draft.caseId,
+      subject: draft.subject.trim(),
+      content: draft.content.trim(),
+      recipientId: draft.recipientId,
+      ...(attachments.length > 0 ? { attachments } : {}),
+    },
+    draft.idempotencyKey ?? draft.id,
+  );
+};
+
+/**
+ * Patch a message wherever it is shown: the open room and its cache. A null
+ * patch removes it. Matches queued messages by tempId as well.
+ */
+const patchChatMessage = (
+  state: MessagesState,
+  roomId: string,
+  messageId: string,
+  patch: Partial<ChatMessage> | null,
+) => {
+  const apply = (messages: ChatMessage[]) =>
+    patch
+      ? messages.map((m) =>
+          m.id === messageId || m.tempId === messageId ? { ...m, ...patch } : m,
+        )
+      : messages.filter((m) => m.id !== messageId && m.tempId !== messageId);
+  const existingCache = state.chatMessagesCache[roomId];
+  return {
+    chatMessages: apply(state.chatMessages),
+    chatMessagesCache: existingCache
+      ? {
+          ...state.chatMessagesCache,
+          [roomId]: {
+            ...existingCache,
+            messages: apply(existingCache.messages),
+          },
+        }
+      : state.chatMessagesCache,
+  };
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () =>
+        reject(
+          new Error(
+            i18n.t("chat.outbox.timeout", {
+              defaultValue: "Sending took too long",
+            }),
+          ),
+        ),
+      ms,
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+
+// Updated from Firebase `.info/connected`; null until the first report
+let isChatConnected: boolean | null = null;
+let chatRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const isChatOffline = () => isChatConnected === false;
+
+// Newest message time per room already acknowledged as delivered
+const deliveredThroughByRoom = new Map<string, number>();
+
 const computeUnreadChatTotal = (conversations: Conversation[]) =>
   conversations.reduce(
     (total, conversation) => total + (conversation.unreadCount || 0),
@@ -157,56 +432,76 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
   lastMessagesFetchedAt: null,
   lastConversationsFetchedAt: null,
   lastConversationsUserId: null,
+  chatOutbox: [],
+  isFlushingChatOutbox: false,
+  emailDrafts: [],
+  isFlushingEmailOutbox: false,
 
   fetchMessages: async (force = false) => {
-    const { lastMessagesFetchedAt, messages } = get();
-    const now = Date.now();
-    if (
-      !force &&
-      lastMessagesFetchedAt &&
-      messages.length > 0 &&
-      now - lastMessagesFetchedAt < EMAIL_CACHE_TTL
-    ) {
+    const userId = useAuthStore.getState().user?.uid;
+    if (!userId) {
+      logger.warn("Cannot fetch messages: user not authenticated");
       return;
     }
 
-    set({ isLoading: true, error: null });
-    try {
-      const [inboxMessages, sentMessages] = await Promise.all([
-        messagesService.getEmails({
-          direction: "incoming",
-          page: 1,
-          limit: 50,
-        }),
-        messagesService.getEmails({
-          direction: "outgoing",
-          page: 1,
-          limit: 50,
-        }),
-      ]);
-
-      const combined = [...inboxMessages, ...sentMessages].sort((a, b) => {
-        const timeA = a.sentAt ? new Date(a.sentAt).getTime() : 0;
-        const timeB = b.sentAt ? new Date(b.sentAt).getTime() : 0;
-        return timeB - timeA;
-      });
-
+    const applyEmails = (combined: Message[]) => {
       const { inbox, sent, unread } = segmentEmails(combined);
-
       set({
         messages: combined,
         emailInbox: inbox,
         emailSent: sent,
         unreadEmailTotal: unread,
         isLoading: false,
-        lastMessagesFetchedAt: Date.now(),
       });
+    };
+
+    const queryKey = queryKeys.emails(userId);
+    let hasCachedData = false;
+    set({ isLoading: true, error: null });
+    try {
+      const combined = await fetchCachedQuery({
+        queryKey,
+        queryFn: async () => {
+          const [inboxMessages, sentMessages] = await Promise.all([
+            messagesService.getEmails({
+              direction: "incoming",
+              page: 1,
+              limit: 50,
+            }),
+            messagesService.getEmails({
+              direction: "outgoing",
+              page: 1,
+              limit: 50,
+            }),
+          ]);
+
+          return [...inboxMessages, ...sentMessages].sort((a, b) => {
+            const timeA = a.sentAt ? new Date(a.sentAt).getTime() : 0;
+            const timeB = b.sentAt ? new Date(b.sentAt).getTime() : 0;
+            return timeB - timeA;
+          });
+        },
+        staleTime: STALE_TIMES.emails,
+        force,
+        onCached: (cachedEmails, fetchedAt) => {
+          hasCachedData = true;
+          applyEmails(cachedEmails);
+          set({ lastMessagesFetchedAt: fetchedAt });
+        },
+      });
+
+      applyEmails(combined);
+      set({ lastMessagesFetchedAt: getQueryUpdatedAt(queryKey) });
     } catch (error: any) {
       const errorMessage =
         error.response?.data?.error ||
         error.message ||
         "Failed to fetch messages";
       logger.error("Error fetching messages", error);
+      if (hasCachedData) {
+        set({ isLoading: false });
+        return;
+      }
       set({ error: errorMessage, isLoading: false });
     }
   },
@@ -237,40 +532,37 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
       return;
     }
 
-    const {
-      lastConversationsFetchedAt,
-      lastConversationsUserId,
-      conversations: existingConversations,
-    } = get();
-    const now = Date.now();
-
-    if (
-      !force &&
-      lastConversationsFetchedAt &&
-      lastConversationsUserId === userId &&
-      existingConversations.length > 0 &&
-      now - lastConversationsFetchedAt < CONVERSATIONS_CACHE_TTL
-    ) {
-      return;
-    }
-
-    set({ isConversationsLoading: true, conversationsError: null });
-    try {
-      const conversations = await chatService.loadConversations(userId);
-      // Clear any previous errors and set conversations (even if empty)
+    const queryKey = queryKeys.conversations(userId);
+    const applyConversations = (conversations: Conversation[]) =>
       set({
         conversations,
         unreadChatTotal: computeUnreadChatTotal(conversations),
         isConversationsLoading: false,
         conversationsError: null, // Explicitly clear error on success
-        lastConversationsFetchedAt: Date.now(),
+        lastConversationsFetchedAt: getQueryUpdatedAt(queryKey),
         lastConversationsUserId: userId,
       });
+
+    let hasCachedData = false;
+    set({ isConversationsLoading: true, conversationsError: null });
+    try {
+      const conversations = await fetchCachedQuery({
+        queryKey,
+        queryFn: () => chatService.loadConversations(userId),
+        staleTime: STALE_TIMES.conversations,
+        force,
+        onCached: (cachedConversations) => {
+          hasCachedData = true;
+          applyConversations(cachedConversations);
+        },
+      });
+      // Clear any previous errors and set conversations (even if empty)
+      applyConversations(conversations);
     } catch (error: any) {
       const message = error?.message || "Failed to load conversations";
       logger.error("Error loading conversations", error);
       set({
-        conversationsError: message,
+        conversationsError: hasCachedData ? null : message,
         isConversationsLoading: false,
       });
     }
@@ -289,6 +581,18 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     const unsubscribe = chatService.subscribeToConversationSummaries(
       userId,
       (conversations) => {
+        // New unread messages have reached this device: send delivery receipts
+        conversations.forEach((conversation) => {
+          const lastMessageTime = conversation.lastMessageTime ?? 0;
+          if (
+            conversation.unreadCount > 0 &&
+            lastMessageTime > (deliveredThroughByRoom.get(conversation.id) ?? 0)
+          ) {
+            deliveredThroughByRoom.set(conversation.id, lastMessageTime);
+            chatService.markMessagesAsDelivered(conversation.id, userId);
+          }
+        });
+
         set((state) => {
           // Merge backend conversations with local state to preserve optimistic updates
           // If a conversation was marked as read locally (unreadCount: 0), preserve that
@@ -332,6 +636,11 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
             lastConversationsUserId: userId,
           };
         });
+        // Live updates are the freshest copy there is
+        queryClient.setQueryData(
+          queryKeys.conversations(userId),
+          get().conversations,
+        );
       },
     );
 
@@ -384,68 +693,42 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
         }
       }
 
-      const { chatMessagesCache } = get();
-      const cacheKey = resolvedRoomId;
-      const cacheEntry = chatMessagesCache[cacheKey ?? ""];
-      const now = Date.now();
-
-      if (
-        !force &&
-        cacheEntry &&
-        now - cacheEntry.lastFetchedAt < CHAT_MESSAGES_CACHE_TTL
-      ) {
-        set({
-          chatMessages: cacheEntry.messages,
-          currentRoomId: resolvedRoomId,
+      const chatRoomId = resolvedRoomId;
+      const applyPage = (page: ChatMessagesPage) => {
+        const messages = withOutboxMessages(
+          page.messages,
+          chatRoomId,
+          get().chatOutbox,
+        );
+        set((state) => ({
+          chatMessages: messages,
+          currentRoomId: chatRoomId,
           currentCaseId: caseId,
           isLoading: false,
-        });
-
-        return {
-          roomId: resolvedRoomId,
-          messages: cacheEntry.messages,
-          hasMore: cacheEntry.hasMore,
-          totalCount: cacheEntry.totalCount,
-        };
-      }
-
-      set({ isLoading: true, currentRoomId: resolvedRoomId });
+          chatMessagesCache: {
+            ...state.chatMessagesCache,
+            [chatRoomId]: { ...page, messages },
+          },
+        }));
+        return messages;
+      };
 
-      const result = await chatService.loadMessagesForRoom(resolvedRoomId, 50);
+      set({ isLoading: true, currentRoomId: chatRoomId });
+      const page = await fetchChatPage(chatRoomId, {
+        force,
+        onCached: applyPage,
+      });
+      const messages = applyPage(page);
 
       logger.info("Loaded chat messages", {
         caseId,
-        roomId: resolvedRoomId,
-        messages: result.messages.length,
-        hasMore: result.hasMore,
-        totalCount: result.totalCount,
+        roomId: chatRoomId,
+        messages: messages.length,
+        hasMore: page.hasMore,
+        totalCount: page.totalCount,
       });
 
-      const sorted = (result.messages ?? [])
-        .slice()
-        .sort((a, b) => a.timestamp - b.timestamp);
-      const limited =
-        sorted.length > MAX_CHAT_MESSAGES
-          ? sorted.slice(sorted.length - MAX_CHAT_MESSAGES)
-          : sorted;
-
-      set((state) => ({
-        chatMessages: limited,
-        currentRoomId: resolvedRoomId,
-        currentCaseId: caseId,
-        isLoading: false,
-        chatMessagesCache: {
-          ...state.chatMessagesCache,
-          [resolvedRoomId!]: {
-            messages: limited,
-            hasMore: result.hasMore,
-            totalCount: result.totalCount,
-            lastFetchedAt: Date.now(),
-          },
-        },
-      }));
-
-      return { ...result, roomId: resolvedRoomId };
+      return { ...page, messages, roomId: chatRoomId };
     } catch (error: any) {
       const errorMessage = error.message || "Failed to load chat messages";
       logger.error("Error loading chat messages", error);
@@ -454,6 +737,27 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     }
   },
 
+  prefetchCaseChat: async (caseId: string, userId: string) => {
+    try {
+      // The conversation list is what ties a room to its case
+      await get().fetchConversations(userId);
+      const roomId =
+        get().conversations.find(
+          (conversation) => conversation.caseId === caseId,
+        )?.id ?? (await chatService.findRoomIdForCase(userId, caseId));
+      if (!roomId) {
+        return;
+      }
+
+      const page = await fetchChatPage(roomId);
+      set((state) => ({
+        chatMessagesCache: { ...state.chatMessagesCache, [roomId]: page },
+      }));
+    } catch (error) {
+      logger.warn("Failed to prefetch case chat", { caseId, error });
+    }
+  },
+
   loadOlderChatMessages: async (
     caseId: string,
     beforeTimestamp: number,
@@ -494,7 +798,6 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
                     existingCache.totalCount,
                     limited.length,
                   ),
-                  lastFetchedAt: Date.now(),
                 },
               }
             : state.chatMessagesCache,
@@ -541,6 +844,457 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     }
   },
 
+  enqueueChatMessage: async (input: ChatOutboxInput) => {
+    const entry = chatOutbox.createEntry({
+      ...input,
+      pendingAttachments: await chatAttachments.retain(
+        input.pendingAttachments,
+      ),
+    });
+    const message = toOutboxMessage(entry);
+
+    if (!get().chatOutbox.some((item) => item.tempId === entry.tempId)) {
+      const outbox = [...get().chatOutbox, entry];
+      set({ chatOutbox: outbox });
+      persistChatOutbox(outbox);
+      get().addChatMessage(message);
+    }
+
+    get()
+      .flushChatOutbox()
+      .catch((error) => {
+        logger.warn("Failed to flush chat outbox", error);
+      });
+    return message;
+  },
+
+  loadEmailDrafts: async () => {
+    const userId = useAuthStore.getState().user?.uid;
+    if (!userId) {
+      set({ emailDrafts: [] });
+      return;
+    }
+    set({ emailDrafts: await emailDrafts.load(userId) });
+  },
+
+  saveEmailDraft: (input, draftId) => {
+    const existing = draftId
+      ? get().emailDrafts.find((draft) => draft.id === draftId)
+      : undefined;
+
+    // An email being sent right now can no longer change, and saving an
+    // unchanged draft must not pull it out of the outbox
+    if (
+      existing &&
+      (existing.status === "sending" || !hasEmailDraftChanges(existing, input))
+    ) {
+      return existing;
+    }
+
+    if (isEmailDraftEmpty(input)) {
+      if (existing) {
+        get().deleteEmailDraft(existing.id);
+      }
+      return null;
+    }
+
+    const pendingAttachments = withRetainedUris(
+      input.pendingAttachments,
+      existing?.pendingAttachments,
+    );
+    // Editing a queued or failed email takes it out of the outbox until it
+    // is sent again, as a new email as far as the backend is concerned
+    const draft: EmailDraft = existing
+      ? {
+          ...existing,
+          ...input,
+          pendingAttachments,
+          idempotencyKey: createIdempotencyKey(),
+          status: "draft",
+          updatedAt: Date.now(),
+        }
+      : emailDrafts.createEntry(input);
+    const drafts = existing
+      ? get().emailDrafts.map((item) => (item.id === draft.id ? draft : item))
+      : [draft, ...get().emailDrafts];
+    set({ emailDrafts: drafts });
+    persistEmailDrafts(drafts);
+
+    const keptIds = new Set(
+      (pendingAttachments ?? []).map((attachment) => attachment.id),
+    );
+    void emailAttachments.release(
+      (existing?.pendingAttachments ?? []).filter(
+        (attachment) => !keptIds.has(attachment.id),
+      ),
+    );
+    void retainEmailDraftAttachments(draft.id);
+    return draft;
+  },
+
+  deleteEmailDraft: (draftId) => {
+    const removed = get().emailDrafts.find((draft) => draft.id === draftId);
+    const drafts = get().emailDrafts.filter((draft) => draft.id !== draftId);
+    set({ emailDrafts: drafts });
+    persistEmailDrafts(drafts);
+    void emailAttachments.release(removed?.pendingAttachments ?? []);
+  },
+
+  sendEmailDraft: async (draftId) => {
+    const draft = get().emailDrafts.find((item) => item.id === draftId);
+    if (!draft) {
+      throw new Error("Email draft not found");
+    }
+
+    if (isDeviceOffline()) {
+      updateEmailDraft(draftId, { status: "queued", lastError: null });
+      return "queued";
+    }
+
+    updateEmailDraft(draftId, { status: "sending", lastError: null });
+    try {
+      await deliverEmailDraft(draft);
+    } catch (error: any) {
+      const lastError =
+        error?.response?.data?.error || error?.message || "Send failed";
+      if (isNetworkError(error)) {
+        updateEmailDraft(draftId, {
+          status: "queued",
+          attempts: draft.attempts + 1,
+          lastError,
+        });
+        return "queued";
+      }
+      updateEmailDraft(draftId, {
+        status: "draft",
+        attempts: draft.attempts + 1,
+        lastError,
+      });
+      throw error;
+    }
+
+    get().deleteEmailDraft(draftId);
+    get()
+      .fetchMessages(true)
+      .catch(() => undefined);
+    logger.info("Email draft sent", { draftId, caseId: draft.caseId });
+    return "sent";
+  },
+
+  flushEmailOutbox: async () => {
+    const userId = useAuthStore.getState().user?.uid;
+    const hasQueued = get().emailDrafts.some(
+      (draft) => draft.status === "queued",
+    );
+    if (!userId || !hasQueued || get().isFlushingEmailOutbox) {
+      return;
+    }
+
+    set({ isFlushingEmailOutbox: true });
+
+    // Oldest first, so emails arrive in the order they were written
+    const queued = get()
+      .emailDrafts.filter((draft) => draft.status === "queued")
+      .sort((a, b) => a.updatedAt - b.updatedAt);
+    let sentCount = 0;
+
+    try {
+      for (const draft of queued) {
+        updateEmailDraft(draft.id, { status: "sending" });
+        try {
+          await deliverEmailDraft(draft);
+          get().deleteEmailDraft(draft.id);
+          sentCount += 1;
+        } catch (error: any) {
+          const lastError =
+            error?.response?.data?.error || error?.message || "Send failed";
+          if (isNetworkError(error)) {
+            // Connectivity dropped again; keep the rest queued for next time
+            updateEmailDraft(draft.id, {
+              status: "queued",
+              attempts: draft.attempts + 1,
+              lastError,
+            });
+            break;
+          }
+          logger.error("Failed to send queued email", {
+            draftId: draft.id,
+            caseId: draft.caseId,
+            error: lastError,
+          });
+          updateEmailDraft(draft.id, {
+            status: "failed",
+            attempts: draft.attempts + 1,
+            lastError,
+          });
+        }
+      }
+    } finally {
+      set({ isFlushingEmailOutbox: false });
+    }
+
+    if (sentCount > 0) {
+      logger.info("Email outbox flushed", { sentCount });
+      get()
+        .fetchMessages(true)
+        .catch(() => undefined);
+    }
+  },
+
+  loadChatOutbox: async () => {
+    const userId = useAuthStore.getState().user?.uid;
+    if (!userId) {
+      set({ chatOutbox: [] });
+      return;
+    }
+    const outbox = await chatOutbox.load(userId);
+    set((state) => ({
+      chatOutbox: outbox,
+      chatMessages: state.currentRoomId
+        ? withOutboxMessages(state.chatMessages, state.currentRoomId, outbox)
+        : state.chatMessages,
+    }));
+  },
+
+  flushChatOutbox: async () => {
+    const userId = useAuthStore.getState().user?.uid;
+    if (
+      !userId ||
+      isChatOffline() ||
+      get().isFlushingChatOutbox ||
+      get().chatOutbox.length === 0
+    ) {
+      return;
+    }
+
+    set({ isFlushingChatOutbox: true });
+
+    const updateEntry = (tempId: string, patch: Partial<ChatOutboxEntry>) => {
+      const outbox = get().chatOutbox.map((entry) =>
+        entry.tempId === tempId ? { ...entry, ...patch } : entry,
+      );
+      set({ chatOutbox: outbox });
+      persistChatOutbox(outbox);
+    };
+
+    const now = Date.now();
+    const dueIds = get()
+      .chatOutbox.filter(
+        (entry) => entry.status === "pending" && entry.nextAttemptAt <= now,
+      )
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((entry) => entry.tempId);
+
+    try {
+      for (const tempId of dueIds) {
+        // Re-read each entry: it may have been discarded while we were busy
+        const entry = get().chatOutbox.find((item) => item.tempId === tempId);
+        if (!entry || entry.status !== "pending") {
+          continue;
+        }
+
+        updateEntry(tempId, { status: "sending" });
+
+        try {
+          let attachments = entry.attachments;
+          if (entry.pendingAttachments.length > 0) {
+            let pendingAttachments = entry.pendingAttachments;
+            await chatAttachments.upload(
+              pendingAttachments,
+              (progress) =>
+                set((state) =>
+                  patchChatMessage(state, entry.roomId, entry.tempId, {
+                    uploadProgress: progress,
+                  }),
+                ),
+              // Keep each uploaded file, so neither a failed send nor a
+              // later file failing uploads it again
+              async (uploaded, source) => {
+                attachments = [...attachments, uploaded];
+                pendingAttachments = pendingAttachments.filter(
+                  (item) => item.id !== source.id,
+                );
+                updateEntry(tempId, { attachments, pendingAttachments });
+                await chatAttachments.release([source]);
+              },
+            );
+            set((state) =>
+              patchChatMessage(state, entry.roomId, entry.tempId, {
+                attachments,
+                uploadProgress: undefined,
+              }),
+            );
+          }
+
+          const sent = await withTimeout(
+            chatService.sendMessage(
+              entry.roomId,
+              entry.senderId,
+              entry.senderName,
+              entry.senderRole,
+              entry.message,
+              attachments.length > 0 ? attachments : undefined,
+              entry.clientId,
+              entry.agentId,
+              entry.tempId,
+              entry.replyTo,
+              entry.createdAt,
+            ),
+            CHAT_SEND_TIMEOUT,
+          );
+          if (!sent) {
+            throw new Error(
+              i18n.t("chat.outbox.sendFailed", {
+                defaultValue: "Message could not be sent",
+              }),
+            );
+          }
+
+          const outbox = get().chatOutbox.filter(
+            (item) => item.tempId !== tempId,
+          );
+          set((state) => ({
+            chatOutbox: outbox,
+            ...patchChatMessage(state, entry.roomId, entry.tempId, {
+              status: "sent",
+              error: undefined,
+              uploadProgress: undefined,
+            }),
+          }));
+          persistChatOutbox(outbox);
+        } catch (error: any) {
+          const attempts = entry.attempts + 1;
+          const failed = attempts >= MAX_CHAT_SEND_ATTEMPTS;
+          const lastError = error?.message || "Message could not be sent";
+          logger.warn("Failed to deliver queued chat message", {
+            tempId,
+            attempts,
+            error: lastError,
+          });
+          updateEntry(tempId, {
+            status: failed ? "failed" : "pending",
+            attempts,
+            nextAttemptAt: Date.now() + getChatRetryDelay(attempts),
+            lastError,
+          });
+          set((state) =>
+            patchChatMessage(state, entry.roomId, entry.tempId, {
+              status: failed ? "failed" : "pending",
+              error: failed ? lastError : undefined,
+              uploadProgress: undefined,
+            }),
+          );
+          if (isChatOffline()) {
+            // Connection dropped; the rest waits for the next reconnect
+            break;
+          }
+        }
+      }
+    } finally {
+      set({ isFlushingChatOutbox: false });
+      scheduleChatOutboxRetry();
+    }
+  },
+
+  retryChatMessage: (tempId: string) => {
+    const entry = get().chatOutbox.find((item) => item.tempId === tempId);
+    if (!entry || entry.status === "sending") {
+      return;
+    }
+    const outbox = get().chatOutbox.map((item) =>
+      item.tempId === tempId
+        ? {
+            ...item,
+            status: "pending" as const,
+            attempts: 0,
+            nextAttemptAt: Date.now(),
+            lastError: null,
+          }
+        : item,
+    );
+    set((state) => ({
+      chatOutbox: outbox,
+      ...patchChatMessage(state, entry.roomId, entry.tempId, {
+        status: "pending",
+        error: undefined,
+      }),
+    }));
+    persistChatOutbox(outbox);
+    get()
+      .flushChatOutbox()
+      .catch((error) => {
+        logger.warn("Failed to flush chat outbox", error);
+      });
+  },
+
+  discardChatMessage: (tempId: string) => {
+    const entry = get().chatOutbox.find((item) => item.tempId === tempId);
+    if (!entry || entry.status === "sending") {
+      return;
+    }
+    const outbox = get().chatOutbox.filter((item) => item.tempId !== tempId);
+    set((state) => ({
+      chatOutbox: outbox,
+      ...patchChatMessage(state, entry.roomId, entry.tempId, null),
+    }));
+    persistChatOutbox(outbox);
+    void chatAttachments.release(entry.pendingAttachments);
+  },
+
+  editChatMessage: async (messageId: string, content: string) => {
+    const roomId = get().currentRoomId;
+    const original = get().chatMessages.find((m) => m.id === messageId);
+    if (!roomId || !original) {
+      return false;
+    }
+
+    set((state) =>
+      patchChatMessage(state, roomId, messageId, {
+        message: content,
+        editedAt: Date.now(),
+      }),
+    );
+    const success = await chatService.editMessage(roomId, messageId, content);
+    if (!success) {
+      set((state) =>
+        patchChatMessage(state, roomId, messageId, {
+          message: original.message,
+          editedAt: original.editedAt,
+        }),
+      );
+    }
+    return success;
+  },
+
+  deleteChatMessage: async (messageId: string) => {
+    const roomId = get().currentRoomId;
+    const original = get().chatMessages.find((m) => m.id === messageId);
+    if (!roomId || !original) {
+      return false;
+    }
+
+    set((state) =>
+      patchChatMessage(state, roomId, messageId, {
+        message: "",
+        attachments: [],
+        replyTo: undefined,
+        deletedAt: Date.now(),
+      }),
+    );
+    const success = await chatService.deleteMessage(roomId, messageId);
+    if (!success) {
+      set((state) =>
+        patchChatMessage(state, roomId, messageId, {
+          message: original.message,
+          attachments: original.attachments,
+          replyTo: original.replyTo,
+          deletedAt: undefined,
+        }),
+      );
+    }
+    return success;
+  },
+
   subscribeToChatMessages: (
     roomId: string,
     onNewMessage: (message: ChatMessage) => void,
@@ -595,6 +1349,14 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
         });
       },
       lastKnownTimestamp,
+      (changedMessage) => {
+        set((state) => ({
+          chatMessages: mergeMessageIntoList(
+            state.chatMessages,
+            changedMessage,
+          ),
+        }));
+      },
     );
 
     set({ unsubscribeMessages: unsubscribe });
@@ -646,6 +1408,7 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
           unreadEmailTotal: unread,
         };
       });
+      syncEmailQuery(get().messages);
     } catch (error: any) {
       logger.error("Error marking message as read", error);
     }
@@ -685,6 +1448,7 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
         unreadEmailTotal: unread,
       };
     });
+    syncEmailQuery(get().messages);
   },
 
   markAllAsRead: async () => {
@@ -696,6 +1460,7 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
         emailSent: state.emailSent.map((m) => ({ ...m, unread: false })),
         unreadEmailTotal: 0,
       }));
+      syncEmailQuery(get().messages);
     } catch (error: any) {
       logger.error("Error marking all messages as read", error);
     }
@@ -739,7 +1504,6 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
             messages: merged,
             hasMore: existingCache?.hasMore ?? true,
             totalCount: Math.max(existingCache?.totalCount ?? 0, merged.length),
-            lastFetchedAt: Date.now(),
           },
         },
       };
@@ -764,3 +1528,158 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     set({ error: null, conversationsError: null });
   },
 }));
+
+/**
+ * Wake the outbox when the earliest backed-off message becomes due, so
+ * retries keep going without waiting for a reconnect.
+ */
+// Live changes to a room (new, edited and re-stated messages) are written
+// through to its query. The fetch time is kept, so freshness still follows
+// the last load; queued messages stay with the outbox, not the cache.
+useMessagesStore.subscribe((state, previous) => {
+  if (state.chatMessagesCache === previous.chatMessagesCache) {
+    return;
+  }
+  const userId = useAuthStore.getState().user?.uid;
+  if (!userId) {
+    return;
+  }
+  Object.entries(state.chatMessagesCache).forEach(([roomId, page]) => {
+    if (page === previous.chatMessagesCache[roomId]) {
+      return;
+    }
+    const queryKey = queryKeys.chatMessages(userId, roomId);
+    queryClient.setQueryData<ChatMessagesPage>(
+      queryKey,
+      {
+        ...page,
+        messages: page.messages.filter(
+          (message) => message.id !== message.tempId,
+        ),
+      },
+      { updatedAt: getQueryUpdatedAt(queryKey) ?? undefined },
+    );
+  });
+});
+
+const scheduleChatOutboxRetry = () => {
+  if (chatRetryTimer) {
+    clearTimeout(chatRetryTimer);
+    chatRetryTimer = null;
+  }
+  const pending = useMessagesStore
+    .getState()
+    .chatOutbox.filter((entry) => entry.status === "pending");
+  if (pending.length === 0 || isChatOffline()) {
+    return;
+  }
+  const nextAttemptAt = Math.min(
+    ...pending.map((entry) => entry.nextAttemptAt),
+  );
+  chatRetryTimer = setTimeout(
+    () => {
+      chatRetryTimer = null;
+      useMessagesStore
+        .getState()
+        .flushChatOutbox()
+        .catch((error) => {
+          logger.warn("Failed to flush chat outbox", error);
+        });
+    },
+    Math.max(nextAttemptAt - Date.now(), 0),
+  );
+};
+
+let chatOutboxInitialized = false;
+
+export const initializeChatOutbox = () => {
+  if (chatOutboxInitialized) return;
+
+  chatOutboxInitialized = true;
+
+  let currentUserId = useAuthStore.getState().user?.uid ?? null;
+
+  const loadAndFlush = async () => {
+    await useMessagesStore.getState().loadChatOutbox();
+    await useMessagesStore.getState().flushChatOutbox();
+  };
+
+  useAuthStore.subscribe((state) => {
+    const nextUserId = state.user?.uid ?? null;
+    if (nextUserId === currentUserId) {
+      return;
+    }
+    currentUserId = nextUserId;
+    loadAndFlush().catch((error) => {
+      logger.warn("Failed to load chat outbox", error);
+    });
+  });
+
+  chatService.subscribeToConnectionState((connected) => {
+    isChatConnected = connected;
+    if (!connected) {
+      return;
+    }
+    // Reconnecting resets the backoff: everything pending is due right away
+    const now = Date.now();
+    const outbox = useMessagesStore
+      .getState()
+      .chatOutbox.map((entry) =>
+        entry.status === "pending" ? { ...entry, nextAttemptAt: now } : entry,
+      );
+    useMessagesStore.setState({ chatOutbox: outbox });
+    useMessagesStore
+      .getState()
+      .flushChatOutbox()
+      .catch((error) => {
+        logger.warn("Failed to flush chat outbox", error);
+      });
+  });
+
+  loadAndFlush().catch((error) => {
+    logger.warn("Failed to load chat outbox", error);
+  });
+
+  logger.info("Chat outbox initialized");
+};
+
+let emailOutboxInitialized = false;
+
+export const initializeEmailOutbox = () => {
+  if (emailOutboxInitialized) return;
+
+  emailOutboxInitialized = true;
+
+  let currentUserId = useAuthStore.getState().user?.uid ?? null;
+
+  const loadAndFlush = async () => {
+    await useMessagesStore.getState().loadEmailDrafts();
+    await useMessagesStore.getState().flushEmailOutbox();
+  };
+
+  useAuthStore.subscribe((state) => {
+    const nextUserId = state.user?.uid ?? null;
+    if (nextUserId === currentUserId) {
+      return;
+    }
+    currentUserId = nextUserId;
+    loadAndFlush().catch((error) => {
+      logger.warn("Failed to load email drafts", error);
+    });
+  });
+
+  subscribeToReconnect(() => {
+    useMessagesStore
+      .getState()
+      .flushEmailOutbox()
+      .catch((error) => {
+        logger.warn("Failed to flush email outbox", error);
+      });
+  });
+
+  loadAndFlush().catch((error) => {
+    logger.warn("Failed to load email drafts", error);
+  });
+
+  logger.info("Email outbox initialized");
+};
@@ -1,26 +1,36 @@
 import { create } from "zustand";
 import { notificationsService } from "../../lib/services/notificationsService";
 import { logger } from "../../lib/utils/logger";
-import { secureStorage } from "../../lib/storage/secureStorage";
+import {
+  fetchCachedQuery,
+  getQueryUpdatedAt,
+  queryClient,
+} from "../../lib/query/queryClient";
+import { queryKeys, STALE_TIMES } from "../../lib/query/queryKeys";
 import type { Notification } from "../../lib/types";
 import { useAuthStore } from "../auth/authStore";
 
-const NOTIFICATIONS_CACHE_TTL = 2 * 60 * 1000; // 2 minutes (notifications change frequently)
-const UNREAD_COUNT_CACHE_TTL = 1 * 60 * 1000; // 1 minute
-const NOTIFICATIONS_CACHE_KEY_PREFIX = "notifications_cache_"; // Will be suffixed with user ID
-const UNREAD_COUNT_CACHE_KEY_PREFIX = "unread_count_cache_"; // Will be suffixed with user ID
-
-// Helper to get user-specific cache keys
-const getNotificationsCacheKey = (
-  userId: string | null | undefined,
-): string => {
-  if (!userId) return "notifications_cache_no_user";
-  return `${NOTIFICATIONS_CACHE_KEY_PREFIX}${userId}`;
-};
-
-const getUnreadCountCacheKey = (userId: string | null | undefined): string => {
-  if (!userId) return "unread_count_cache_no_user";
-  return `${UNREAD_COUNT_CACHE_KEY_PREFIX}${userId}`;
+/**
+ * Keep the cached list and count in step with a local change, so the next
+ * read does not bring back what the user just dismissed.
+ */
+const syncNotificationQueries = (
+  notifications: Notification[],
+  unreadCount: number,
+) => {
+  const userId = useAuthStore.getState().user?.uid;
+  if (!userId) {
+    return;
+  }
+  // Returning undefined leaves queries that were never fetched untouched
+  queryClient.setQueryData<Notification[]>(
+    queryKeys.notificationList(userId),
+    (cached) => (cached === undefined ? undefined : notifications),
+  );
+  queryClient.setQueryData<number>(
+    queryKeys.notificationUnreadCount(userId),
+    (cached) => (cached === undefined ? undefined : unreadCount),
+  );
 };
 
 interface NotificationsState {
@@ -48,9 +58,6 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
   lastFetched: null,
 
   fetchNotifications: async (options) => {
-    const force = options?.force || false;
-    const now = Date.now();
-
     // Get current user ID from auth store
     const userId = useAuthStore.getState().user?.uid;
     if (!userId) {
@@ -59,63 +66,30 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
       return;
     }
 
-    const cacheKey = getNotificationsCacheKey(userId);
-
-    // Check in-memory cache first
-    const lastFetched = get().lastFetched;
-    if (!force && get().notifications.length > 0 && lastFetched !== null) {
-      const timeSinceFetch = now - lastFetched;
-      if (timeSinceFetch < NOTIFICATIONS_CACHE_TTL) {
-        logger.debug("Notifications cache hit (in-memory)", { timeSinceFetch });
-        return;
-      }
-    }
-
-    // Check persistent cache (user-specific)
-    if (!force) {
-      try {
-        const cached = await secureStorage.get<{
-          notifications: Notification[];
-          fetchedAt: number;
-          userId?: string;
-        }>(cacheKey);
-        // Verify cache is for current user
-        if (
-          cached &&
-          cached.userId === userId &&
-          now - cached.fetchedAt < NOTIFICATIONS_CACHE_TTL
-        ) {
-          logger.debug("Notifications cache hit (persistent)", { userId });
+    const queryKey = queryKeys.notificationList(userId);
+    let hasCachedData = false;
+    set({ isLoading: true, error: null });
+    try {
+      const notifications = await fetchCachedQuery({
+        queryKey,
+        queryFn: () => notificationsService.getNotifications(),
+        staleTime: STALE_TIMES.notifications,
+        force: options?.force,
+        onCached: (cachedNotifications, fetchedAt) => {
+          hasCachedData = true;
           set({
-            notifications: cached.notifications,
+            notifications: cachedNotifications,
             isLoading: false,
-            error: null,
-            lastFetched: cached.fetchedAt,
+            lastFetched: fetchedAt,
           });
-          return;
-        }
-      } catch (error) {
-        logger.debug("Failed to read notifications cache", error);
-      }
-    }
-
-    set({ isLoading: true, error: null });
-    try {
-      const notifications = await notificationsService.getNotifications();
-      const fetchedAt = Date.now();
-
-      set({ notifications, isLoading: false, lastFetched: fetchedAt });
+        },
+      });
 
-      // Update persistent cache with user ID
-      try {
-        await secureStorage.set(cacheKey, {
-          notifications,
-          fetchedAt,
-          userId, // Store user ID for verification
-        });
-      } catch (error) {
-        logger.debug("Failed to save notifications cache", error);
-      }
+      set({
+        notifications,
+        isLoading: false,
+        lastFetched: getQueryUpdatedAt(queryKey),
+      });
     } catch (error: any) {
       const errorMessage =
         error.response?.data?.error ||
@@ -123,32 +97,12 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
         "Failed to fetch notifications";
       logger.error("Error fetching notifications", error);
 
-      // Try to use cached data on error (only if same user)
-      try {
-        const cached = await secureStorage.get<{
-          notifications: Notification[];
-          fetchedAt: number;
-          userId?: string;
-        }>(cacheKey);
-        // Verify cache is for current user
-        if (
-          cached &&
-          cached.userId === userId &&
-          cached.notifications.length > 0
-        ) {
-          logger.info("Using cached notifications due to fetch error", {
-            userId,
-          });
-          set({
-            notifications: cached.notifications,
-            isLoading: false,
-            error: null,
-            lastFetched: cached.fetchedAt,
-          });
-          return;
-        }
-      } catch (cacheError) {
-        logger.debug("Failed to read notifications cache on error", cacheError);
+      if (hasCachedData) {
+        logger.info("Using cached notifications due to fetch error", {
+          userId,
+        });
+        set({ isLoading: false });
+        return;
       }
 
       set({ error: errorMessage, isLoading: false });
@@ -156,9 +110,6 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
   },
 
   fetchUnreadCount: async (options) => {
-    const force = options?.force || false;
-    const now = Date.now();
-
     // Get current user ID from auth store
     const userId = useAuthStore.getState().user?.uid;
     if (!userId) {
@@ -166,66 +117,18 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
       return;
     }
 
-    const cacheKey = getUnreadCountCacheKey(userId);
-
-    // Check persistent cache (user-specific)
-    if (!force) {
-      try {
-        const cached = await secureStorage.get<{
-          count: number;
-          fetchedAt: number;
-          userId?: string;
-        }>(cacheKey);
-        // Verify cache is for current user
-        if (
-          cached &&
-          cached.userId === userId &&
-          now - cached.fetchedAt < UNREAD_COUNT_CACHE_TTL
-        ) {
-          logger.debug("Unread count cache hit", { userId });
-          set({ unreadCount: cached.count });
-          return;
-        }
-      } catch (error) {
-        logger.debug("Failed to read unread count cache", error);
-      }
-    }
-
     try {
-      const count = await notificationsService.getUnreadCount();
+      const count = await fetchCachedQuery({
+        queryKey: queryKeys.notificationUnreadCount(userId),
+        queryFn: () => notificationsService.getUnreadCount(),
+        staleTime: STALE_TIMES.notificationUnreadCount,
+        force: options?.force,
+        onCached: (cachedCount) => set({ unreadCount: cachedCount }),
+      });
       set({ unreadCount: count });
-
-      // Update persistent cache with user ID
-      try {
-        await secureStorage.set(cacheKey, {
-          count,
-          fetchedAt: now,
-          userId, // Store user ID for verification
-        });
-      } catch (error) {
-        logger.debug("Failed to save unread count cache", error);
-      }
     } catch (error: any) {
+      // The cached count, if any, is already showing
       logger.error("Error fetching unread count", error);
-
-      // Try to use cached data on error (only if same user)
-      try {
-        const cached = await secureStorage.get<{
-          count: number;
-          fetchedAt: number;
-          userId?: string;
-        }>(cacheKey);
-        // Verify cache is for current user
-        if (cached && cached.userId === userId && cached !== null) {
-          logger.info("Using cached unread count due to fetch error", {
-            userId,
-          });
-          set({ unreadCount: cached.count });
-          return;
-        }
-      } catch (cacheError) {
-        logger.debug("Failed to read unread count cache on error", cacheError);
-      }
     }
   },
 
@@ -238,6 +141,7 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
         ),
         unreadCount: Math.max(0, state.unreadCount - 1),
       }));
+      syncNotificationQueries(get().notifications, get().unreadCount);
     } catch (error: any) {
       logger.error("Error marking notification as read", error);
     }
@@ -253,6 +157,7 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
         })),
         unreadCount: 0,
       }));
+      syncNotificationQueries(get().notifications, 0);
     } catch (error: any) {
       logger.error("Error marking all notifications as read", error);
     }
@@ -274,6 +179,7 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
             : state.unreadCount,
         };
       });
+      syncNotificationQueries(get().notifications, get().unreadCount);
     } catch (error: any) {
       const errorMessage =
         error.response?.data?.error ||
@@ -289,17 +195,10 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
   },
 
   clearCache: async () => {
-    try {
-      const userId = useAuthStore.getState().user?.uid;
-      if (userId) {
-        const notificationsKey = getNotificationsCacheKey(userId);
-        const unreadCountKey = getUnreadCountCacheKey(userId);
-        await secureStorage.delete(notificationsKey);
-        await secureStorage.delete(unreadCountKey);
-      }
-      set({ lastFetched: null });
-    } catch (error) {
-      logger.debug("Failed to clear notifications cache", error);
+    const userId = useAuthStore.getState().user?.uid;
+    if (userId) {
+      queryClient.removeQueries({ queryKey: queryKeys.notifications(userId) });
     }
+    set({ lastFetched: null });
   },
 }));
@@ -1,5 +1,7 @@
 import { create } from "zustand";
 import { profileService } from "../../lib/services/profileService";
+import { documentVault } from "../../lib/services/documentVault";
+import { useAuthStore } from "../auth/authStore";
 import { logger } from "../../lib/utils/logger";
 import type { UserProfile } from "../../lib/types";
 
@@ -96,6 +98,7 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
     set({ isLoading: true, error: null });
     try {
       await profileService.deleteAccount();
+      await documentVault.wipe(useAuthStore.getState().user?.uid);
       set({ profile: null, isLoading: false });
     } catch (error: any) {
       const errorMessage =
@@ -0,0 +1,77 @@
+/**
+ * In-memory replacement for expo-file-system/legacy. Use it from a test
+ * with `jest.mock("expo-file-system/legacy", () =>
+ * require("<path>/test/mocks/fileSystem").createMemoryFileSystem())`.
+ */
+export const createMemoryFileSystem = () => {
+  const files = new Map<string, Buffer>();
+
+  const read = (uri: string) => {
+    const file = files.get(uri);
+    if (!file) {
+      throw new Error(`File not found: ${uri}`);
+    }
+    return file;
+  };
+
+  return {
+    files,
+    documentDirectory: "file:///documents/",
+    cacheDirectory: "file:///cache/",
+    EncodingType: { UTF8: "utf8", Base64: "base64" } as const,
+
+    async makeDirectoryAsync() {},
+
+    async getInfoAsync(uri: string) {
+      const file = files.get(uri);
+      return file
+        ? { exists: true, isDirectory: false, uri, size: file.length }
+        : { exists: false, isDirectory: false, uri };
+    },
+
+    async copyAsync({ from, to }: { from: string; to: string }) {
+      files.set(to, Buffer.from(read(from)));
+    },
+
+    async moveAsync({ from, to }: { from: string; to: string }) {
+      files.set(to, read(from));
+      files.delete(from);
+    },
+
+    async deleteAsync(uri: string, options?: { idempotent?: boolean }) {
+      if (!files.delete(uri) && !options?.idempotent) {
+        throw new Error(`File not found: ${uri}`);
+      }
+    },
+
+    async readAsStringAsync(
+      uri: string,
+      options?: { encoding?: string; position?: number; length?: number },
+    ) {
+      const file = read(uri);
+      const start = options?.position ?? 0;
+      const end =
+        options?.length !== undefined ? start + options.length : file.length;
+      const slice = file.subarray(start, end);
+      return options?.encoding === "base64"
+        ? slice.toString("base64")
+        : slice.toString("utf8");
+    },
+
+    async writeAsStringAsync(
+      uri: string,
+      contents: string,
+      options?: { encoding?: string },
+    ) {
+      files.set(
+        uri,
+        Buffer.from(
+          contents,
+          options?.encoding === "base64" ? "base64" : "utf8",
+        ),
+      );
+    },
+  };
+};
+
+export type MemoryFileSystem = ReturnType<typeof createMemoryFileSystem>;
@@ -0,0 +1,175 @@
+import {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+
+/**
+ * In-memory stand-in for the chunked upload endpoints, plugged into axios
+ * as an adapter. Tests script failures per chunk and can expire sessions
+ * the way the backend does after its TTL.
+ */
+
+interface MockSession {
+  id: string;
+  fileName: string;
+  totalChunks: number;
+  chunks: Map<number, string>;
+  expired: boolean;
+}
+
+/** HTTP status to answer with, or "network" for a dropped connection */
+type ScriptedFailure = number | "network";
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+}
+
+const respond = (
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown,
+): Promise<AxiosResponse> => {
+  const response: AxiosResponse = {
+    data,
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+  };
+  if (status >= 400) {
+    return Promise.reject(
+      new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500
+          ? AxiosError.ERR_BAD_RESPONSE
+          : AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        response,
+      ),
+    );
+  }
+  return Promise.resolve(response);
+};
+
+const parseBody = (data: unknown) =>
+  typeof data === "string" ? JSON.parse(data) : (data ?? {});
+
+export const createMockUploadServer = () => {
+  const sessions = new Map<string, MockSession>();
+  const chunkFailures = new Map<number, ScriptedFailure[]>();
+  const requests: RecordedRequest[] = [];
+  let nextSessionId = 1;
+
+  const adapter: AxiosAdapter = async (config) => {
+    const method = (config.method ?? "get").toUpperCase();
+    const url = config.url ?? "";
+    requests.push({ method, url });
+
+    if (method === "POST" && url === "/uploads/sessions") {
+      const body = parseBody(config.data);
+      const session: MockSession = {
+        id: `session-${nextSessionId++}`,
+        fileName: body.fileName,
+        totalChunks: body.totalChunks,
+        chunks: new Map(),
+        expired: false,
+      };
+      sessions.set(session.id, session);
+      return respond(config, 201, {
+        success: true,
+        data: { sessionId: session.id },
+      });
+    }
+
+    const match = url.match(
+      /^\/uploads\/sessions\/([^/]+)(?:\/(chunks)\/(\d+)|\/(complete))?$/,
+    );
+    const session = match ? sessions.get(match[1]) : undefined;
+    if (!match || !session) {
+      return respond(config, 404, { success: false, error: "Not found" });
+    }
+    if (session.expired) {
+      return respond(config, 410, {
+        success: false,
+        error: "Upload session expired",
+      });
+    }
+
+    if (method === "GET" && !match[2] && !match[4]) {
+      return respond(config, 200, {
+        success: true,
+        data: { receivedChunks: [...session.chunks.keys()] },
+      });
+    }
+
+    if (method === "PUT" && match[2]) {
+      const index = Number(match[3]);
+      const failure = chunkFailures.get(index)?.shift();
+      if (failure === "network") {
+        return Promise.reject(
+          new AxiosError("Network Error", AxiosError.ERR_NETWORK, config),
+        );
+      }
+      if (failure !== undefined) {
+        return respond(config, failure, {
+          success: false,
+          error: `Chunk ${index} rejected`,
+        });
+      }
+      session.chunks.set(index, parseBody(config.data).data);
+      return respond(config, 200, { success: true });
+    }
+
+    if (method === "POST" && match[4]) {
+      if (session.chunks.size < session.totalChunks) {
+        return respond(config, 400, {
+          success: false,
+          error: "Upload is missing chunks",
+        });
+      }
+      return respond(config, 200, {
+        success: true,
+        data: { url: `https://files.test/${session.id}/${session.fileName}` },
+      });
+    }
+
+    return respond(config, 405, { success: false, error: "Not allowed" });
+  };
+
+  return {
+    adapter,
+    requests,
+    sessions,
+    /** Answer the next uploads of a chunk with these failures, in order */
+    failChunk(index: number, ...failures: ScriptedFailure[]) {
+      chunkFailures.set(index, [
+        ...(chunkFailures.get(index) ?? []),
+        ...failures,
+      ]);
+    },
+    /** Store chunks as if an earlier run had sent them */
+    receiveChunks(sessionId: string, indexes: number[]) {
+      const session = sessions.get(sessionId);
+      indexes.forEach((index) => session?.chunks.set(index, ""));
+    },
+    expireSession(sessionId: string) {
+      const session = sessions.get(sessionId);
+      if (session) {
+        session.expired = true;
+      }
+    },
+    chunkUploads(index?: number) {
+      return requests.filter(
+        (request) =>
+          request.method === "PUT" &&
+          (index === undefined || request.url.endsWith(`/chunks/${index}`)),
+      );
+    },
+  };
+};
+
+export type MockUploadServer = ReturnType<typeof createMockUploadServer>;